@@ -1,4 +1,5 @@
 import { Handler } from '@netlify/functions';
+import { randomUUID } from 'crypto';
 
 // Retry configuration
 const RETRY_ATTEMPTS = 3;
@@ -37,7 +38,7 @@ export const handler: Handler = async (event, context) => {
       statusCode: 405,
       headers: {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, x-webhook-signature, x-webhook-timestamp, idempotency-key, x-idempotency-key',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
       },
       body: JSON.stringify({ error: 'Method not allowed' }),
@@ -50,7 +51,7 @@ export const handler: Handler = async (event, context) => {
       statusCode: 200,
       headers: {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, x-webhook-signature, x-webhook-timestamp, idempotency-key, x-idempotency-key',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
       },
       body: '',
@@ -123,7 +124,12 @@ export const handler: Handler = async (event, context) => {
     const supabaseWebhookUrl = `${supabaseUrl}/functions/v1/webhook-checkin/${userId}/${webhookToken}`;
     
     console.log('Forwarding webhook to:', supabaseWebhookUrl);
-    
+
+    // One key per incoming event, shared by every retry below, so a retry after a timeout
+    // can't store the check-in twice. The caller's own key (if any) is forwarded as well.
+    const callerIdempotencyKey = event.headers['idempotency-key'] || event.headers['x-idempotency-key'];
+    const proxyIdempotencyKey = randomUUID();
+
     const { response, responseData } = await withRetry(async () => {
       const response = await fetch(supabaseWebhookUrl, {
         method: 'POST',
@@ -134,6 +140,13 @@ export const handler: Handler = async (event, context) => {
           ...(event.headers['x-webhook-signature'] && {
             'x-webhook-signature': event.headers['x-webhook-signature']
           }),
+          ...(event.headers['x-webhook-timestamp'] && {
+            'x-webhook-timestamp': event.headers['x-webhook-timestamp']
+          }),
+          ...(callerIdempotencyKey && {
+            'idempotency-key': callerIdempotencyKey
+          }),
+          'x-proxy-idempotency-key': proxyIdempotencyKey,
         },
         body: event.body,
       });
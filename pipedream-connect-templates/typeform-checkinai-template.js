@@ -121,7 +121,9 @@ export default defineComponent({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'User-Agent': 'Pipedream-Typeform-CheckinAI/1.0'
+          'User-Agent': 'Pipedream-Typeform-CheckinAI/1.0',
+          // Lets CheckinAI dedupe retried deliveries of the same response
+          'Idempotency-Key': `typeform:${formResponse.token}`
         },
         body: JSON.stringify(checkinData)
       });
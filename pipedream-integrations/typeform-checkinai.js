@@ -81,6 +81,8 @@ export default defineComponent({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // Lets CheckinAI dedupe retried deliveries of the same response
+          'Idempotency-Key': `typeform:${formResponse.token}`,
         },
         body: JSON.stringify(checkinData)
       });
@@ -13,6 +13,11 @@ import ClientProfile from './pages/ClientProfile';
 import ClientForm from './pages/ClientForm';
 import IntegrationsPage from './pages/IntegrationsPage';
 import IntegrationCallbackPage from './pages/IntegrationCallbackPage';
+import CheckinSearchPage from './pages/CheckinSearchPage';
+import TeamInvitePage from './pages/TeamInvitePage';
+import AdminLogsPage from './pages/AdminLogsPage';
+import ClientPortalPage from './pages/ClientPortalPage';
+import ClientPortalAuthPage from './pages/ClientPortalAuthPage';
 import { logService } from './lib/supabase';
 
 function App() {
@@ -54,6 +59,11 @@ function App() {
         <Router>
           <Routes>
             <Route path="/auth" element={<AuthPage />} />
+
+            {/* Client self-service portal - clients sign in with magic links, not coach accounts */}
+            <Route path="/portal" element={<ClientPortalPage />} />
+            <Route path="/portal/auth" element={<ClientPortalAuthPage />} />
+
             <Route path="/account-settings" element={
               <ProtectedRoute>
                 <AccountSettingsPage />
@@ -64,6 +74,11 @@ function App() {
                 <IntegrationsPage />
               </ProtectedRoute>
             } />
+            <Route path="/team/accept" element={
+              <ProtectedRoute>
+                <TeamInvitePage />
+              </ProtectedRoute>
+            } />
             <Route path="/integrations/callback" element={
               <ProtectedRoute>
                 <IntegrationCallbackPage />
@@ -114,6 +129,20 @@ function App() {
                 <CheckinAIApp />
               </ProtectedRoute>
             } />
+
+            {/* Semantic search across all check-ins */}
+            <Route path="/search" element={
+              <ProtectedRoute>
+                <CheckinSearchPage />
+              </ProtectedRoute>
+            } />
+
+            {/* Admin event log viewer */}
+            <Route path="/admin/logs" element={
+              <ProtectedRoute requiredRole="admin">
+                <AdminLogsPage />
+              </ProtectedRoute>
+            } />
           </Routes>
         </Router>
       </AuthProvider>
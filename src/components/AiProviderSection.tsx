@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, CheckCircle, AlertCircle } from 'lucide-react';
+import { aiSettingsService, type AiProvider, type EmbeddingProvider } from '../lib/supabase';
+
+const PROVIDER_LABELS: Record<AiProvider, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Self-hosted (OpenAI-compatible)'
+};
+
+const EMBEDDING_PROVIDERS: EmbeddingProvider[] = ['openai', 'azure', 'local'];
+
+const AiProviderSection: React.FC = () => {
+  const [provider, setProvider] = useState<AiProvider | null>(null);
+  const [chatModel, setChatModel] = useState('');
+  const [embeddingProvider, setEmbeddingProvider] = useState<EmbeddingProvider | null>(null);
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    const settings = await aiSettingsService.getSettings();
+
+    if (settings) {
+      setProvider(settings.provider);
+      setChatModel(settings.chat_model ?? '');
+      setEmbeddingProvider(settings.embedding_provider);
+      setEmbeddingModel(settings.embedding_model ?? '');
+    }
+    setIsLoading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setStatus(null);
+
+    const saved = await aiSettingsService.saveSettings({
+      provider,
+      chat_model: chatModel.trim() || null,
+      embedding_provider: embeddingProvider,
+      embedding_model: embeddingModel.trim() || null
+    });
+
+    setStatus(saved
+      ? { type: 'success', message: 'AI provider saved' }
+      : { type: 'error', message: 'Failed to save AI provider' });
+    setIsSaving(false);
+  };
+
+  // What embeddings use when left on "Same as chat"
+  const inheritedEmbeddingLabel = provider && provider !== 'anthropic'
+    ? PROVIDER_LABELS[provider]
+    : 'deployment default';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center space-x-2">
+        <Cpu className="w-5 h-5" />
+        <span>AI Provider</span>
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        Which model provider analyses check-ins and answers in the AI chat. Only providers set up for
+        this deployment will work; leave a field empty to use the deployment default.
+      </p>
+
+      {isLoading ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading AI settings...</div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Chat and analysis</label>
+              <select
+                value={provider ?? ''}
+                onChange={(e) => setProvider((e.target.value || null) as AiProvider | null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Deployment default</option>
+                {(Object.keys(PROVIDER_LABELS) as AiProvider[]).map(name => (
+                  <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {provider === 'azure' ? 'Deployment name' : 'Model'}
+              </label>
+              <input
+                type="text"
+                value={chatModel}
+                onChange={(e) => setChatModel(e.target.value)}
+                placeholder="Provider default"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Embeddings (search and similar cases)</label>
+              <select
+                value={embeddingProvider ?? ''}
+                onChange={(e) => setEmbeddingProvider((e.target.value || null) as EmbeddingProvider | null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Same as chat ({inheritedEmbeddingLabel})</option>
+                {EMBEDDING_PROVIDERS.map(name => (
+                  <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Embedding model</label>
+              <input
+                type="text"
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value)}
+                placeholder="Provider default"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Embedding models must produce 1536-dimension vectors. Check-ins embedded with a different
+            model won't match searches until they are re-embedded, so change embeddings sparingly.
+          </p>
+
+          {status && (
+            <div className={`p-3 rounded-lg flex items-center space-x-2 text-sm ${
+              status.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              <span>{status.message}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default AiProviderSection;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { AlertTriangle, Lightbulb, Target, ClipboardList, Smile, Users } from 'lucide-react';
+import type { CheckinAnalysis, RiskLevel } from '../lib/supabase';
+
+interface CheckinAnalysisPanelsProps {
+  analysis: CheckinAnalysis;
+}
+
+export const RISK_STYLES: Record<RiskLevel, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const sentimentColor = (score: number) => {
+  if (score >= 0.25) return 'text-green-600';
+  if (score <= -0.25) return 'text-red-600';
+  return 'text-gray-600';
+};
+
+const Panel: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <div className="border border-gray-200 rounded-lg p-4">
+    <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+      {icon}
+      {title}
+    </h3>
+    {children}
+  </div>
+);
+
+const CheckinAnalysisPanels: React.FC<CheckinAnalysisPanelsProps> = ({ analysis }) => {
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-700">{analysis.summary}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Panel title="Sentiment" icon={<Smile className="h-4 w-4 text-indigo-600" />}>
+          <div className="flex items-baseline gap-2">
+            <span className={`text-2xl font-bold ${sentimentColor(analysis.sentiment_score)}`}>
+              {analysis.sentiment_score > 0 ? '+' : ''}{analysis.sentiment_score.toFixed(2)}
+            </span>
+            <span className="text-sm text-gray-600 capitalize">{analysis.sentiment_label}</span>
+          </div>
+          {/* -1 … 1 mapped onto the bar width */}
+          <div className="mt-2 h-1.5 bg-gray-100 rounded-full relative">
+            <div
+              className="absolute top-0 h-1.5 w-1.5 rounded-full bg-indigo-600"
+              style={{ left: `calc(${((analysis.sentiment_score + 1) / 2) * 100}% - 3px)` }}
+            />
+          </div>
+        </Panel>
+
+        <Panel title="Risk" icon={<AlertTriangle className="h-4 w-4 text-red-500" />}>
+          <span className={`inline-block text-xs px-2 py-1 rounded-full font-medium capitalize ${RISK_STYLES[analysis.risk_level]}`}>
+            {analysis.risk_level} risk
+          </span>
+          {analysis.risk_flags.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No risk flags</p>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {analysis.risk_flags.map((flag, index) => (
+                <li key={index} className="text-sm">
+                  <span className={`text-xs px-1.5 py-0.5 rounded mr-2 capitalize ${RISK_STYLES[flag.severity]}`}>
+                    {flag.severity}
+                  </span>
+                  <span className="font-medium text-gray-900">{flag.flag}</span>
+                  {flag.evidence && <p className="text-gray-500 mt-0.5">{flag.evidence}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Panel>
+      </div>
+
+      {analysis.key_insights.length > 0 && (
+        <Panel title="Key Insights" icon={<Lightbulb className="h-4 w-4 text-yellow-500" />}>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+            {analysis.key_insights.map((insight, index) => (
+              <li key={index}>{insight}</li>
+            ))}
+          </ul>
+        </Panel>
+      )}
+
+      {analysis.recommended_actions.length > 0 && (
+        <Panel title="Recommended Actions" icon={<Target className="h-4 w-4 text-green-600" />}>
+          <ul className="space-y-2">
+            {analysis.recommended_actions.map((action, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+                <span className={`text-xs px-1.5 py-0.5 rounded capitalize shrink-0 ${RISK_STYLES[action.priority]}`}>
+                  {action.priority}
+                </span>
+                {action.action}
+              </li>
+            ))}
+          </ul>
+        </Panel>
+      )}
+
+      {analysis.plan_changes.length > 0 && (
+        <Panel title="Suggested Plan Changes" icon={<ClipboardList className="h-4 w-4 text-indigo-600" />}>
+          <ul className="space-y-2 text-sm">
+            {analysis.plan_changes.map((change, index) => (
+              <li key={index}>
+                <span className="font-medium text-gray-900 capitalize">{change.area}:</span>{' '}
+                <span className="text-gray-700">{change.change}</span>
+                {change.rationale && <p className="text-gray-500 mt-0.5">{change.rationale}</p>}
+              </li>
+            ))}
+          </ul>
+        </Panel>
+      )}
+
+      {analysis.similar_cases_notes && (
+        <Panel title="Similar Cases" icon={<Users className="h-4 w-4 text-gray-500" />}>
+          <p className="text-sm text-gray-700">{analysis.similar_cases_notes}</p>
+        </Panel>
+      )}
+    </div>
+  );
+};
+
+export default CheckinAnalysisPanels;
@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, AlertCircle, ChevronUp, ChevronDown } from 'lucide-react';
+import { checkinFormService, type CheckinForm, type CheckinQuestion, type CheckinQuestionType } from '../lib/supabase';
+
+interface CheckinFormEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  form: CheckinForm | null;
+  onSaved: (form: CheckinForm) => void;
+}
+
+const QUESTION_TYPES: Array<{ value: CheckinQuestionType; label: string }> = [
+  { value: 'number', label: 'Number' },
+  { value: 'scale', label: 'Scale' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'choice', label: 'Multiple choice' },
+  { value: 'text', label: 'Free text' }
+];
+
+// Options and selectors are edited as comma-separated text and split on save
+type QuestionDraft = CheckinQuestion & { optionsText: string; selectorsText: string };
+
+const slugify = (label: string) =>
+  label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const toDraft = (question: CheckinQuestion): QuestionDraft => ({
+  ...question,
+  optionsText: (question.options || []).join(', '),
+  selectorsText: (question.selectors || []).join(', ')
+});
+
+const CheckinFormEditorModal: React.FC<CheckinFormEditorModalProps> = ({ isOpen, onClose, form, onSaved }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  // Question ids are derived from the label until the coach edits them by hand
+  const [customIds, setCustomIds] = useState<Set<number>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(form?.name || '');
+      setDescription(form?.description || '');
+      setQuestions((form?.questions || []).map(toDraft));
+      setCustomIds(new Set((form?.questions || []).map((_, index) => index)));
+      setError(null);
+    }
+  }, [isOpen, form]);
+
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
+    setQuestions(prev => prev.map((question, i) => {
+      if (i !== index) return question;
+      const updated = { ...question, ...changes };
+      if (changes.label !== undefined && !customIds.has(index)) {
+        updated.id = slugify(changes.label);
+      }
+      return updated;
+    }));
+  };
+
+  const addQuestion = () => {
+    setQuestions(prev => [...prev, toDraft({ id: '', label: '', type: 'number' })]);
+  };
+
+  const removeQuestion = (index: number) => {
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+    setCustomIds(prev => new Set([...prev].filter(i => i !== index).map(i => (i > index ? i - 1 : i))));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setCustomIds(prev => new Set([...prev].map(i => (i === index ? target : i === target ? index : i))));
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return 'Form name is required';
+    if (questions.length === 0) return 'Add at least one question';
+
+    const ids = new Set<string>();
+    for (const question of questions) {
+      if (!question.label.trim()) return 'Every question needs a label';
+      if (!/^[a-z0-9_]+$/.test(question.id)) return `Question id "${question.id}" may only contain lowercase letters, numbers and underscores`;
+      if (ids.has(question.id)) return `Question id "${question.id}" is used more than once`;
+      ids.add(question.id);
+      if (question.type === 'scale' && (question.scale_min === undefined || question.scale_max === undefined || question.scale_min >= question.scale_max)) {
+        return `"${question.label}" needs a scale minimum below its maximum`;
+      }
+      if (question.type === 'choice' && splitList(question.optionsText).length === 0) {
+        return `"${question.label}" needs at least one option`;
+      }
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      // Only keep the attributes that apply to each question's type
+      const cleanedQuestions: CheckinQuestion[] = questions.map(question => {
+        const selectors = splitList(question.selectorsText);
+        return {
+          id: question.id,
+          label: question.label.trim(),
+          type: question.type,
+          ...((question.type === 'number' || question.type === 'scale') && question.unit?.trim() && { unit: question.unit.trim() }),
+          ...(question.type === 'scale' && { scale_min: question.scale_min, scale_max: question.scale_max }),
+          ...(question.type === 'choice' && { options: splitList(question.optionsText) }),
+          ...(selectors.length > 0 && { selectors })
+        };
+      });
+
+      const saved = await checkinFormService.saveForm({
+        id: form?.id,
+        name: name.trim(),
+        description: description.trim() || null,
+        questions: cleanedQuestions
+      });
+
+      if (saved) {
+        onSaved(saved);
+        onClose();
+      } else {
+        setError('Failed to save form');
+      }
+    } catch (saveError) {
+      console.error('Error saving check-in form:', saveError);
+      setError('Failed to save form');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">{form ? 'Edit Check-in Form' : 'New Check-in Form'}</h2>
+            <p className="text-sm text-slate-600 mt-1">
+              Answers to these questions are stored as typed values so they can be charted over time
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="w-4 h-4 text-red-500" />
+              <span className="text-red-700 text-sm">{error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="form-name" className="block text-sm font-medium text-slate-600 mb-2">Form name</label>
+              <input
+                id="form-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Weekly check-in"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="form-description" className="block text-sm font-medium text-slate-600 mb-2">Description</label>
+              <input
+                id="form-description"
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {questions.map((question, index) => (
+              <div key={index} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-start space-x-3">
+                  <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                      type="text"
+                      value={question.label}
+                      onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                      placeholder="Question, e.g. Body weight"
+                      className="md:col-span-2 px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <select
+                      value={question.type}
+                      onChange={(e) => updateQuestion(index, { type: e.target.value as CheckinQuestionType })}
+                      className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {QUESTION_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => moveQuestion(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4 text-slate-500" />
+                    </button>
+                    <button
+                      onClick={() => moveQuestion(index, 1)}
+                      disabled={index === questions.length - 1}
+                      className="p-1 hover:bg-slate-100 rounded disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4 text-slate-500" />
+                    </button>
+                    <button
+                      onClick={() => removeQuestion(index)}
+                      className="p-1 hover:bg-red-50 rounded"
+                      title="Remove question"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div>
+                    <span className="block text-xs text-slate-500 mb-1">Question id</span>
+                    <input
+                      type="text"
+                      value={question.id}
+                      onChange={(e) => {
+                        setCustomIds(prev => new Set(prev).add(index));
+                        updateQuestion(index, { id: e.target.value });
+                      }}
+                      className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  {(question.type === 'number' || question.type === 'scale') && (
+                    <div>
+                      <span className="block text-xs text-slate-500 mb-1">Unit</span>
+                      <input
+                        type="text"
+                        value={question.unit || ''}
+                        onChange={(e) => updateQuestion(index, { unit: e.target.value })}
+                        placeholder={question.type === 'scale' ? 'points' : 'lbs, hours...'}
+                        className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  {question.type === 'scale' && (
+                    <div>
+                      <span className="block text-xs text-slate-500 mb-1">Scale</span>
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="number"
+                          value={question.scale_min ?? ''}
+                          onChange={(e) => updateQuestion(index, { scale_min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          placeholder="1"
+                          className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <span className="text-slate-400">–</span>
+                        <input
+                          type="number"
+                          value={question.scale_max ?? ''}
+                          onChange={(e) => updateQuestion(index, { scale_max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          placeholder="10"
+                          className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {question.type === 'choice' && (
+                    <div className="col-span-2">
+                      <span className="block text-xs text-slate-500 mb-1">Options (comma separated)</span>
+                      <input
+                        type="text"
+                        value={question.optionsText}
+                        onChange={(e) => updateQuestion(index, { optionsText: e.target.value })}
+                        placeholder="Great, Okay, Rough"
+                        className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  <div className="col-span-2 md:col-span-4">
+                    <span className="block text-xs text-slate-500 mb-1">
+                      Payload selector (optional, defaults to <code className="font-mono">$.answers.{question.id || 'id'}</code> or <code className="font-mono">$.{question.id || 'id'}</code>)
+                    </span>
+                    <input
+                      type="text"
+                      value={question.selectorsText}
+                      onChange={(e) => updateQuestion(index, { selectorsText: e.target.value })}
+                      placeholder="$.form_response.answers[2].number"
+                      className="w-full px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <button
+              onClick={addQuestion}
+              className="w-full border-2 border-dashed border-slate-300 rounded-lg py-3 text-sm font-medium text-slate-600 hover:border-teal-400 hover:text-teal-700 transition-colors duration-200 flex items-center justify-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Question</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:text-slate-800 font-medium transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-teal-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {saving ? 'Saving...' : 'Save Form'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckinFormEditorModal;
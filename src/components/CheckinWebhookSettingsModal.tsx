@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, AlertCircle, CheckCircle, Webhook, Shield, ExternalLink, LogOut, Copy, RefreshCw } from 'lucide-react';
-import { checkinWebhookService, supabase } from '../lib/supabase';
+import { X, AlertCircle, CheckCircle, Webhook, Shield, ExternalLink, LogOut, Copy, RefreshCw, KeyRound, Eye, EyeOff } from 'lucide-react';
+import { checkinWebhookService, supabase, type UserCheckinWebhookSettings } from '../lib/supabase';
+import type { FieldMappings } from '../lib/fieldMappings';
+import WebhookFieldMappingEditor from './WebhookFieldMappingEditor';
 
 interface CheckinWebhookSettingsModalProps {
   isOpen: boolean;
@@ -27,6 +29,19 @@ const CheckinWebhookSettingsModal: React.FC<CheckinWebhookSettingsModalProps> =
   const [newClientStatus, setNewClientStatus] = useState<'active' | 'inactive' | 'paused'>('active');
   const [newClientEngagement, setNewClientEngagement] = useState<'low' | 'medium' | 'high'>('medium');
 
+  // Request signing settings
+  const [authMode, setAuthMode] = useState<'token' | 'signature'>('token');
+  const [signingSecret, setSigningSecret] = useState<string | null>(null);
+  const [signingSecretRotatedAt, setSigningSecretRotatedAt] = useState<string | null>(null);
+  const [previousSecretExpiresAt, setPreviousSecretExpiresAt] = useState<string | null>(null);
+  const [signatureTolerance, setSignatureTolerance] = useState(300);
+  const [showSigningSecret, setShowSigningSecret] = useState(false);
+  const [savingSignature, setSavingSignature] = useState(false);
+  const [signatureMessage, setSignatureMessage] = useState<string | null>(null);
+
+  // Payload field mappings
+  const [fieldMappings, setFieldMappings] = useState<FieldMappings | null>(null);
+
   // Generate webhook URL with user ID and token
   const webhookUrl = currentUserId && webhookToken 
     ? `${window.location.origin}/webhook-checkin/${currentUserId}/${webhookToken}`
@@ -68,6 +83,10 @@ const CheckinWebhookSettingsModal: React.FC<CheckinWebhookSettingsModalProps> =
         setAutoCreateClients(settings.auto_create_clients !== false);
         setNewClientStatus(settings.new_client_status || 'active');
         setNewClientEngagement(settings.new_client_engagement || 'medium');
+
+        // Load request signing settings
+        loadSignatureSettings(settings);
+        setFieldMappings(settings.field_mappings || null);
         
         console.log('✅ [Webhook Modal] Webhook is connected with token:', settings.webhook_secret);
       } else {
@@ -81,6 +100,65 @@ const CheckinWebhookSettingsModal: React.FC<CheckinWebhookSettingsModalProps> =
     }
   };
 
+  const loadSignatureSettings = (settings: UserCheckinWebhookSettings) => {
+    setAuthMode(settings.auth_mode || 'token');
+    setSigningSecret(settings.signing_secret || null);
+    setSigningSecretRotatedAt(settings.signing_secret_rotated_at || null);
+    setPreviousSecretExpiresAt(settings.previous_signing_secret_expires_at || null);
+    setSignatureTolerance(settings.signature_tolerance_seconds || 300);
+  };
+
+  const handleSaveSignatureSettings = async () => {
+    setSavingSignature(true);
+    setError(null);
+    setSignatureMessage(null);
+
+    try {
+      const updated = await checkinWebhookService.updateSignatureSettings({
+        auth_mode: authMode,
+        signature_tolerance_seconds: signatureTolerance
+      });
+
+      if (updated) {
+        loadSignatureSettings(updated);
+        setSignatureMessage(authMode === 'signature' ? 'Signed payloads are now required' : 'Signature verification disabled');
+      } else {
+        setError('Failed to save signature settings');
+      }
+    } catch (error) {
+      console.error('Error saving signature settings:', error);
+      setError('Failed to save signature settings');
+    } finally {
+      setSavingSignature(false);
+    }
+  };
+
+  const handleRotateSigningSecret = async () => {
+    if (!confirm('Rotate the signing secret? The current secret will keep working for 24 hours so you can update your form tools.')) {
+      return;
+    }
+
+    setSavingSignature(true);
+    setError(null);
+    setSignatureMessage(null);
+
+    try {
+      const updated = await checkinWebhookService.rotateSigningSecret();
+      if (updated) {
+        loadSignatureSettings(updated);
+        setShowSigningSecret(true);
+        setSignatureMessage('Signing secret rotated');
+      } else {
+        setError('Failed to rotate signing secret');
+      }
+    } catch (error) {
+      console.error('Error rotating signing secret:', error);
+      setError('Failed to rotate signing secret');
+    } finally {
+      setSavingSignature(false);
+    }
+  };
+
   const generateWebhookToken = () => {
     const token = checkinWebhookService.generateUniqueWebhookToken();
     setWebhookToken(token);
@@ -254,6 +332,131 @@ const CheckinWebhookSettingsModal: React.FC<CheckinWebhookSettingsModalProps> =
                 </div>
               </div>
 
+              {/* Request Signing */}
+              {canEdit && (
+                <div className="border border-slate-200 rounded-lg p-4 space-y-4">
+                  <div className="flex items-center space-x-2">
+                    <KeyRound className="w-5 h-5 text-slate-600" />
+                    <h4 className="font-medium text-slate-700">Request Signing</h4>
+                  </div>
+
+                  {signatureMessage && (
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+                      <CheckCircle className="w-4 h-4 text-green-500" />
+                      <span className="text-green-700 text-sm">{signatureMessage}</span>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="auth-mode" className="block text-sm font-medium text-slate-600 mb-2">
+                      Authentication mode
+                    </label>
+                    <select
+                      id="auth-mode"
+                      value={authMode}
+                      onChange={(e) => setAuthMode(e.target.value as 'token' | 'signature')}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="token">Secret URL only</option>
+                      <option value="signature">Secret URL + signed payloads (HMAC-SHA256)</option>
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Signed payloads stop forged check-ins even if your webhook URL leaks into a screenshot or shared config.
+                    </p>
+                  </div>
+
+                  {authMode === 'signature' && (
+                    <>
+                      <div>
+                        <label htmlFor="signature-tolerance" className="block text-sm font-medium text-slate-600 mb-2">
+                          Replay tolerance
+                        </label>
+                        <select
+                          id="signature-tolerance"
+                          value={signatureTolerance}
+                          onChange={(e) => setSignatureTolerance(Number(e.target.value))}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value={60}>1 minute</option>
+                          <option value={300}>5 minutes</option>
+                          <option value={900}>15 minutes</option>
+                          <option value={3600}>1 hour</option>
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Requests whose timestamp is older (or newer) than this are rejected
+                        </p>
+                      </div>
+
+                      {signingSecret && (
+                        <div>
+                          <span className="block text-sm font-medium text-slate-600 mb-2">Signing secret</span>
+                          <div className="flex items-center space-x-2">
+                            <code className="flex-1 px-3 py-2 rounded text-sm font-mono bg-slate-100 text-slate-800 break-all">
+                              {showSigningSecret ? signingSecret : '•'.repeat(32)}
+                            </code>
+                            <button
+                              onClick={() => setShowSigningSecret(!showSigningSecret)}
+                              className="p-2 hover:bg-slate-200 rounded transition-colors duration-200"
+                              title={showSigningSecret ? 'Hide signing secret' : 'Show signing secret'}
+                            >
+                              {showSigningSecret ? <EyeOff className="w-4 h-4 text-slate-600" /> : <Eye className="w-4 h-4 text-slate-600" />}
+                            </button>
+                            <button
+                              onClick={() => copyToClipboard(signingSecret)}
+                              className="p-2 hover:bg-slate-200 rounded transition-colors duration-200"
+                              title="Copy signing secret"
+                            >
+                              <Copy className="w-4 h-4 text-slate-600" />
+                            </button>
+                          </div>
+                          <p className="text-xs text-slate-500 mt-1">
+                            {signingSecretRotatedAt && `Last rotated ${new Date(signingSecretRotatedAt).toLocaleString()}. `}
+                            {previousSecretExpiresAt && new Date(previousSecretExpiresAt) > new Date() &&
+                              `Previous secret accepted until ${new Date(previousSecretExpiresAt).toLocaleString()}.`}
+                          </p>
+                        </div>
+                      )}
+
+                      <div className="bg-slate-50 rounded-lg p-3 text-xs text-slate-600 space-y-1">
+                        <p>Send these headers with every request:</p>
+                        <p><code className="font-mono">x-webhook-timestamp</code>: current unix time in seconds</p>
+                        <p><code className="font-mono">x-webhook-signature</code>: <code className="font-mono">sha256=</code> + hex HMAC-SHA256 of <code className="font-mono">{'{timestamp}.{raw body}'}</code></p>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    {authMode === 'signature' && signingSecret ? (
+                      <button
+                        onClick={handleRotateSigningSecret}
+                        disabled={savingSignature}
+                        className="text-teal-600 hover:text-teal-700 text-sm font-medium transition-colors duration-200 disabled:opacity-50 flex items-center space-x-2"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${savingSignature ? 'animate-spin' : ''}`} />
+                        <span>Rotate Secret</span>
+                      </button>
+                    ) : (
+                      <div></div>
+                    )}
+                    <button
+                      onClick={handleSaveSignatureSettings}
+                      disabled={savingSignature}
+                      className="bg-teal-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                    >
+                      {savingSignature ? 'Saving...' : 'Save Signing Settings'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Field Mapping */}
+              {canEdit && (
+                <WebhookFieldMappingEditor
+                  fieldMappings={fieldMappings}
+                  onSaved={(settings) => setFieldMappings(settings.field_mappings || null)}
+                />
+              )}
+
               {/* Action Buttons */}
               <div className="flex items-center justify-between pt-4">
                 {canEdit ? (
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Send, Loader, Copy, CheckCircle, AlertCircle } from 'lucide-react';
+import { clientPortalService, type Client } from '../lib/supabase';
+
+interface ClientPortalCardProps {
+  client: Client;
+}
+
+const ClientPortalCard: React.FC<ClientPortalCardProps> = ({ client }) => {
+  const [activeSessions, setActiveSessions] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    clientPortalService.getActiveSessionCount(client.id).then(setActiveSessions);
+  }, [client.id]);
+
+  const handleSendLink = async () => {
+    setIsSending(true);
+    setStatus(null);
+    setManualLink(null);
+
+    const result = await clientPortalService.sendInvite(client.id);
+    if ('error' in result) {
+      setStatus({ type: 'error', message: result.error });
+    } else if (result.emailSent) {
+      setStatus({ type: 'success', message: `Portal link emailed to ${client.email}` });
+    } else {
+      // Email isn't configured or failed; the coach can still pass the link on
+      setManualLink(result.portalUrl);
+      setStatus({ type: 'error', message: 'The email could not be sent. Share this link with the client instead:' });
+    }
+    setIsSending(false);
+  };
+
+  const handleCopy = async () => {
+    if (!manualLink) return;
+    await navigator.clipboard.writeText(manualLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm(`Sign ${client.full_name} out of the portal everywhere? Unused links stop working too.`)) {
+      return;
+    }
+
+    setIsRevoking(true);
+    if (await clientPortalService.revokeAccess(client.id)) {
+      setActiveSessions(0);
+      setManualLink(null);
+      setStatus({ type: 'success', message: 'Portal access revoked' });
+    } else {
+      setStatus({ type: 'error', message: 'Failed to revoke portal access' });
+    }
+    setIsRevoking(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2 mb-4">
+        <KeyRound className="w-5 h-5 text-slate-500" />
+        Client Portal
+      </h3>
+
+      <div className="space-y-2 text-sm mb-4">
+        <div className="flex justify-between">
+          <span className="text-slate-600 dark:text-slate-400">Last visit:</span>
+          <span className="font-medium text-slate-900 dark:text-white">
+            {client.portal_last_seen_at ? new Date(client.portal_last_seen_at).toLocaleDateString() : 'Never'}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-600 dark:text-slate-400">Signed-in devices:</span>
+          <span className="font-medium text-slate-900 dark:text-white">{activeSessions}</span>
+        </div>
+      </div>
+
+      {status && (
+        <div className={`mb-3 p-2 rounded-lg flex items-start gap-2 text-xs ${
+          status.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+            : 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+        }`}>
+          {status.type === 'success' ? <CheckCircle className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+          <span>{status.message}</span>
+        </div>
+      )}
+
+      {manualLink && (
+        <div className="mb-3 flex items-center gap-2">
+          <input
+            readOnly
+            value={manualLink}
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-300"
+          />
+          <button onClick={handleCopy} className="p-1.5 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300" title="Copy link">
+            {copied ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSendLink}
+          disabled={isSending || !client.email}
+          title={client.email ? undefined : 'Add an email address for this client first'}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSending ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Send portal link
+        </button>
+        {activeSessions > 0 && (
+          <button
+            onClick={handleRevoke}
+            disabled={isRevoking}
+            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Revoke access
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientPortalCard;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import type { Client } from '../lib/supabase';
+import { RISK_STYLES } from './CheckinAnalysisPanels';
+
+interface ClientRiskCardProps {
+  client: Client;
+}
+
+const BAR_COLORS = {
+  low: 'bg-green-500',
+  medium: 'bg-amber-500',
+  high: 'bg-red-500',
+};
+
+const ClientRiskCard: React.FC<ClientRiskCardProps> = ({ client }) => {
+  const factors = client.risk_factors || [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-slate-500" />
+          Churn Risk
+        </h3>
+        {client.risk_level && (
+          <span className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${RISK_STYLES[client.risk_level]}`}>
+            {client.risk_level} · {client.risk_score}/100
+          </span>
+        )}
+      </div>
+
+      {!client.risk_level ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {client.status === 'active' ? 'Not scored yet.' : `Not scored while the client is ${client.status}.`}
+        </p>
+      ) : (
+        <>
+          <div className="space-y-4">
+            {factors.map(factor => (
+              <div key={factor.key}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700 dark:text-slate-300">{factor.label}</span>
+                  <span className="font-medium text-slate-900 dark:text-white">+{factor.points}</span>
+                </div>
+                <div className="h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full mt-1 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${factor.points > 0 ? BAR_COLORS[client.risk_level!] : ''}`}
+                    style={{ width: `${(factor.points / factor.max_points) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{factor.detail}</p>
+              </div>
+            ))}
+          </div>
+          {client.risk_computed_at && (
+            <p className="text-xs text-slate-400 mt-4">
+              Updated {new Date(client.risk_computed_at).toLocaleString()}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClientRiskCard;
@@ -1,41 +1,158 @@
-import React, { useState, useRef } from 'react';
-import { X, Send, FileText, Video, Upload, AlertCircle, CheckCircle } from 'lucide-react';
-import { checkinService, type Checkin } from '../lib/supabase';
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Send, FileText, Video, Upload, AlertCircle, CheckCircle, Mail, Mic, Sparkles, Loader2 } from 'lucide-react';
+import {
+  checkinService,
+  deliveryService,
+  responseMediaService,
+  styleProfileService,
+  MAX_RESPONSE_MEDIA_BYTES,
+  MAX_RESPONSE_MEDIA_SECONDS,
+  RESPONSE_MEDIA_TYPES,
+  type Checkin
+} from '../lib/supabase';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
 
 interface CoachResponseModalProps {
   isOpen: boolean;
   onClose: () => void;
   checkin: Checkin;
   onResponseSubmitted: () => void;
+  // Pre-fills the written response, e.g. from a response template
+  initialResponse?: string;
 }
 
 const CoachResponseModal: React.FC<CoachResponseModalProps> = ({ 
   isOpen, 
   onClose, 
   checkin, 
-  onResponseSubmitted 
+  onResponseSubmitted,
+  initialResponse
 }) => {
-  const [responseType, setResponseType] = useState<'written' | 'video'>('written');
+  const [responseType, setResponseType] = useState<'written' | 'media'>('written');
   const [writtenResponse, setWrittenResponse] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mediaNotes, setMediaNotes] = useState('');
+  const [mediaFile, setMediaFile] = useState<File | null>(null);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [emailClient, setEmailClient] = useState(true);
+  const [deliveryWarning, setDeliveryWarning] = useState<string | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [draftNote, setDraftNote] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      deliveryService.getEmailSettings().then(settings => setEmailClient(settings?.auto_send ?? true));
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && initialResponse) {
+      setResponseType('written');
+      setWrittenResponse(initialResponse);
+    }
+  }, [isOpen, initialResponse]);
+
+  const finish = () => {
+    onResponseSubmitted();
+    onClose();
+    // Reset form
+    setWrittenResponse('');
+    setMediaNotes('');
+    clearMedia();
+    setResponseType('written');
+    setSuccess(false);
+    setDeliveryWarning(null);
+    setDraftNote(null);
+  };
+
+  // Full first draft in the coach's own voice, built from their past responses
+  const handleDraftResponse = async () => {
+    if (writtenResponse.trim() && !confirm('Replace your current response with an AI draft?')) return;
+
+    setIsDrafting(true);
+    setError(null);
+    setDraftNote(null);
+
+    const result = await styleProfileService.draftResponse(checkin.id);
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setWrittenResponse(result.draft);
+      setDraftNote(result.styleProfileUsed
+        ? `Drafted in your style, learned from ${result.sampleCount} of your past responses. Review it before sending.`
+        : 'Drafted in a general coaching voice. Drafts match your style once you have written at least 5 responses. Review it before sending.');
+    }
+    setIsDrafting(false);
+  };
+
+  // Once the response is saved, closing the modal still has to refresh the page behind it
+  const handleClose = () => {
+    uploadAbortRef.current?.abort();
+    if (success) {
+      finish();
+    } else {
+      onClose();
+    }
+  };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // A transcript file fills in the notes that go alongside the recording
+  const handleTranscriptChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      if (file.type.startsWith('text/') || file.name.endsWith('.txt') || file.name.endsWith('.md')) {
-        setSelectedFile(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    if (file.type.startsWith('text/') || file.name.endsWith('.txt') || file.name.endsWith('.md')) {
+      try {
+        setMediaNotes(await readFileContent(file));
         setError(null);
-      } else {
-        setError('Please select a text file (.txt, .md, or other text format)');
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
+      } catch {
+        setError('Failed to read the transcript file');
       }
+    } else {
+      setError('Please select a text file (.txt, .md, or other text format)');
+    }
+  };
+
+  const handleMediaChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const rejectFile = (message: string) => {
+      setError(message);
+      clearMedia();
+    };
+
+    if (!RESPONSE_MEDIA_TYPES.includes(file.type)) {
+      rejectFile('Please choose an MP4, WebM or MOV video, or an MP3, M4A, WebM, OGG or WAV audio file');
+      return;
+    }
+    if (file.size > MAX_RESPONSE_MEDIA_BYTES) {
+      rejectFile(`Recordings can be at most ${formatBytes(MAX_RESPONSE_MEDIA_BYTES)} (this one is ${formatBytes(file.size)})`);
+      return;
+    }
+
+    const duration = await responseMediaService.getDuration(file);
+    if (duration !== null && duration > MAX_RESPONSE_MEDIA_SECONDS) {
+      rejectFile(`Recordings can be at most ${MAX_RESPONSE_MEDIA_SECONDS / 60} minutes long (this one is ${formatDuration(duration)})`);
+      return;
     }
+
+    setMediaFile(file);
+    setMediaDuration(duration);
+    setError(null);
   };
 
   const readFileContent = (file: File): Promise<string> => {
@@ -57,7 +174,7 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
     setLoading(true);
 
     try {
-      let responseContent = '';
+      let success: boolean;
 
       if (responseType === 'written') {
         if (!writtenResponse.trim()) {
@@ -65,51 +182,72 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
           setLoading(false);
           return;
         }
-        responseContent = writtenResponse.trim();
+        success = await checkinService.submitCoachResponse(checkin.id, writtenResponse.trim(), 'written');
       } else {
-        if (!selectedFile) {
-          setError('Please upload a video transcript file');
+        if (!mediaFile) {
+          setError('Please choose a video or audio recording');
           setLoading(false);
           return;
         }
-        responseContent = await readFileContent(selectedFile);
-      }
 
-      const success = await checkinService.submitCoachResponse(
-        checkin.id,
-        responseContent,
-        responseType
-      );
+        const controller = new AbortController();
+        uploadAbortRef.current = controller;
+        setUploadProgress(0);
+
+        const media = await responseMediaService.upload(checkin, mediaFile, {
+          signal: controller.signal,
+          onProgress: (uploaded, total) => setUploadProgress(total ? Math.round((uploaded / total) * 100) : 100)
+        });
+
+        success = await checkinService.submitCoachResponse(
+          checkin.id,
+          mediaNotes.trim(),
+          mediaFile.type.startsWith('audio/') ? 'audio' : 'video',
+          media
+        );
+      }
 
       if (success) {
         setSuccess(true);
-        setTimeout(() => {
-          onResponseSubmitted();
-          onClose();
-          // Reset form
-          setWrittenResponse('');
-          setSelectedFile(null);
-          setResponseType('written');
-          setSuccess(false);
-          if (fileInputRef.current) {
-            fileInputRef.current.value = '';
+
+        // The response is saved either way; a failed email is reported but doesn't undo it
+        let warning: string | null = null;
+        if (emailClient) {
+          const result = await deliveryService.sendResponse(checkin.id);
+          if (result.delivery?.status === 'skipped') {
+            warning = `${checkin.client_name} has no email address, so the response wasn't emailed.`;
+          } else if (result.error) {
+            warning = `The response was saved but the email failed: ${result.delivery?.error || result.error}. You can resend it from the check-in page.`;
           }
-        }, 1500);
+        }
+
+        if (warning) {
+          setDeliveryWarning(warning);
+        } else {
+          setTimeout(finish, 1500);
+        }
       } else {
         setError('Failed to submit response. Please try again.');
       }
     } catch (error) {
-      console.error('Error submitting response:', error);
-      setError('Failed to submit response. Please try again.');
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        setError('Upload cancelled. Choose the same file again to pick up where it stopped.');
+      } else {
+        console.error('Error submitting response:', error);
+        setError('Failed to submit response. Please try again.');
+      }
     } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
       setLoading(false);
     }
   };
 
-  const clearFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const clearMedia = () => {
+    setMediaFile(null);
+    setMediaDuration(null);
+    if (mediaInputRef.current) {
+      mediaInputRef.current.value = '';
     }
   };
 
@@ -127,7 +265,7 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
             </p>
           </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 hover:bg-slate-100 rounded-lg transition-colors duration-200"
           >
             <X className="w-5 h-5 text-slate-500" />
@@ -140,7 +278,17 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
           {success && (
             <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
               <CheckCircle className="w-5 h-5 text-green-500" />
-              <span className="text-green-700 text-sm">Response submitted successfully!</span>
+              <span className="text-green-700 text-sm">
+                {emailClient && !deliveryWarning ? 'Response submitted and emailed to your client!' : 'Response submitted successfully!'}
+              </span>
+            </div>
+          )}
+
+          {/* Delivery Warning */}
+          {deliveryWarning && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-2">
+              <Mail className="w-5 h-5 text-amber-500 flex-shrink-0" />
+              <span className="text-amber-800 text-sm">{deliveryWarning}</span>
             </div>
           )}
 
@@ -158,6 +306,7 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
             <div className="flex space-x-4">
               <button
                 onClick={() => setResponseType('written')}
+                disabled={loading}
                 className={`flex items-center space-x-2 px-4 py-3 rounded-lg border-2 transition-all duration-200 ${
                   responseType === 'written'
                     ? 'border-teal-500 bg-teal-50 text-teal-700'
@@ -168,15 +317,16 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
                 <span className="font-medium">Written Response</span>
               </button>
               <button
-                onClick={() => setResponseType('video')}
+                onClick={() => setResponseType('media')}
+                disabled={loading}
                 className={`flex items-center space-x-2 px-4 py-3 rounded-lg border-2 transition-all duration-200 ${
-                  responseType === 'video'
+                  responseType === 'media'
                     ? 'border-teal-500 bg-teal-50 text-teal-700'
                     : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
                 }`}
               >
                 <Video className="w-5 h-5" />
-                <span className="font-medium">Video Transcript</span>
+                <span className="font-medium">Video / Audio</span>
               </button>
             </div>
           </div>
@@ -184,88 +334,177 @@ const CoachResponseModal: React.FC<CoachResponseModalProps> = ({
           {/* Written Response */}
           {responseType === 'written' && (
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">
-                Your Response to {checkin.client_name}
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Your Response to {checkin.client_name}
+                </label>
+                <button
+                  type="button"
+                  onClick={handleDraftResponse}
+                  disabled={loading || isDrafting || !checkin.transcript}
+                  title={checkin.transcript ? 'Write a first draft in your voice' : 'This check-in has no transcript yet'}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-teal-700 bg-teal-50 border border-teal-200 rounded-lg hover:bg-teal-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isDrafting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  <span>{isDrafting ? 'Drafting...' : 'Draft in my voice'}</span>
+                </button>
+              </div>
               <textarea
                 value={writtenResponse}
                 onChange={(e) => setWrittenResponse(e.target.value)}
                 placeholder="Provide detailed feedback on their check-in, plan modifications, and next steps..."
                 className="w-full h-48 px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none"
-                disabled={loading}
+                disabled={loading || isDrafting}
               />
+              {draftNote && (
+                <p className="text-xs text-teal-700 mt-2 flex items-center space-x-1">
+                  <Sparkles className="w-3 h-3 flex-shrink-0" />
+                  <span>{draftNote}</span>
+                </p>
+              )}
               <p className="text-xs text-slate-500 mt-2">
                 Be specific about what's changing in their plan and why. This helps the AI learn your coaching patterns.
               </p>
             </div>
           )}
 
-          {/* Video Transcript Upload */}
-          {responseType === 'video' && (
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">
-                Upload Video Response Transcript
-              </label>
-              
-              {selectedFile ? (
-                <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <FileText className="w-5 h-5 text-slate-500" />
-                      <span className="text-sm text-slate-700">{selectedFile.name}</span>
-                      <span className="text-xs text-slate-500">({(selectedFile.size / 1024).toFixed(1)} KB)</span>
+          {/* Video / Audio Upload */}
+          {responseType === 'media' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Recorded Response
+                </label>
+
+                {mediaFile ? (
+                  <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        {mediaFile.type.startsWith('audio/')
+                          ? <Mic className="w-5 h-5 text-slate-500 flex-shrink-0" />
+                          : <Video className="w-5 h-5 text-slate-500 flex-shrink-0" />}
+                        <span className="text-sm text-slate-700 truncate">{mediaFile.name}</span>
+                        <span className="text-xs text-slate-500 flex-shrink-0">
+                          ({formatBytes(mediaFile.size)}{mediaDuration !== null && ` • ${formatDuration(mediaDuration)}`})
+                        </span>
+                      </div>
+                      {uploadProgress === null ? (
+                        <button
+                          onClick={clearMedia}
+                          disabled={loading || success}
+                          className="p-1 hover:bg-slate-200 rounded transition-colors duration-200 disabled:opacity-50"
+                        >
+                          <X className="w-4 h-4 text-slate-500" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => uploadAbortRef.current?.abort()}
+                          className="text-xs font-medium text-red-600 hover:text-red-700"
+                        >
+                          Cancel upload
+                        </button>
+                      )}
                     </div>
+
+                    {uploadProgress !== null && (
+                      <div className="mt-3">
+                        <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-teal-500 transition-all duration-200"
+                            style={{ width: `${uploadProgress}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">Uploading... {uploadProgress}%</p>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-slate-400 transition-colors duration-200">
+                    <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
+                    <p className="text-slate-600 mb-2">Upload a video or audio recording</p>
+                    <p className="text-xs text-slate-500 mb-4">
+                      Up to {formatBytes(MAX_RESPONSE_MEDIA_BYTES)} and {MAX_RESPONSE_MEDIA_SECONDS / 60} minutes
+                    </p>
+                    <input
+                      ref={mediaInputRef}
+                      type="file"
+                      accept={RESPONSE_MEDIA_TYPES.join(',')}
+                      onChange={handleMediaChange}
+                      className="hidden"
+                    />
                     <button
-                      onClick={clearFile}
-                      className="p-1 hover:bg-slate-200 rounded transition-colors duration-200"
+                      onClick={() => mediaInputRef.current?.click()}
+                      className="bg-slate-100 text-slate-700 px-4 py-2 rounded-lg font-medium hover:bg-slate-200 transition-all duration-200"
                     >
-                      <X className="w-4 h-4 text-slate-500" />
+                      Choose File
                     </button>
                   </div>
-                </div>
-              ) : (
-                <div className="border-2 border-dashed border-slate-300 rounded-lg p-8 text-center hover:border-slate-400 transition-colors duration-200">
-                  <Upload className="w-8 h-8 text-slate-400 mx-auto mb-3" />
-                  <p className="text-slate-600 mb-2">Upload your video response transcript</p>
-                  <p className="text-xs text-slate-500 mb-4">Supports .txt, .md, and other text formats</p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Notes or Transcript <span className="font-normal text-slate-500">(optional)</span>
+                  </label>
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept=".txt,.md,text/*"
-                    onChange={handleFileChange}
+                    onChange={handleTranscriptChange}
                     className="hidden"
                   />
                   <button
                     onClick={() => fileInputRef.current?.click()}
-                    className="bg-slate-100 text-slate-700 px-4 py-2 rounded-lg font-medium hover:bg-slate-200 transition-all duration-200"
+                    disabled={loading}
+                    className="flex items-center space-x-1 text-xs font-medium text-teal-700 hover:text-teal-800 disabled:opacity-50"
                   >
-                    Choose File
+                    <FileText className="w-3 h-3" />
+                    <span>Import from file</span>
                   </button>
                 </div>
-              )}
-              
-              <p className="text-xs text-slate-500 mt-2">
-                Upload the transcript of your video response to the client. This helps the AI understand your verbal coaching style.
-              </p>
+                <textarea
+                  value={mediaNotes}
+                  onChange={(e) => setMediaNotes(e.target.value)}
+                  placeholder="Add a short note, or paste the transcript of your recording..."
+                  className="w-full h-32 px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none"
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-2">
+                  A transcript helps the AI understand your verbal coaching style.
+                </p>
+              </div>
             </div>
           )}
 
+          {/* Email Delivery */}
+          <label className="flex items-center space-x-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={emailClient}
+              onChange={(e) => setEmailClient(e.target.checked)}
+              disabled={loading || success}
+              className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+            />
+            <span>Email this response to {checkin.client_name}</span>
+          </label>
+
           {/* Action Buttons */}
           <div className="flex items-center justify-end space-x-3 pt-4">
             <button
-              onClick={onClose}
+              onClick={handleClose}
               disabled={loading}
               className="px-6 py-2 text-slate-600 hover:text-slate-800 font-medium transition-colors duration-200 disabled:opacity-50"
             >
-              Cancel
+              {success ? 'Close' : 'Cancel'}
             </button>
             <button
               onClick={handleSubmit}
-              disabled={loading || (!writtenResponse.trim() && !selectedFile)}
+              disabled={loading || success || (responseType === 'written' ? !writtenResponse.trim() : !mediaFile)}
               className="bg-gradient-to-r from-teal-600 to-emerald-700 text-white px-6 py-3 rounded-lg font-medium hover:from-teal-700 hover:to-emerald-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2 shadow-md hover:shadow-lg"
             >
               <Send className="w-4 h-4" />
-              <span>{loading ? 'Submitting...' : 'Submit Response'}</span>
+              <span>{uploadProgress !== null ? 'Uploading...' : loading ? 'Submitting...' : 'Submit Response'}</span>
             </button>
           </div>
         </div>
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, CheckCircle, AlertCircle } from 'lucide-react';
+import { deliveryService, type CoachEmailSettings } from '../lib/supabase';
+import { renderTemplate, TEMPLATE_VARIABLES } from '../lib/responseEmail';
+
+type EmailSettingsDraft = Omit<CoachEmailSettings, 'coach_id'>;
+
+const PREVIEW_VARIABLES = {
+  client_name: 'Alex',
+  coach_name: 'Coach',
+  checkin_date: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+};
+
+const EmailBrandingSection: React.FC = () => {
+  const [draft, setDraft] = useState<EmailSettingsDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const settings = await deliveryService.getEmailSettings();
+    if (settings) {
+      const { coach_id: _coachId, ...rest } = settings;
+      setDraft(rest);
+    }
+  };
+
+  const update = <K extends keyof EmailSettingsDraft>(field: K, value: EmailSettingsDraft[K]) => {
+    setDraft(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    setIsSaving(true);
+    setStatus(null);
+
+    const saved = await deliveryService.saveEmailSettings({
+      ...draft,
+      from_name: draft.from_name?.trim() || null,
+      reply_to_email: draft.reply_to_email?.trim() || null,
+      logo_url: draft.logo_url?.trim() || null,
+      signature: draft.signature?.trim() || null
+    });
+
+    setStatus(saved
+      ? { type: 'success', message: 'Email settings saved' }
+      : { type: 'error', message: 'Failed to save email settings' });
+    setIsSaving(false);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const previewVariables = { ...PREVIEW_VARIABLES, coach_name: draft?.from_name || PREVIEW_VARIABLES.coach_name };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center space-x-2">
+        <Mail className="w-5 h-5" />
+        <span>Response Emails</span>
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        Responses are emailed to the client's address on file. Templates can use{' '}
+        {TEMPLATE_VARIABLES.map((variable, index) => (
+          <React.Fragment key={variable}>
+            {index > 0 && ', '}
+            <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">{`{{${variable}}}`}</code>
+          </React.Fragment>
+        ))}.
+      </p>
+
+      {!draft ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading email settings...</div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sender name</label>
+              <input
+                type="text"
+                value={draft.from_name ?? ''}
+                onChange={(e) => update('from_name', e.target.value)}
+                placeholder="Your name"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reply-to address</label>
+              <input
+                type="email"
+                value={draft.reply_to_email ?? ''}
+                onChange={(e) => update('reply_to_email', e.target.value)}
+                placeholder="Defaults to your account email"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Brand color</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={draft.brand_color}
+                  onChange={(e) => update('brand_color', e.target.value)}
+                  className="h-10 w-14 border border-gray-300 rounded-lg"
+                />
+                <span className="text-sm text-gray-600">{draft.brand_color}</span>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+              <input
+                type="url"
+                value={draft.logo_url ?? ''}
+                onChange={(e) => update('logo_url', e.target.value)}
+                placeholder="https://..."
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              type="text"
+              value={draft.subject_template}
+              onChange={(e) => update('subject_template', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Opening line</label>
+            <textarea
+              value={draft.intro_template}
+              onChange={(e) => update('intro_template', e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Signature</label>
+            <textarea
+              value={draft.signature ?? ''}
+              onChange={(e) => update('signature', e.target.value)}
+              rows={2}
+              placeholder="Defaults to the sender name"
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.auto_send}
+              onChange={(e) => update('auto_send', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Email responses to clients by default</span>
+          </label>
+
+          {/* Preview */}
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-200">
+              Subject: <span className="text-gray-900">{renderTemplate(draft.subject_template, previewVariables)}</span>
+            </div>
+            <div className="px-4 py-3" style={{ backgroundColor: draft.brand_color }}>
+              {draft.logo_url ? (
+                <img src={draft.logo_url} alt="" className="max-h-8" />
+              ) : (
+                <span className="font-bold text-white">{previewVariables.coach_name}</span>
+              )}
+            </div>
+            <div className="px-4 py-3 text-sm text-gray-700 space-y-2">
+              <p>{renderTemplate(draft.intro_template, previewVariables)}</p>
+              <p className="pl-3 border-l-4 text-gray-500 italic" style={{ borderColor: draft.brand_color }}>
+                Your response appears here.
+              </p>
+              <p className="whitespace-pre-wrap">
+                {draft.signature ? renderTemplate(draft.signature, previewVariables) : previewVariables.coach_name}
+              </p>
+            </div>
+          </div>
+
+          {status && (
+            <div className={`p-3 rounded-lg flex items-center space-x-2 text-sm ${
+              status.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              <span>{status.message}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving || !draft.subject_template.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EmailBrandingSection;
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Users, Zap, Settings, User, LogOut, Menu, X, MessageSquare } from 'lucide-react';
+import { Users, Zap, Settings, User, LogOut, Menu, X, MessageSquare, Search, ScrollText } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import NotificationBell from './NotificationBell';
 
 function Navigation() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, signOut } = useAuth();
+  const { user, userProfile, signOut } = useAuth();
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
@@ -22,9 +23,12 @@ function Navigation() {
   const navItems = [
     { path: '/', label: 'Clients', icon: Users },
     { path: '/checkins', label: 'Check-ins', icon: MessageSquare },
+    { path: '/search', label: 'Search', icon: Search },
     { path: '/integrations', label: 'Integrations', icon: Zap },
   ];
 
+  const isAppAdmin = userProfile?.app_role === 'admin' || userProfile?.app_role === 'super_admin';
+
   const isActivePath = (path: string) => {
     if (path === '/') {
       return location.pathname === '/' || location.pathname === '/clients';
@@ -77,6 +81,8 @@ function Navigation() {
               {isMobileMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
             </button>
 
+            <NotificationBell />
+
             {/* Profile dropdown */}
             <div className="relative">
               <button
@@ -110,6 +116,17 @@ function Navigation() {
                       <Settings className="w-4 h-4" />
                       <span>Account Settings</span>
                     </Link>
+
+                    {isAppAdmin && (
+                      <Link
+                        to="/admin/logs"
+                        className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        onClick={() => setIsProfileMenuOpen(false)}
+                      >
+                        <ScrollText className="w-4 h-4" />
+                        <span>Event Logs</span>
+                      </Link>
+                    )}
                     
                     <button
                       onClick={handleSignOut}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { notificationService, type AppNotification } from '../lib/supabase';
+
+// Escalations run every 15 minutes, so polling more often than this wouldn't show anything new
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadNotifications = async () => {
+    setNotifications(await notificationService.getNotifications());
+  };
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  const handleOpen = async (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.read_at) {
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n)));
+      await notificationService.markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || now })));
+    await notificationService.markAllAsRead();
+  };
+
+  const formatWhen = (value: string) => {
+    return new Date(value).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg border border-gray-200 z-50">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+              <p className="text-sm font-medium text-gray-900">Notifications</p>
+              {unreadCount > 0 && (
+                <button onClick={handleMarkAllRead} className="text-xs text-blue-600 hover:text-blue-700">
+                  Mark all read
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map(notification => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50/50'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.read_at && <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                        {notification.body && <p className="text-sm text-gray-600">{notification.body}</p>}
+                        <p className="text-xs text-gray-400 mt-1">{formatWhen(notification.created_at)}</p>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Send, Loader, AlertCircle } from 'lucide-react';
+import { clientPortalService, type CheckinQuestion, type PortalOverview } from '../lib/supabase';
+
+interface PortalCheckinFormProps {
+  form: PortalOverview['form'];
+  brandColor: string;
+  onSubmitted: () => void;
+  onSessionExpired: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const QuestionInput: React.FC<{
+  question: CheckinQuestion;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}> = ({ question, value, onChange }) => {
+  switch (question.type) {
+    case 'scale': {
+      const min = question.scale_min ?? 1;
+      const max = question.scale_max ?? 10;
+      return (
+        <div className="flex flex-wrap gap-2">
+          {Array.from({ length: max - min + 1 }, (_, index) => min + index).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onChange(option)}
+              className={`w-10 h-10 rounded-lg border text-sm font-medium transition-colors ${
+                value === option ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+    case 'boolean':
+      return (
+        <div className="flex gap-2">
+          {[true, false].map(option => (
+            <button
+              key={String(option)}
+              type="button"
+              onClick={() => onChange(option)}
+              className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                value === option ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option ? 'Yes' : 'No'}
+            </button>
+          ))}
+        </div>
+      );
+    case 'choice':
+      return (
+        <select value={String(value ?? '')} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+          <option value="">Choose one</option>
+          {(question.options || []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            step="any"
+            value={String(value ?? '')}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName}
+          />
+          {question.unit && <span className="text-sm text-gray-500">{question.unit}</span>}
+        </div>
+      );
+    default:
+      return (
+        <textarea
+          rows={3}
+          value={String(value ?? '')}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      );
+  }
+};
+
+const PortalCheckinForm: React.FC<PortalCheckinFormProps> = ({ form, brandColor, onSubmitted, onSessionExpired }) => {
+  const [answers, setAnswers] = useState<Record<string, unknown>>({});
+  const [notes, setNotes] = useState('');
+  // One id per filled-in form, so a retried submit can't create a second check-in
+  const [submissionId, setSubmissionId] = useState(() => crypto.randomUUID());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const questions = form?.questions || [];
+  const hasInput = notes.trim() !== '' || Object.values(answers).some(value => value !== '' && value !== undefined);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await clientPortalService.submitCheckin(submissionId, answers, notes);
+    setIsSubmitting(false);
+
+    if ('error' in result) {
+      if (result.sessionExpired) {
+        onSessionExpired();
+        return;
+      }
+      setError(result.error);
+      return;
+    }
+
+    setAnswers({});
+    setNotes('');
+    setSubmissionId(crypto.randomUUID());
+    onSubmitted();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {form?.description && <p className="text-gray-600">{form.description}</p>}
+
+      {questions.map(question => (
+        <div key={question.id}>
+          <label className="block text-sm font-medium text-gray-900 mb-2">{question.label}</label>
+          <QuestionInput
+            question={question}
+            value={answers[question.id]}
+            onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+          />
+        </div>
+      ))}
+
+      <div>
+        <label htmlFor="portal-notes" className="block text-sm font-medium text-gray-900 mb-2">
+          {questions.length > 0 ? 'Anything else your coach should know?' : 'How did things go since your last check-in?'}
+        </label>
+        <textarea
+          id="portal-notes"
+          rows={6}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Wins, struggles, questions..."
+          className={inputClassName}
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !hasInput}
+        style={{ backgroundColor: brandColor }}
+        className="w-full flex items-center justify-center space-x-2 px-6 py-3 text-white rounded-lg hover:opacity-90 transition-opacity font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        <span>{isSubmitting ? 'Sending...' : 'Send check-in'}</span>
+      </button>
+    </form>
+  );
+};
+
+export default PortalCheckinForm;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, CheckCircle } from 'lucide-react';
+import { responseMediaService } from '../lib/supabase';
+
+interface ResponseMediaPlayerProps {
+  path: string;
+  mimeType: string | null | undefined;
+  // Show the "Copy share link" action for sending the recording to the client
+  allowShare?: boolean;
+  compact?: boolean;
+}
+
+const ResponseMediaPlayer: React.FC<ResponseMediaPlayerProps> = ({ path, mimeType, allowShare = false, compact = false }) => {
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copying' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlaybackUrl(null);
+    setLoadFailed(false);
+
+    responseMediaService.getPlaybackUrl(path).then(url => {
+      if (cancelled) return;
+      if (url) {
+        setPlaybackUrl(url);
+      } else {
+        setLoadFailed(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  const handleCopyShareLink = async () => {
+    setShareStatus('copying');
+    const link = await responseMediaService.createShareLink(path);
+    if (!link) {
+      setShareStatus('failed');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus('copied');
+      setTimeout(() => setShareStatus('idle'), 2000);
+    } catch {
+      setShareStatus('failed');
+    }
+  };
+
+  const isAudio = mimeType?.startsWith('audio/') ?? false;
+
+  if (loadFailed) {
+    return <p className="text-sm text-red-600">The recording couldn't be loaded.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {!playbackUrl ? (
+        <div className={`bg-gray-100 rounded-lg animate-pulse ${isAudio ? 'h-12' : compact ? 'h-32' : 'h-56'}`} />
+      ) : isAudio ? (
+        <audio controls preload="metadata" src={playbackUrl} className="w-full" />
+      ) : (
+        <video
+          controls
+          preload="metadata"
+          src={playbackUrl}
+          className={`w-full rounded-lg bg-black ${compact ? 'max-h-48' : 'max-h-96'}`}
+        />
+      )}
+
+      {allowShare && (
+        <button
+          onClick={handleCopyShareLink}
+          disabled={shareStatus === 'copying'}
+          className="inline-flex items-center text-xs font-medium text-indigo-700 hover:text-indigo-800 disabled:opacity-50"
+        >
+          {shareStatus === 'copied' ? <CheckCircle className="h-3 w-3 mr-1" /> : <Link2 className="h-3 w-3 mr-1" />}
+          {shareStatus === 'copied'
+            ? 'Link copied (valid for 7 days)'
+            : shareStatus === 'failed'
+              ? "Couldn't create link, try again"
+              : 'Copy share link'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ResponseMediaPlayer;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Timer, CheckCircle, AlertCircle } from 'lucide-react';
+import { slaService, teamService, DEFAULT_RESPONSE_SLA_HOURS, type SlaEscalationAction } from '../lib/supabase';
+
+const SLA_PRESETS = [12, 24, 48, 72];
+
+const ResponseSlaSection: React.FC = () => {
+  const [slaHours, setSlaHours] = useState(DEFAULT_RESPONSE_SLA_HOURS);
+  const [escalationAction, setEscalationAction] = useState<SlaEscalationAction>('notify');
+  const [escalationTargetId, setEscalationTargetId] = useState<string | null>(null);
+  const [coaches, setCoaches] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setIsLoading(true);
+    const [settings, teamCoaches] = await Promise.all([
+      slaService.getSettings(),
+      teamService.getAssignableCoaches()
+    ]);
+
+    if (settings) {
+      setSlaHours(settings.response_sla_hours);
+      setEscalationAction(settings.escalation_action);
+      setEscalationTargetId(settings.escalation_target_id);
+    }
+    setCoaches(teamCoaches);
+    setIsLoading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setStatus(null);
+
+    const saved = await slaService.saveSettings({
+      response_sla_hours: slaHours,
+      escalation_action: escalationAction,
+      escalation_target_id: escalationAction === 'reassign' ? escalationTargetId : null
+    });
+
+    setStatus(saved
+      ? { type: 'success', message: 'Response SLA saved' }
+      : { type: 'error', message: 'Failed to save response SLA' });
+    setIsSaving(false);
+  };
+
+  const hasTeam = coaches.length > 1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center space-x-2">
+        <Timer className="w-5 h-5" />
+        <span>Response SLA</span>
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        How quickly clients can expect a reply. Check-ins waiting longer are marked overdue in the
+        queue and escalated automatically.
+      </p>
+
+      {isLoading ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading SLA settings...</div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Respond within</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={336}
+                value={slaHours}
+                onChange={(e) => setSlaHours(Math.min(336, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-600">hours</span>
+              <div className="flex gap-1 ml-2">
+                {SLA_PRESETS.map(hours => (
+                  <button
+                    key={hours}
+                    type="button"
+                    onClick={() => setSlaHours(hours)}
+                    className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                      slaHours === hours ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {hours}h
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">When a check-in is overdue</label>
+            <select
+              value={escalationAction}
+              onChange={(e) => setEscalationAction(e.target.value as SlaEscalationAction)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="notify">Notify the assigned coach</option>
+              <option value="reassign" disabled={!hasTeam}>
+                Reassign to another coach on the team{hasTeam ? '' : ' (needs a team)'}
+              </option>
+              <option value="none">Do nothing</option>
+            </select>
+          </div>
+
+          {escalationAction === 'reassign' && hasTeam && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reassign to</label>
+              <select
+                value={escalationTargetId ?? ''}
+                onChange={(e) => setEscalationTargetId(e.target.value || null)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Whoever has the fewest pending check-ins</option>
+                {coaches.map(coach => (
+                  <option key={coach.id} value={coach.id}>{coach.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {status && (
+            <div className={`p-3 rounded-lg flex items-center space-x-2 text-sm ${
+              status.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              <span>{status.message}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ResponseSlaSection;
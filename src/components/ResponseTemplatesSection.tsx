@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, Plus, Edit2, Trash2, Users, Lock, CheckCircle, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { responseTemplatesService, type ResponseTemplate, type ResponseTemplateInput } from '../lib/supabase';
+import { RESPONSE_TEMPLATE_CATEGORIES, RESPONSE_TEMPLATE_VARIABLES } from '../lib/responseTemplates';
+
+interface ResponseTemplatesSectionProps {
+  // Head coach and team admins can edit and delete every shared template
+  canManageTeam: boolean;
+}
+
+const EMPTY_DRAFT: ResponseTemplateInput = { title: '', content: '', category: 'encouragement', is_shared: false };
+
+const ResponseTemplatesSection: React.FC<ResponseTemplatesSectionProps> = ({ canManageTeam }) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<ResponseTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<ResponseTemplateInput>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    setIsLoading(true);
+    setTemplates(await responseTemplatesService.getTemplates());
+    setIsLoading(false);
+  };
+
+  const canEdit = (template: ResponseTemplate) =>
+    template.created_by === user?.id || (template.is_shared && canManageTeam);
+
+  const startEditing = (template: ResponseTemplate | null) => {
+    setEditingId(template ? template.id : 'new');
+    setDraft(template
+      ? { title: template.title, content: template.content, category: template.category, is_shared: template.is_shared }
+      : EMPTY_DRAFT);
+    setStatus(null);
+  };
+
+  // Insert at the cursor so variables can go mid-sentence
+  const insertVariable = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const textarea = contentRef.current;
+    const start = textarea?.selectionStart ?? draft.content.length;
+    const end = textarea?.selectionEnd ?? draft.content.length;
+    setDraft(prev => ({ ...prev, content: prev.content.slice(0, start) + placeholder + prev.content.slice(end) }));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.title.trim() || !draft.content.trim()) {
+      setStatus({ type: 'error', message: 'Templates need a title and some content' });
+      return;
+    }
+
+    setIsSaving(true);
+    setStatus(null);
+
+    const input = { ...draft, title: draft.title.trim(), content: draft.content.trim() };
+    const saved = editingId === 'new'
+      ? await responseTemplatesService.createTemplate(input)
+      : await responseTemplatesService.updateTemplate(editingId!, input);
+
+    if (saved) {
+      setTemplates(prev => editingId === 'new'
+        ? [...prev, saved]
+        : prev.map(template => template.id === saved.id ? saved : template));
+      setEditingId(null);
+      setStatus({ type: 'success', message: 'Template saved' });
+    } else {
+      setStatus({ type: 'error', message: 'Failed to save template' });
+    }
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (template: ResponseTemplate) => {
+    if (!confirm(`Delete the template "${template.title}"?`)) return;
+
+    if (await responseTemplatesService.deleteTemplate(template.id)) {
+      setTemplates(prev => prev.filter(other => other.id !== template.id));
+    } else {
+      setStatus({ type: 'error', message: 'Failed to delete template' });
+    }
+  };
+
+  const handleAddStarters = async () => {
+    const added = await responseTemplatesService.addStarterTemplates();
+    if (added.length > 0) {
+      setTemplates(prev => [...prev, ...added]);
+    } else {
+      setStatus({ type: 'error', message: 'Failed to add starter templates' });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+          <FileText className="w-5 h-5" />
+          <span>Response Templates</span>
+        </h2>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing(null)}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Template</span>
+          </button>
+        )}
+      </div>
+
+      <p className="text-gray-600 mb-4">
+        Reusable responses for the quick-templates panel on each check-in. Variables are filled in for
+        the client you're responding to. Shared templates are available to everyone on your team.
+      </p>
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="space-y-4 mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+              <input
+                type="text"
+                value={draft.title}
+                maxLength={100}
+                onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={draft.category}
+                onChange={(e) => setDraft(prev => ({ ...prev, category: e.target.value as ResponseTemplateInput['category'] }))}
+                className={`${inputClass} capitalize`}
+              >
+                {RESPONSE_TEMPLATE_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Content</label>
+            <textarea
+              ref={contentRef}
+              value={draft.content}
+              maxLength={5000}
+              onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+              rows={4}
+              className={inputClass}
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {RESPONSE_TEMPLATE_VARIABLES.map(variable => (
+                <button
+                  key={variable.key}
+                  type="button"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.key)}
+                  className="px-2 py-0.5 text-xs font-mono bg-white border border-gray-300 rounded hover:bg-gray-100"
+                >
+                  {`{{${variable.key}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.is_shared}
+              onChange={(e) => setDraft(prev => ({ ...prev, is_shared: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Share with my team</span>
+          </label>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status && (
+        <div className={`mb-4 p-3 rounded-lg flex items-center space-x-2 text-sm ${
+          status.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-700'
+            : 'bg-red-50 border border-red-200 text-red-700'
+        }`}>
+          {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          <span>{status.message}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading templates...</div>
+      ) : templates.length === 0 ? (
+        <div className="p-4 text-sm text-gray-500 text-center">
+          <p className="mb-2">You don't have any templates yet.</p>
+          <button onClick={handleAddStarters} className="text-blue-600 hover:text-blue-700 font-medium">
+            Start with the starter templates
+          </button>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {templates.map(template => (
+            <li key={template.id} className="p-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{template.title}</span>
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600 capitalize">{template.category}</span>
+                  {template.is_shared ? (
+                    <span className="flex items-center text-xs text-gray-500"><Users className="w-3 h-3 mr-1" />Shared</span>
+                  ) : (
+                    <span className="flex items-center text-xs text-gray-500"><Lock className="w-3 h-3 mr-1" />Private</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 line-clamp-2 mt-1">{template.content}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Used {template.usage_count} {template.usage_count === 1 ? 'time' : 'times'}
+                  {template.last_used_at && `, last on ${new Date(template.last_used_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              {canEdit(template) && (
+                <div className="flex items-center space-x-1 shrink-0">
+                  <button
+                    onClick={() => startEditing(template)}
+                    title="Edit"
+                    className="p-1.5 text-gray-400 hover:text-gray-600 rounded"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    title="Delete"
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ResponseTemplatesSection;
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, Trash2, Copy, CheckCircle, AlertCircle, Mail } from 'lucide-react';
+import { teamService, type TeamMember, type TeamRole } from '../lib/supabase';
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+  assistant_coach: 'Assistant Coach',
+  admin: 'Admin',
+};
+
+const TeamManagementSection: React.FC = () => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('assistant_coach');
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  const loadMembers = async () => {
+    setIsLoading(true);
+    setMembers(await teamService.getTeamMembers());
+    setIsLoading(false);
+  };
+
+  const getAcceptUrl = (member: TeamMember) =>
+    `${window.location.origin}/team/accept?token=${member.invite_token}`;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    setError(null);
+    setNotice(null);
+
+    const result = await teamService.inviteTeamMember(inviteEmail.trim(), inviteRole);
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setInviteEmail('');
+      setNotice(result.emailSent
+        ? `Invitation emailed to ${result.member.member_email}.`
+        : `${result.member.member_email} already has an account, so no email was sent. Copy their invite link below and send it to them.`);
+      await loadMembers();
+    }
+
+    setIsInviting(false);
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    setError(null);
+    if (await teamService.updateTeamMemberRole(member.id, role)) {
+      setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role } : m)));
+    } else {
+      setError('Failed to update role');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const label = member.member_profile?.full_name || member.member_email;
+    const prompt = member.status === 'pending_invitation'
+      ? `Revoke the invitation for ${label}?`
+      : `Remove ${label} from your team? They will lose access to your clients and check-ins.`;
+    if (!confirm(prompt)) return;
+
+    setError(null);
+    if (await teamService.removeTeamMember(member.id)) {
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } else {
+      setError('Failed to remove team member');
+    }
+  };
+
+  const handleCopyLink = async (member: TeamMember) => {
+    try {
+      await navigator.clipboard.writeText(getAcceptUrl(member));
+      setCopiedId(member.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  const isExpired = (member: TeamMember) =>
+    !!member.invite_expires_at && new Date(member.invite_expires_at) < new Date();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center space-x-2">
+        <Users className="w-5 h-5" />
+        <span>Team</span>
+      </h2>
+
+      <p className="text-gray-600 mb-4">
+        Invite assistant coaches to work on your clients and check-ins with their own login.
+        Assistants can view and respond to check-ins; admins can also manage the team and settings.
+      </p>
+
+      <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="email"
+          value={inviteEmail}
+          onChange={(e) => setInviteEmail(e.target.value)}
+          placeholder="assistant@example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <select
+          value={inviteRole}
+          onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="assistant_coach">Assistant Coach</option>
+          <option value="admin">Admin</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isInviting || !inviteEmail.trim()}
+          className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <UserPlus className="w-4 h-4" />
+          <span>{isInviting ? 'Inviting...' : 'Invite'}</span>
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2 text-sm text-green-700">
+          <Mail className="w-4 h-4 flex-shrink-0" />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading team...</div>
+      ) : members.length === 0 ? (
+        <div className="p-4 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500 text-center">
+          No team members yet
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <h3 className="font-semibold text-gray-900 truncate">
+                    {member.member_profile?.full_name || member.member_email}
+                  </h3>
+                  {member.status === 'pending_invitation' && (
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                      isExpired(member) ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                    }`}>
+                      {isExpired(member) ? 'Invite expired' : 'Invited'}
+                    </span>
+                  )}
+                </div>
+                {member.member_profile?.full_name && (
+                  <p className="text-sm text-gray-600 truncate">{member.member_email}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                  className="text-sm px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {member.status === 'pending_invitation' && member.invite_token && !isExpired(member) && (
+                  <button
+                    onClick={() => handleCopyLink(member)}
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title="Copy invite link"
+                  >
+                    {copiedId === member.id ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleRemove(member)}
+                  className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title={member.status === 'pending_invitation' ? 'Revoke invitation' : 'Remove from team'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamManagementSection;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { TrendSeries } from '../lib/clientTrends';
+
+interface TrendCardProps {
+  series: TrendSeries;
+  variant?: 'line' | 'bar';
+  // true/false colours the delta green when it moves the good way; null keeps it neutral
+  higherIsBetter?: boolean | null;
+  formatValue?: (value: number) => string;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 4;
+
+const defaultFormat = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const TrendCard: React.FC<TrendCardProps> = ({ series, variant = 'line', higherIsBetter = null, formatValue = defaultFormat }) => {
+  const values = series.points.map(point => point.value).filter((value): value is number => value !== null);
+  const min = variant === 'bar' ? 0 : Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+
+  const stepX = (CHART_WIDTH - CHART_PADDING * 2) / Math.max(series.points.length - (variant === 'bar' ? 0 : 1), 1);
+  const toY = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const unitSuffix = series.unit ? ` ${series.unit}` : '';
+
+  const getDeltaDisplay = () => {
+    if (series.delta === null) {
+      return <span className="text-xs text-slate-400">No prior week</span>;
+    }
+
+    const direction = series.delta > 0 ? 'up' : series.delta < 0 ? 'down' : 'flat';
+    const isGood = higherIsBetter === null || direction === 'flat' ? null : (direction === 'up') === higherIsBetter;
+    const color = isGood === null ? 'text-slate-600 dark:text-slate-400' : isGood ? 'text-green-600' : 'text-red-600';
+    const Icon = direction === 'up' ? TrendingUp : direction === 'down' ? TrendingDown : Minus;
+
+    return (
+      <span className={`flex items-center gap-1 text-xs font-medium ${color}`}>
+        <Icon className="w-3 h-3" />
+        {series.delta > 0 ? '+' : ''}{formatValue(series.delta)}{unitSuffix} vs prior week
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h4 className="text-sm font-medium text-slate-600 dark:text-slate-400">{series.label}</h4>
+          <p className="text-xl font-bold text-slate-900 dark:text-white">
+            {series.latest !== null ? `${formatValue(series.latest)}${unitSuffix}` : 'N/A'}
+          </p>
+        </div>
+        {getDeltaDisplay()}
+      </div>
+
+      {values.length === 0 ? (
+        <div className="h-20 flex items-center justify-center text-xs text-slate-400">No data in this range</div>
+      ) : (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+          {variant === 'bar' ? (
+            series.points.map((point, index) => {
+              const barHeight = point.value ? CHART_HEIGHT - CHART_PADDING - toY(point.value) : 0;
+              return (
+                <rect
+                  key={point.weekStart}
+                  x={CHART_PADDING + index * stepX + stepX * 0.15}
+                  y={CHART_HEIGHT - CHART_PADDING - barHeight}
+                  width={stepX * 0.7}
+                  height={barHeight}
+                  rx={1}
+                  className="fill-blue-500"
+                >
+                  <title>{`Week of ${formatWeek(point.weekStart)}: ${formatValue(point.value || 0)}${unitSuffix}`}</title>
+                </rect>
+              );
+            })
+          ) : (
+            <>
+              <polyline
+                points={series.points
+                  .map((point, index) => (point.value !== null ? `${CHART_PADDING + index * stepX},${toY(point.value)}` : null))
+                  .filter(Boolean)
+                  .join(' ')}
+                fill="none"
+                strokeWidth={2}
+                className="stroke-blue-500"
+              />
+              {series.points.map((point, index) => point.value !== null && (
+                <circle
+                  key={point.weekStart}
+                  cx={CHART_PADDING + index * stepX}
+                  cy={toY(point.value)}
+                  r={2.5}
+                  className="fill-blue-600"
+                >
+                  <title>{`Week of ${formatWeek(point.weekStart)}: ${formatValue(point.value)}${unitSuffix}`}</title>
+                </circle>
+              ))}
+            </>
+          )}
+        </svg>
+      )}
+
+      {series.points.length > 0 && (
+        <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+          <span>{formatWeek(series.points[0].weekStart)}</span>
+          <span>{formatWeek(series.points[series.points.length - 1].weekStart)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendCard;
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CheckCircle, AlertCircle, ListTree } from 'lucide-react';
+import { checkinWebhookService, type UserCheckinWebhookSettings } from '../lib/supabase';
+import {
+  MAPPED_FIELDS,
+  applyFieldMappingRule,
+  parseSelector,
+  type FieldMappings,
+  type MappedField
+} from '../lib/fieldMappings';
+
+interface WebhookFieldMappingEditorProps {
+  fieldMappings: FieldMappings | null | undefined;
+  onSaved: (settings: UserCheckinWebhookSettings) => void;
+}
+
+// Editable form state: selectors are kept as newline-separated text while editing
+interface RuleDraft {
+  selectors: string;
+  concat: boolean;
+  separator: string;
+  default: string;
+}
+
+const toDrafts = (fieldMappings: FieldMappings | null | undefined): Record<MappedField, RuleDraft> => {
+  const drafts = {} as Record<MappedField, RuleDraft>;
+  MAPPED_FIELDS.forEach(({ field }) => {
+    const rule = fieldMappings?.[field];
+    drafts[field] = {
+      selectors: (rule?.selectors || []).join('\n'),
+      concat: !!rule?.concat,
+      separator: rule?.separator ?? (field === 'transcript' ? '\n' : ' '),
+      default: rule?.default || ''
+    };
+  });
+  return drafts;
+};
+
+const toMappings = (drafts: Record<MappedField, RuleDraft>): FieldMappings => {
+  const mappings: FieldMappings = {};
+  MAPPED_FIELDS.forEach(({ field }) => {
+    const draft = drafts[field];
+    const selectors = draft.selectors.split('\n').map(selector => selector.trim()).filter(Boolean);
+    if (selectors.length > 0 || draft.default.trim()) {
+      mappings[field] = {
+        selectors,
+        concat: draft.concat,
+        separator: draft.separator,
+        default: draft.default
+      };
+    }
+  });
+  return mappings;
+};
+
+// Separators are typed as escape sequences so newlines and tabs can be entered in a single-line input
+const decodeSeparator = (value: string) => value.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+const encodeSeparator = (value: string) => value.replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+
+const WebhookFieldMappingEditor: React.FC<WebhookFieldMappingEditorProps> = ({ fieldMappings, onSaved }) => {
+  const [drafts, setDrafts] = useState<Record<MappedField, RuleDraft>>(() => toDrafts(fieldMappings));
+  const [samplePayload, setSamplePayload] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(toDrafts(fieldMappings));
+  }, [fieldMappings]);
+
+  const updateDraft = (field: MappedField, changes: Partial<RuleDraft>) => {
+    setDrafts(prev => ({ ...prev, [field]: { ...prev[field], ...changes } }));
+    setMessage(null);
+  };
+
+  const mappings = useMemo(() => toMappings(drafts), [drafts]);
+
+  const invalidSelectors = useMemo(() => {
+    return Object.values(mappings)
+      .flatMap(rule => rule?.selectors || [])
+      .filter(selector => parseSelector(selector) === null);
+  }, [mappings]);
+
+  // Live preview against the pasted sample payload
+  const preview = useMemo(() => {
+    if (!samplePayload.trim()) return null;
+    try {
+      const payload = JSON.parse(samplePayload);
+      const values = {} as Record<MappedField, string | null | undefined>;
+      MAPPED_FIELDS.forEach(({ field }) => {
+        values[field] = mappings[field] ? applyFieldMappingRule(payload, mappings[field]) : undefined;
+      });
+      return { values, error: null };
+    } catch (parseError) {
+      return { values: null, error: parseError instanceof Error ? parseError.message : 'Invalid JSON' };
+    }
+  }, [samplePayload, mappings]);
+
+  const handleSave = async () => {
+    if (invalidSelectors.length > 0) {
+      setError(`Invalid selector: ${invalidSelectors[0]}`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const updated = await checkinWebhookService.updateFieldMappings(mappings);
+      if (updated) {
+        onSaved(updated);
+        setMessage('Field mappings saved');
+      } else {
+        setError('Failed to save field mappings');
+      }
+    } catch (saveError) {
+      console.error('Error saving field mappings:', saveError);
+      setError('Failed to save field mappings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <ListTree className="w-5 h-5 text-slate-600" />
+        <h4 className="font-medium text-slate-700">Field Mapping</h4>
+      </div>
+      <p className="text-xs text-slate-500">
+        Tell us where your form tool puts each field. Use selectors like <code className="font-mono">$.contact.name</code>,{' '}
+        <code className="font-mono">$.answers[0].text</code>, <code className="font-mono">$.answers[*].text</code> or{' '}
+        <code className="font-mono">$['Full Name']</code>, one per line. The first selector that matches wins unless you
+        combine matches. Empty fields use the built-in detection.
+      </p>
+
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+          <CheckCircle className="w-4 h-4 text-green-500" />
+          <span className="text-green-700 text-sm">{message}</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="w-4 h-4 text-red-500" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {MAPPED_FIELDS.map(({ field, label }) => (
+          <div key={field} className="space-y-2">
+            <label htmlFor={`mapping-${field}`} className="block text-sm font-medium text-slate-600">
+              {label}
+            </label>
+            <textarea
+              id={`mapping-${field}`}
+              value={drafts[field].selectors}
+              onChange={(e) => updateDraft(field, { selectors: e.target.value })}
+              rows={2}
+              placeholder={field === 'transcript' ? '$.answers[*].text' : `$.contact.${field === 'client_name' ? 'name' : field}`}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center space-x-2 text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={drafts[field].concat}
+                  onChange={(e) => updateDraft(field, { concat: e.target.checked })}
+                  className="rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+                />
+                <span>Combine all matches</span>
+              </label>
+              {drafts[field].concat && (
+                <input
+                  type="text"
+                  value={encodeSeparator(drafts[field].separator)}
+                  onChange={(e) => updateDraft(field, { separator: decodeSeparator(e.target.value) })}
+                  placeholder="Separator"
+                  title="Separator (use \n for a new line)"
+                  className="w-24 px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+              <input
+                type="text"
+                value={drafts[field].default}
+                onChange={(e) => updateDraft(field, { default: e.target.value })}
+                placeholder="Default value (optional)"
+                className="flex-1 min-w-[10rem] px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label htmlFor="mapping-sample-payload" className="block text-sm font-medium text-slate-600 mb-2">
+          Sample payload
+        </label>
+        <textarea
+          id="mapping-sample-payload"
+          value={samplePayload}
+          onChange={(e) => setSamplePayload(e.target.value)}
+          rows={5}
+          placeholder='Paste a JSON payload from your form tool to preview, e.g. {"contact": {"name": "Jane"}}'
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-900 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {preview && (
+        <div className="bg-slate-50 rounded-lg p-3 text-xs space-y-2">
+          {preview.error ? (
+            <p className="text-red-600">Sample payload is not valid JSON: {preview.error}</p>
+          ) : (
+            MAPPED_FIELDS.map(({ field, label }) => {
+              const value = preview.values?.[field];
+              return (
+                <div key={field} className="flex items-start space-x-2">
+                  <span className="w-24 flex-shrink-0 font-medium text-slate-600">{label}</span>
+                  {value === undefined ? (
+                    <span className="text-slate-400 italic">built-in detection</span>
+                  ) : value === null ? (
+                    <span className="text-amber-600 italic">no match, built-in detection</span>
+                  ) : (
+                    <span className="text-slate-800 whitespace-pre-wrap break-all">{value}</span>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-teal-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {saving ? 'Saving...' : 'Save Field Mappings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WebhookFieldMappingEditor;
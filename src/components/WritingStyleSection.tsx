@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { PenTool, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react';
+import { styleProfileService, type CoachStyleProfile } from '../lib/supabase';
+
+const WritingStyleSection: React.FC = () => {
+  const [profile, setProfile] = useState<CoachStyleProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    styleProfileService.getProfile().then(loaded => {
+      setProfile(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    setStatus(null);
+
+    const result = await styleProfileService.rebuild();
+    if ('error' in result) {
+      setStatus({ type: 'error', message: result.error });
+    } else if (!result.profile) {
+      setStatus({
+        type: 'error',
+        message: `Your style is learned from at least 5 written responses; you have ${result.sampleCount} so far.`
+      });
+    } else {
+      setProfile(result.profile);
+      setStatus({ type: 'success', message: `Style profile updated from ${result.sampleCount} responses` });
+    }
+    setIsRebuilding(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+          <PenTool className="w-5 h-5" />
+          <span>Writing Style</span>
+        </h2>
+        <button
+          onClick={handleRebuild}
+          disabled={isRebuilding}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-4 h-4 ${isRebuilding ? 'animate-spin' : ''}`} />
+          <span>{isRebuilding ? 'Learning...' : profile ? 'Refresh' : 'Learn my style'}</span>
+        </button>
+      </div>
+
+      <p className="text-gray-600 mb-4">
+        AI drafts in the response window are written in your voice, learned from your own past
+        responses. The profile refreshes itself every two weeks when you draft, or you can refresh it now.
+      </p>
+
+      {status && (
+        <div className={`mb-4 p-3 rounded-lg flex items-center space-x-2 text-sm ${
+          status.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-700'
+            : 'bg-red-50 border border-red-200 text-red-700'
+        }`}>
+          {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          <span>{status.message}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-4 text-sm text-gray-500 text-center">Loading style profile...</div>
+      ) : !profile ? (
+        <div className="p-4 text-sm text-gray-500 text-center">
+          No style profile yet. It's built automatically once you have written at least 5 responses.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Tone</dt>
+              <dd className="font-medium text-gray-900 capitalize">{profile.tone || 'Not described'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Typical length</dt>
+              <dd className="font-medium text-gray-900">About {profile.avg_word_count} words</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Learned from</dt>
+              <dd className="font-medium text-gray-900">
+                {profile.sample_count} responses on {new Date(profile.generated_at).toLocaleDateString()}
+              </dd>
+            </div>
+          </dl>
+
+          {[
+            { label: 'Greetings', values: profile.greetings },
+            { label: 'Sign-offs', values: profile.sign_offs },
+            { label: 'Phrases you use often', values: profile.common_phrases }
+          ].filter(group => group.values.length > 0).map(group => (
+            <div key={group.label}>
+              <p className="text-sm text-gray-500 mb-1">{group.label}</p>
+              <div className="flex flex-wrap gap-1">
+                {group.values.map(value => (
+                  <span key={value} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{value}</span>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <p className="text-sm text-gray-500 mb-1">Style guide</p>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              {profile.style_guide}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WritingStyleSection;
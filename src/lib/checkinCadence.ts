@@ -0,0 +1,25 @@
+// Expected check-in schedule for a client; next_checkin_due_at itself is computed in the database.
+
+import type { Client } from './supabase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Indexed like Postgres EXTRACT(DOW): 0 is Sunday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type CadenceFields = Pick<Client, 'checkin_cadence_days' | 'checkin_cadence_weekday'>;
+
+// "Every 10 days", "Weekly on Sunday", "Every 2 weeks on Monday"
+export const describeCadence = ({ checkin_cadence_days: days, checkin_cadence_weekday: weekday }: CadenceFields): string | null => {
+  if (!days) return null;
+  if (weekday === null || weekday === undefined) {
+    return days === 1 ? 'Daily' : `Every ${days} days`;
+  }
+  const weeks = days / 7;
+  return weeks === 1 ? `Weekly on ${WEEKDAYS[weekday]}` : `Every ${weeks} weeks on ${WEEKDAYS[weekday]}`;
+};
+
+export const getDaysOverdue = (client: Pick<Client, 'next_checkin_due_at'>, now: Date = new Date()): number =>
+  client.next_checkin_due_at
+    ? Math.max(0, Math.floor((now.getTime() - new Date(client.next_checkin_due_at).getTime()) / DAY_MS))
+    : 0;
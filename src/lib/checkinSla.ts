@@ -0,0 +1,35 @@
+// Age and SLA status of pending check-ins for the queue badges.
+
+import type { Checkin } from './supabase';
+
+export type SlaStatus = 'on_track' | 'due_soon' | 'overdue';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Share of the SLA after which a check-in counts as due soon
+const DUE_SOON_RATIO = 0.75;
+
+// Age is measured from when the check-in arrived, matching the escalation job
+export const getCheckinAgeHours = (checkin: Pick<Checkin, 'created_at'>, now: Date = new Date()): number =>
+  Math.max(0, (now.getTime() - new Date(checkin.created_at).getTime()) / HOUR_MS);
+
+export const getSlaStatus = (ageHours: number, slaHours: number): SlaStatus => {
+  if (ageHours >= slaHours) return 'overdue';
+  if (ageHours >= slaHours * DUE_SOON_RATIO) return 'due_soon';
+  return 'on_track';
+};
+
+// "45m", "5h", "2d 3h"
+export const formatAge = (hours: number): string => {
+  if (hours < 1) return `${Math.floor(hours * 60)}m`;
+  if (hours < 24) return `${Math.floor(hours)}h`;
+  const days = Math.floor(hours / 24);
+  const remainder = Math.floor(hours % 24);
+  return remainder > 0 ? `${days}d ${remainder}h` : `${days}d`;
+};
+
+export const SLA_STATUS_STYLES: Record<SlaStatus, string> = {
+  on_track: 'bg-slate-100 dark:bg-gray-700 text-slate-700 dark:text-gray-300',
+  due_soon: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300',
+  overdue: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
@@ -0,0 +1,155 @@
+// Weekly trend series for the ClientProfile analytics tab.
+
+import type { Checkin, CheckinAnswer } from './supabase';
+
+export type TrendRange = 4 | 12 | 26;
+
+export const TREND_RANGES: TrendRange[] = [4, 12, 26];
+
+export interface TrendPoint {
+  weekStart: string;
+  value: number | null;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  unit: string | null;
+  points: TrendPoint[];
+  // Most recent week with data, and its change from the previous week with data
+  latest: number | null;
+  delta: number | null;
+}
+
+export interface ClientTrends {
+  weeks: string[];
+  frequency: TrendSeries;
+  latency: TrendSeries;
+  tags: TrendSeries[];
+  metrics: TrendSeries[];
+}
+
+export type TrendCheckin = Pick<Checkin, 'id' | 'date' | 'created_at' | 'status' | 'response_submitted_at' | 'tags' | 'raw_data'>;
+
+export type TrendAnswer = Pick<CheckinAnswer, 'checkin_id' | 'question_id' | 'question_label' | 'unit' | 'value_number' | 'answered_at'>;
+
+const MAX_TAG_SERIES = 5;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// raw_data keys that hold numbers but aren't client metrics
+const NON_METRIC_KEY = /(^id$|_id$|Id$|_at$|timestamp|date|phone|zip|postal)/i;
+
+// Weeks start on Monday, local time
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const getWeekStarts = (weeks: number, now: Date = new Date()): Date[] => {
+  const current = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, index) => new Date(current.getTime() - (weeks - 1 - index) * WEEK_MS));
+};
+
+const humanize = (key: string) =>
+  key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').replace(/^\w/, char => char.toUpperCase());
+
+const toSeries = (key: string, label: string, unit: string | null, weekStarts: Date[], values: Array<number | null>): TrendSeries => {
+  const points = weekStarts.map((weekStart, index) => ({ weekStart: weekStart.toISOString(), value: values[index] }));
+  const withData = points.filter(point => point.value !== null);
+  const latest = withData.length > 0 ? withData[withData.length - 1].value : null;
+  const previous = withData.length > 1 ? withData[withData.length - 2].value : null;
+
+  return {
+    key,
+    label,
+    unit,
+    points,
+    latest,
+    delta: latest !== null && previous !== null ? latest - previous : null
+  };
+};
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+export const buildClientTrends = (
+  checkins: TrendCheckin[],
+  answers: TrendAnswer[],
+  weeks: TrendRange,
+  now: Date = new Date()
+): ClientTrends => {
+  const weekStarts = getWeekStarts(weeks, now);
+  const rangeStart = weekStarts[0].getTime();
+
+  const weekIndex = (dateString: string) => {
+    const time = new Date(dateString).getTime();
+    if (time < rangeStart) return -1;
+    return Math.min(Math.floor((time - rangeStart) / WEEK_MS), weeks - 1);
+  };
+
+  const counts = new Array(weeks).fill(0);
+  const latencies: number[][] = weekStarts.map(() => []);
+  const tagCounts = new Map<string, number[]>();
+  const metricValues = new Map<string, { label: string; unit: string | null; values: number[][] }>();
+
+  const addMetric = (key: string, label: string, unit: string | null, index: number, value: number) => {
+    if (!metricValues.has(key)) {
+      metricValues.set(key, { label, unit, values: weekStarts.map(() => []) });
+    }
+    metricValues.get(key)!.values[index].push(value);
+  };
+
+  // Typed questionnaire answers take priority over loose numbers in raw_data
+  const answeredQuestions = new Set(answers.map(answer => answer.question_id));
+  const checkinsWithAnswers = new Set(answers.map(answer => answer.checkin_id));
+
+  for (const checkin of checkins) {
+    const index = weekIndex(checkin.date);
+    if (index < 0) continue;
+
+    counts[index]++;
+
+    if (checkin.response_submitted_at) {
+      const hours = (new Date(checkin.response_submitted_at).getTime() - new Date(checkin.created_at).getTime()) / (1000 * 60 * 60);
+      if (hours >= 0) latencies[index].push(hours);
+    }
+
+    for (const tag of checkin.tags || []) {
+      if (!tagCounts.has(tag)) tagCounts.set(tag, new Array(weeks).fill(0));
+      tagCounts.get(tag)![index]++;
+    }
+
+    if (checkin.raw_data && !checkinsWithAnswers.has(checkin.id)) {
+      Object.entries(checkin.raw_data).forEach(([key, value]) => {
+        if (typeof value === 'number' && Number.isFinite(value) && !NON_METRIC_KEY.test(key) && !answeredQuestions.has(key)) {
+          addMetric(`raw:${key}`, humanize(key), null, index, value);
+        }
+      });
+    }
+  }
+
+  for (const answer of answers) {
+    if (answer.value_number === null) continue;
+    const index = weekIndex(answer.answered_at);
+    if (index < 0) continue;
+    addMetric(`answer:${answer.question_id}`, answer.question_label || humanize(answer.question_id), answer.unit, index, Number(answer.value_number));
+  }
+
+  const tags = [...tagCounts.entries()]
+    .sort((a, b) => b[1].reduce((sum, count) => sum + count, 0) - a[1].reduce((sum, count) => sum + count, 0))
+    .slice(0, MAX_TAG_SERIES)
+    .map(([tag, values]) => toSeries(`tag:${tag}`, tag, null, weekStarts, values));
+
+  const metrics = [...metricValues.entries()]
+    .map(([key, metric]) => toSeries(key, metric.label, metric.unit, weekStarts, metric.values.map(average)))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return {
+    weeks: weekStarts.map(weekStart => weekStart.toISOString()),
+    frequency: toSeries('frequency', 'Check-ins per week', null, weekStarts, counts),
+    latency: toSeries('latency', 'Response time', 'hours', weekStarts, latencies.map(average)),
+    tags,
+    metrics
+  };
+};
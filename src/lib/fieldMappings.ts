@@ -0,0 +1,3 @@
+// Webhook field mapping rules, shared with webhook-checkin so the preview in
+// CheckinWebhookSettingsModal matches what it stores.
+export * from '../../supabase/functions/_shared/field-mappings';
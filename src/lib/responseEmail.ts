@@ -0,0 +1,7 @@
+// Placeholder substitution for coach email templates, shared with deliver-checkin-response so
+// the preview in Account Settings matches what it sends.
+export {
+  renderTemplate,
+  TEMPLATE_VARIABLES,
+  type ResponseEmailVariables,
+} from '../../supabase/functions/_shared/response-email';
@@ -0,0 +1,73 @@
+// Variables for the coach response template library. Templates are stored with placeholders
+// such as {{client.first_name}} and filled in for a specific check-in when a coach uses one.
+
+export type ResponseTemplateCategory = 'encouragement' | 'guidance' | 'adjustment' | 'question' | 'other';
+
+export const RESPONSE_TEMPLATE_CATEGORIES: ResponseTemplateCategory[] = ['encouragement', 'guidance', 'adjustment', 'question', 'other'];
+
+export interface ResponseTemplateVariables {
+  'client.first_name': string;
+  'client.name': string;
+  'client.goals': string;
+  'checkin.date': string;
+  'last_checkin.date': string;
+  'coach.first_name': string;
+}
+
+export const RESPONSE_TEMPLATE_VARIABLES: { key: keyof ResponseTemplateVariables; description: string }[] = [
+  { key: 'client.first_name', description: "Client's first name" },
+  { key: 'client.name', description: "Client's full name" },
+  { key: 'client.goals', description: 'Goals from the client profile' },
+  { key: 'checkin.date', description: 'Date of this check-in' },
+  { key: 'last_checkin.date', description: 'Date of the check-in before this one' },
+  { key: 'coach.first_name', description: 'Your first name' }
+];
+
+// Unknown placeholders are left alone so a typo is visible in the draft instead of vanishing
+export const renderResponseTemplate = (content: string, variables: ResponseTemplateVariables): string =>
+  content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) =>
+    key in variables ? variables[key as keyof ResponseTemplateVariables] : placeholder);
+
+// Offered to coaches whose library is still empty
+export const STARTER_RESPONSE_TEMPLATES: { title: string; content: string; category: ResponseTemplateCategory }[] = [
+  {
+    title: 'Great Progress',
+    content: "I'm really impressed with the progress you're making, {{client.first_name}}! Keep up the excellent work and stay consistent with what's working for you.",
+    category: 'encouragement'
+  },
+  {
+    title: 'Stay the Course',
+    content: "You're on the right track! Continue with your current approach and let's check in again soon to see how things develop.",
+    category: 'guidance'
+  },
+  {
+    title: 'Reflection Question',
+    content: 'What do you think has been the most challenging part of this process for you? Understanding this can help us adjust our approach.',
+    category: 'question'
+  },
+  {
+    title: 'Small Adjustment',
+    content: "Based on your check-ins since {{last_checkin.date}}, let's make a small adjustment to your approach. This should help address the challenges you've mentioned.",
+    category: 'adjustment'
+  },
+  {
+    title: 'Celebrate Wins',
+    content: "Don't forget to celebrate these wins, no matter how small they might seem! Each step forward is meaningful progress towards {{client.goals}}.",
+    category: 'encouragement'
+  },
+  {
+    title: 'Overcome Obstacles',
+    content: "It sounds like you've hit a challenging period, {{client.first_name}}. Let's work together to identify strategies that can help you push through this.",
+    category: 'guidance'
+  },
+  {
+    title: 'Notice Patterns',
+    content: "I'm noticing some interesting patterns in your check-ins. What patterns are you seeing on your end?",
+    category: 'question'
+  },
+  {
+    title: 'Modify Approach',
+    content: 'Based on your feedback, I think we should modify our approach slightly. This adjustment should better align with your current situation.',
+    category: 'adjustment'
+  }
+];
@@ -0,0 +1,138 @@
+// Minimal TUS client for Supabase Storage's resumable upload endpoint.
+// Interrupted uploads resume from the last stored chunk, including after a page reload,
+// as long as the same file is picked again for the same object path.
+
+export interface ResumableUploadOptions {
+  supabaseUrl: string;
+  anonKey: string;
+  accessToken: string;
+  bucket: string;
+  path: string;
+  file: File;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// Supabase requires every chunk except the last to be exactly 6 MB
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const RETRY_DELAYS_MS = [1000, 3000, 5000];
+const STORAGE_KEY_PREFIX = 'resumable-upload::';
+
+// TUS metadata values are base64; encode as UTF-8 first so non-ASCII file names survive
+const toBase64 = (value: string) =>
+  btoa(Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join(''));
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(',');
+
+const fingerprint = (options: ResumableUploadOptions) =>
+  `${STORAGE_KEY_PREFIX}${options.bucket}/${options.path}::${options.file.size}:${options.file.lastModified}`;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+
+export const uploadResumable = async (options: ResumableUploadOptions): Promise<void> => {
+  const { file, signal } = options;
+  const endpoint = `${options.supabaseUrl}/storage/v1/upload/resumable`;
+  const baseHeaders = {
+    'Authorization': `Bearer ${options.accessToken}`,
+    'apikey': options.anonKey,
+    'Tus-Resumable': '1.0.0',
+  };
+  const storageKey = fingerprint(options);
+
+  // Returns the server's offset, or null when the stored upload no longer exists
+  const getOffset = async (uploadUrl: string): Promise<number | null> => {
+    const response = await fetch(uploadUrl, { method: 'HEAD', headers: baseHeaders, signal });
+    if (!response.ok) return null;
+    return Number(response.headers.get('Upload-Offset') ?? 0);
+  };
+
+  const createUpload = async (): Promise<string> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        ...baseHeaders,
+        'Upload-Length': String(file.size),
+        'Upload-Metadata': encodeMetadata({
+          bucketName: options.bucket,
+          objectName: options.path,
+          contentType: file.type || 'application/octet-stream',
+          cacheControl: '3600',
+        }),
+        'x-upsert': 'true',
+      },
+      signal,
+    });
+
+    const location = response.headers.get('Location');
+    if (!response.ok || !location) {
+      const message = await response.text().catch(() => '');
+      throw new Error(`Could not start upload (${response.status}) ${message}`.trim());
+    }
+    return new URL(location, endpoint).toString();
+  };
+
+  let uploadUrl = localStorage.getItem(storageKey);
+  let offset = uploadUrl ? await getOffset(uploadUrl).catch(() => null) : null;
+
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await createUpload();
+    localStorage.setItem(storageKey, uploadUrl);
+    offset = 0;
+  }
+
+  options.onProgress?.(offset, file.size);
+
+  let attempt = 0;
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+    try {
+      const response = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...baseHeaders,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: chunk,
+        signal,
+      });
+
+      if (!response.ok) {
+        // 4xx other than a conflict won't get better by retrying
+        if (response.status >= 400 && response.status < 500 && response.status !== 409) {
+          localStorage.removeItem(storageKey);
+          throw new Error(`Upload rejected (${response.status}) ${await response.text().catch(() => '')}`.trim());
+        }
+        // Same type fetch uses for network failures, so server errors get retried too
+        throw new TypeError(`Chunk upload failed (${response.status})`);
+      }
+
+      offset = Number(response.headers.get('Upload-Offset') ?? offset + chunk.size);
+      attempt = 0;
+      options.onProgress?.(offset, file.size);
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof TypeError) || attempt >= RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+
+      // Network hiccup: wait, then ask the server where to continue from
+      await wait(RETRY_DELAYS_MS[attempt++], signal);
+      const serverOffset = await getOffset(uploadUrl).catch(() => null);
+      if (serverOffset !== null) {
+        offset = serverOffset;
+      }
+    }
+  }
+
+  localStorage.removeItem(storageKey);
+};
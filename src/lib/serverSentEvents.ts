@@ -0,0 +1,3 @@
+// Reads a server-sent event stream from a fetch response body, shared with the edge functions
+// so the check-in chat parses exactly what openai-checkin-chat writes.
+export { readServerSentEvents, type ServerSentEvent } from '../../supabase/functions/_shared/sse';
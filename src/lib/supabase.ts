@@ -1,4 +1,9 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError } from '@supabase/supabase-js';
+import type { FieldMappings } from './fieldMappings';
+import { buildClientTrends, getWeekStarts, type ClientTrends, type TrendRange } from './clientTrends';
+import { uploadResumable } from './resumableUpload';
+import { readServerSentEvents } from './serverSentEvents';
+import { STARTER_RESPONSE_TEMPLATES, type ResponseTemplateCategory, type ResponseTemplateVariables } from './responseTemplates';
 
 export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -66,10 +71,94 @@ export interface Client {
   total_checkins: number;
   tags: string[];
   custom_fields: Record<string, any>;
+  assigned_coach_id?: string | null;
+  risk_score?: number | null;
+  risk_level?: RiskLevel | null;
+  risk_factors?: ClientRiskFactor[] | null;
+  risk_computed_at?: string | null;
+  checkin_cadence_days?: number | null;
+  checkin_cadence_weekday?: number | null;
+  checkin_reminders_enabled?: boolean;
+  next_checkin_due_at?: string | null;
+  checkin_missed_at?: string | null;
+  checkin_reminder_sent_at?: string | null;
+  portal_last_seen_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// One line of a client's churn-risk breakdown; computed by refresh_client_risk() in the database
+export interface ClientRiskFactor {
+  key: 'missed_checkins' | 'checkin_gaps' | 'sentiment' | 'unanswered';
+  label: string;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+// Response times are in hours
+export interface ClientAnalytics {
+  totalCheckins: number;
+  pendingCheckins: number;
+  respondedCheckins: number;
+  averageResponseTime: number | null;
+  medianResponseTime: number | null;
+  p90ResponseTime: number | null;
+  oldestPendingAt: string | null;
+  lastCheckinDate: string | null;
+  engagementTrend: 'improving' | 'stable' | 'declining' | 'unknown';
+}
+
+export type ClientSort = 'last_checkin' | 'name' | 'pending' | 'risk';
+
+export interface ClientSortKey {
+  field: ClientSort;
+  direction: 'asc' | 'desc';
+}
+
+export interface ClientPageQuery {
+  search?: string;
+  status?: Client['status'] | null;
+  engagement?: Client['engagement_level'] | null;
+  tags?: string[];
+  activeSince?: string | null;
+  // Only clients assigned to this team member
+  assignedCoachId?: string | null;
+  // Applied in order; later sorts break ties in earlier ones
+  sort?: ClientSortKey[];
+  // Opaque cursor from a previous page's `nextCursor` or `previousCursor`
+  cursor?: string | null;
+  // Fetch the page before `cursor` instead of the one after it
+  backward?: boolean;
+  limit?: number;
+}
+
+export interface ClientListItem extends Client {
+  pending_checkins: number;
+}
+
+export interface ClientPage {
+  clients: ClientListItem[];
+  totalCount: number;
+  // How many matching clients come before this page
+  offset: number;
+  nextCursor: string | null;
+  previousCursor: string | null;
+}
+
+export interface CoachAnalytics {
+  total_clients: number;
+  active_clients: number;
+  total_checkins: number;
+  pending_checkins: number;
+  oldest_pending_at: string | null;
+  avg_response_hours: number | null;
+  p50_response_hours: number | null;
+  p90_response_hours: number | null;
+  improving_clients: number;
+  declining_clients: number;
+}
+
 export interface Checkin {
   id: string;
   coach_id: string;
@@ -85,22 +174,252 @@ export interface Checkin {
   status: 'pending_response' | 'responded' | 'archived';
   response_session_id: string | null;
   coach_response: string | null;
-  response_type: 'written' | 'video' | null;
+  response_type: 'written' | 'video' | 'audio' | null;
   response_submitted_at: string | null;
+  response_media_path?: string | null;
+  response_media_type?: string | null;
+  response_media_duration_seconds?: number | null;
+  response_media_size_bytes?: number | null;
   ai_analysis: string | null;
   ai_analysis_generated_at: string | null;
+  ai_analysis_structured?: CheckinAnalysis | null;
+  ai_risk_level?: RiskLevel | null;
+  ai_sentiment_score?: number | null;
+  assigned_coach_id?: string | null;
+  responded_by?: string | null;
+  escalated_at?: string | null;
+  response_delivery_status?: DeliveryStatus | null;
+  response_delivered_at?: string | null;
+  transcription_status?: TranscriptionStatus | null;
+  transcription_error?: string | null;
+  transcribed_at?: string | null;
+  transcription_started_at?: string | null;
+  idempotency_key: string | null;
+}
+
+// Structured output of openai-checkin-analysis; mirrors supabase/functions/_shared/checkin-analysis.ts
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CheckinAnalysis {
+  summary: string;
+  key_insights: string[];
+  risk_level: RiskLevel;
+  risk_flags: { flag: string; severity: RiskLevel; evidence: string }[];
+  sentiment_score: number;
+  sentiment_label: string;
+  recommended_actions: { action: string; priority: RiskLevel }[];
+  plan_changes: { area: string; change: string; rationale: string }[];
+  similar_cases_notes: string | null;
+}
+
+export type PendingCheckinSort = 'date' | 'risk' | 'sentiment';
+
+// 'mine' is the current user's queue: check-ins assigned to them plus unassigned ones
+export type CheckinQueueScope = 'all' | 'mine';
+
+// Matches the column default in coach_sla_settings
+export const DEFAULT_RESPONSE_SLA_HOURS = 24;
+
+export type SlaEscalationAction = 'none' | 'notify' | 'reassign';
+
+export interface CoachSlaSettings {
+  coach_id: string;
+  response_sla_hours: number;
+  escalation_action: SlaEscalationAction;
+  escalation_target_id: string | null;
+}
+
+export interface ResponseTemplate {
+  id: string;
+  coach_id: string;
+  created_by: string;
+  title: string;
+  content: string;
+  category: ResponseTemplateCategory;
+  is_shared: boolean;
+  usage_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResponseTemplateInput = Pick<ResponseTemplate, 'title' | 'content' | 'category' | 'is_shared'>;
+
+// Providers a team can pick for chat and analysis (see supabase/functions/_shared/llm.ts)
+export type AiProvider = 'openai' | 'azure' | 'anthropic' | 'local';
+
+// Anthropic has no embeddings API
+export type EmbeddingProvider = Exclude<AiProvider, 'anthropic'>;
+
+// NULL fields fall back to the deployment's configuration
+export interface CoachAiSettings {
+  coach_id: string;
+  provider: AiProvider | null;
+  chat_model: string | null;
+  embedding_provider: EmbeddingProvider | null;
+  embedding_model: string | null;
+}
+
+// Distilled from a coach's past responses by the build-style-profile function
+export interface CoachStyleProfile {
+  user_id: string;
+  sample_count: number;
+  avg_word_count: number;
+  greetings: string[];
+  sign_offs: string[];
+  common_phrases: string[];
+  uses_emoji: boolean;
+  tone: string | null;
+  style_guide: string;
+  generated_at: string;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: 'checkin_overdue' | 'checkin_reassigned' | string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  checkin_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export type DeliveryStatus = 'sending' | 'sent' | 'failed' | 'skipped';
+
+export type TranscriptionStatus = 'pending' | 'transcribing' | 'completed' | 'failed';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// A row of the background job queue; only 'checkin_analysis' jobs exist so far
+export interface AnalysisJob {
+  id: string;
+  job_type: 'checkin_analysis';
+  coach_id: string;
+  checkin_id: string | null;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobAttempt {
+  id: string;
+  job_id: string;
+  attempt: number;
+  started_at: string;
+  finished_at: string;
+  succeeded: boolean;
+  error: string | null;
+}
+
+export interface AnalysisQueueStats {
+  queued: number;
+  running: number;
+  failed: number;
 }
 
+// A voice note or video a client attached to a check-in
+export interface CheckinMedia {
+  id: string;
+  checkin_id: string;
+  coach_id: string;
+  source_url: string;
+  source_field: string | null;
+  file_name: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  storage_path: string | null;
+  status: TranscriptionStatus;
+  transcript: string | null;
+  provider: string | null;
+  language: string | null;
+  duration_seconds: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface ResponseDelivery {
+  id: string;
+  checkin_id: string;
+  coach_id: string;
+  channel: 'email';
+  recipient: string | null;
+  subject: string | null;
+  transport: string | null;
+  status: DeliveryStatus;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_by: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+// Branding for response emails; templates support {{client_name}}, {{coach_name}} and {{checkin_date}}
+export interface CoachEmailSettings {
+  coach_id: string;
+  from_name: string | null;
+  reply_to_email: string | null;
+  brand_color: string;
+  logo_url: string | null;
+  subject_template: string;
+  intro_template: string;
+  signature: string | null;
+  auto_send: boolean;
+}
+
+// Limits for recorded responses; the bucket enforces the size and types server-side
+export const RESPONSE_MEDIA_BUCKET = 'response-media';
+export const MAX_RESPONSE_MEDIA_BYTES = 200 * 1024 * 1024;
+export const MAX_RESPONSE_MEDIA_SECONDS = 10 * 60;
+export const RESPONSE_MEDIA_TYPES = ['video/mp4', 'video/webm', 'video/quicktime', 'audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/webm', 'audio/ogg', 'audio/wav'];
+
+export interface ResponseMedia {
+  path: string;
+  mimeType: string;
+  durationSeconds: number | null;
+  sizeBytes: number;
+}
+
+export interface SemanticSearchResult {
+  id: string;
+  client_id: string;
+  client_name: string;
+  date: string;
+  status: Checkin['status'];
+  tags: string[];
+  snippet: string;
+  similarity: number;
+}
+
+export type TeamRole = 'assistant_coach' | 'admin';
+
 export interface TeamMember {
   id: string;
   coach_id: string;
   member_id: string | null;
   member_email: string | null;
-  role: 'assistant_coach' | 'admin';
+  role: TeamRole;
   status: 'pending_invitation' | 'active' | 'inactive';
   created_at: string;
   updated_at: string;
   invite_token: string | null;
+  invite_expires_at: string | null;
+  accepted_at: string | null;
+  member_profile?: { full_name: string | null; email: string } | null;
+}
+
+export interface TeamInvitation {
+  coach_name: string | null;
+  member_email: string;
+  role: TeamRole;
+  expired: boolean;
 }
 
 export interface AppLog {
@@ -119,6 +438,77 @@ export interface AppLog {
   } | null;
 }
 
+export interface AppLogFilters {
+  userId?: string;
+  eventType?: string;
+  context?: string;
+  since?: string;
+  until?: string;
+}
+
+export type CheckinQuestionType = 'number' | 'scale' | 'boolean' | 'choice' | 'text';
+
+export interface CheckinQuestion {
+  id: string;
+  label: string;
+  type: CheckinQuestionType;
+  unit?: string;
+  scale_min?: number;
+  scale_max?: number;
+  options?: string[];
+  selectors?: string[];
+}
+
+export interface CheckinForm {
+  id: string;
+  coach_id: string;
+  name: string;
+  description: string | null;
+  questions: CheckinQuestion[];
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CheckinAnswer {
+  id: string;
+  checkin_id: string;
+  coach_id: string;
+  client_id: string | null;
+  form_id: string | null;
+  question_id: string;
+  question_label: string | null;
+  question_type: CheckinQuestionType;
+  unit: string | null;
+  value_number: number | null;
+  value_text: string | null;
+  value_boolean: boolean | null;
+  answered_at: string;
+  created_at: string;
+}
+
+// What the client-portal function returns to a signed-in client; scoped to their own client record
+export interface PortalCheckin {
+  id: string;
+  date: string;
+  status: Checkin['status'];
+  transcript: string | null;
+  coach_response: string | null;
+  response_type: Checkin['response_type'];
+  response_submitted_at: string | null;
+  response_media_url: string | null;
+}
+
+export type PortalAnswer = Omit<CheckinAnswer, 'id' | 'coach_id' | 'client_id' | 'form_id' | 'created_at'>;
+
+export interface PortalOverview {
+  client: Pick<Client, 'id' | 'full_name' | 'goals' | 'status' | 'checkin_cadence_days' | 'checkin_cadence_weekday' | 'next_checkin_due_at'>;
+  coach: { name: string; brand_color: string; logo_url: string | null };
+  form: Pick<CheckinForm, 'id' | 'name' | 'description' | 'questions'> | null;
+  checkins: PortalCheckin[];
+  answers: PortalAnswer[];
+}
+
 // Database functions
 export const chatService = {
   // Get all chat sessions for a specific AI type and user
@@ -240,6 +630,55 @@ export const chatService = {
     return data;
   },
 
+  // Stream the check-in assistant's reply as it is generated. Resolves with the full reply once the run
+  // completes; aborting `signal` cancels the run and rejects with an AbortError, so the caller keeps
+  // whatever `onDelta` delivered so far
+  async streamCheckinReply(
+    request: { message: string; threadId: string | null; checkinId: string; sessionId: string },
+    handlers: { onThread?: (threadId: string) => void; onDelta: (text: string) => void; signal?: AbortSignal }
+  ): Promise<{ threadId: string | null; content: string }> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/openai-checkin-chat`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({ ...request, threadId: request.threadId || undefined, stream: true }),
+      signal: handlers.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Chat request failed: ${response.status}`);
+    }
+
+    let threadId = request.threadId;
+    let content = '';
+
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      const payload = JSON.parse(data);
+      if (event === 'thread') {
+        threadId = payload.threadId;
+        handlers.onThread?.(payload.threadId);
+      } else if (event === 'delta') {
+        content += payload.text;
+        handlers.onDelta(payload.text);
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'Assistant response failed');
+      } else if (event === 'done') {
+        break;
+      }
+    }
+
+    return { threadId, content };
+  },
+
   // Delete a chat session and all its messages
   async deleteChatSession(sessionId: string): Promise<void> {
     console.log('🗑️ [deleteChatSession] Deleting session:', sessionId);
@@ -615,10 +1054,20 @@ export interface UserCheckinWebhookSettings {
   auto_create_clients?: boolean;
   new_client_status?: string;
   new_client_engagement?: string;
+  auth_mode?: 'token' | 'signature';
+  signing_secret?: string | null;
+  previous_signing_secret?: string | null;
+  previous_signing_secret_expires_at?: string | null;
+  signing_secret_rotated_at?: string | null;
+  signature_tolerance_seconds?: number;
+  field_mappings?: FieldMappings | null;
   created_at: string;
   updated_at: string;
 }
 
+// How long a rotated-out signing secret is still accepted by webhook-checkin
+const SIGNING_SECRET_ROTATION_GRACE_HOURS = 24;
+
 // Checkin webhook settings functions
 export const checkinWebhookService = {
   // Get current user's checkin webhook settings
@@ -653,6 +1102,24 @@ export const checkinWebhookService = {
     return data || null;
   },
 
+  // Whether the (effective) coach has a check-in webhook set up. Assistants can't read
+  // the settings row itself since it holds the secrets, so this goes through an RPC.
+  async hasCheckinWebhook(): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    const { data, error } = await supabase.rpc('team_has_checkin_webhook', { p_coach_id: effectiveCoachId });
+
+    if (error) {
+      console.error('Error checking checkin webhook status:', error);
+      return false;
+    }
+
+    return !!data;
+  },
+
   // Update or create user's checkin webhook settings
   async updateCheckinWebhookSettings(settings: { 
     webhook_secret: string;
@@ -699,6 +1166,145 @@ export const checkinWebhookService = {
     return true;
   },
 
+  // Generate a new random token for the webhook URL
+  generateUniqueWebhookToken(): string {
+    return crypto.randomUUID();
+  },
+
+  // Generate a new random secret for signing webhook payloads
+  generateSigningSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return 'whsec_' + Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  },
+
+  // Update how incoming webhook requests are authenticated
+  async updateSignatureSettings(settings: {
+    auth_mode: 'token' | 'signature';
+    signature_tolerance_seconds?: number;
+  }): Promise<UserCheckinWebhookSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      console.error('No effective coach ID found');
+      return null;
+    }
+
+    const existingSettings = await this.getUserCheckinWebhookSettings();
+    if (!existingSettings) {
+      console.error('❌ [updateSignatureSettings] Webhook must be configured before enabling signatures');
+      return null;
+    }
+
+    const updates: Record<string, any> = {
+      auth_mode: settings.auth_mode,
+      updated_at: new Date().toISOString()
+    };
+
+    if (settings.signature_tolerance_seconds) {
+      updates.signature_tolerance_seconds = settings.signature_tolerance_seconds;
+    }
+
+    // Switching to signature mode for the first time needs a secret to sign with
+    if (settings.auth_mode === 'signature' && !existingSettings.signing_secret) {
+      updates.signing_secret = this.generateSigningSecret();
+      updates.signing_secret_rotated_at = new Date().toISOString();
+    }
+
+    const { data, error } = await supabase
+      .from('user_checkin_webhook_settings')
+      .update(updates)
+      .eq('user_id', effectiveCoachId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating webhook signature settings:', error);
+      return null;
+    }
+
+    console.log('✅ [updateSignatureSettings] Auth mode set to', settings.auth_mode, 'for coach:', effectiveCoachId);
+    return data;
+  },
+
+  // Rotate the signing secret, keeping the old one valid for a grace period
+  async rotateSigningSecret(): Promise<UserCheckinWebhookSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      console.error('No effective coach ID found');
+      return null;
+    }
+
+    const existingSettings = await this.getUserCheckinWebhookSettings();
+    if (!existingSettings) {
+      console.error('❌ [rotateSigningSecret] No webhook settings found');
+      return null;
+    }
+
+    const now = new Date();
+    const graceEndsAt = new Date(now.getTime() + SIGNING_SECRET_ROTATION_GRACE_HOURS * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('user_checkin_webhook_settings')
+      .update({
+        signing_secret: this.generateSigningSecret(),
+        previous_signing_secret: existingSettings.signing_secret || null,
+        previous_signing_secret_expires_at: existingSettings.signing_secret ? graceEndsAt.toISOString() : null,
+        signing_secret_rotated_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('user_id', effectiveCoachId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error rotating webhook signing secret:', error);
+      return null;
+    }
+
+    console.log('🔄 [rotateSigningSecret] Rotated signing secret for coach:', effectiveCoachId);
+    return data;
+  },
+
+  // Save payload field-mapping rules (null restores the built-in extraction)
+  async updateFieldMappings(fieldMappings: FieldMappings | null): Promise<UserCheckinWebhookSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      console.error('No effective coach ID found');
+      return null;
+    }
+
+    // Drop rules without any selectors or default so they don't shadow the built-in extraction
+    const cleanedMappings: FieldMappings = {};
+    Object.entries(fieldMappings || {}).forEach(([field, rule]) => {
+      const selectors = (rule?.selectors || []).map(selector => selector.trim()).filter(Boolean);
+      const defaultValue = rule?.default?.trim();
+      if (selectors.length > 0 || defaultValue) {
+        cleanedMappings[field as keyof FieldMappings] = {
+          selectors,
+          ...(rule?.concat && { concat: true, separator: rule.separator ?? ' ' }),
+          ...(defaultValue && { default: defaultValue })
+        };
+      }
+    });
+
+    const { data, error } = await supabase
+      .from('user_checkin_webhook_settings')
+      .update({
+        field_mappings: Object.keys(cleanedMappings).length > 0 ? cleanedMappings : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', effectiveCoachId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating webhook field mappings:', error);
+      return null;
+    }
+
+    console.log('✅ [updateFieldMappings] Saved', Object.keys(cleanedMappings).length, 'field mappings for coach:', effectiveCoachId);
+    return data;
+  },
+
   // Delete user's checkin webhook settings
   async deleteCheckinWebhookSettings(): Promise<boolean> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -731,8 +1337,11 @@ export const checkinWebhookService = {
 
 // Checkin functions
 export const checkinService = {
-  // Get pending check-ins for current user
-  async getPendingCheckins(clientId?: string): Promise<Checkin[]> {
+  // Get pending check-ins for current user, optionally sorted or filtered by AI risk/sentiment
+  async getPendingCheckins(
+    clientId?: string,
+    options: { sort?: PendingCheckinSort; riskLevel?: RiskLevel | null; scope?: CheckinQueueScope; overdueAfterHours?: number | null } = {}
+  ): Promise<Checkin[]> {
     const { data: { user } } = await supabase.auth.getUser();
     
     if (!user) {
@@ -749,13 +1358,32 @@ export const checkinService = {
       .from('checkins')
       .select('*')
       .eq('coach_id', effectiveCoachId)
-      .eq('status', 'pending_response')
-      .order('date', { ascending: false });
+      .eq('status', 'pending_response');
+
+    if (options.sort === 'risk') {
+      query = query.order('ai_risk_rank', { ascending: false });
+    } else if (options.sort === 'sentiment') {
+      query = query.order('ai_sentiment_score', { ascending: true, nullsFirst: false });
+    }
+    query = query.order('date', { ascending: false });
 
     if (clientId) {
       query = query.eq('client_id', clientId);
     }
 
+    if (options.riskLevel) {
+      query = query.eq('ai_risk_level', options.riskLevel);
+    }
+
+    if (options.scope === 'mine') {
+      query = query.or(`assigned_coach_id.eq.${user.id},assigned_coach_id.is.null`);
+    }
+
+    if (options.overdueAfterHours) {
+      const cutoff = new Date(Date.now() - options.overdueAfterHours * 60 * 60 * 1000);
+      query = query.lt('created_at', cutoff.toISOString());
+    }
+
     const { data, error } = await query;
 
     if (error) {
@@ -766,62 +1394,100 @@ export const checkinService = {
     return data || [];
   },
 
-  // Get completed check-ins for current user
-  async getCompletedCheckins(clientId?: string): Promise<Checkin[]> {
+  // Active clients whose scheduled check-in was flagged as missed, longest overdue first
+  async getMissedCheckins(clientId?: string, scope: CheckinQueueScope = 'all'): Promise<Client[]> {
     const { data: { user } } = await supabase.auth.getUser();
-    
     if (!user) {
       return [];
     }
 
-    // Get effective coach ID (user's own ID or their coach's ID if they're a team member)
     const effectiveCoachId = await teamService.getEffectiveCoachId();
     if (!effectiveCoachId) {
       return [];
     }
 
     let query = supabase
-      .from('checkins')
+      .from('clients')
       .select('*')
       .eq('coach_id', effectiveCoachId)
-      .eq('status', 'responded')
-      .order('updated_at', { ascending: false })
-      .limit(10); // Show last 10 completed checkins
+      .eq('status', 'active')
+      .not('checkin_missed_at', 'is', null)
+      .order('next_checkin_due_at', { ascending: true });
 
     if (clientId) {
-      query = query.eq('client_id', clientId);
+      query = query.eq('id', clientId);
+    }
+
+    if (scope === 'mine') {
+      query = query.or(`assigned_coach_id.eq.${user.id},assigned_coach_id.is.null`);
     }
 
     const { data, error } = await query;
 
     if (error) {
-      console.error('Error fetching completed checkins:', error);
+      console.error('Error fetching missed checkins:', error);
       return [];
     }
 
     return data || [];
   },
 
-  // Get count of pending check-ins for current user
-  async getPendingCheckinsCount(clientId?: string): Promise<number> {
+  // Get completed check-ins for current user
+  async getCompletedCheckins(clientId?: string): Promise<Checkin[]> {
     const { data: { user } } = await supabase.auth.getUser();
     
     if (!user) {
-      return 0;
+      return [];
     }
 
     // Get effective coach ID (user's own ID or their coach's ID if they're a team member)
     const effectiveCoachId = await teamService.getEffectiveCoachId();
     if (!effectiveCoachId) {
-      return 0;
+      return [];
     }
 
     let query = supabase
       .from('checkins')
-      .select('*', { count: 'exact', head: true })
+      .select('*')
       .eq('coach_id', effectiveCoachId)
-      .eq('status', 'pending_response');
-
+      .eq('status', 'responded')
+      .order('updated_at', { ascending: false })
+      .limit(10); // Show last 10 completed checkins
+
+    if (clientId) {
+      query = query.eq('client_id', clientId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching completed checkins:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Get count of pending check-ins for current user
+  async getPendingCheckinsCount(clientId?: string): Promise<number> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return 0;
+    }
+
+    // Get effective coach ID (user's own ID or their coach's ID if they're a team member)
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return 0;
+    }
+
+    let query = supabase
+      .from('checkins')
+      .select('*', { count: 'exact', head: true })
+      .eq('coach_id', effectiveCoachId)
+      .eq('status', 'pending_response');
+
     if (clientId) {
       query = query.eq('client_id', clientId);
     }
@@ -924,7 +1590,8 @@ export const checkinService = {
   async submitCoachResponse(
     checkinId: string, 
     response: string, 
-    responseType: 'written' | 'video'
+    responseType: 'written' | 'video' | 'audio',
+    media: ResponseMedia | null = null
   ): Promise<boolean> {
     const { data: { user } } = await supabase.auth.getUser();
     
@@ -943,7 +1610,12 @@ export const checkinService = {
       .update({
         coach_response: response,
         response_type: responseType,
+        response_media_path: media?.path ?? null,
+        response_media_type: media?.mimeType ?? null,
+        response_media_duration_seconds: media?.durationSeconds ?? null,
+        response_media_size_bytes: media?.sizeBytes ?? null,
         response_submitted_at: new Date().toISOString(),
+        responded_by: user.id,
         status: 'responded'
       })
       .eq('id', checkinId)
@@ -957,8 +1629,12 @@ export const checkinService = {
     return true;
   },
 
-  // Update AI analysis for a checkin
-  async updateCheckinAIAnalysis(checkinId: string, analysis: string): Promise<boolean> {
+  // Update AI analysis for a checkin; structured analyses also fill the risk/sentiment columns
+  async updateCheckinAIAnalysis(
+    checkinId: string,
+    analysis: string,
+    structured: CheckinAnalysis | null = null
+  ): Promise<boolean> {
     const { data: { user } } = await supabase.auth.getUser();
     
     if (!user) {
@@ -976,7 +1652,10 @@ export const checkinService = {
       .update({
         ai_analysis: analysis,
         ai_analysis_generated_at: new Date().toISOString(),
-        ai_analysis_version: 'v1'
+        ai_analysis_version: structured ? 'v2' : 'v1',
+        ai_analysis_structured: structured,
+        ai_risk_level: structured?.risk_level ?? null,
+        ai_sentiment_score: structured?.sentiment_score ?? null
       })
       .eq('id', checkinId)
       .eq('coach_id', effectiveCoachId);
@@ -988,6 +1667,33 @@ export const checkinService = {
 
     return true;
   },
+
+  // Rank check-ins across all clients by meaning; returns null when the search itself fails
+  async semanticSearch(
+    query: string,
+    options: { limit?: number; minSimilarity?: number } = {}
+  ): Promise<SemanticSearchResult[] | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return null;
+    }
+
+    const { data, error } = await supabase.functions.invoke('semantic-search', {
+      body: {
+        query,
+        coachId: effectiveCoachId,
+        limit: options.limit,
+        minSimilarity: options.minSimilarity
+      }
+    });
+
+    if (error || data?.error) {
+      console.error('❌ [checkinService] Semantic search failed:', error || data.error);
+      return null;
+    }
+
+    return data.results || [];
+  },
 };
 
 // Client management functions
@@ -1027,6 +1733,94 @@ export const clientService = {
     return data || [];
   },
 
+  // Get one page of clients with server-side search, filters, sorting and keyset paging
+  async getClientsPage(query: ClientPageQuery = {}): Promise<ClientPage> {
+    const emptyPage: ClientPage = { clients: [], totalCount: 0, offset: 0, nextCursor: null, previousCursor: null };
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return emptyPage;
+    }
+
+    const limit = query.limit || 12;
+    const sort = query.sort?.length ? query.sort : [{ field: 'last_checkin' as const, direction: 'desc' as const }];
+
+    // Cursors are "<id>:<JSON array of sort keys>" - ids never contain a colon, sort keys might
+    let cursorId: string | null = null;
+    let cursorKeys: string[] | null = null;
+    const separatorIndex = query.cursor ? query.cursor.indexOf(':') : -1;
+    if (separatorIndex > 0) {
+      try {
+        const keys = JSON.parse(query.cursor!.slice(separatorIndex + 1));
+        // A cursor from a different sort can't be used; start from the first page instead
+        if (Array.isArray(keys) && keys.length === sort.length) {
+          cursorId = query.cursor!.slice(0, separatorIndex);
+          cursorKeys = keys.map(String);
+        }
+      } catch (error) {
+        console.warn('⚠️ [clientService] Ignoring malformed clients page cursor:', error);
+      }
+    }
+
+    const { data, error } = await supabase.rpc('search_clients_page', {
+      p_coach_id: effectiveCoachId,
+      p_query: query.search?.trim() || null,
+      p_status: query.status || null,
+      p_engagement: query.engagement || null,
+      p_tags: query.tags?.length ? query.tags : null,
+      p_active_since: query.activeSince || null,
+      p_sort: sort.map(key => key.field),
+      p_directions: sort.map(key => key.direction),
+      p_cursor_keys: cursorKeys,
+      p_cursor_id: cursorId,
+      p_limit: limit,
+      p_assigned_coach_id: query.assignedCoachId || null,
+      p_backward: !!query.backward && !!cursorKeys
+    });
+
+    if (error) {
+      console.error('❌ [clientService] Error fetching clients page:', error);
+      return emptyPage;
+    }
+
+    const rows = (data || []) as Array<{ client: Client; pending_checkins: number; sort_keys: string[]; position: number; total_count: number }>;
+    if (rows.length === 0) {
+      return emptyPage;
+    }
+
+    const toCursor = (row: typeof rows[number]) => `${row.client.id}:${JSON.stringify(row.sort_keys)}`;
+    const firstRow = rows[0];
+    const lastRow = rows[rows.length - 1];
+    const totalCount = Number(firstRow.total_count);
+
+    return {
+      clients: rows.map(row => ({ ...row.client, pending_checkins: Number(row.pending_checkins) })),
+      totalCount,
+      offset: Number(firstRow.position) - 1,
+      nextCursor: Number(lastRow.position) < totalCount ? toCursor(lastRow) : null,
+      previousCursor: Number(firstRow.position) > 1 ? toCursor(firstRow) : null
+    };
+  },
+
+  // Get every tag used across the coach's clients, for tag filters
+  async getClientTags(): Promise<string[]> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('tags')
+      .eq('coach_id', effectiveCoachId);
+
+    if (error) {
+      console.error('❌ [clientService] Error fetching client tags:', error);
+      return [];
+    }
+
+    return [...new Set((data || []).flatMap(row => row.tags || []))].sort();
+  },
+
   // Get active clients only
   async getActiveClients(): Promise<Client[]> {
     const clients = await this.getClients();
@@ -1120,6 +1914,21 @@ export const clientService = {
     return data;
   },
 
+  // Assign a client (and its pending check-ins) to a team member; null unassigns
+  async assignClient(clientId: string, assigneeId: string | null): Promise<boolean> {
+    const { error } = await supabase.rpc('assign_client', {
+      p_client_id: clientId,
+      p_assignee_id: assigneeId
+    });
+
+    if (error) {
+      console.error('❌ [clientService] Error assigning client:', error);
+      return false;
+    }
+
+    return true;
+  },
+
   // Delete client
   async deleteClient(clientId: string): Promise<boolean> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -1176,350 +1985,1371 @@ export const clientService = {
     return data || [];
   },
 
-  // Get client analytics/stats
-  async getClientAnalytics(clientId: string): Promise<{
-    totalCheckins: number;
-    pendingCheckins: number;
-    respondedCheckins: number;
-    averageResponseTime: number | null;
-    lastCheckinDate: string | null;
-    engagementTrend: 'improving' | 'stable' | 'declining' | 'unknown';
-  }> {
-    const checkins = await this.getClientCheckins(clientId, 100); // Get more for analytics
-    
-    const totalCheckins = checkins.length;
-    const pendingCheckins = checkins.filter(c => c.status === 'pending_response').length;
-    const respondedCheckins = checkins.filter(c => c.status === 'responded').length;
-    const lastCheckinDate = checkins.length > 0 ? checkins[0].date : null;
-    
-    // Calculate average response time for responded checkins
-    const respondedCheckinsWithTimes = checkins
-      .filter(c => c.status === 'responded' && c.response_submitted_at)
-      .map(c => {
-        const checkinDate = new Date(c.created_at);
-        const responseDate = new Date(c.response_submitted_at!);
-        return responseDate.getTime() - checkinDate.getTime();
-      });
-    
-    const averageResponseTime = respondedCheckinsWithTimes.length > 0 
-      ? respondedCheckinsWithTimes.reduce((sum, time) => sum + time, 0) / respondedCheckinsWithTimes.length / (1000 * 60 * 60) // Convert to hours
-      : null;
-    
-    // Simple engagement trend based on checkin frequency in last 30 days vs previous 30 days
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
-    
-    const recentCheckins = checkins.filter(c => new Date(c.date) >= thirtyDaysAgo).length;
-    const previousCheckins = checkins.filter(c => {
-      const date = new Date(c.date);
-      return date >= sixtyDaysAgo && date < thirtyDaysAgo;
-    }).length;
-    
-    let engagementTrend: 'improving' | 'stable' | 'declining' | 'unknown' = 'unknown';
-    if (recentCheckins > previousCheckins) {
-      engagementTrend = 'improving';
-    } else if (recentCheckins === previousCheckins) {
-      engagementTrend = 'stable';
-    } else if (previousCheckins > 0) {
-      engagementTrend = 'declining';
+  // Get client analytics/stats (aggregated in the client_checkin_stats view)
+  async getClientAnalytics(clientId: string): Promise<ClientAnalytics> {
+    const emptyAnalytics: ClientAnalytics = {
+      totalCheckins: 0,
+      pendingCheckins: 0,
+      respondedCheckins: 0,
+      averageResponseTime: null,
+      medianResponseTime: null,
+      p90ResponseTime: null,
+      oldestPendingAt: null,
+      lastCheckinDate: null,
+      engagementTrend: 'unknown'
+    };
+
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return emptyAnalytics;
     }
-    
+
+    const { data, error } = await supabase
+      .from('client_checkin_stats')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('coach_id', effectiveCoachId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error fetching client analytics:', error);
+      return emptyAnalytics;
+    }
+
     return {
-      totalCheckins,
-      pendingCheckins,
-      respondedCheckins,
-      averageResponseTime,
-      lastCheckinDate,
-      engagementTrend
+      totalCheckins: data.total_checkins,
+      pendingCheckins: data.pending_checkins,
+      respondedCheckins: data.responded_checkins,
+      averageResponseTime: data.avg_response_hours !== null ? Number(data.avg_response_hours) : null,
+      medianResponseTime: data.p50_response_hours !== null ? Number(data.p50_response_hours) : null,
+      p90ResponseTime: data.p90_response_hours !== null ? Number(data.p90_response_hours) : null,
+      oldestPendingAt: data.oldest_pending_at,
+      lastCheckinDate: data.last_checkin_date,
+      engagementTrend: data.engagement_trend
     };
   },
 
-  // Search clients by name
+  // Get coach-wide totals and response-time percentiles (aggregated by get_coach_analytics)
+  async getCoachAnalytics(): Promise<CoachAnalytics | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .rpc('get_coach_analytics', { p_coach_id: effectiveCoachId })
+      .single();
+
+    if (error) {
+      console.error('❌ [clientService] Error fetching coach analytics:', error);
+      return null;
+    }
+
+    return data as CoachAnalytics;
+  },
+
+  // Get weekly trend series (frequency, response time, tags, numeric metrics) for a client
+  async getClientTrends(clientId: string, weeks: TrendRange = 12): Promise<ClientTrends | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return null;
+    }
+
+    const since = getWeekStarts(weeks)[0].toISOString();
+
+    const [{ data: checkins, error }, answers] = await Promise.all([
+      supabase
+        .from('checkins')
+        .select('id, date, created_at, status, response_submitted_at, tags, raw_data')
+        .eq('coach_id', effectiveCoachId)
+        .eq('client_id', clientId)
+        .gte('date', since)
+        .order('date', { ascending: true }),
+      checkinFormService.getClientAnswers(clientId, since)
+    ]);
+
+    if (error) {
+      console.error('Error fetching client trend data:', error);
+      return null;
+    }
+
+    return buildClientTrends(checkins || [], answers, weeks);
+  },
+
+  // Search clients by name or email
   async searchClients(query: string): Promise<Client[]> {
-    const clients = await this.getClients();
-    return clients.filter(client => 
-      client.full_name.toLowerCase().includes(query.toLowerCase()) ||
-      (client.email && client.email.toLowerCase().includes(query.toLowerCase()))
-    );
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    // Characters with meaning inside a PostgREST or() filter can't be searched for
+    const pattern = `%${query.replace(/[%,()"\\]/g, '').trim()}%`;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('coach_id', effectiveCoachId)
+      .or(`full_name.ilike.${pattern},email.ilike.${pattern}`)
+      .order('last_checkin_at', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error('❌ [clientService] Error searching clients:', error);
+      return [];
+    }
+
+    return data || [];
   },
 
   // Get clients with recent activity
   async getClientsWithRecentActivity(days: number = 7): Promise<Client[]> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
-    
-    const clients = await this.getClients();
-    return clients.filter(client => 
-      client.last_checkin_at && new Date(client.last_checkin_at) >= cutoffDate
-    );
-  },
-};
 
-// Batch processing functions for efficiency
-export const batchService = {
-  // Process multiple checkins for AI analysis in batch
-  async batchProcessCheckins(checkinIds: string[]): Promise<{ success: string[], failed: string[] }> {
-    const results = { success: [] as string[], failed: [] as string[] };
-    
-    // Process in batches of 5 to avoid overwhelming the AI service
-    const batchSize = 5;
-    for (let i = 0; i < checkinIds.length; i += batchSize) {
-      const batch = checkinIds.slice(i, i + batchSize);
-      
-      // Process batch concurrently
-      const promises = batch.map(async (checkinId) => {
-        try {
-          // Get checkin data
-          const checkin = await checkinService.getCheckinById(checkinId);
-          if (!checkin || !checkin.transcript) {
-            return { id: checkinId, success: false };
-          }
-
-          // Call AI analysis function with client context
-          const { data, error } = await supabase.functions.invoke('openai-checkin-analysis', {
-            body: {
-              checkinId: checkin.id,
-              clientId: checkin.client_id,
-              transcript: checkin.transcript,
-              clientName: checkin.client_name,
-              tags: checkin.tags || [],
-              previousAnalysis: checkin.ai_analysis
-            }
-          });
-
-          if (error) {
-            console.error('Error in AI analysis for checkin', checkinId, ':', error);
-            return { id: checkinId, success: false };
-          }
-
-          // Update the checkin with AI analysis
-          await checkinService.updateCheckinAIAnalysis(checkinId, data.analysis);
-          return { id: checkinId, success: true };
-        } catch (error) {
-          console.error('Error processing checkin', checkinId, ':', error);
-          return { id: checkinId, success: false };
-        }
-      });
-
-      const batchResults = await Promise.all(promises);
-      batchResults.forEach(result => {
-        if (result.success) {
-          results.success.push(result.id);
-        } else {
-          results.failed.push(result.id);
-        }
-      });
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('coach_id', effectiveCoachId)
+      .gte('last_checkin_at', cutoffDate.toISOString())
+      .order('last_checkin_at', { ascending: false });
 
-      // Add small delay between batches to be respectful to the AI service
-      if (i + batchSize < checkinIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+    if (error) {
+      console.error('❌ [clientService] Error fetching recently active clients:', error);
+      return [];
     }
 
-    return results;
+    return data || [];
   },
+};
 
-  // Get all pending checkins that need AI analysis
-  async getPendingAnalysisCheckins(): Promise<string[]> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return [];
-
+// Check-in form schema and typed answer functions
+export const checkinFormService = {
+  // Get all check-in forms for current coach
+  async getForms(): Promise<CheckinForm[]> {
     const effectiveCoachId = await teamService.getEffectiveCoachId();
-    if (!effectiveCoachId) return [];
+    if (!effectiveCoachId) {
+      return [];
+    }
 
     const { data, error } = await supabase
-      .from('checkins')
-      .select('id')
+      .from('checkin_forms')
+      .select('*')
       .eq('coach_id', effectiveCoachId)
-      .is('ai_analysis', null)
-      .not('transcript', 'is', null)
       .order('created_at', { ascending: true });
 
     if (error) {
-      console.error('Error fetching pending analysis checkins:', error);
+      console.error('❌ [checkinFormService] Error fetching forms:', error);
       return [];
     }
 
-    return data.map(checkin => checkin.id);
+    return data || [];
   },
 
-  // Auto-process pending checkins in background
-  async autoProcessPendingCheckins(): Promise<void> {
-    const pendingIds = await this.getPendingAnalysisCheckins();
-    
-    if (pendingIds.length > 0) {
-      console.log(`Auto-processing ${pendingIds.length} pending checkins`);
-      const results = await this.batchProcessCheckins(pendingIds);
-      console.log(`Batch processing complete: ${results.success.length} success, ${results.failed.length} failed`);
-      
-      // Log the batch processing results
-      await logService.logFeatureUsage('batch_ai_processing', {
-        total_processed: pendingIds.length,
-        successful: results.success.length,
-        failed: results.failed.length
-      });
+  // Create or update a check-in form
+  async saveForm(form: {
+    id?: string;
+    name: string;
+    description?: string | null;
+    questions: CheckinQuestion[];
+  }): Promise<CheckinForm | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      console.error('No effective coach ID found');
+      return null;
     }
-  }
-};
 
-// AI response templates service
-export const responseTemplatesService = {
-  // Generate response templates based on checkin analysis
-  async generateResponseTemplates(checkinId: string): Promise<{
-    encouragement: string;
-    guidance: string;
-    question: string;
-    adjustment: string;
-  } | null> {
-    try {
-      const checkin = await checkinService.getCheckinById(checkinId);
-      if (!checkin || !checkin.ai_analysis) {
-        return null;
-      }
+    const ids = form.questions.map(question => question.id);
+    if (ids.some(id => !/^[a-z0-9_]+$/.test(id)) || new Set(ids).size !== ids.length) {
+      console.error('❌ [checkinFormService] Question ids must be unique lowercase slugs:', ids);
+      return null;
+    }
 
-      // Call AI function to generate response templates
-      const { data, error } = await supabase.functions.invoke('openai-checkin-chat', {
-        body: {
-          messages: [{
-            role: 'system',
-            content: `You are a professional coach helping to generate response templates. Based on the check-in analysis provided, generate 4 different response templates:
+    const values = {
+      name: form.name,
+      description: form.description || null,
+      questions: form.questions,
+      updated_at: new Date().toISOString()
+    };
 
-1. ENCOURAGEMENT: A positive, supportive message acknowledging progress
-2. GUIDANCE: Specific advice or next steps  
-3. QUESTION: A thoughtful question to encourage reflection
-4. ADJUSTMENT: A suggestion for modifying their approach
+    // A coach's first form becomes the default so ingestion starts using it right away
+    let isFirstForm = false;
+    if (!form.id) {
+      const { count } = await supabase
+        .from('checkin_forms')
+        .select('id', { count: 'exact', head: true })
+        .eq('coach_id', effectiveCoachId);
+      isFirstForm = count === 0;
+    }
 
-Each template should be 2-3 sentences, professional but warm, and personalized to the client's specific situation.
+    const query = form.id
+      ? supabase.from('checkin_forms').update(values).eq('id', form.id).eq('coach_id', effectiveCoachId)
+      : supabase.from('checkin_forms').insert({ ...values, coach_id: effectiveCoachId, is_default: isFirstForm });
 
-Return your response as a JSON object with keys: encouragement, guidance, question, adjustment`
-          }, {
-            role: 'user',
-            content: `Client: ${checkin.client_name}
-            
-Check-in Analysis:
-${checkin.ai_analysis}
+    const { data, error } = await query.select().single();
 
-Current Check-in:
-${checkin.transcript?.substring(0, 500)}...`
-          }],
-          clientName: checkin.client_name,
-          checkinId: checkin.id
-        }
-      });
+    if (error) {
+      console.error('❌ [checkinFormService] Error saving form:', error);
+      return null;
+    }
 
-      if (error) {
-        console.error('Error generating response templates:', error);
-        return null;
-      }
+    console.log('✅ [checkinFormService] Saved form:', data.id);
+    return data;
+  },
 
-      // Try to parse the AI response as JSON
-      try {
-        const templates = JSON.parse(data.response);
-        return templates;
-      } catch (parseError) {
-        console.error('Error parsing response templates:', parseError);
-        // Fallback: create templates from the raw response
-        return {
-          encouragement: "Great work on staying consistent with your check-ins! I can see you're making thoughtful observations about your progress.",
-          guidance: "Based on your recent updates, I recommend focusing on the areas you've identified as needing attention.",
-          question: "What do you think has been the biggest factor in your recent progress or challenges?",
-          adjustment: "Consider adjusting your approach slightly based on the patterns we're seeing in your check-ins."
-        };
+  // Make a form the default for check-ins that don't specify a form_id
+  async setDefaultForm(formId: string): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    // Clear the current default first so the unique index isn't violated
+    const { error: clearError } = await supabase
+      .from('checkin_forms')
+      .update({ is_default: false })
+      .eq('coach_id', effectiveCoachId)
+      .eq('is_default', true);
+
+    if (clearError) {
+      console.error('❌ [checkinFormService] Error clearing default form:', clearError);
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('checkin_forms')
+      .update({ is_default: true, updated_at: new Date().toISOString() })
+      .eq('id', formId)
+      .eq('coach_id', effectiveCoachId);
+
+    if (error) {
+      console.error('❌ [checkinFormService] Error setting default form:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Delete a check-in form (stored answers are kept)
+  async deleteForm(formId: string): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('checkin_forms')
+      .delete()
+      .eq('id', formId)
+      .eq('coach_id', effectiveCoachId);
+
+    if (error) {
+      console.error('❌ [checkinFormService] Error deleting form:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Get typed answers for a single check-in
+  async getCheckinAnswers(checkinId: string): Promise<CheckinAnswer[]> {
+    const { data, error } = await supabase
+      .from('checkin_answers')
+      .select('*')
+      .eq('checkin_id', checkinId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ [checkinFormService] Error fetching checkin answers:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Get a client's typed answers over time, oldest first, for charting
+  async getClientAnswers(clientId: string, since?: string): Promise<CheckinAnswer[]> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    let query = supabase
+      .from('checkin_answers')
+      .select('*')
+      .eq('coach_id', effectiveCoachId)
+      .eq('client_id', clientId)
+      .order('answered_at', { ascending: true });
+
+    if (since) {
+      query = query.gte('answered_at', since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ [checkinFormService] Error fetching client answers:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+};
+
+// Server-side queue that analyses new check-ins (see supabase/functions/process-jobs)
+export const analysisJobService = {
+  // Most recent analysis job for a check-in, or null if it was never queued
+  async getLatestJob(checkinId: string): Promise<AnalysisJob | null> {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('checkin_id', checkinId)
+      .eq('job_type', 'checkin_analysis')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [analysisJobService] Failed to load job:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // Attempts for a job, oldest first
+  async getAttempts(jobId: string): Promise<JobAttempt[]> {
+    const { data, error } = await supabase
+      .from('job_attempts')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('attempt', { ascending: true });
+
+    if (error) {
+      console.error('❌ [analysisJobService] Failed to load job attempts:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Waiting and failed jobs for the team, for the queue indicator on the check-ins page
+  async getQueueStats(): Promise<AnalysisQueueStats> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    const stats: AnalysisQueueStats = { queued: 0, running: 0, failed: 0 };
+    if (!effectiveCoachId) return stats;
+
+    const countByStatus = (status: AnalysisJobStatus) => supabase
+      .from('jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('coach_id', effectiveCoachId)
+      .eq('job_type', 'checkin_analysis')
+      .eq('status', status);
+
+    const [queued, running, failed] = await Promise.all([
+      countByStatus('queued'),
+      countByStatus('running'),
+      // Only failures that nobody has fixed by re-queuing since
+      supabase.rpc('count_failed_analysis_jobs')
+    ]);
+
+    stats.queued = queued.count ?? 0;
+    stats.running = running.count ?? 0;
+    stats.failed = typeof failed.data === 'number' ? failed.data : 0;
+    return stats;
+  },
+
+  // Queue (or re-queue) analysis for one check-in
+  async enqueue(checkinId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('enqueue_checkin_analysis', { p_checkin_id: checkinId });
+
+    if (error) {
+      console.error('❌ [analysisJobService] Failed to queue analysis:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // Queue every check-in that has a transcript but no analysis, e.g. after an outage
+  async enqueueMissing(): Promise<number> {
+    const { data, error } = await supabase.rpc('enqueue_missing_analysis');
+
+    if (error) {
+      console.error('❌ [analysisJobService] Failed to queue missing analyses:', error);
+      return 0;
+    }
+
+    return data ?? 0;
+  }
+};
+
+// AI response templates service
+export const responseTemplatesService = {
+  // Generate response templates based on checkin analysis
+  async generateResponseTemplates(checkinId: string): Promise<{
+    encouragement: string;
+    guidance: string;
+    question: string;
+    adjustment: string;
+  } | null> {
+    try {
+      const checkin = await checkinService.getCheckinById(checkinId);
+      if (!checkin || !checkin.ai_analysis) {
+        return null;
+      }
+
+      // Call AI function to generate response templates
+      const { data, error } = await supabase.functions.invoke('openai-checkin-chat', {
+        body: {
+          message: `Generate 4 different response templates for ${checkin.client_name} based on the check-in analysis below:
+
+1. ENCOURAGEMENT: A positive, supportive message acknowledging progress
+2. GUIDANCE: Specific advice or next steps
+3. QUESTION: A thoughtful question to encourage reflection
+4. ADJUSTMENT: A suggestion for modifying their approach
+
+Each template should be 2-3 sentences, professional but warm, and personalized to the client's specific situation.
+
+Return only a JSON object with keys: encouragement, guidance, question, adjustment
+
+Check-in Analysis:
+${checkin.ai_analysis}`,
+          checkinId: checkin.id
+        }
+      });
+
+      if (error) {
+        console.error('Error generating response templates:', error);
+        return null;
+      }
+
+      // The model may wrap the JSON in a code fence; anything unparseable is a failure, not canned text
+      try {
+        const json = String(data?.message ?? '').replace(/^```(?:json)?\s*|\s*```$/g, '');
+        const templates = JSON.parse(json);
+        const keys = ['encouragement', 'guidance', 'question', 'adjustment'];
+        return keys.every(key => typeof templates?.[key] === 'string') ? templates : null;
+      } catch (parseError) {
+        console.error('Error parsing response templates:', parseError);
+        return null;
+      }
+    } catch (error) {
+      console.error('Error in generateResponseTemplates:', error);
+      return null;
+    }
+  },
+
+  // Get the templates the current coach can use: their own plus those shared with the team
+  async getTemplates(): Promise<ResponseTemplate[]> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('response_templates')
+      .select('*')
+      .eq('coach_id', effectiveCoachId)
+      .order('usage_count', { ascending: false })
+      .order('title', { ascending: true });
+
+    if (error) {
+      console.error('❌ [responseTemplatesService] Failed to load templates:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Create a template in the team's library
+  async createTemplate(template: ResponseTemplateInput): Promise<ResponseTemplate | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!user || !effectiveCoachId) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('response_templates')
+      .insert({ ...template, coach_id: effectiveCoachId, created_by: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ [responseTemplatesService] Failed to create template:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // Update a template (its author, or a team manager for shared ones)
+  async updateTemplate(templateId: string, updates: Partial<ResponseTemplateInput>): Promise<ResponseTemplate | null> {
+    const { data, error } = await supabase
+      .from('response_templates')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('❌ [responseTemplatesService] Failed to update template:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // Delete a template
+  async deleteTemplate(templateId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('response_templates')
+      .delete()
+      .eq('id', templateId)
+      .select('id');
+
+    if (error || !data?.length) {
+      console.error('❌ [responseTemplatesService] Failed to delete template:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Count a use of a template; failures only cost the statistic
+  async recordUse(templateId: string): Promise<void> {
+    const { error } = await supabase.rpc('record_template_use', { p_template_id: templateId });
+    if (error) {
+      console.error('❌ [responseTemplatesService] Failed to record template use:', error);
+    }
+  },
+
+  // Seed an empty library with the starter templates, private to the current coach
+  async addStarterTemplates(): Promise<ResponseTemplate[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!user || !effectiveCoachId) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('response_templates')
+      .insert(STARTER_RESPONSE_TEMPLATES.map(template => ({
+        ...template,
+        coach_id: effectiveCoachId,
+        created_by: user.id
+      })))
+      .select();
+
+    if (error) {
+      console.error('❌ [responseTemplatesService] Failed to add starter templates:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Values for the template variables when responding to a check-in
+  async getTemplateVariables(checkin: Checkin): Promise<ResponseTemplateVariables> {
+    const [client, history, profile] = await Promise.all([
+      checkin.client_id ? clientService.getClientById(checkin.client_id) : Promise.resolve(null),
+      checkin.client_id ? clientService.getClientCheckins(checkin.client_id, 10) : Promise.resolve([]),
+      userService.getUserProfile()
+    ]);
+
+    const clientName = client?.full_name || checkin.client_name;
+    const previous = history.find(other => other.id !== checkin.id && new Date(other.date) < new Date(checkin.date));
+
+    return {
+      'client.first_name': clientName.split(' ')[0],
+      'client.name': clientName,
+      'client.goals': client?.goals?.trim() || 'your goals',
+      'checkin.date': new Date(checkin.date).toLocaleDateString(),
+      'last_checkin.date': previous ? new Date(previous.date).toLocaleDateString() : 'your last check-in',
+      'coach.first_name': profile?.full_name?.split(' ')[0] || ''
+    };
+  }
+};
+
+// Team member functions
+// Active membership of the signed-in user, cached per user so the many getEffectiveCoachId
+// calls on a page don't each hit team_members
+let membershipCache: { userId: string; membership: { coach_id: string; role: TeamRole } | null } | null = null;
+
+export const teamService = {
+  // Look up (and cache) which team, if any, the current user belongs to
+  async getMembership(): Promise<{ coach_id: string; role: TeamRole } | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      membershipCache = null;
+      return null;
+    }
+
+    if (membershipCache?.userId === user.id) {
+      return membershipCache.membership;
+    }
+
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('coach_id, role')
+      .eq('member_id', user.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [teamService] Failed to load team membership:', error);
+      return null;
+    }
+
+    membershipCache = { userId: user.id, membership: data };
+    return data;
+  },
+
+  // Forget the cached membership after joining or leaving a team
+  clearMembershipCache() {
+    membershipCache = null;
+  },
+
+  // Get the coach ID whose caseload the current user works on (their own, or their head coach's)
+  async getEffectiveCoachId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    
+    if (!user) {
+      return null;
+    }
+
+    const membership = await this.getMembership();
+    return membership?.coach_id || user.id;
+  },
+
+  // Check if current user is a member of someone else's team
+  async isTeamMember(): Promise<boolean> {
+    return !!(await this.getMembership());
+  },
+
+  // Get team member role ('assistant_coach' or 'admin'); null for head coaches
+  async getTeamMemberRole(): Promise<TeamRole | null> {
+    const membership = await this.getMembership();
+    return membership?.role || null;
+  },
+
+  // Everyone who can be assigned clients: the head coach plus active members
+  async getAssignableCoaches(): Promise<{ id: string; name: string }[]> {
+    const effectiveCoachId = await this.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    const [{ data: owner }, members] = await Promise.all([
+      supabase.from('user_profiles').select('id, full_name, email').eq('id', effectiveCoachId).maybeSingle(),
+      this.getTeamMembers()
+    ]);
+
+    const coaches = members
+      .filter(member => member.status === 'active' && member.member_id)
+      .map(member => ({
+        id: member.member_id!,
+        name: member.member_profile?.full_name || member.member_email || 'Team member'
+      }));
+
+    return [
+      { id: effectiveCoachId, name: owner?.full_name || owner?.email || 'Head coach' },
+      ...coaches
+    ];
+  },
+
+  // List the team's members and pending invitations
+  async getTeamMembers(): Promise<TeamMember[]> {
+    const effectiveCoachId = await this.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('*, member_profile:user_profiles(full_name, email)')
+      .eq('coach_id', effectiveCoachId)
+      .neq('status', 'inactive')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ [teamService] Failed to load team members:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Invite someone by email; returns the accept link in case no email could be sent
+  async inviteTeamMember(
+    email: string,
+    role: TeamRole
+  ): Promise<{ member: TeamMember; acceptUrl: string; emailSent: boolean } | { error: string }> {
+    const effectiveCoachId = await this.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return { error: 'Not signed in' };
+    }
+
+    const { data, error } = await supabase.functions.invoke('team-invite', {
+      body: { email, role, coachId: effectiveCoachId }
+    });
+
+    if (error || data?.error) {
+      // Non-2xx responses carry the function's error message in the response body
+      let message: string | undefined = data?.error;
+      if (!message && error instanceof FunctionsHttpError) {
+        message = (await error.context.json().catch(() => ({}))).error;
+      }
+      console.error('❌ [teamService] Failed to invite team member:', message || error);
+      return { error: message || 'Failed to send invitation' };
+    }
+
+    return data;
+  },
+
+  // Change a member's role
+  async updateTeamMemberRole(memberId: string, role: TeamRole): Promise<boolean> {
+    const { error } = await supabase
+      .from('team_members')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('❌ [teamService] Failed to update team member role:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Remove a member or revoke a pending invitation
+  async removeTeamMember(memberId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('❌ [teamService] Failed to remove team member:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Leave the team the current user belongs to
+  async leaveTeam(): Promise<boolean> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('team_members')
+      .delete()
+      .eq('member_id', user.id)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error('❌ [teamService] Failed to leave team:', error);
+      return false;
+    }
+
+    this.clearMembershipCache();
+    return true;
+  },
+
+  // Preview an invitation before accepting it
+  async getInvitation(token: string): Promise<TeamInvitation | null> {
+    const { data, error } = await supabase.rpc('get_team_invitation', { p_token: token });
+
+    if (error) {
+      console.error('❌ [teamService] Failed to load invitation:', error);
+      return null;
+    }
+
+    return data?.[0] || null;
+  },
+
+  // Accept an invitation for the signed-in user
+  async acceptInvitation(token: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('accept_team_invitation', { p_token: token });
+
+    if (error) {
+      console.error('❌ [teamService] Failed to accept invitation:', error);
+      return { success: false, error: error.message };
+    }
+
+    this.clearMembershipCache();
+    return { success: true };
+  }
+};
+
+// Response SLA settings, shared by the whole team
+export const slaService = {
+  // Get the team's SLA settings, falling back to the defaults when none are saved
+  async getSettings(): Promise<CoachSlaSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('coach_sla_settings')
+      .select('coach_id, response_sla_hours, escalation_action, escalation_target_id')
+      .eq('coach_id', effectiveCoachId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [slaService] Failed to load SLA settings:', error);
+    }
+
+    return data || {
+      coach_id: effectiveCoachId,
+      response_sla_hours: DEFAULT_RESPONSE_SLA_HOURS,
+      escalation_action: 'notify',
+      escalation_target_id: null
+    };
+  },
+
+  // Save the team's SLA settings (head coach and team admins only)
+  async saveSettings(settings: Omit<CoachSlaSettings, 'coach_id'>): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('coach_sla_settings')
+      .upsert({
+        coach_id: effectiveCoachId,
+        ...settings,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('❌ [slaService] Failed to save SLA settings:', error);
+      return false;
+    }
+
+    return true;
+  }
+};
+
+// Which LLM provider and models the team's AI features use
+export const aiSettingsService = {
+  // Get the team's AI settings; all NULL when none are saved (deployment defaults)
+  async getSettings(): Promise<CoachAiSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('coach_ai_settings')
+      .select('coach_id, provider, chat_model, embedding_provider, embedding_model')
+      .eq('coach_id', effectiveCoachId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [aiSettingsService] Failed to load AI settings:', error);
+    }
+
+    return data || {
+      coach_id: effectiveCoachId,
+      provider: null,
+      chat_model: null,
+      embedding_provider: null,
+      embedding_model: null
+    };
+  },
+
+  // Save the team's AI settings (head coach and team admins only)
+  async saveSettings(settings: Omit<CoachAiSettings, 'coach_id'>): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('coach_ai_settings')
+      .upsert({
+        coach_id: effectiveCoachId,
+        ...settings,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('❌ [aiSettingsService] Failed to save AI settings:', error);
+      return false;
+    }
+
+    return true;
+  }
+};
+
+// Each coach's writing-style profile and the replies drafted from it
+export const styleProfileService = {
+  // Get the signed-in coach's own profile; null until one has been built
+  async getProfile(): Promise<CoachStyleProfile | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('coach_style_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [styleProfileService] Failed to load style profile:', error);
+      return null;
+    }
+
+    return data;
+  },
+
+  // Rebuild the profile from the coach's latest responses; profile is null when there are too few
+  async rebuild(): Promise<{ profile: CoachStyleProfile | null; sampleCount: number } | { error: string }> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+
+    const { data, error } = await supabase.functions.invoke('build-style-profile', {
+      body: { coachId: effectiveCoachId }
+    });
+
+    if (error || data?.error) {
+      let body = data;
+      if (!body && error instanceof FunctionsHttpError) {
+        body = await error.context.json().catch(() => ({}));
       }
-    } catch (error) {
-      console.error('Error in generateResponseTemplates:', error);
+      console.error('❌ [styleProfileService] Failed to build style profile:', body?.error || error);
+      return { error: body?.error || 'Failed to build style profile' };
+    }
+
+    return data;
+  },
+
+  // Draft a full reply to a check-in in the signed-in coach's voice
+  async draftResponse(
+    checkinId: string
+  ): Promise<{ draft: string; styleProfileUsed: boolean; sampleCount: number } | { error: string }> {
+    const { data, error } = await supabase.functions.invoke('draft-checkin-response', {
+      body: { checkinId }
+    });
+
+    if (error || data?.error) {
+      let body = data;
+      if (!body && error instanceof FunctionsHttpError) {
+        body = await error.context.json().catch(() => ({}));
+      }
+      console.error('❌ [styleProfileService] Failed to draft response:', body?.error || error);
+      return { error: body?.error || 'Failed to draft response' };
+    }
+
+    return data;
+  }
+};
+
+// Emailing coach responses to clients (see the deliver-checkin-response function)
+export const deliveryService = {
+  // Get the team's email branding, falling back to the defaults when none are saved
+  async getEmailSettings(): Promise<CoachEmailSettings | null> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
       return null;
     }
+
+    const { data, error } = await supabase
+      .from('coach_email_settings')
+      .select('coach_id, from_name, reply_to_email, brand_color, logo_url, subject_template, intro_template, signature, auto_send')
+      .eq('coach_id', effectiveCoachId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [deliveryService] Failed to load email settings:', error);
+    }
+
+    return data || {
+      coach_id: effectiveCoachId,
+      from_name: null,
+      reply_to_email: null,
+      brand_color: '#0d9488',
+      logo_url: null,
+      subject_template: 'Your check-in response from {{coach_name}}',
+      intro_template: "Hi {{client_name}}, here's my response to your check-in from {{checkin_date}}.",
+      signature: null,
+      auto_send: true
+    };
   },
 
-  // Get common response templates for quick use
-  getQuickResponseTemplates(): Array<{
-    id: string;
-    title: string;
-    content: string;
-    category: 'encouragement' | 'guidance' | 'adjustment' | 'question';
-  }> {
-    return [
-      {
-        id: 'progress',
-        title: 'Great Progress',
-        content: "I'm really impressed with the progress you're making! Keep up the excellent work and stay consistent with what's working for you.",
-        category: 'encouragement'
-      },
-      {
-        id: 'stay-course',
-        title: 'Stay the Course', 
-        content: "You're on the right track! Continue with your current approach and let's check in again soon to see how things develop.",
-        category: 'guidance'
-      },
-      {
-        id: 'reflect',
-        title: 'Reflection Question',
-        content: "What do you think has been the most challenging part of this process for you? Understanding this can help us adjust our approach.",
-        category: 'question'
-      },
-      {
-        id: 'small-adjustment',
-        title: 'Small Adjustment',
-        content: "Based on your recent check-ins, let's make a small adjustment to your approach. This should help address the challenges you've mentioned.",
-        category: 'adjustment'
-      },
-      {
-        id: 'celebrate-wins',
-        title: 'Celebrate Wins',
-        content: "Don't forget to celebrate these wins, no matter how small they might seem! Each step forward is meaningful progress.",
-        category: 'encouragement'
-      },
-      {
-        id: 'overcome-obstacles',
-        title: 'Overcome Obstacles',
-        content: "It sounds like you've hit a challenging period. Let's work together to identify strategies that can help you push through this.",
-        category: 'guidance'
-      },
-      {
-        id: 'patterns',
-        title: 'Notice Patterns',
-        content: "I'm noticing some interesting patterns in your check-ins. What patterns are you seeing on your end?",
-        category: 'question'
-      },
-      {
-        id: 'modify-approach',
-        title: 'Modify Approach',
-        content: "Based on your feedback, I think we should modify our approach slightly. This adjustment should better align with your current situation.",
-        category: 'adjustment'
+  // Save the team's email branding (head coach and team admins only)
+  async saveEmailSettings(settings: Omit<CoachEmailSettings, 'coach_id'>): Promise<boolean> {
+    const effectiveCoachId = await teamService.getEffectiveCoachId();
+    if (!effectiveCoachId) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('coach_email_settings')
+      .upsert({
+        coach_id: effectiveCoachId,
+        ...settings,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('❌ [deliveryService] Failed to save email settings:', error);
+      return false;
+    }
+
+    return true;
+  },
+
+  // Email a check-in's response to the client; already-delivered responses need resend = true
+  async sendResponse(
+    checkinId: string,
+    resend: boolean = false
+  ): Promise<{ delivery: ResponseDelivery | null; alreadySent?: boolean; error?: string }> {
+    const { data, error } = await supabase.functions.invoke('deliver-checkin-response', {
+      body: { checkinId, resend }
+    });
+
+    if (error || data?.error) {
+      // Failed sends still return the recorded delivery alongside the error
+      let body = data;
+      if (!body && error instanceof FunctionsHttpError) {
+        body = await error.context.json().catch(() => ({}));
       }
-    ];
+      console.error('❌ [deliveryService] Failed to deliver response:', body?.error || error);
+      return { delivery: body?.delivery ?? null, error: body?.error || 'Failed to send email' };
+    }
+
+    return data;
+  },
+
+  // Delivery attempts for a check-in, newest first
+  async getDeliveries(checkinId: string): Promise<ResponseDelivery[]> {
+    const { data, error } = await supabase
+      .from('response_deliveries')
+      .select('*')
+      .eq('checkin_id', checkinId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('❌ [deliveryService] Failed to load deliveries:', error);
+      return [];
+    }
+
+    return data || [];
   }
 };
 
-// Team member functions
-export const teamService = {
-  // Get the coach ID for the current user (optimized for single-coach setup)
-  async getEffectiveCoachId(): Promise<string | null> {
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
+// Video and audio responses stored in the private response-media bucket
+export const responseMediaService = {
+  // Read a recording's duration in the browser; null when the container doesn't report one
+  getDuration(file: File): Promise<number | null> {
+    return new Promise(resolve => {
+      const element = document.createElement(file.type.startsWith('audio/') ? 'audio' : 'video');
+      const objectUrl = URL.createObjectURL(file);
+      const finish = (duration: number | null) => {
+        URL.revokeObjectURL(objectUrl);
+        resolve(duration);
+      };
+
+      element.preload = 'metadata';
+      // WebM recordings from MediaRecorder often report Infinity until fully played
+      element.onloadedmetadata = () => finish(Number.isFinite(element.duration) ? element.duration : null);
+      element.onerror = () => finish(null);
+      element.src = objectUrl;
+    });
+  },
+
+  // Upload a recording for a check-in; re-uploading the same file resumes where it stopped
+  async upload(
+    checkin: Pick<Checkin, 'id' | 'coach_id'>,
+    file: File,
+    options: { onProgress?: (uploadedBytes: number, totalBytes: number) => void; signal?: AbortSignal } = {}
+  ): Promise<ResponseMedia> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You need to be signed in to upload');
+    }
+
+    const safeName = file.name.replace(/[^\w.-]+/g, '_').slice(-80);
+    const path = `${checkin.coach_id}/${checkin.id}/${file.lastModified}-${file.size}-${safeName}`;
+
+    await uploadResumable({
+      supabaseUrl,
+      anonKey: supabaseAnonKey,
+      accessToken: session.access_token,
+      bucket: RESPONSE_MEDIA_BUCKET,
+      path,
+      file,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+
+    return {
+      path,
+      mimeType: file.type,
+      durationSeconds: await this.getDuration(file),
+      sizeBytes: file.size
+    };
+  },
+
+  // Short-lived URL for playback inside the app
+  async getPlaybackUrl(path: string): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from(RESPONSE_MEDIA_BUCKET)
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('❌ [responseMediaService] Failed to sign playback URL:', error);
       return null;
     }
 
-    // For now, just return the user's ID (simplified for single-coach setup)
-    // This eliminates the slow team_members table query
-    return user.id;
+    return data.signedUrl;
   },
 
-  // Check if current user is a team member (optimized for single-coach setup)
-  async isTeamMember(): Promise<boolean> {
-    // For now, return false (simplified for single-coach setup)
-    // This eliminates the team_members table query causing 406 errors
-    return false;
+  // Longer-lived link a coach can send to the client
+  async createShareLink(path: string, expiresInDays: number = 7): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from(RESPONSE_MEDIA_BUCKET)
+      .createSignedUrl(path, expiresInDays * 24 * 60 * 60);
+
+    if (error) {
+      console.error('❌ [responseMediaService] Failed to create share link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  },
+
+  // Delete an uploaded recording, e.g. when the coach discards it
+  async remove(path: string): Promise<boolean> {
+    const { error } = await supabase.storage
+      .from(RESPONSE_MEDIA_BUCKET)
+      .remove([path]);
+
+    if (error) {
+      console.error('❌ [responseMediaService] Failed to delete recording:', error);
+      return false;
+    }
+
+    return true;
+  }
+};
+
+// Transcription of voice notes and videos clients attach to check-ins
+export const transcriptionService = {
+  // Attachments found in a check-in, in the order they appeared
+  async getCheckinMedia(checkinId: string): Promise<CheckinMedia[]> {
+    const { data, error } = await supabase
+      .from('checkin_media')
+      .select('*')
+      .eq('checkin_id', checkinId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ [transcriptionService] Failed to load check-in media:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Short-lived URL for the stored copy of an attachment
+  async getPlaybackUrl(storagePath: string): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from('checkin-media')
+      .createSignedUrl(storagePath, 60 * 60);
+
+    if (error) {
+      console.error('❌ [transcriptionService] Failed to sign media URL:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  },
+
+  // Run transcription again for a check-in whose transcription failed
+  async retry(checkinId: string): Promise<{ error?: string }> {
+    const { data, error } = await supabase.functions.invoke('transcribe-checkin-media', {
+      body: { checkinId }
+    });
+
+    if (error || data?.error) {
+      let body = data;
+      if (!body && error instanceof FunctionsHttpError) {
+        body = await error.context.json().catch(() => ({}));
+      }
+      console.error('❌ [transcriptionService] Transcription failed:', body?.error || error);
+      return { error: body?.error || 'Transcription failed' };
+    }
+
+    return {};
+  }
+};
+
+// Browser-side storage for a client's portal session (not a Supabase Auth session)
+const PORTAL_SESSION_KEY = 'client_portal_session';
+
+type PortalResult<T> = T | { error: string; sessionExpired?: boolean };
+
+const invokeClientPortal = async <T>(action: string, body: Record<string, unknown> = {}): Promise<PortalResult<T>> => {
+  const { data, error } = await supabase.functions.invoke('client-portal', {
+    body: { action, sessionToken: localStorage.getItem(PORTAL_SESSION_KEY), ...body }
+  });
+
+  if (error || data?.error) {
+    let responseBody = data;
+    if (!responseBody && error instanceof FunctionsHttpError) {
+      responseBody = await error.context.json().catch(() => ({}));
+    }
+    console.error(`❌ [clientPortalService] ${action} failed:`, responseBody?.error || error);
+    if (responseBody?.sessionExpired) {
+      localStorage.removeItem(PORTAL_SESSION_KEY);
+    }
+    return { error: responseBody?.error || 'Something went wrong. Please try again.', sessionExpired: responseBody?.sessionExpired };
+  }
+
+  return data;
+};
+
+// Client self-service portal (see the client-portal function); clients sign in with emailed magic links
+export const clientPortalService = {
+  hasSession(): boolean {
+    return Boolean(localStorage.getItem(PORTAL_SESSION_KEY));
+  },
+
+  // Email a sign-in link to every active client record with this address
+  async requestLink(email: string): Promise<PortalResult<{ sent: true }>> {
+    return invokeClientPortal('request_link', { email });
+  },
+
+  // Trade the token from a magic link for a portal session
+  async signIn(token: string): Promise<PortalResult<{ expiresAt: string }>> {
+    const result = await invokeClientPortal<{ sessionToken: string; expiresAt: string }>('exchange', { token });
+    if ('error' in result) {
+      return result;
+    }
+
+    localStorage.setItem(PORTAL_SESSION_KEY, result.sessionToken);
+    return { expiresAt: result.expiresAt };
+  },
+
+  async getOverview(): Promise<PortalResult<PortalOverview>> {
+    return invokeClientPortal('overview');
+  },
+
+  // submissionId makes retries safe: the same id never creates a second check-in
+  async submitCheckin(
+    submissionId: string,
+    answers: Record<string, unknown>,
+    notes: string
+  ): Promise<PortalResult<{ checkinId: string; duplicate?: boolean }>> {
+    return invokeClientPortal('submit_checkin', { submissionId, answers, notes });
+  },
+
+  async signOut(): Promise<void> {
+    await invokeClientPortal('sign_out');
+    localStorage.removeItem(PORTAL_SESSION_KEY);
+  },
+
+  // Coach side: email a client a portal link valid for 7 days; the link is returned for sharing manually
+  async sendInvite(clientId: string): Promise<PortalResult<{ portalUrl: string; emailSent: boolean }>> {
+    return invokeClientPortal('invite', { clientId });
+  },
+
+  // Coach side: number of portal sessions the client currently has open
+  async getActiveSessionCount(clientId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('client_portal_tokens')
+      .select('id', { count: 'exact', head: true })
+      .eq('client_id', clientId)
+      .eq('kind', 'session')
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('❌ [clientPortalService] Failed to count portal sessions:', error);
+      return 0;
+    }
+
+    return count ?? 0;
+  },
+
+  // Coach side: sign the client out everywhere and cancel unused links
+  async revokeAccess(clientId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('client_portal_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('client_id', clientId)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('❌ [clientPortalService] Failed to revoke portal access:', error);
+      return false;
+    }
+
+    return true;
+  }
+};
+
+// In-app notifications for the signed-in user
+export const notificationService = {
+  // Get the most recent notifications, newest first
+  async getNotifications(limit: number = 20): Promise<AppNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ [notificationService] Failed to load notifications:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Mark one notification as read
+  async markAsRead(notificationId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId);
+
+    if (error) {
+      console.error('❌ [notificationService] Failed to mark notification as read:', error);
+      return false;
+    }
+
+    return true;
   },
 
-  // Get team member role (optimized for single-coach setup)
-  async getTeamMemberRole(): Promise<string | null> {
-    // For now, return null (simplified for single-coach setup)
-    // This eliminates the team_members table query causing 406 errors
-    return null;
+  // Mark every unread notification as read
+  async markAllAsRead(): Promise<boolean> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .is('read_at', null);
+
+    if (error) {
+      console.error('❌ [notificationService] Failed to mark notifications as read:', error);
+      return false;
+    }
+
+    return true;
   }
 };
 
@@ -1692,11 +3522,67 @@ export const logService = {
       return true;
     } catch (error) {
       // Silently fail - logging is optional and should not break the app
-      // CORS errors from log-app-event function are expected if it doesn't exist
       return false;
     }
   },
 
+  // Get logged events for the admin viewer, newest first; pass the last row's timestamp as `before` to page
+  async getLogs(filters: AppLogFilters = {}, limit: number = 50, before?: string): Promise<AppLog[] | null> {
+    try {
+      let query = supabase
+        .from('app_logs')
+        .select('*, user_profiles(full_name, email)')
+        .order('timestamp', { ascending: false })
+        .limit(limit);
+
+      if (filters.userId) {
+        query = query.eq('user_id', filters.userId);
+      }
+      if (filters.eventType) {
+        query = query.eq('event_type', filters.eventType);
+      }
+      if (filters.context) {
+        query = query.eq('context', filters.context);
+      }
+      if (filters.since) {
+        query = query.gte('timestamp', filters.since);
+      }
+      if (filters.until) {
+        query = query.lte('timestamp', filters.until);
+      }
+      if (before) {
+        query = query.lt('timestamp', before);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('❌ [logService] Failed to load logs:', error);
+        return null;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ [logService] Error loading logs:', error);
+      return null;
+    }
+  },
+
+  // List every user for the log viewer's user filter (admins can read all profiles)
+  async getLogUsers(): Promise<Pick<UserProfile, 'id' | 'full_name' | 'email'>[]> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .order('email', { ascending: true });
+
+    if (error) {
+      console.error('❌ [logService] Failed to load users:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
   // Log an error with stack trace
   async logError(error: Error, context: string = 'frontend', additionalDetails: Record<string, any> = {}): Promise<boolean> {
     return this.logEvent('error', {
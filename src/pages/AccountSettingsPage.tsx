@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, User, Settings, Webhook, Shield, Crown, AlertCircle, CheckCircle, Edit2, Save, X, Zap } from 'lucide-react';
+import { ArrowLeft, User, Settings, Webhook, Shield, Crown, AlertCircle, CheckCircle, Edit2, Save, X, Zap, ClipboardList, Plus, Trash2, Star } from 'lucide-react';
 import Navigation from '../components/Navigation';
 import CheckinWebhookSettingsModal from '../components/CheckinWebhookSettingsModal';
+import CheckinFormEditorModal from '../components/CheckinFormEditorModal';
+import TeamManagementSection from '../components/TeamManagementSection';
+import ResponseSlaSection from '../components/ResponseSlaSection';
+import EmailBrandingSection from '../components/EmailBrandingSection';
+import AiProviderSection from '../components/AiProviderSection';
+import ResponseTemplatesSection from '../components/ResponseTemplatesSection';
+import WritingStyleSection from '../components/WritingStyleSection';
 import { useAuth } from '../contexts/AuthContext';
-import { userService, checkinWebhookService, teamService } from '../lib/supabase';
+import { userService, checkinWebhookService, teamService, checkinFormService, type CheckinForm } from '../lib/supabase';
 
 const AccountSettingsPage: React.FC = () => {
   const { user } = useAuth();
@@ -26,10 +33,16 @@ const AccountSettingsPage: React.FC = () => {
   const [isTeamMember, setIsTeamMember] = useState(false);
   const [canEditSettings, setCanEditSettings] = useState(false);
 
+  // Check-in forms
+  const [checkinForms, setCheckinForms] = useState<CheckinForm[]>([]);
+  const [editingForm, setEditingForm] = useState<CheckinForm | null>(null);
+  const [showFormEditor, setShowFormEditor] = useState(false);
+
   useEffect(() => {
     loadUserData();
     checkIntegrationStatus();
     checkUserPermissions();
+    loadCheckinForms();
   }, []);
 
   const loadUserData = async () => {
@@ -76,8 +89,7 @@ const AccountSettingsPage: React.FC = () => {
   const checkIntegrationStatus = async () => {
     try {
       // Check webhook status
-      const webhookSettings = await checkinWebhookService.getUserCheckinWebhookSettings();
-      setHasWebhookConfigured(!!(webhookSettings?.webhook_secret));
+      setHasWebhookConfigured(await checkinWebhookService.hasCheckinWebhook());
     } catch (error) {
       console.error('Error checking integration status:', error);
     }
@@ -103,6 +115,55 @@ const AccountSettingsPage: React.FC = () => {
     checkIntegrationStatus();
   };
 
+  const loadCheckinForms = async () => {
+    try {
+      const forms = await checkinFormService.getForms();
+      setCheckinForms(forms);
+    } catch (error) {
+      console.error('Error loading check-in forms:', error);
+    }
+  };
+
+  const handleOpenFormEditor = (form: CheckinForm | null) => {
+    setEditingForm(form);
+    setShowFormEditor(true);
+  };
+
+  const handleSetDefaultForm = async (formId: string) => {
+    const success = await checkinFormService.setDefaultForm(formId);
+    if (success) {
+      loadCheckinForms();
+    } else {
+      setError('Failed to set default form');
+    }
+  };
+
+  const handleDeleteForm = async (form: CheckinForm) => {
+    if (!confirm(`Delete "${form.name}"? Answers already stored from this form are kept.`)) {
+      return;
+    }
+
+    const success = await checkinFormService.deleteForm(form.id);
+    if (success) {
+      loadCheckinForms();
+    } else {
+      setError('Failed to delete form');
+    }
+  };
+
+  const handleLeaveTeam = async () => {
+    if (!confirm('Leave this team? You will lose access to its clients and check-ins.')) {
+      return;
+    }
+
+    if (await teamService.leaveTeam()) {
+      // Reload so every page picks up the user's own caseload again
+      window.location.href = '/';
+    } else {
+      setError('Failed to leave team');
+    }
+  };
+
   const getRoleDisplay = () => {
     if (!isTeamMember) {
       return { name: 'Coach', icon: Crown, color: 'text-purple-600 bg-purple-100' };
@@ -307,6 +368,96 @@ const AccountSettingsPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Check-in Forms */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900 flex items-center space-x-2">
+                <ClipboardList className="w-5 h-5" />
+                <span>Check-in Forms</span>
+              </h2>
+              {canEditSettings && (
+                <button
+                  onClick={() => handleOpenFormEditor(null)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>New Form</span>
+                </button>
+              )}
+            </div>
+
+            <p className="text-gray-600 mb-4">
+              Define the questions your clients answer so numbers like weight, sleep or energy are stored as typed values.
+              Incoming check-ins use the default form unless the payload includes a <code className="font-mono text-sm">form_id</code>.
+            </p>
+
+            {checkinForms.length === 0 ? (
+              <div className="p-4 border border-dashed border-gray-300 rounded-lg text-sm text-gray-500 text-center">
+                No check-in forms yet
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {checkinForms.map(form => (
+                  <div key={form.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-semibold text-gray-900">{form.name}</h3>
+                        {form.is_default && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">Default</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {form.questions.length} question{form.questions.length === 1 ? '' : 's'}
+                        {form.description && ` • ${form.description}`}
+                      </p>
+                      <p className="text-xs text-gray-400 font-mono mt-1">form_id: {form.id}</p>
+                    </div>
+                    {canEditSettings && (
+                      <div className="flex items-center space-x-2">
+                        {!form.is_default && (
+                          <button
+                            onClick={() => handleSetDefaultForm(form.id)}
+                            className="p-2 text-gray-500 hover:text-amber-500 hover:bg-amber-50 rounded-lg transition-colors"
+                            title="Make default"
+                          >
+                            <Star className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleOpenFormEditor(form)}
+                          className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit form"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteForm(form)}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete form"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Team Management (head coach and admins) */}
+          {canEditSettings && <TeamManagementSection />}
+
+          {canEditSettings && <ResponseSlaSection />}
+
+          {canEditSettings && <EmailBrandingSection />}
+
+          {canEditSettings && <AiProviderSection />}
+
+          <ResponseTemplatesSection canManageTeam={canEditSettings} />
+
+          <WritingStyleSection />
+
           {/* Team Information (for team members) */}
           {isTeamMember && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -329,6 +480,13 @@ const AccountSettingsPage: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              <button
+                onClick={handleLeaveTeam}
+                className="mt-4 px-4 py-2 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Leave team
+              </button>
             </div>
           )}
         </div>
@@ -341,6 +499,12 @@ const AccountSettingsPage: React.FC = () => {
         onSave={handleIntegrationUpdate}
         canEdit={canEditSettings}
       />
+      <CheckinFormEditorModal
+        isOpen={showFormEditor}
+        onClose={() => setShowFormEditor(false)}
+        form={editingForm}
+        onSaved={loadCheckinForms}
+      />
     </div>
   );
 };
@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { ScrollText, Filter, AlertCircle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { logService, type AppLog, type AppLogFilters, type UserProfile } from '../lib/supabase';
+import Navigation from '../components/Navigation';
+
+const PAGE_SIZE = 50;
+
+const EVENT_TYPES = ['error', 'feature_usage', 'login', 'logout', 'signup'];
+const CONTEXTS = ['frontend'];
+
+const TIME_RANGES: Record<string, { label: string; ms: number | null }> = {
+  '1h': { label: 'Last hour', ms: 60 * 60 * 1000 },
+  '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  '30d': { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  all: { label: 'All time', ms: null },
+  custom: { label: 'Custom range', ms: null },
+};
+
+const EVENT_STYLES: Record<string, string> = {
+  error: 'bg-red-100 text-red-700',
+  feature_usage: 'bg-blue-100 text-blue-700',
+};
+
+interface FilterDraft {
+  user: string;
+  type: string;
+  context: string;
+  range: string;
+  from: string;
+  to: string;
+}
+
+function AdminLogsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const applied: FilterDraft = {
+    user: searchParams.get('user') || '',
+    type: searchParams.get('type') || '',
+    context: searchParams.get('context') || '',
+    range: searchParams.get('range') || '24h',
+    from: searchParams.get('from') || '',
+    to: searchParams.get('to') || '',
+  };
+
+  const [draft, setDraft] = useState<FilterDraft>(applied);
+  const [users, setUsers] = useState<Pick<UserProfile, 'id' | 'full_name' | 'email'>[]>([]);
+  const [logs, setLogs] = useState<AppLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    logService.getLogUsers().then(setUsers);
+  }, []);
+
+  useEffect(() => {
+    setDraft(applied);
+    loadLogs();
+  }, [searchParams]);
+
+  const buildFilters = (): AppLogFilters => {
+    const filters: AppLogFilters = {
+      userId: applied.user || undefined,
+      eventType: applied.type || undefined,
+      context: applied.context || undefined,
+    };
+
+    if (applied.range === 'custom') {
+      if (applied.from) filters.since = new Date(applied.from).toISOString();
+      if (applied.to) filters.until = new Date(applied.to).toISOString();
+    } else {
+      const ms = TIME_RANGES[applied.range]?.ms;
+      if (ms) filters.since = new Date(Date.now() - ms).toISOString();
+    }
+
+    return filters;
+  };
+
+  const loadLogs = async (before?: string) => {
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+
+    const page = await logService.getLogs(buildFilters(), PAGE_SIZE, before);
+
+    // Ignore responses for filters the user has already changed
+    if (requestId !== latestRequest.current) return;
+
+    if (page === null) {
+      setError('Failed to load logs. Please try again.');
+    } else {
+      setLogs(prev => (before ? [...prev, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setIsLoading(false);
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params: Record<string, string> = {};
+    if (draft.user) params.user = draft.user;
+    if (draft.type.trim()) params.type = draft.type.trim();
+    if (draft.context.trim()) params.context = draft.context.trim();
+    params.range = draft.range;
+    if (draft.range === 'custom') {
+      if (draft.from) params.from = draft.from;
+      if (draft.to) params.to = draft.to;
+    }
+    setSearchParams(params);
+  };
+
+  const handleReset = () => {
+    setSearchParams({});
+  };
+
+  const updateDraft = (field: keyof FilterDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const formatTimestamp = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  const summarize = (log: AppLog) => {
+    const details = log.event_details || {};
+    return details.message || details.feature || details.url || '';
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-start justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+              <ScrollText className="w-8 h-8 text-blue-600" />
+              Event Logs
+            </h1>
+            <p className="mt-2 text-gray-600">
+              Errors, sign-ins and feature usage reported by the app
+            </p>
+          </div>
+          <button
+            onClick={() => loadLogs()}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleApply} className="bg-white rounded-xl p-5 shadow-sm border border-gray-200 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">User</label>
+              <select value={draft.user} onChange={(e) => updateDraft('user', e.target.value)} className={inputClass}>
+                <option value="">All users</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>
+                    {user.full_name ? `${user.full_name} (${user.email})` : user.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Event type</label>
+              <input
+                list="log-event-types"
+                value={draft.type}
+                onChange={(e) => updateDraft('type', e.target.value)}
+                placeholder="All event types"
+                className={inputClass}
+              />
+              <datalist id="log-event-types">
+                {EVENT_TYPES.map(type => <option key={type} value={type} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Context</label>
+              <input
+                list="log-contexts"
+                value={draft.context}
+                onChange={(e) => updateDraft('context', e.target.value)}
+                placeholder="All contexts"
+                className={inputClass}
+              />
+              <datalist id="log-contexts">
+                {CONTEXTS.map(context => <option key={context} value={context} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Time</label>
+              <select value={draft.range} onChange={(e) => updateDraft('range', e.target.value)} className={inputClass}>
+                {Object.entries(TIME_RANGES).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {draft.range === 'custom' && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                <input type="datetime-local" value={draft.from} onChange={(e) => updateDraft('from', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                <input type="datetime-local" value={draft.to} onChange={(e) => updateDraft('to', e.target.value)} className={inputClass} />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 mt-4">
+            <button
+              type="submit"
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Filter className="w-4 h-4" />
+              Apply filters
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        {/* Log table */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+              <tr>
+                <th className="w-8 px-3 py-3"></th>
+                <th className="px-3 py-3">Time</th>
+                <th className="px-3 py-3">Event</th>
+                <th className="px-3 py-3">Context</th>
+                <th className="px-3 py-3">User</th>
+                <th className="px-3 py-3">Summary</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {logs.map(log => {
+                const isExpanded = expandedId === log.id;
+                return (
+                  <React.Fragment key={log.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-3 py-3 text-gray-400">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-3 text-gray-600 whitespace-nowrap">{formatTimestamp(log.timestamp)}</td>
+                      <td className="px-3 py-3">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${EVENT_STYLES[log.event_type] || 'bg-gray-100 text-gray-700'}`}>
+                          {log.event_type}
+                        </span>
+                      </td>
+                      <td className="px-3 py-3 text-gray-600">{log.context}</td>
+                      <td className="px-3 py-3 text-gray-900 whitespace-nowrap">
+                        {log.user_profiles?.full_name || log.user_profiles?.email || <span className="text-gray-400">Anonymous</span>}
+                      </td>
+                      <td className="px-3 py-3 text-gray-600 max-w-md truncate">{summarize(log)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td></td>
+                        <td colSpan={5} className="px-3 py-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-gray-600 mb-3">
+                            <div><span className="font-medium">IP address:</span> {log.ip_address || 'Unknown'}</div>
+                            <div className="truncate"><span className="font-medium">User agent:</span> {log.user_agent || 'Unknown'}</div>
+                            {log.user_profiles?.email && (
+                              <div><span className="font-medium">Email:</span> {log.user_profiles.email}</div>
+                            )}
+                            <div><span className="font-medium">Received:</span> {formatTimestamp(log.created_at)}</div>
+                          </div>
+                          <pre className="text-xs bg-white border border-gray-200 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-all">
+                            {JSON.stringify(log.event_details, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {isLoading && logs.length === 0 && (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500 mx-auto"></div>
+              <p className="mt-4 text-gray-600">Loading logs...</p>
+            </div>
+          )}
+
+          {!isLoading && !error && logs.length === 0 && (
+            <div className="text-center py-12">
+              <ScrollText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No events found</h3>
+              <p className="text-gray-600">Try widening the time range or clearing filters.</p>
+            </div>
+          )}
+        </div>
+
+        {hasMore && logs.length > 0 && (
+          <div className="text-center mt-6">
+            <button
+              onClick={() => loadLogs(logs[logs.length - 1].timestamp)}
+              disabled={isLoading}
+              className="px-6 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Load older events'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AdminLogsPage;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { ClipboardCheck, Eye, EyeOff, Loader, CheckCircle, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -14,10 +14,12 @@ const AuthPage: React.FC = () => {
   const [success, setSuccess] = useState<string | null>(null);
 
   const { user, signIn, signUp, resetPassword } = useAuth();
+  const location = useLocation();
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated, back to the page that sent them here (e.g. an invite link)
   if (user) {
-    return <Navigate to="/" replace />;
+    const from = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
+    return <Navigate to={from ? `${from.pathname}${from.search || ''}` : '/'} replace />;
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
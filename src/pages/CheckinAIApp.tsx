@@ -1,12 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Plus, MessageSquare, Zap, AlertCircle, X, Trash2, ArrowLeft, Menu, Users, Calendar, TrendingUp, Settings, Webhook, Bell, Clock, FileText, User, CheckCircle, Archive, Reply, Sparkles, ExternalLink } from 'lucide-react';
+import { Send, Plus, MessageSquare, Zap, AlertCircle, X, Trash2, ArrowLeft, Menu, Users, Calendar, TrendingUp, Settings, Webhook, Bell, Clock, FileText, User, CheckCircle, Archive, Reply, Sparkles, ExternalLink, Loader2, CalendarX } from 'lucide-react';
 import { Link, useParams } from 'react-router-dom';
 import { MarkdownRenderer } from '../components/MarkdownRenderer';
-import { chatService, checkinService, checkinWebhookService, teamService, logService, type ChatSession as DBChatSession, type Message as DBMessage, type Checkin } from '../lib/supabase';
+import { chatService, checkinService, checkinWebhookService, teamService, slaService, logService, analysisJobService, DEFAULT_RESPONSE_SLA_HOURS, type AnalysisQueueStats, type ChatSession as DBChatSession, type Message as DBMessage, type Checkin, type PendingCheckinSort, type RiskLevel, type CheckinQueueScope, type Client } from '../lib/supabase';
 import UserMenu from '../components/UserMenu';
 import CheckinWebhookSettingsModal from '../components/CheckinWebhookSettingsModal';
 import CoachResponseModal from '../components/CoachResponseModal';
 import Navigation from '../components/Navigation';
+import { RISK_STYLES } from '../components/CheckinAnalysisPanels';
+import { getCheckinAgeHours, getSlaStatus, formatAge, SLA_STATUS_STYLES } from '../lib/checkinSla';
+import { describeCadence, getDaysOverdue } from '../lib/checkinCadence';
 
 interface Message {
   id: string;
@@ -33,7 +36,16 @@ function CheckinAIApp() {
   const [showWebhookSettingsModal, setShowWebhookSettingsModal] = useState(false);
   const [pendingCheckins, setPendingCheckins] = useState<Checkin[]>([]);
   const [completedCheckins, setCompletedCheckins] = useState<Checkin[]>([]);
+  const [missedCheckins, setMissedCheckins] = useState<Client[]>([]);
   const [pendingCheckinsCount, setPendingCheckinsCount] = useState(0);
+  const [pendingSort, setPendingSort] = useState<PendingCheckinSort>('date');
+  const [riskFilter, setRiskFilter] = useState<RiskLevel | null>(null);
+  const [queueScope, setQueueScope] = useState<CheckinQueueScope>('all');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [slaHours, setSlaHours] = useState(DEFAULT_RESPONSE_SLA_HOURS);
+  const [analysisQueue, setAnalysisQueue] = useState<AnalysisQueueStats | null>(null);
+  const [isRequeuing, setIsRequeuing] = useState(false);
+  const [assignableCoaches, setAssignableCoaches] = useState<{ id: string; name: string }[]>([]);
   const [isLoadingCheckins, setIsLoadingCheckins] = useState(true);
   const [clientName, setClientName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -58,6 +70,22 @@ function CheckinAIApp() {
     }
   }, [clientId]);
 
+  // Initial load happens in loadInitialData; only refetch when the sort, filters or queue change
+  const initialLoadDone = useRef(false);
+  useEffect(() => {
+    if (!initialLoadDone.current) {
+      return;
+    }
+    loadPendingCheckins();
+  }, [pendingSort, riskFilter, queueScope, overdueOnly]);
+
+  useEffect(() => {
+    if (!initialLoadDone.current) {
+      return;
+    }
+    checkinService.getMissedCheckins(clientId, queueScope).then(setMissedCheckins);
+  }, [queueScope]);
+
   const initializeTeamContext = async () => {
     try {
       const [coachId, isMember] = await Promise.all([
@@ -76,10 +104,23 @@ function CheckinAIApp() {
   };
 
   const loadInitialData = async () => {
+    // Teams start on the user's own queue; solo coaches only have one queue
+    const [coaches, slaSettings] = await Promise.all([
+      teamService.getAssignableCoaches(),
+      slaService.getSettings()
+    ]);
+    const initialScope: CheckinQueueScope = coaches.length > 1 ? 'mine' : 'all';
+    setAssignableCoaches(coaches);
+    setQueueScope(initialScope);
+    if (slaSettings) {
+      setSlaHours(slaSettings.response_sla_hours);
+    }
+
     await Promise.all([
-      loadCheckins(),
+      loadCheckins(initialScope),
       checkWebhookStatus()
     ]);
+    initialLoadDone.current = true;
   };
 
   const loadClientName = async () => {
@@ -93,17 +134,21 @@ function CheckinAIApp() {
     }
   };
 
-  const loadCheckins = async () => {
+  const loadCheckins = async (scope: CheckinQueueScope = queueScope) => {
     setIsLoadingCheckins(true);
     try {
-      const [pending, completed, count] = await Promise.all([
-        checkinService.getPendingCheckins(clientId),
+      const [pending, completed, count, queueStats, missed] = await Promise.all([
+        checkinService.getPendingCheckins(clientId, { sort: pendingSort, riskLevel: riskFilter, scope, overdueAfterHours: overdueOnly ? slaHours : null }),
         checkinService.getCompletedCheckins(clientId),
-        checkinService.getPendingCheckinsCount(clientId)
+        checkinService.getPendingCheckinsCount(clientId),
+        analysisJobService.getQueueStats(),
+        checkinService.getMissedCheckins(clientId, scope)
       ]);
       setPendingCheckins(pending);
       setCompletedCheckins(completed);
+      setMissedCheckins(missed);
       setPendingCheckinsCount(count);
+      setAnalysisQueue(queueStats);
     } catch (error) {
       console.error('Error loading checkins:', error);
       setError('Failed to load checkins');
@@ -112,12 +157,32 @@ function CheckinAIApp() {
     }
   };
 
+  const loadPendingCheckins = async () => {
+    try {
+      setPendingCheckins(await checkinService.getPendingCheckins(clientId, {
+        sort: pendingSort,
+        riskLevel: riskFilter,
+        scope: queueScope,
+        overdueAfterHours: overdueOnly ? slaHours : null
+      }));
+    } catch (error) {
+      console.error('Error loading pending checkins:', error);
+    }
+  };
+
+  // Re-queue check-ins whose analysis failed (or was never queued); the worker retries them shortly
+  const handleRequeueFailedAnalyses = async () => {
+    setIsRequeuing(true);
+    await analysisJobService.enqueueMissing();
+    setAnalysisQueue(await analysisJobService.getQueueStats());
+    setIsRequeuing(false);
+  };
+
   const checkWebhookStatus = async () => {
     try {
-      const settings = await checkinWebhookService.getUserCheckinWebhookSettings();
-      const isConfigured = !!(settings?.webhook_secret);
+      const isConfigured = await checkinWebhookService.hasCheckinWebhook();
       setHasWebhookConfigured(isConfigured);
-      console.log('🔍 [CheckinAI] Webhook status check: settings =', settings, 'isConfigured =', isConfigured);
+      console.log('🔍 [CheckinAI] Webhook status check: isConfigured =', isConfigured);
     } catch (error) {
       console.error('Error checking webhook status:', error);
     }
@@ -161,6 +226,11 @@ function CheckinAIApp() {
     loadCheckins();
   };
 
+  const overdueCount = pendingCheckins.filter(checkin => getCheckinAgeHours(checkin) >= slaHours).length;
+
+  const getAssigneeName = (checkin: Checkin) =>
+    assignableCoaches.find(coach => coach.id === checkin.assigned_coach_id)?.name || 'Unassigned';
+
   const generateAIAnalysis = async (checkin: Checkin) => {
     // Function moved to CheckinDetailPage
   };
@@ -187,57 +257,78 @@ function CheckinAIApp() {
     }
   };
 
-  const CheckinCard = ({ checkin, isCompleted = false }: { checkin: Checkin; isCompleted?: boolean }) => (
-    <div
-      onClick={() => openCheckinChat(checkin)}
-      className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-slate-200 dark:border-gray-600 hover:border-teal-300 dark:hover:border-teal-500 hover:shadow-md cursor-pointer transition-all duration-200 group"
-    >
-      <div className="flex items-start justify-between mb-3">
-        <div className="flex items-center space-x-3">
-          <div className="w-10 h-10 bg-teal-100 dark:bg-teal-900/30 rounded-full flex items-center justify-center">
-            <User className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+  const CheckinCard = ({ checkin, isCompleted = false }: { checkin: Checkin; isCompleted?: boolean }) => {
+    const ageHours = getCheckinAgeHours(checkin);
+    const slaStatus = getSlaStatus(ageHours, slaHours);
+
+    return (
+      <div
+        onClick={() => openCheckinChat(checkin)}
+        className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-slate-200 dark:border-gray-600 hover:border-teal-300 dark:hover:border-teal-500 hover:shadow-md cursor-pointer transition-all duration-200 group"
+      >
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-teal-100 dark:bg-teal-900/30 rounded-full flex items-center justify-center">
+              <User className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+            </div>
+            <div>
+              {checkin.client_id && !clientId ? (
+                <Link 
+                  to={`/checkin-ai/client/${checkin.client_id}`}
+                  onClick={(e) => e.stopPropagation()}
+                  className="font-semibold text-slate-800 dark:text-white hover:text-teal-600 dark:hover:text-teal-400 transition-colors duration-200"
+                >
+                  {checkin.client_name}
+                </Link>
+              ) : (
+                <h3 className="font-semibold text-slate-800 dark:text-white">{checkin.client_name}</h3>
+              )}
+              <p className="text-sm text-slate-500 dark:text-gray-400">
+                {formatDate(new Date(checkin.date))}
+                {assignableCoaches.length > 1 && ` • ${getAssigneeName(checkin)}`}
+              </p>
+            </div>
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+              <ExternalLink className="w-4 h-4 text-slate-400 dark:text-gray-500" />
+            </div>
           </div>
-          <div>
-            {checkin.client_id && !clientId ? (
-              <Link 
-                to={`/checkin-ai/client/${checkin.client_id}`}
-                onClick={(e) => e.stopPropagation()}
-                className="font-semibold text-slate-800 dark:text-white hover:text-teal-600 dark:hover:text-teal-400 transition-colors duration-200"
+          <div className="flex items-center space-x-2">
+            {checkin.ai_risk_level && checkin.ai_risk_level !== 'low' && (
+              <span className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${RISK_STYLES[checkin.ai_risk_level]}`}>
+                {checkin.ai_risk_level} risk
+              </span>
+            )}
+            {!isCompleted && (
+              <span
+                className={`text-xs px-2 py-1 rounded-full font-medium whitespace-nowrap ${SLA_STATUS_STYLES[slaStatus]}`}
+                title={`Response due within ${slaHours}h of arrival`}
               >
-                {checkin.client_name}
-              </Link>
+                {formatAge(ageHours)}{slaStatus === 'overdue' ? ' overdue' : ''}
+              </span>
+            )}
+            {isCompleted ? (
+              <CheckCircle className="w-5 h-5 text-green-500 dark:text-green-400" />
             ) : (
-              <h3 className="font-semibold text-slate-800 dark:text-white">{checkin.client_name}</h3>
+              <Clock className="w-5 h-5 text-amber-500 dark:text-amber-400" />
             )}
-            <p className="text-sm text-slate-500 dark:text-gray-400">{formatDate(new Date(checkin.date))}</p>
-          </div>
-          <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-            <ExternalLink className="w-4 h-4 text-slate-400 dark:text-gray-500" />
+            <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+              isCompleted 
+                ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' 
+                : 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300'
+            }`}>
+              {isCompleted ? 'Responded' : 'Pending'}
+            </span>
           </div>
         </div>
-        <div className="flex items-center space-x-2">
-          {isCompleted ? (
-            <CheckCircle className="w-5 h-5 text-green-500 dark:text-green-400" />
-          ) : (
-            <Clock className="w-5 h-5 text-amber-500 dark:text-amber-400" />
-          )}
-          <span className={`text-xs px-2 py-1 rounded-full font-medium ${
-            isCompleted 
-              ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' 
-              : 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300'
-          }`}>
-            {isCompleted ? 'Responded' : 'Pending'}
-          </span>
+        
+        <div className="mb-3">
+          <p className="text-sm text-slate-600 dark:text-gray-300 line-clamp-2">
+            {checkin.transcript.substring(0, 120)}...
+          </p>
         </div>
       </div>
-      
-      <div className="mb-3">
-        <p className="text-sm text-slate-600 dark:text-gray-300 line-clamp-2">
-          {checkin.transcript.substring(0, 120)}...
-        </p>
-      </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -260,12 +351,45 @@ function CheckinAIApp() {
                 }
               </p>
             </div>
-            {pendingCheckinsCount > 0 && (
-              <div className="flex items-center gap-2 px-4 py-2 bg-orange-50 border border-orange-200 rounded-lg">
-                <Bell className="w-5 h-5 text-orange-600" />
-                <span className="text-orange-700 font-medium">{pendingCheckinsCount} pending</span>
-              </div>
-            )}
+            <div className="flex items-center gap-3">
+              {analysisQueue && analysisQueue.queued + analysisQueue.running > 0 && (
+                <div
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-50 border border-indigo-200 rounded-lg"
+                  title="Check-ins waiting for AI analysis in the background"
+                >
+                  <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
+                  <span className="text-indigo-700 font-medium">{analysisQueue.queued + analysisQueue.running} analyzing</span>
+                </div>
+              )}
+              {analysisQueue && analysisQueue.failed > 0 && (
+                <button
+                  onClick={handleRequeueFailedAnalyses}
+                  disabled={isRequeuing}
+                  className="flex items-center gap-2 px-4 py-2 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+                  title="Retry analysis for these check-ins"
+                >
+                  <Zap className="w-5 h-5 text-amber-600" />
+                  <span className="text-amber-700 font-medium">
+                    {isRequeuing ? 'Retrying...' : `${analysisQueue.failed} ${analysisQueue.failed === 1 ? 'analysis' : 'analyses'} failed`}
+                  </span>
+                </button>
+              )}
+              {overdueCount > 0 && (
+                <button
+                  onClick={() => setOverdueOnly(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <AlertCircle className="w-5 h-5 text-red-600" />
+                  <span className="text-red-700 font-medium">{overdueCount} overdue</span>
+                </button>
+              )}
+              {pendingCheckinsCount > 0 && (
+                <div className="flex items-center gap-2 px-4 py-2 bg-orange-50 border border-orange-200 rounded-lg">
+                  <Bell className="w-5 h-5 text-orange-600" />
+                  <span className="text-orange-700 font-medium">{pendingCheckinsCount} pending</span>
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
@@ -371,6 +495,48 @@ function CheckinAIApp() {
                   </span>
                 )}
               </div>
+              <div className="flex items-center gap-2 mt-4">
+                {assignableCoaches.length > 1 && (
+                  <select
+                    value={queueScope}
+                    onChange={(e) => setQueueScope(e.target.value as CheckinQueueScope)}
+                    className="text-sm px-2 py-1 border border-slate-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-200"
+                  >
+                    <option value="mine">My queue</option>
+                    <option value="all">Whole team</option>
+                  </select>
+                )}
+                <select
+                  value={pendingSort}
+                  onChange={(e) => setPendingSort(e.target.value as PendingCheckinSort)}
+                  className="text-sm px-2 py-1 border border-slate-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-200"
+                >
+                  <option value="date">Newest first</option>
+                  <option value="risk">Highest risk first</option>
+                  <option value="sentiment">Most negative first</option>
+                </select>
+                <select
+                  value={riskFilter ?? ''}
+                  onChange={(e) => setRiskFilter((e.target.value || null) as RiskLevel | null)}
+                  className="text-sm px-2 py-1 border border-slate-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-200"
+                >
+                  <option value="">Any risk</option>
+                  <option value="high">High risk</option>
+                  <option value="medium">Medium risk</option>
+                  <option value="low">Low risk</option>
+                </select>
+                <button
+                  onClick={() => setOverdueOnly(!overdueOnly)}
+                  className={`text-sm px-2 py-1 border rounded-md transition-colors ${
+                    overdueOnly
+                      ? 'bg-red-50 dark:bg-red-900/30 border-red-300 dark:border-red-700 text-red-700 dark:text-red-300'
+                      : 'border-slate-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-slate-700 dark:text-gray-200'
+                  }`}
+                  title={`Pending longer than ${slaHours}h`}
+                >
+                  Overdue only
+                </button>
+              </div>
             </div>
             
             <div className="p-6">
@@ -382,8 +548,14 @@ function CheckinAIApp() {
               ) : pendingCheckins.length === 0 ? (
                 <div className="text-center py-8">
                   <Clock className="w-12 h-12 mx-auto mb-4 text-slate-400 dark:text-gray-500" />
-                  <h3 className="text-lg font-medium text-slate-600 dark:text-gray-300 mb-2 transition-colors duration-300">No pending checkins</h3>
-                  <p className="text-slate-500 dark:text-gray-400 transition-colors duration-300">New checkins will appear here when received via webhook</p>
+                  <h3 className="text-lg font-medium text-slate-600 dark:text-gray-300 mb-2 transition-colors duration-300">
+                    {overdueOnly ? 'No overdue checkins' : 'No pending checkins'}
+                  </h3>
+                  <p className="text-slate-500 dark:text-gray-400 transition-colors duration-300">
+                    {overdueOnly
+                      ? `Everything has been waiting less than ${slaHours} hours`
+                      : 'New checkins will appear here when received via webhook'}
+                  </p>
                 </div>
               ) : (
                 <div className="space-y-4 max-h-96 overflow-y-auto">
@@ -437,6 +609,53 @@ function CheckinAIApp() {
               )}
             </div>
           </div>
+
+          {/* Missed Check-ins */}
+          {missedCheckins.length > 0 && (
+            <div className="lg:col-span-2 bg-white dark:bg-gray-900 rounded-xl shadow-lg border border-slate-200 dark:border-gray-700 transition-colors duration-300">
+              <div className="p-6 border-b border-slate-200 dark:border-gray-700 transition-colors duration-300">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center">
+                      <CalendarX className="w-5 h-5 text-red-600 dark:text-red-400" />
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-bold text-slate-800 dark:text-white transition-colors duration-300">Missed Check-ins</h2>
+                      <p className="text-sm text-slate-600 dark:text-gray-300 transition-colors duration-300">
+                        Scheduled check-ins that haven't arrived
+                      </p>
+                    </div>
+                  </div>
+                  <span className="bg-red-500 text-white text-sm px-3 py-1 rounded-full font-medium">
+                    {missedCheckins.length} missed
+                  </span>
+                </div>
+              </div>
+
+              <div className="p-6">
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {missedCheckins.map((client) => (
+                    <Link
+                      key={client.id}
+                      to={`/client/${client.id}`}
+                      className="flex items-center justify-between p-4 border border-slate-200 dark:border-gray-700 rounded-lg hover:bg-slate-50 dark:hover:bg-gray-800 transition-colors duration-200"
+                    >
+                      <div>
+                        <p className="font-medium text-slate-800 dark:text-white">{client.full_name}</p>
+                        <p className="text-sm text-slate-500 dark:text-gray-400">
+                          {describeCadence(client)} · due {new Date(client.next_checkin_due_at!).toLocaleDateString()}
+                          {client.checkin_reminder_sent_at && ' · reminder sent'}
+                        </p>
+                      </div>
+                      <span className={`text-xs px-2 py-1 rounded-full font-medium ${SLA_STATUS_STYLES.overdue}`}>
+                        {getDaysOverdue(client)}d overdue
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
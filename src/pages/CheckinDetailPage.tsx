@@ -1,10 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, ArrowLeft, User, Sparkles, Reply, CheckCircle, Archive, X, ChevronDown, ChevronRight, Clock, AlertTriangle, Lightbulb, Target, MessageCircle, Zap, TrendingUp } from 'lucide-react';
+import { Send, ArrowLeft, User, Sparkles, Reply, CheckCircle, Archive, X, ChevronDown, ChevronRight, Clock, AlertTriangle, Lightbulb, Target, MessageCircle, Zap, TrendingUp, Mail, Mic, RefreshCw, Square } from 'lucide-react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
 import { MarkdownRenderer } from '../components/MarkdownRenderer';
-import { chatService, checkinService, supabase, teamService, type ChatSession as DBChatSession, type Message as DBMessage, type Checkin } from '../lib/supabase';
+import { chatService, checkinService, checkinFormService, deliveryService, supabase, teamService, transcriptionService, analysisJobService, responseTemplatesService, type AnalysisJob, type ResponseTemplate, type CheckinMedia, type ResponseDelivery, type ChatSession as DBChatSession, type Message as DBMessage, type Checkin, type CheckinAnswer, type CheckinAnalysis } from '../lib/supabase';
 import UserMenu from '../components/UserMenu';
+import CheckinAnalysisPanels from '../components/CheckinAnalysisPanels';
 import CoachResponseModal from '../components/CoachResponseModal';
+import ResponseMediaPlayer from '../components/ResponseMediaPlayer';
+import { renderResponseTemplate, RESPONSE_TEMPLATE_CATEGORIES, type ResponseTemplateCategory, type ResponseTemplateVariables } from '../lib/responseTemplates';
 
 interface Message {
   id: string;
@@ -13,52 +16,15 @@ interface Message {
   timestamp: Date;
 }
 
-interface QuickResponseTemplate {
-  id: string;
-  title: string;
-  content: string;
-  category: 'encouragement' | 'guidance' | 'adjustment' | 'question';
-}
+const DELIVERY_STATUS_STYLES: Record<ResponseDelivery['status'], string> = {
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800'
+};
 
-
-const quickResponseTemplates: QuickResponseTemplate[] = [
-  {
-    id: '1',
-    title: 'Great Progress',
-    content: "Fantastic work on your check-in! I can see you're making real progress. Keep up the momentum!",
-    category: 'encouragement'
-  },
-  {
-    id: '2',
-    title: 'Plan Adjustment',
-    content: "Based on your feedback, let's make some adjustments to your plan. Here's what I'm thinking...",
-    category: 'adjustment'
-  },
-  {
-    id: '3',
-    title: 'Clarifying Questions',
-    content: "Thanks for the update! I have a few questions to better understand your situation:",
-    category: 'question'
-  },
-  {
-    id: '4',
-    title: 'Overcoming Challenges',
-    content: "I hear you're facing some challenges. This is completely normal. Let's work through this together.",
-    category: 'guidance'
-  },
-  {
-    id: '5',
-    title: 'Nutrition Focus',
-    content: "Let's focus on your nutrition this week. Here are some specific recommendations:",
-    category: 'guidance'
-  },
-  {
-    id: '6',
-    title: 'Motivation Boost',
-    content: "Remember why you started this journey. You've already come so far, and I believe in you!",
-    category: 'encouragement'
-  }
-];
+// Transcription that hasn't finished by now died or never started; offer a retry
+const TRANSCRIPTION_STALLED_MS = 15 * 60 * 1000;
 
 function CheckinDetailPage() {
   const { checkinId } = useParams<{ checkinId: string }>();
@@ -69,9 +35,20 @@ function CheckinDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [showCoachResponseModal, setShowCoachResponseModal] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [structuredAnalysis, setStructuredAnalysis] = useState<CheckinAnalysis | null>(null);
   const [isGeneratingAnalysis, setIsGeneratingAnalysis] = useState(false);
   const [showRawData, setShowRawData] = useState(false);
+  const [answers, setAnswers] = useState<CheckinAnswer[]>([]);
   const [showQuickTemplates, setShowQuickTemplates] = useState(false);
+  const [templates, setTemplates] = useState<ResponseTemplate[] | null>(null);
+  const [templateVariables, setTemplateVariables] = useState<ResponseTemplateVariables | null>(null);
+  const [templateCategory, setTemplateCategory] = useState<ResponseTemplateCategory | 'all'>('all');
+  const [responseDraft, setResponseDraft] = useState<string | undefined>(undefined);
+  const [deliveries, setDeliveries] = useState<ResponseDelivery[]>([]);
+  const [isResending, setIsResending] = useState(false);
+  const [media, setMedia] = useState<CheckinMedia[]>([]);
+  const [isRetryingTranscription, setIsRetryingTranscription] = useState(false);
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJob | null>(null);
   
   // Chat state
   const [userRole, setUserRole] = useState<string | null>(null);
@@ -79,11 +56,15 @@ function CheckinDetailPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [currentThreadId, setCurrentThreadId] = useState<string | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
+  // Leaving the page stops a reply that is still streaming
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
 
   useEffect(() => {
     if (checkinId) {
@@ -92,6 +73,40 @@ function CheckinDetailPage() {
     }
   }, [checkinId]);
 
+  const isTranscribing = checkin?.transcription_status === 'pending' || checkin?.transcription_status === 'transcribing';
+  const transcriptionStartedAt = checkin?.transcription_status === 'transcribing' && checkin.transcription_started_at
+    ? checkin.transcription_started_at
+    : checkin?.created_at;
+  const isTranscriptionStalled = isTranscribing && !!transcriptionStartedAt
+    && Date.now() - new Date(transcriptionStartedAt).getTime() > TRANSCRIPTION_STALLED_MS;
+  const isAnalysisQueued = analysisJob?.status === 'queued' || analysisJob?.status === 'running';
+
+  // Transcription and the analysis job run server-side; poll until both finish, then pick up the results
+  useEffect(() => {
+    if ((!isTranscribing && !isAnalysisQueued) || !checkinId) return;
+
+    const interval = setInterval(async () => {
+      const [updated, job] = await Promise.all([
+        checkinService.getCheckinById(checkinId),
+        analysisJobService.getLatestJob(checkinId)
+      ]);
+      setAnalysisJob(job);
+      if (!updated) return;
+
+      if (updated.transcription_status !== checkin?.transcription_status) {
+        setCheckin(updated);
+        setMedia(await transcriptionService.getCheckinMedia(updated.id));
+      }
+      if (updated.ai_analysis && updated.ai_analysis_generated_at !== checkin?.ai_analysis_generated_at) {
+        setCheckin(updated);
+        setAiAnalysis(updated.ai_analysis);
+        setStructuredAnalysis(updated.ai_analysis_structured ?? null);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [isTranscribing, isAnalysisQueued, checkinId, checkin?.transcription_status, checkin?.ai_analysis_generated_at]);
+
   const checkUserPermissions = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -127,12 +142,22 @@ function CheckinDetailPage() {
         // Set cached AI analysis if available
         if (checkinData.ai_analysis) {
           setAiAnalysis(checkinData.ai_analysis);
+          setStructuredAnalysis(checkinData.ai_analysis_structured ?? null);
         }
         
+        // The background worker analyses new check-ins (after transcription, for voice notes);
+        // only generate here when nothing is queued for it
+        const job = await analysisJobService.getLatestJob(checkinData.id);
+        setAnalysisJob(job);
+        const awaitingBackground = checkinData.transcription_status === 'pending'
+          || checkinData.transcription_status === 'transcribing'
+          || job?.status === 'queued'
+          || job?.status === 'running';
+
         // Generate AI analysis if not cached and status is pending
-        if (checkinData.status === 'pending_response' && !checkinData.ai_analysis) {
+        if (checkinData.status === 'pending_response' && !checkinData.ai_analysis && !awaitingBackground) {
           await generateAIAnalysis(checkinData);
-        } else if (checkinData.status === 'pending_response' && checkinData.ai_analysis) {
+        } else if (checkinData.status === 'pending_response' && checkinData.ai_analysis && !awaitingBackground) {
           // Check if cached analysis is older than 1 hour, regenerate if so
           const analysisAge = new Date().getTime() - new Date(checkinData.ai_analysis_generated_at || 0).getTime();
           const oneHour = 60 * 60 * 1000;
@@ -143,6 +168,16 @@ function CheckinDetailPage() {
           }
         }
         
+        // Load typed questionnaire answers, email delivery history and attached media
+        const [checkinAnswers, checkinDeliveries, checkinMedia] = await Promise.all([
+          checkinFormService.getCheckinAnswers(checkinData.id),
+          deliveryService.getDeliveries(checkinData.id),
+          checkinData.transcription_status ? transcriptionService.getCheckinMedia(checkinData.id) : Promise.resolve([])
+        ]);
+        setAnswers(checkinAnswers);
+        setDeliveries(checkinDeliveries);
+        setMedia(checkinMedia);
+
         // Load existing chat session if it exists
         await loadChatSession(checkinData);
       } else {
@@ -203,6 +238,7 @@ function CheckinDetailPage() {
   const generateAIAnalysis = async (checkinData: Checkin) => {
     setIsGeneratingAnalysis(true);
     setAiAnalysis(null);
+    setStructuredAnalysis(null);
     
     try {
       // Get current user session for authentication
@@ -242,9 +278,10 @@ function CheckinDetailPage() {
       const data = await response.json();
       const analysis = data.analysis;
       setAiAnalysis(analysis);
+      setStructuredAnalysis(data.structured ?? null);
       
       // Cache the analysis in the database
-      await checkinService.updateCheckinAIAnalysis(checkinData.id, analysis);
+      await checkinService.updateCheckinAIAnalysis(checkinData.id, analysis, data.structured ?? null);
     } catch (error) {
       console.error('Error generating AI analysis:', error);
       setAiAnalysis('Unable to generate analysis at this time. Please try again later.');
@@ -253,39 +290,6 @@ function CheckinDetailPage() {
     }
   };
 
-  const sendToSupabase = async (message: string) => {
-    try {
-      // Get current user session for authentication
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('User not authenticated');
-      }
-
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-
-      if (!supabaseUrl) {
-        throw new Error('Supabase URL missing. Please set up your Supabase project.');
-      }
-
-      const apiUrl = `${supabaseUrl}/functions/v1/openai-checkin-chat`;
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: message
-        }),
-      });
-    } catch (error) {
-      console.error('Error sending message to Supabase:', error);
-      throw error;
-    }
-  };
-
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -295,8 +299,9 @@ function CheckinDetailPage() {
   }, [messages]);
 
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || !currentSessionId) return;
+    if (!inputValue.trim() || !currentSessionId || !checkin || isStreaming) return;
 
+    const sessionId = currentSessionId;
     const userMessage: Message = {
       id: Date.now().toString(),
       content: inputValue.trim(),
@@ -307,43 +312,107 @@ function CheckinDetailPage() {
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
     setIsTyping(true);
+    setIsStreaming(true);
 
-    try {
-      // Save user message to database
-      await chatService.saveMessage(currentSessionId, userMessage.content, 'user');
-
-      // Send to AI and get response
-      await sendToSupabase(userMessage.content);
+    const aiMessageId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let reply = '';
+    let failed = false;
 
-      // For now, add a placeholder AI response
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: "I'm analyzing your message and will provide insights about this check-in shortly.",
-        sender: 'ai',
-        timestamp: new Date(),
-      };
+    try {
+      await chatService.addMessage(sessionId, userMessage.content, 'user');
 
-      setMessages(prev => [...prev, aiMessage]);
-      await chatService.saveMessage(currentSessionId, aiMessage.content, 'ai');
+      await chatService.streamCheckinReply(
+        { message: userMessage.content, threadId: currentThreadId, checkinId: checkin.id, sessionId },
+        {
+          signal: controller.signal,
+          onThread: (threadId) => {
+            // Save the thread as soon as it exists so follow-ups keep their context even if this reply is stopped
+            if (threadId === currentThreadId) return;
+            setCurrentThreadId(threadId);
+            chatService.updateChatSession(sessionId, { thread_id: threadId });
+          },
+          onDelta: (text) => {
+            reply += text;
+            const content = reply;
+            setIsTyping(false);
+            setMessages(prev => prev.some(message => message.id === aiMessageId)
+              ? prev.map(message => message.id === aiMessageId ? { ...message, content } : message)
+              : [...prev, { id: aiMessageId, content, sender: 'ai', timestamp: new Date() }]);
+          },
+        }
+      );
     } catch (error) {
-      console.error('Error sending message:', error);
+      if (!controller.signal.aborted) {
+        console.error('Error sending message:', error);
+        failed = true;
+      }
+    }
+
+    if (reply) {
+      // Keep a stopped or interrupted reply in the history rather than losing what was generated
+      const content = controller.signal.aborted
+        ? `${reply}\n\n(Response stopped)`
+        : failed ? `${reply}\n\n(Response interrupted)` : reply;
+      if (content !== reply) {
+        setMessages(prev => prev.map(message => message.id === aiMessageId ? { ...message, content } : message));
+      }
+      await chatService.addMessage(sessionId, content, 'ai');
+    } else if (failed) {
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         content: "I'm sorry, I encountered an error. Please try again.",
         sender: 'ai',
         timestamp: new Date(),
       };
       setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsTyping(false);
     }
+
+    chatAbortRef.current = null;
+    setIsTyping(false);
+    setIsStreaming(false);
+  };
+
+  const handleStopMessage = () => {
+    chatAbortRef.current?.abort();
   };
 
-  const handleQuickResponse = (template: QuickResponseTemplate) => {
-    setInputValue(template.content);
+  // The library and the variable values are only needed once the panel is opened
+  const handleToggleQuickTemplates = async () => {
+    const opening = !showQuickTemplates;
+    setShowQuickTemplates(opening);
+    if (opening && templates === null && checkin) {
+      const [library, variables] = await Promise.all([
+        responseTemplatesService.getTemplates(),
+        responseTemplatesService.getTemplateVariables(checkin)
+      ]);
+      setTemplates(library);
+      setTemplateVariables(variables);
+    }
+  };
+
+  const handleAddStarterTemplates = async () => {
+    setTemplates(await responseTemplatesService.addStarterTemplates());
+  };
+
+  // Coaches who can respond get the filled-in template as a draft response; others can ask the AI about it
+  const handleQuickResponse = (template: ResponseTemplate) => {
+    const content = templateVariables ? renderResponseTemplate(template.content, templateVariables) : template.content;
+    responseTemplatesService.recordUse(template.id);
+    setTemplates(prev => prev?.map(other => other.id === template.id ? { ...other, usage_count: other.usage_count + 1 } : other) ?? prev);
     setShowQuickTemplates(false);
+
+    if (canRespond) {
+      setResponseDraft(content);
+      setShowCoachResponseModal(true);
+    } else {
+      setInputValue(content);
+    }
   };
 
+  const visibleTemplates = (templates || []).filter(template => templateCategory === 'all' || template.category === templateCategory);
+
   const handleMarkAsResponded = async () => {
     if (!checkin) return;
     
@@ -355,6 +424,38 @@ function CheckinDetailPage() {
     }
   };
 
+  const handleResendResponse = async () => {
+    if (!checkin) return;
+
+    setIsResending(true);
+    const result = await deliveryService.sendResponse(checkin.id, true);
+    if (result.error) {
+      alert(result.delivery?.error || result.error);
+    }
+    setDeliveries(await deliveryService.getDeliveries(checkin.id));
+    setIsResending(false);
+  };
+
+  const handleRetryTranscription = async () => {
+    if (!checkin) return;
+
+    setIsRetryingTranscription(true);
+    setCheckin({ ...checkin, transcription_status: 'transcribing', transcription_error: null, transcription_started_at: new Date().toISOString() });
+    const result = await transcriptionService.retry(checkin.id);
+    if (result.error) {
+      alert(result.error);
+    }
+    await loadCheckin();
+    setIsRetryingTranscription(false);
+  };
+
+  const openMedia = async (item: CheckinMedia) => {
+    const url = item.storage_path ? await transcriptionService.getPlaybackUrl(item.storage_path) : item.source_url;
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    }
+  };
+
   const handleArchive = async () => {
     if (!checkin) return;
     
@@ -481,16 +582,107 @@ function CheckinDetailPage() {
           <div className="lg:col-span-2 space-y-6">
             {/* Transcript */}
             <div className="bg-white rounded-lg shadow-sm border">
-              <div className="px-6 py-4 border-b">
+              <div className="px-6 py-4 border-b flex items-center justify-between">
                 <h2 className="text-lg font-medium text-gray-900">Check-in Transcript</h2>
+                {isTranscribing && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                    <div className="animate-spin rounded-full h-3 w-3 border-b border-indigo-600 mr-1"></div>
+                    Transcribing
+                  </span>
+                )}
               </div>
-              <div className="px-6 py-4">
-                <div className="prose max-w-none">
-                  <MarkdownRenderer content={checkin.transcript} />
-                </div>
+              <div className="px-6 py-4 space-y-4">
+                {isTranscribing && !isTranscriptionStalled && (
+                  <div className="p-3 rounded-lg bg-indigo-50 border border-indigo-200 text-sm text-indigo-800">
+                    Transcribing {media.length === 1 ? 'the attached recording' : `${media.length || 'the'} attached recordings`}.
+                    The transcript and AI analysis will appear here when it's done.
+                  </div>
+                )}
+                {isTranscriptionStalled && (
+                  <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-start justify-between gap-4">
+                    <span>Transcription is taking much longer than expected and may have stopped.</span>
+                    {canRespond && (
+                      <button
+                        onClick={handleRetryTranscription}
+                        disabled={isRetryingTranscription}
+                        className="inline-flex items-center flex-shrink-0 text-xs font-medium text-amber-800 hover:text-amber-900 disabled:opacity-50"
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+                {checkin.transcription_status === 'failed' && (
+                  <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 flex items-start justify-between gap-4">
+                    <span>Transcription failed: {checkin.transcription_error || 'unknown error'}</span>
+                    {canRespond && (
+                      <button
+                        onClick={handleRetryTranscription}
+                        disabled={isRetryingTranscription}
+                        className="inline-flex items-center flex-shrink-0 text-xs font-medium text-red-700 hover:text-red-800 disabled:opacity-50"
+                      >
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+                {checkin.transcript && (
+                  <div className="prose max-w-none">
+                    <MarkdownRenderer content={checkin.transcript} />
+                  </div>
+                )}
+                {media.length > 0 && (
+                  <div className="pt-4 border-t space-y-2">
+                    {media.map(item => (
+                      <div key={item.id} className="flex items-center justify-between text-sm">
+                        <button
+                          onClick={() => openMedia(item)}
+                          className="inline-flex items-center text-indigo-700 hover:text-indigo-800 truncate"
+                        >
+                          <Mic className="h-4 w-4 mr-1 flex-shrink-0" />
+                          <span className="truncate">{item.file_name || item.source_field || 'Attachment'}</span>
+                        </button>
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                          item.status === 'completed'
+                            ? 'bg-green-100 text-green-800'
+                            : item.status === 'failed'
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {item.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Questionnaire Answers */}
+            {answers.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border">
+                <div className="px-6 py-4 border-b">
+                  <h2 className="text-lg font-medium text-gray-900">Answers</h2>
+                </div>
+                <dl className="px-6 py-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {answers.map(answer => (
+                    <div key={answer.id}>
+                      <dt className="text-sm text-gray-500">{answer.question_label || answer.question_id}</dt>
+                      <dd className="text-base font-medium text-gray-900">
+                        {answer.value_boolean !== null
+                          ? (answer.value_boolean ? 'Yes' : 'No')
+                          : answer.value_number !== null
+                            ? `${answer.value_number}${answer.unit ? ` ${answer.unit}` : ''}`
+                            : answer.value_text}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+
             {/* AI Analysis */}
             <div className="bg-white rounded-lg shadow-sm border">
               <div className="px-6 py-4 border-b">
@@ -502,7 +694,7 @@ function CheckinDetailPage() {
                   {checkin.status === 'pending_response' && (
                     <button
                       onClick={() => generateAIAnalysis(checkin)}
-                      disabled={isGeneratingAnalysis}
+                      disabled={isGeneratingAnalysis || isTranscribing || isAnalysisQueued}
                       className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-indigo-700 bg-indigo-100 hover:bg-indigo-200 disabled:opacity-50"
                     >
                       {isGeneratingAnalysis ? (
@@ -526,16 +718,81 @@ function CheckinDetailPage() {
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mr-3"></div>
                     <span className="text-gray-600">Generating AI analysis...</span>
                   </div>
+                ) : structuredAnalysis ? (
+                  <CheckinAnalysisPanels analysis={structuredAnalysis} />
                 ) : aiAnalysis ? (
                   <div className="prose max-w-none">
                     <MarkdownRenderer content={aiAnalysis} />
                   </div>
+                ) : isTranscribing ? (
+                  <p className="text-gray-500 italic">The analysis runs once transcription finishes.</p>
+                ) : isAnalysisQueued && analysisJob ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mr-3"></div>
+                    <span className="text-gray-600">
+                      {analysisJob.status === 'running' ? 'Analyzing in the background...' : 'Queued for analysis...'}
+                      {analysisJob.attempts > 0 && ` (attempt ${analysisJob.attempts + (analysisJob.status === 'queued' ? 1 : 0)} of ${analysisJob.max_attempts})`}
+                    </span>
+                  </div>
+                ) : analysisJob?.status === 'failed' ? (
+                  <p className="text-sm text-red-600">
+                    Background analysis failed after {analysisJob.attempts} attempts: {analysisJob.last_error || 'unknown error'}
+                  </p>
                 ) : (
                   <p className="text-gray-500 italic">No AI analysis available yet.</p>
                 )}
               </div>
             </div>
 
+            {/* Coach Response and email delivery */}
+            {(checkin.coach_response || checkin.response_media_path) && (
+              <div className="bg-white rounded-lg shadow-sm border">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                  <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                    <Reply className="h-5 w-5 mr-2 text-indigo-600" />
+                    Your Response
+                  </h2>
+                  {canRespond && (
+                    <button
+                      onClick={handleResendResponse}
+                      disabled={isResending}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-indigo-700 bg-indigo-100 hover:bg-indigo-200 disabled:opacity-50"
+                    >
+                      <Mail className="h-3 w-3 mr-1" />
+                      {isResending ? 'Sending...' : deliveries.some(d => d.status === 'sent') ? 'Resend Email' : 'Email to Client'}
+                    </button>
+                  )}
+                </div>
+                <div className="px-6 py-4 space-y-4">
+                  {checkin.response_media_path && (
+                    <ResponseMediaPlayer
+                      path={checkin.response_media_path}
+                      mimeType={checkin.response_media_type}
+                      allowShare={canRespond}
+                    />
+                  )}
+                  {checkin.coach_response && (
+                    <p className="text-gray-700 whitespace-pre-wrap">{checkin.coach_response}</p>
+                  )}
+                  {deliveries.length > 0 && (
+                    <div className="pt-4 border-t space-y-2">
+                      {deliveries.map(delivery => (
+                        <div key={delivery.id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600">
+                            {delivery.recipient || 'No email address'} • {new Date(delivery.created_at).toLocaleString()}
+                            {delivery.error && <span className="text-red-600"> • {delivery.error}</span>}
+                          </span>
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                            {delivery.status}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Raw Data Toggle */}
             <div className="bg-white rounded-lg shadow-sm border">
               <button
@@ -618,7 +875,7 @@ function CheckinDetailPage() {
                           : 'bg-gray-100 text-gray-900'
                       }`}
                     >
-                      <p className="text-sm">{message.content}</p>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                       <p className={`text-xs mt-1 ${
                         message.sender === 'user' ? 'text-indigo-200' : 'text-gray-500'
                       }`}>
@@ -654,40 +911,90 @@ function CheckinDetailPage() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                     />
                     <button
-                      onClick={() => setShowQuickTemplates(!showQuickTemplates)}
+                      onClick={handleToggleQuickTemplates}
+                      title="Response templates"
                       className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
                     >
                       <Sparkles className="h-4 w-4" />
                     </button>
                   </div>
-                  <button
-                    onClick={handleSendMessage}
-                    disabled={!inputValue.trim()}
-                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <Send className="h-4 w-4" />
-                  </button>
+                  {isStreaming ? (
+                    <button
+                      onClick={handleStopMessage}
+                      title="Stop generating"
+                      className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700"
+                    >
+                      <Square className="h-4 w-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSendMessage}
+                      disabled={!inputValue.trim()}
+                      className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Send className="h-4 w-4" />
+                    </button>
+                  )}
                 </div>
                 
                 {/* Quick Response Templates */}
                 {showQuickTemplates && (
                   <div className="mt-3 p-3 bg-gray-50 rounded-md">
-                    <h4 className="text-sm font-medium text-gray-700 mb-2">Quick Responses</h4>
-                    <div className="grid grid-cols-1 gap-2">
-                      {quickResponseTemplates.map((template) => (
-                        <button
-                          key={template.id}
-                          onClick={() => handleQuickResponse(template)}
-                          className={`text-left p-2 rounded border text-xs hover:bg-white transition-colors ${getCategoryColor(template.category)}`}
-                        >
-                          <div className="flex items-center mb-1">
-                            {getCategoryIcon(template.category)}
-                            <span className="ml-1 font-medium">{template.title}</span>
-                          </div>
-                          <p className="text-xs opacity-75 line-clamp-2">{template.content}</p>
-                        </button>
-                      ))}
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-sm font-medium text-gray-700">Response Templates</h4>
+                      <Link to="/account-settings" className="text-xs text-indigo-600 hover:text-indigo-700">
+                        Manage
+                      </Link>
                     </div>
+                    {templates === null ? (
+                      <p className="text-xs text-gray-500">Loading templates...</p>
+                    ) : templates.length === 0 ? (
+                      <div className="text-xs text-gray-500">
+                        <p className="mb-1">No templates yet.</p>
+                        <button onClick={handleAddStarterTemplates} className="text-indigo-600 hover:text-indigo-700 font-medium">
+                          Add starter templates
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {(['all', ...RESPONSE_TEMPLATE_CATEGORIES] as const).map(category => (
+                            <button
+                              key={category}
+                              onClick={() => setTemplateCategory(category)}
+                              className={`px-2 py-0.5 text-xs rounded-full capitalize ${
+                                templateCategory === category ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+                              }`}
+                            >
+                              {category}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="grid grid-cols-1 gap-2 max-h-64 overflow-y-auto">
+                          {visibleTemplates.map((template) => (
+                            <button
+                              key={template.id}
+                              onClick={() => handleQuickResponse(template)}
+                              className={`text-left p-2 rounded border text-xs hover:bg-white transition-colors ${getCategoryColor(template.category)}`}
+                            >
+                              <div className="flex items-center mb-1">
+                                {getCategoryIcon(template.category)}
+                                <span className="ml-1 font-medium">{template.title}</span>
+                                {template.usage_count > 0 && (
+                                  <span className="ml-auto opacity-60">{template.usage_count}×</span>
+                                )}
+                              </div>
+                              <p className="text-xs opacity-75 line-clamp-2">
+                                {templateVariables ? renderResponseTemplate(template.content, templateVariables) : template.content}
+                              </p>
+                            </button>
+                          ))}
+                          {visibleTemplates.length === 0 && (
+                            <p className="text-xs text-gray-500">No templates in this category.</p>
+                          )}
+                        </div>
+                      </>
+                    )}
                     <button
                       onClick={() => setShowQuickTemplates(false)}
                       className="mt-2 text-xs text-gray-500 hover:text-gray-700"
@@ -706,11 +1013,17 @@ function CheckinDetailPage() {
       {/* Coach Response Modal */}
       {showCoachResponseModal && (
         <CoachResponseModal
+          isOpen={showCoachResponseModal}
           checkin={checkin}
-          onClose={() => setShowCoachResponseModal(false)}
-          onSent={() => {
+          initialResponse={responseDraft}
+          onClose={() => {
+            setShowCoachResponseModal(false);
+            setResponseDraft(undefined);
+          }}
+          onResponseSubmitted={() => {
             setShowCoachResponseModal(false);
-            handleMarkAsResponded();
+            setResponseDraft(undefined);
+            loadCheckin();
           }}
         />
       )}
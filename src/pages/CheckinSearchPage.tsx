@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, Sparkles, Calendar, User, AlertCircle } from 'lucide-react';
+import { checkinService, logService, type SemanticSearchResult } from '../lib/supabase';
+import Navigation from '../components/Navigation';
+
+const EXAMPLE_QUERIES = [
+  'clients struggling with sleep after travel',
+  'lost motivation after a missed week',
+  'knee or back pain during training',
+];
+
+function CheckinSearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+
+  const [queryInput, setQueryInput] = useState(query);
+  const [results, setResults] = useState<SemanticSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    setQueryInput(query);
+    if (query) {
+      runSearch(query);
+    } else {
+      setResults([]);
+      setError(null);
+    }
+  }, [query]);
+
+  const runSearch = async (text: string) => {
+    const requestId = ++latestRequest.current;
+    setIsSearching(true);
+    setError(null);
+
+    const matches = await checkinService.semanticSearch(text);
+
+    // Ignore responses for queries the user has already replaced
+    if (requestId !== latestRequest.current) return;
+
+    if (matches === null) {
+      setError('Search failed. Please try again.');
+      setResults([]);
+    } else {
+      setResults(matches);
+      logService.logFeatureUsage('semantic_search', { result_count: matches.length });
+    }
+    setIsSearching(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = queryInput.trim();
+    if (!trimmed) return;
+
+    if (trimmed === query) {
+      runSearch(trimmed);
+    } else {
+      setSearchParams({ q: trimmed });
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <Sparkles className="w-8 h-8 text-blue-600" />
+            Search Check-ins
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Describe what you're looking for and find matching check-ins across all your clients
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              value={queryInput}
+              onChange={(e) => setQueryInput(e.target.value)}
+              placeholder="e.g. clients struggling with sleep after travel"
+              maxLength={500}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!queryInput.trim() || isSearching}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSearching ? 'Searching...' : 'Search'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-red-700">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        {!query && (
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+            <p className="text-sm font-medium text-gray-700 mb-3">Try searching for</p>
+            <div className="flex flex-wrap gap-2">
+              {EXAMPLE_QUERIES.map((example) => (
+                <button
+                  key={example}
+                  onClick={() => setSearchParams({ q: example })}
+                  className="px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-full hover:bg-blue-100 transition-colors"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {query && isSearching && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Searching check-ins...</p>
+          </div>
+        )}
+
+        {query && !isSearching && !error && results.length === 0 && (
+          <div className="text-center py-12">
+            <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No matching check-ins</h3>
+            <p className="text-gray-600">Try describing the situation in different words.</p>
+          </div>
+        )}
+
+        {query && !isSearching && results.length > 0 && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              {results.length} check-in{results.length === 1 ? '' : 's'} ranked by relevance
+            </p>
+            {results.map((result) => (
+              <Link
+                key={result.id}
+                to={`/checkin/${result.id}`}
+                className="block bg-white rounded-xl p-5 shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+              >
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div className="flex items-center gap-4 text-sm text-gray-600">
+                    <span className="flex items-center gap-1 font-medium text-gray-900">
+                      <User className="w-4 h-4" />
+                      {result.client_name}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      {formatDate(result.date)}
+                    </span>
+                    {result.status === 'pending_response' && (
+                      <span className="px-2 py-0.5 text-xs bg-orange-100 text-orange-700 rounded-full">
+                        Pending
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs font-medium text-blue-700 bg-blue-50 px-2 py-1 rounded-full whitespace-nowrap">
+                    {Math.round(result.similarity * 100)}% match
+                  </span>
+                </div>
+                <p className="text-gray-700 text-sm leading-relaxed">
+                  {result.snippet || 'No transcript'}
+                  {result.snippet.length >= 280 && '…'}
+                </p>
+                {result.tags?.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-3">
+                    {result.tags.map((tag) => (
+                      <span key={tag} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-600 rounded-full">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CheckinSearchPage;
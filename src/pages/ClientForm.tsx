@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, Save, User, Mail, Phone, MapPin, Target, FileText, Calendar } from 'lucide-react';
+import { ArrowLeft, Save, User, Mail, Phone, MapPin, Target, FileText, Calendar, CalendarClock } from 'lucide-react';
 import { clientService, type Client } from '../lib/supabase';
+import { WEEKDAYS } from '../lib/checkinCadence';
+
+type CadenceMode = 'none' | 'interval' | 'weekday';
 
 function ClientForm() {
   const { clientId } = useParams<{ clientId?: string }>();
@@ -24,6 +27,11 @@ function ClientForm() {
     status: 'active' as const,
     engagement_level: 'medium' as const,
     tags: [] as string[],
+    cadence_mode: 'none' as CadenceMode,
+    cadence_days: '7',
+    cadence_weeks: '1',
+    cadence_weekday: '1',
+    checkin_reminders_enabled: false,
   });
 
   const [tagInput, setTagInput] = useState('');
@@ -54,6 +62,13 @@ function ClientForm() {
           status: clientData.status,
           engagement_level: clientData.engagement_level,
           tags: clientData.tags || [],
+          cadence_mode: !clientData.checkin_cadence_days
+            ? 'none'
+            : clientData.checkin_cadence_weekday != null ? 'weekday' : 'interval',
+          cadence_days: clientData.checkin_cadence_days?.toString() || '7',
+          cadence_weeks: clientData.checkin_cadence_days ? Math.max(1, Math.round(clientData.checkin_cadence_days / 7)).toString() : '1',
+          cadence_weekday: clientData.checkin_cadence_weekday?.toString() ?? '1',
+          checkin_reminders_enabled: clientData.checkin_reminders_enabled ?? false,
         });
       }
     } catch (error) {
@@ -70,6 +85,14 @@ function ClientForm() {
       return;
     }
 
+    const cadenceDays = formData.cadence_mode === 'interval'
+      ? parseInt(formData.cadence_days, 10)
+      : formData.cadence_mode === 'weekday' ? parseInt(formData.cadence_weeks, 10) * 7 : null;
+    if (cadenceDays !== null && (isNaN(cadenceDays) || cadenceDays < 1 || cadenceDays > 90)) {
+      alert('Check-in schedule must be between 1 and 90 days');
+      return;
+    }
+
     setIsSaving(true);
     try {
       const clientData = {
@@ -86,6 +109,9 @@ function ClientForm() {
         tags: formData.tags,
         custom_fields: {},
         onboarded_at: null,
+        checkin_cadence_days: cadenceDays,
+        checkin_cadence_weekday: formData.cadence_mode === 'weekday' ? parseInt(formData.cadence_weekday, 10) : null,
+        checkin_reminders_enabled: cadenceDays !== null && formData.checkin_reminders_enabled,
       };
 
       let result;
@@ -308,6 +334,103 @@ function ClientForm() {
             </div>
           </div>
 
+          {/* Check-in Schedule */}
+          <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+            <div className="flex items-center gap-2 mb-2">
+              <CalendarClock className="w-5 h-5 text-slate-400" />
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Check-in Schedule</h2>
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+              Check-ins that don't arrive within 12 hours of the due date are flagged as missed and you're notified.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="cadence_mode" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Expected Check-ins
+                </label>
+                <select
+                  id="cadence_mode"
+                  value={formData.cadence_mode}
+                  onChange={(e) => setFormData(prev => ({ ...prev, cadence_mode: e.target.value as CadenceMode }))}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="none">No schedule</option>
+                  <option value="interval">Every few days</option>
+                  <option value="weekday">On a day of the week</option>
+                </select>
+              </div>
+
+              {formData.cadence_mode === 'interval' && (
+                <div>
+                  <label htmlFor="cadence_days" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Every (days)
+                  </label>
+                  <input
+                    type="number"
+                    id="cadence_days"
+                    min="1"
+                    max="90"
+                    value={formData.cadence_days}
+                    onChange={(e) => setFormData(prev => ({ ...prev, cadence_days: e.target.value }))}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+
+              {formData.cadence_mode === 'weekday' && (
+                <>
+                  <div>
+                    <label htmlFor="cadence_weekday" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Day
+                    </label>
+                    <select
+                      id="cadence_weekday"
+                      value={formData.cadence_weekday}
+                      onChange={(e) => setFormData(prev => ({ ...prev, cadence_weekday: e.target.value }))}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>{day}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="cadence_weeks" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Repeat
+                    </label>
+                    <select
+                      id="cadence_weeks"
+                      value={formData.cadence_weeks}
+                      onChange={(e) => setFormData(prev => ({ ...prev, cadence_weeks: e.target.value }))}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="1">Every week</option>
+                      <option value="2">Every 2 weeks</option>
+                      <option value="3">Every 3 weeks</option>
+                      <option value="4">Every 4 weeks</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {formData.cadence_mode !== 'none' && (
+              <label className="flex items-center gap-2 mt-6 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={formData.checkin_reminders_enabled}
+                  onChange={(e) => setFormData(prev => ({ ...prev, checkin_reminders_enabled: e.target.checked }))}
+                  className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                />
+                <span>
+                  Email the client a reminder when a check-in is missed
+                  {!formData.email.trim() && <span className="text-slate-500 dark:text-slate-400"> (add an email address above)</span>}
+                </span>
+              </label>
+            )}
+          </div>
+
           {/* Goals & Notes */}
           <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
             <div className="flex items-center gap-2 mb-6">
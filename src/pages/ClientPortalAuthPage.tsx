@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { KeyRound, Loader } from 'lucide-react';
+import { clientPortalService } from '../lib/supabase';
+
+// Landing page for the magic link emailed to clients; exchanges it for a portal session
+const ClientPortalAuthPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  // Links are single use, so StrictMode's double effect must not exchange it twice
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    if (exchanged.current) return;
+    exchanged.current = true;
+
+    if (!token) {
+      setError('This sign-in link is incomplete. Request a new one.');
+      return;
+    }
+
+    clientPortalService.signIn(token).then(result => {
+      if ('error' in result) {
+        setError(result.error);
+      } else {
+        navigate('/portal', { replace: true });
+      }
+    });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+        <div className="p-4 bg-blue-50 rounded-full w-16 h-16 mx-auto mb-6 flex items-center justify-center">
+          <KeyRound className="w-8 h-8 text-blue-600" />
+        </div>
+
+        {error ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Link unavailable</h1>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <Link to="/portal" className="text-blue-600 hover:text-blue-700 font-medium">
+              Request a new link
+            </Link>
+          </>
+        ) : (
+          <div className="flex items-center justify-center text-gray-600">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Signing you in...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientPortalAuthPage;
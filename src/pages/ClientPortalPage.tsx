@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardCheck, Mail, Loader, AlertCircle, CheckCircle, LogOut, Clock, MessageSquare, Target, CalendarClock } from 'lucide-react';
+import { clientPortalService, type PortalCheckin, type PortalOverview } from '../lib/supabase';
+import { buildClientTrends } from '../lib/clientTrends';
+import { describeCadence } from '../lib/checkinCadence';
+import PortalCheckinForm from '../components/PortalCheckinForm';
+import TrendCard from '../components/TrendCard';
+
+type PortalTab = 'checkin' | 'history' | 'progress';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+// Sign-in for clients: they get a magic link by email instead of a password
+const PortalSignIn: React.FC<{ notice: string | null }> = ({ notice }) => {
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+
+    const result = await clientPortalService.requestLink(email.trim());
+    if ('error' in result) {
+      setError(result.error);
+    } else {
+      setSent(true);
+    }
+    setIsSending(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 max-w-md w-full">
+        <div className="p-4 bg-blue-50 rounded-full w-16 h-16 mx-auto mb-6 flex items-center justify-center">
+          <ClipboardCheck className="w-8 h-8 text-blue-600" />
+        </div>
+
+        {sent ? (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Check your email</h1>
+            <p className="text-gray-600">
+              If <strong>{email}</strong> belongs to an active client, a sign-in link is on its way. It works once
+              and expires in 30 minutes.
+            </p>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2 text-center">Client check-in portal</h1>
+            <p className="text-gray-600 mb-6 text-center">
+              Enter the email address your coach has on file and we'll send you a sign-in link.
+            </p>
+
+            {(error || notice) && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-2 text-sm text-amber-800">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error || notice}</span>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="relative">
+                <Mail className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSending}
+                className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSending && <Loader className="w-4 h-4 animate-spin" />}
+                <span>{isSending ? 'Sending...' : 'Email me a sign-in link'}</span>
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PortalCheckinCard: React.FC<{ checkin: PortalCheckin; brandColor: string }> = ({ checkin, brandColor }) => {
+  const [expanded, setExpanded] = useState(false);
+  const responded = checkin.status === 'responded';
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50 transition-colors"
+      >
+        <span className="font-medium text-gray-900">{formatDate(checkin.date)}</span>
+        {responded ? (
+          <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-green-100 text-green-700 font-medium">
+            <CheckCircle className="w-3 h-3" />
+            Coach responded
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 font-medium">
+            <Clock className="w-3 h-3" />
+            Waiting for your coach
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          {checkin.transcript && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Your check-in</p>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{checkin.transcript}</p>
+            </div>
+          )}
+
+          {responded && (
+            <div className="border-l-4 pl-4" style={{ borderColor: brandColor }}>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Coach's response</p>
+              {checkin.response_media_url && (
+                checkin.response_type === 'audio'
+                  ? <audio controls src={checkin.response_media_url} className="w-full mb-2" />
+                  : <video controls src={checkin.response_media_url} className="w-full rounded-lg mb-2" />
+              )}
+              {checkin.coach_response && (
+                <p className="text-sm text-gray-800 whitespace-pre-wrap">{checkin.coach_response}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ClientPortalPage: React.FC = () => {
+  const [hasSession, setHasSession] = useState(clientPortalService.hasSession());
+  const [overview, setOverview] = useState<PortalOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<PortalTab>('checkin');
+  const [justSubmitted, setJustSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (hasSession) {
+      loadOverview();
+    }
+  }, [hasSession]);
+
+  const loadOverview = async () => {
+    setIsLoading(true);
+    const result = await clientPortalService.getOverview();
+    if ('error' in result) {
+      if (result.sessionExpired) {
+        handleSessionExpired();
+      } else {
+        setError(result.error);
+      }
+    } else {
+      setOverview(result);
+      setError(null);
+    }
+    setIsLoading(false);
+  };
+
+  const handleSessionExpired = () => {
+    setNotice('Your session has expired. Request a new sign-in link.');
+    setOverview(null);
+    setHasSession(false);
+  };
+
+  const handleSignOut = async () => {
+    await clientPortalService.signOut();
+    setOverview(null);
+    setNotice(null);
+    setHasSession(false);
+  };
+
+  const handleSubmitted = async () => {
+    setJustSubmitted(true);
+    setActiveTab('history');
+    await loadOverview();
+  };
+
+  const metrics = useMemo(
+    () => (overview ? buildClientTrends([], overview.answers, 26).metrics : []),
+    [overview]
+  );
+
+  if (!hasSession) {
+    return <PortalSignIn notice={notice} />;
+  }
+
+  if (isLoading && !overview) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-600">
+        <Loader className="w-5 h-5 animate-spin mr-2" />
+        Loading your portal...
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-8 h-8 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-700 mb-6">{error || 'Could not load your portal.'}</p>
+          <button onClick={loadOverview} className="text-blue-600 hover:text-blue-700 font-medium">
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { client, coach } = overview;
+  const cadence = describeCadence(client);
+  const tabs: { id: PortalTab; label: string }[] = [
+    { id: 'checkin', label: 'New check-in' },
+    { id: 'history', label: `History (${overview.checkins.length})` },
+    { id: 'progress', label: 'Progress' }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header style={{ backgroundColor: coach.brand_color }}>
+        <div className="max-w-3xl mx-auto px-4 py-4 flex items-center justify-between">
+          {coach.logo_url ? (
+            <img src={coach.logo_url} alt={coach.name} className="max-h-10" />
+          ) : (
+            <span className="text-lg font-bold text-white">{coach.name}</span>
+          )}
+          <button
+            onClick={handleSignOut}
+            className="flex items-center gap-1 text-sm text-white/90 hover:text-white"
+          >
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Hi {client.full_name.split(' ')[0]}</h1>
+          {cadence && (
+            <p className="flex items-center gap-1 text-sm text-gray-600 mt-1">
+              <CalendarClock className="w-4 h-4" />
+              {cadence}
+              {client.next_checkin_due_at && ` · next check-in due ${formatDate(client.next_checkin_due_at)}`}
+            </p>
+          )}
+        </div>
+
+        {justSubmitted && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            <span>Check-in sent. {coach.name} will respond here soon.</span>
+          </div>
+        )}
+
+        <div className="flex border-b border-gray-200">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab.id ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {activeTab === 'checkin' && (
+            <PortalCheckinForm
+              form={overview.form}
+              brandColor={coach.brand_color}
+              onSubmitted={handleSubmitted}
+              onSessionExpired={handleSessionExpired}
+            />
+          )}
+
+          {activeTab === 'history' && (
+            overview.checkins.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <MessageSquare className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+                Your check-ins and your coach's responses will appear here.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {overview.checkins.map(checkin => (
+                  <PortalCheckinCard key={checkin.id} checkin={checkin} brandColor={coach.brand_color} />
+                ))}
+              </div>
+            )
+          )}
+
+          {activeTab === 'progress' && (
+            <div className="space-y-6">
+              <div>
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-2">
+                  <Target className="w-5 h-5 text-gray-400" />
+                  Your goals
+                </h2>
+                <p className="text-gray-700 whitespace-pre-wrap">
+                  {client.goals || 'Your coach hasn\'t written down your goals yet.'}
+                </p>
+              </div>
+
+              {metrics.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {metrics.map(series => (
+                    <TrendCard key={series.key} series={series} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Numbers you report in your check-ins (like weight or energy) will be charted here week by week.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ClientPortalPage;
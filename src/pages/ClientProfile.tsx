@@ -1,16 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Edit, MessageSquare, Calendar, TrendingUp, TrendingDown, Clock, Mail, Phone, MapPin, Target, FileText, Trash2, Archive, Reply, CheckCircle, Minus } from 'lucide-react';
-import { clientService, checkinService, supabase, type Client, type Checkin } from '../lib/supabase';
+import { ArrowLeft, Edit, MessageSquare, Calendar, TrendingUp, TrendingDown, Clock, Mail, Phone, MapPin, Target, FileText, Trash2, Archive, Reply, CheckCircle, Minus, PlayCircle } from 'lucide-react';
+import { clientService, checkinService, teamService, supabase, type Client, type Checkin, type ClientAnalytics } from '../lib/supabase';
 import Navigation from '../components/Navigation';
+import TrendCard from '../components/TrendCard';
+import ClientRiskCard from '../components/ClientRiskCard';
+import ClientPortalCard from '../components/ClientPortalCard';
+import ResponseMediaPlayer from '../components/ResponseMediaPlayer';
+import { TREND_RANGES, type ClientTrends, type TrendRange } from '../lib/clientTrends';
+import { describeCadence, getDaysOverdue } from '../lib/checkinCadence';
 
 function ClientProfile() {
   const { clientId } = useParams<{ clientId: string }>();
   const [client, setClient] = useState<Client | null>(null);
   const [checkins, setCheckins] = useState<Checkin[]>([]);
-  const [analytics, setAnalytics] = useState<any>(null);
+  const [analytics, setAnalytics] = useState<ClientAnalytics | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview' | 'checkins' | 'analytics'>('overview');
+  const [trendRange, setTrendRange] = useState<TrendRange>(12);
+  const [trends, setTrends] = useState<ClientTrends | null>(null);
+  const [isLoadingTrends, setIsLoadingTrends] = useState(false);
+  const [assignableCoaches, setAssignableCoaches] = useState<{ id: string; name: string }[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
+  // Recordings are only signed and loaded once the coach opens them
+  const [openMediaCheckinId, setOpenMediaCheckinId] = useState<string | null>(null);
 
   useEffect(() => {
     if (clientId) {
@@ -41,6 +54,40 @@ function ClientProfile() {
     }
   }, [clientId]);
 
+  useEffect(() => {
+    teamService.getAssignableCoaches().then(setAssignableCoaches);
+  }, []);
+
+  useEffect(() => {
+    if (clientId && activeTab === 'analytics') {
+      loadTrends();
+    }
+  }, [clientId, activeTab, trendRange]);
+
+  const loadTrends = async () => {
+    if (!clientId) return;
+
+    setIsLoadingTrends(true);
+    try {
+      setTrends(await clientService.getClientTrends(clientId, trendRange));
+    } catch (error) {
+      console.error('Error loading client trends:', error);
+    }
+    setIsLoadingTrends(false);
+  };
+
+  const handleAssign = async (assigneeId: string | null) => {
+    if (!client) return;
+
+    setIsAssigning(true);
+    if (await clientService.assignClient(client.id, assigneeId)) {
+      setClient({ ...client, assigned_coach_id: assigneeId });
+    } else {
+      alert('Failed to reassign client');
+    }
+    setIsAssigning(false);
+  };
+
   const loadClientData = async () => {
     if (!clientId) return;
     
@@ -166,6 +213,22 @@ function ClientProfile() {
                         {client.engagement_level} engagement
                       </span>
                     </div>
+                    {assignableCoaches.length > 1 && (
+                      <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                        Coach
+                        <select
+                          value={client.assigned_coach_id || ''}
+                          onChange={(e) => handleAssign(e.target.value || null)}
+                          disabled={isAssigning}
+                          className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-white disabled:opacity-50"
+                        >
+                          <option value="">Unassigned</option>
+                          {assignableCoaches.map(coach => (
+                            <option key={coach.id} value={coach.id}>{coach.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
                   </div>
                 </div>
               </div>
@@ -286,6 +349,9 @@ function ClientProfile() {
 
             {/* Sidebar */}
             <div className="space-y-6">
+              <ClientRiskCard client={client} />
+              <ClientPortalCard client={client} />
+
               {/* Recent Check-ins */}
               <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Recent Check-ins</h3>
@@ -355,6 +421,21 @@ function ClientProfile() {
                       </span>
                     </div>
                   )}
+                  <div className="flex justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Check-in Schedule:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {describeCadence(client) || 'None'}
+                    </span>
+                  </div>
+                  {client.next_checkin_due_at && client.status === 'active' && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">Next Check-in Due:</span>
+                      <span className={`font-medium ${client.checkin_missed_at ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'}`}>
+                        {formatDate(client.next_checkin_due_at)}
+                        {client.checkin_missed_at && ` (missed, ${getDaysOverdue(client)}d overdue)`}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -368,28 +449,48 @@ function ClientProfile() {
             </div>
             <div className="divide-y divide-slate-200 dark:divide-slate-700">
               {checkins.map((checkin) => (
-                <Link
-                  key={checkin.id}
-                  to={`/checkin/${checkin.id}`}
-                  className="flex items-center gap-4 p-6 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
-                >
-                  {getCheckinStatusIcon(checkin.status)}
-                  <div className="flex-1">
-                    <div className="flex items-center justify-between">
-                      <p className="font-medium text-slate-900 dark:text-white">
-                        {formatDate(checkin.date)}
-                      </p>
-                      <span className="text-sm text-slate-600 dark:text-slate-400 capitalize">
-                        {checkin.status.replace('_', ' ')}
-                      </span>
+                <div key={checkin.id}>
+                  <Link
+                    to={`/checkin/${checkin.id}`}
+                    className="flex items-center gap-4 p-6 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    {getCheckinStatusIcon(checkin.status)}
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-slate-900 dark:text-white">
+                          {formatDate(checkin.date)}
+                        </p>
+                        <span className="text-sm text-slate-600 dark:text-slate-400 capitalize">
+                          {checkin.status.replace('_', ' ')}
+                        </span>
+                      </div>
+                      {checkin.transcript && (
+                        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 line-clamp-2">
+                          {checkin.transcript.slice(0, 200)}...
+                        </p>
+                      )}
                     </div>
-                    {checkin.transcript && (
-                      <p className="text-sm text-slate-600 dark:text-slate-400 mt-1 line-clamp-2">
-                        {checkin.transcript.slice(0, 200)}...
-                      </p>
-                    )}
-                  </div>
-                </Link>
+                  </Link>
+                  {checkin.response_media_path && (
+                    <div className="px-6 pb-6 -mt-3 pl-16">
+                      {openMediaCheckinId === checkin.id ? (
+                        <ResponseMediaPlayer
+                          path={checkin.response_media_path}
+                          mimeType={checkin.response_media_type}
+                          compact
+                        />
+                      ) : (
+                        <button
+                          onClick={() => setOpenMediaCheckinId(checkin.id)}
+                          className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          <PlayCircle className="w-4 h-4" />
+                          {checkin.response_type === 'audio' ? 'Play audio response' : 'Play video response'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
               ))}
               {checkins.length === 0 && (
                 <div className="p-12 text-center">
@@ -405,62 +506,136 @@ function ClientProfile() {
         )}
 
         {activeTab === 'analytics' && analytics && (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
-              <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Engagement Metrics</h3>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Engagement Trend:</span>
-                  <div className="flex items-center gap-2">
-                    {getEngagementTrendIcon(analytics.engagementTrend)}
-                    <span className="font-medium text-slate-900 dark:text-white capitalize">
-                      {analytics.engagementTrend}
-                    </span>
-                  </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Total Check-ins:</span>
-                  <span className="font-medium text-slate-900 dark:text-white">
-                    {analytics.totalCheckins}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Response Rate:</span>
-                  <span className="font-medium text-slate-900 dark:text-white">
-                    {analytics.totalCheckins > 0 
-                      ? Math.round((analytics.respondedCheckins / analytics.totalCheckins) * 100)
-                      : 0
-                    }%
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Avg Response Time:</span>
-                  <span className="font-medium text-slate-900 dark:text-white">
-                    {analytics.averageResponseTime ? `${Math.round(analytics.averageResponseTime)} hours` : 'N/A'}
-                  </span>
-                </div>
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Trends</h3>
+              <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                {TREND_RANGES.map(range => (
+                  <button
+                    key={range}
+                    onClick={() => setTrendRange(range)}
+                    className={`px-3 py-1.5 text-sm font-medium ${
+                      trendRange === range
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {range} weeks
+                  </button>
+                ))}
               </div>
             </div>
 
-            <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
-              <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Activity Summary</h3>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Pending Responses:</span>
-                  <span className="font-medium text-orange-600">{analytics.pendingCheckins}</span>
+            {isLoadingTrends && !trends ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : trends && (
+              <div className={`space-y-6 ${isLoadingTrends ? 'opacity-60' : ''}`}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <TrendCard series={trends.frequency} variant="bar" higherIsBetter={true} />
+                  <TrendCard
+                    series={trends.latency}
+                    higherIsBetter={false}
+                    formatValue={(value) => Math.abs(value) < 10 ? value.toFixed(1) : String(Math.round(value))}
+                  />
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Completed Responses:</span>
-                  <span className="font-medium text-green-600">{analytics.respondedCheckins}</span>
+
+                {trends.metrics.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Client Metrics</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {trends.metrics.map(series => (
+                        <TrendCard key={series.key} series={series} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {trends.tags.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Top Tags</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {trends.tags.map(series => (
+                        <TrendCard key={series.key} series={series} variant="bar" />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Engagement Metrics</h3>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Engagement Trend:</span>
+                    <div className="flex items-center gap-2">
+                      {getEngagementTrendIcon(analytics.engagementTrend)}
+                      <span className="font-medium text-slate-900 dark:text-white capitalize">
+                        {analytics.engagementTrend}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Total Check-ins:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {analytics.totalCheckins}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Response Rate:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {analytics.totalCheckins > 0 
+                        ? Math.round((analytics.respondedCheckins / analytics.totalCheckins) * 100)
+                        : 0
+                      }%
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Avg Response Time:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {analytics.averageResponseTime ? `${Math.round(analytics.averageResponseTime)} hours` : 'N/A'}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Median / p90 Response:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {analytics.medianResponseTime !== null
+                        ? `${Math.round(analytics.medianResponseTime)}h / ${Math.round(analytics.p90ResponseTime ?? analytics.medianResponseTime)}h`
+                        : 'N/A'}
+                    </span>
+                  </div>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-slate-600 dark:text-slate-400">Last Check-in:</span>
-                  <span className="font-medium text-slate-900 dark:text-white">
-                    {analytics.lastCheckinDate 
-                      ? formatDate(analytics.lastCheckinDate)
-                      : 'Never'
-                    }
-                  </span>
+              </div>
+
+              <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Activity Summary</h3>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Pending Responses:</span>
+                    <span className="font-medium text-orange-600">{analytics.pendingCheckins}</span>
+                  </div>
+                  {analytics.oldestPendingAt && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">Oldest Pending Since:</span>
+                      <span className="font-medium text-orange-600">{formatDate(analytics.oldestPendingAt)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Completed Responses:</span>
+                    <span className="font-medium text-green-600">{analytics.respondedCheckins}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600 dark:text-slate-400">Last Check-in:</span>
+                    <span className="font-medium text-slate-900 dark:text-white">
+                      {analytics.lastCheckinDate 
+                        ? formatDate(analytics.lastCheckinDate)
+                        : 'Never'
+                      }
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -1,29 +1,72 @@
-import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { Users, Plus, Search, TrendingUp, TrendingDown, Minus, MessageSquare, Filter, Bell } from 'lucide-react';
-import { clientService, checkinService, supabase, type Client } from '../lib/supabase';
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Users, Plus, Search, TrendingUp, TrendingDown, Minus, MessageSquare, Filter, Bell, ArrowUp, ArrowDown, Tag, X } from 'lucide-react';
+import { clientService, teamService, supabase, type ClientListItem, type ClientSort, type ClientSortKey, type CoachAnalytics } from '../lib/supabase';
 import Navigation from '../components/Navigation';
+import { RISK_STYLES } from '../components/CheckinAnalysisPanels';
+import { useAuth } from '../contexts/AuthContext';
+
+const SORT_OPTIONS: Array<{ value: ClientSort; label: string }> = [
+  { value: 'last_checkin', label: 'Last check-in' },
+  { value: 'name', label: 'Name' },
+  { value: 'pending', label: 'Pending check-ins' },
+  { value: 'risk', label: 'Churn risk' }
+];
+
+const DEFAULT_SORT: ClientSortKey[] = [{ field: 'last_checkin', direction: 'desc' }];
+
+// The `sort` query param lists sorts in order, e.g. "risk:desc,name:asc"
+const parseSortParam = (value: string | null): ClientSortKey[] => {
+  const keys: ClientSortKey[] = [];
+  (value || '').split(',').forEach(part => {
+    const [field, direction] = part.split(':');
+    if (SORT_OPTIONS.some(option => option.value === field) && !keys.some(key => key.field === field)) {
+      keys.push({ field: field as ClientSort, direction: direction === 'asc' ? 'asc' : 'desc' });
+    }
+  });
+  return keys.length > 0 ? keys : DEFAULT_SORT;
+};
+
+const formatSortParam = (keys: ClientSortKey[]) => keys.map(key => `${key.field}:${key.direction}`).join(',');
 
 function ClientsDashboard() {
   console.log('🚀 [ClientsDashboard] Component mounting...');
   
-  const [clients, setClients] = useState<Client[]>([]);
-  const [filteredClients, setFilteredClients] = useState<Client[]>([]);
-  const [displayedClients, setDisplayedClients] = useState<Client[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [clients, setClients] = useState<ClientListItem[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [pageOffset, setPageOffset] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [previousCursor, setPreviousCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'paused'>('all');
-  const [engagementFilter, setEngagementFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all');
-  const [viewMode, setViewMode] = useState<'recent' | 'all'>('recent');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pendingCheckinsCount, setPendingCheckinsCount] = useState(0);
+  const [coachStats, setCoachStats] = useState<CoachAnalytics | null>(null);
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [assignableCoaches, setAssignableCoaches] = useState<{ id: string; name: string }[]>([]);
+  const latestRequest = useRef(0);
   const clientsPerPage = 12;
 
+  // Filters, sorting and paging live in the query string so views can be shared
+  const searchQuery = searchParams.get('q') || '';
+  const statusFilter = (searchParams.get('status') || 'all') as 'all' | 'active' | 'inactive' | 'paused';
+  const engagementFilter = (searchParams.get('engagement') || 'all') as 'all' | 'high' | 'medium' | 'low';
+  const viewMode = (searchParams.get('view') || 'recent') as 'recent' | 'all';
+  const onlyMine = searchParams.get('assigned') === 'me';
+  const tagFilter = (searchParams.get('tags') || '').split(',').filter(Boolean);
+  const sortKeys = parseSortParam(searchParams.get('sort'));
+  // `cursor` pages forward from a row, `before` pages back from one
+  const beforeCursor = searchParams.get('before');
+  const cursor = beforeCursor || searchParams.get('cursor');
+
+  const [searchInput, setSearchInput] = useState(searchQuery);
+
   useEffect(() => {
-    console.log('🔍 [ClientsDashboard] useEffect running, calling loadClients...');
-    loadClients(true); // Force initial load
-    loadPendingCheckinsCount();
+    loadCoachStats();
+    loadAvailableTags();
+    teamService.getAssignableCoaches().then(setAssignableCoaches);
     
     // Set up real-time subscriptions (optimized)
     const clientsChannel = supabase
@@ -32,16 +75,15 @@ function ClientsDashboard() {
         { event: '*', schema: 'public', table: 'clients' }, 
         (payload) => {
           console.log('Client change detected:', payload);
-          // Only reload if it affects the current user's clients
-          loadClients();
+          setReloadToken(token => token + 1);
         }
       )
       .on('postgres_changes',
         { event: '*', schema: 'public', table: 'checkins' },
         (payload) => {
           console.log('Checkin change detected:', payload);
-          loadPendingCheckinsCount();
-          loadClients();
+          loadCoachStats();
+          setReloadToken(token => token + 1);
         }
       )
       .subscribe();
@@ -53,96 +95,147 @@ function ClientsDashboard() {
   }, []);
 
   useEffect(() => {
-    // Debounce search to improve performance
+    loadClients();
+  }, [searchParams, reloadToken]);
+
+  useEffect(() => {
+    // Debounce search to avoid a query per keystroke
     const timeoutId = setTimeout(() => {
-      filterAndPaginateClients();
+      if (searchInput.trim() !== searchQuery) {
+        updateParams({ q: searchInput.trim() });
+      }
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [clients, searchQuery, statusFilter, engagementFilter, viewMode, currentPage]);
+  }, [searchInput]);
+
+  const updateParams = (changes: Record<string, string | null>, resetPaging = true) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null || value === '') {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    });
 
-  const loadClients = async (force = false) => {
-    if (isLoading && !force) {
-      console.log('🚫 [ClientsDashboard] Already loading, skipping...');
-      return; // Prevent multiple simultaneous loads
+    if (resetPaging) {
+      next.delete('cursor');
+      next.delete('before');
     }
-    
-    console.log('🔍 [ClientsDashboard] Starting to load clients...');
-    setIsLoading(true);
+
+    setSearchParams(next, { replace: resetPaging });
+  };
+
+  const loadClients = async () => {
+    const requestId = ++latestRequest.current;
+    console.log('🔍 [ClientsDashboard] Loading clients page...');
+    setIsFetching(true);
     setError(null);
     try {
-      console.log('🔍 [ClientsDashboard] Calling clientService.getClients()...');
-      const data = await clientService.getClients();
-      console.log('✅ [ClientsDashboard] Loaded clients:', data.length, 'clients');
-      setClients(data);
+      const activeSince = viewMode === 'recent'
+        ? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+      const page = await clientService.getClientsPage({
+        search: searchQuery,
+        status: statusFilter === 'all' ? null : statusFilter,
+        engagement: engagementFilter === 'all' ? null : engagementFilter,
+        tags: tagFilter,
+        activeSince,
+        assignedCoachId: onlyMine ? user?.id : null,
+        sort: sortKeys,
+        cursor,
+        backward: !!beforeCursor,
+        limit: clientsPerPage
+      });
+
+      // Ignore responses that arrive after a newer request was made
+      if (requestId !== latestRequest.current) return;
+
+      console.log('✅ [ClientsDashboard] Loaded clients:', page.clients.length, 'of', page.totalCount);
+      setClients(page.clients);
+      setTotalCount(page.totalCount);
+      setPageOffset(page.offset);
+      setNextCursor(page.nextCursor);
+      setPreviousCursor(page.previousCursor);
     } catch (error) {
       console.error('❌ [ClientsDashboard] Error loading clients:', error);
       setError('Failed to load clients. Please try refreshing the page.');
       setClients([]);
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+        setIsFetching(false);
+      }
     }
   };
 
-  const loadPendingCheckinsCount = async () => {
+  const loadCoachStats = async () => {
     try {
-      const count = await checkinService.getPendingCheckinsCount();
-      setPendingCheckinsCount(count);
+      const stats = await clientService.getCoachAnalytics();
+      setCoachStats(stats);
     } catch (err) {
-      console.error('❌ [ClientsDashboard] Error loading pending check-ins count:', err);
+      console.error('❌ [ClientsDashboard] Error loading coach analytics:', err);
     }
   };
 
-  const filterAndPaginateClients = () => {
-    let filtered = clients;
-
-    // Apply view mode filter first
-    if (viewMode === 'recent') {
-      // Show only clients with recent activity (last 30 days) or top 20 most recent
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      const recentClients = filtered.filter(client => 
-        client.last_checkin_at && new Date(client.last_checkin_at) >= thirtyDaysAgo
-      );
-      
-      // If less than 12 recent clients, show top clients by total checkins
-      if (recentClients.length < 12) {
-        filtered = filtered
-          .sort((a, b) => (b.total_checkins || 0) - (a.total_checkins || 0))
-          .slice(0, 20);
-      } else {
-        filtered = recentClients;
-      }
+  const loadAvailableTags = async () => {
+    try {
+      setAvailableTags(await clientService.getClientTags());
+    } catch (err) {
+      console.error('❌ [ClientsDashboard] Error loading client tags:', err);
     }
+  };
 
-    // Apply search filter
-    if (searchQuery) {
-      filtered = filtered.filter(client =>
-        client.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (client.email && client.email.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
-    }
+  const formatPendingAge = (oldestPendingAt: string) => {
+    const hours = Math.floor((Date.now() - new Date(oldestPendingAt).getTime()) / (1000 * 60 * 60));
+    return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+  };
 
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(client => client.status === statusFilter);
-    }
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    updateParams({ cursor: nextCursor, before: null }, false);
+  };
 
-    // Apply engagement filter
-    if (engagementFilter !== 'all') {
-      filtered = filtered.filter(client => client.engagement_level === engagementFilter);
+  const goToPreviousPage = () => {
+    if (!previousCursor) return;
+    // Back on the first page the URL goes back to having no cursor at all
+    const toFirstPage = pageOffset <= clientsPerPage;
+    updateParams({ cursor: null, before: toFirstPage ? null : previousCursor }, false);
+  };
+
+  const updateSort = (keys: ClientSortKey[]) => {
+    const value = formatSortParam(keys);
+    updateParams({ sort: value === formatSortParam(DEFAULT_SORT) ? null : value });
+  };
+
+  const changeSortField = (index: number, field: ClientSort) => {
+    updateSort(sortKeys.map((key, i) => (i === index ? { ...key, field } : key)));
+  };
+
+  const toggleSortDirection = (index: number) => {
+    updateSort(sortKeys.map((key, i) => (i === index ? { ...key, direction: key.direction === 'desc' ? 'asc' : 'desc' } : key)));
+  };
+
+  const addSortKey = () => {
+    const unused = SORT_OPTIONS.find(option => !sortKeys.some(key => key.field === option.value));
+    if (unused) {
+      updateSort([...sortKeys, { field: unused.value, direction: 'desc' }]);
     }
+  };
 
-    setFilteredClients(filtered);
+  const removeSortKey = (index: number) => {
+    updateSort(sortKeys.filter((_, i) => i !== index));
+  };
 
-    // Apply pagination
-    const startIndex = (currentPage - 1) * clientsPerPage;
-    const endIndex = startIndex + clientsPerPage;
-    setDisplayedClients(filtered.slice(startIndex, endIndex));
+  const toggleTagFilter = (tag: string) => {
+    const tags = tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag];
+    updateParams({ tags: tags.join(',') });
   };
 
-  const totalPages = Math.ceil(filteredClients.length / clientsPerPage);
+  const pageNumber = Math.floor(pageOffset / clientsPerPage) + 1;
+  const hasClients = (coachStats?.total_clients ?? totalCount) > 0;
 
   const getEngagementIcon = (level: string) => {
     switch (level) {
@@ -239,7 +332,7 @@ function ClientsDashboard() {
                 </div>
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600">Total Clients</p>
-                  <p className="text-2xl font-bold text-gray-900">{clients.length}</p>
+                  <p className="text-2xl font-bold text-gray-900">{coachStats?.total_clients ?? 0}</p>
                 </div>
               </div>
             </div>
@@ -252,7 +345,7 @@ function ClientsDashboard() {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600">Active Clients</p>
                   <p className="text-2xl font-bold text-gray-900">
-                    {clients.filter(c => c.status === 'active').length}
+                    {coachStats?.active_clients ?? 0}
                   </p>
                 </div>
               </div>
@@ -266,8 +359,14 @@ function ClientsDashboard() {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600">Total Check-ins</p>
                   <p className="text-2xl font-bold text-gray-900">
-                    {clients.reduce((sum, client) => sum + client.total_checkins, 0)}
+                    {coachStats?.total_checkins ?? 0}
                   </p>
+                  {coachStats?.p50_response_hours != null && (
+                    <p className="text-xs text-gray-500">
+                      Median response {Math.round(coachStats.p50_response_hours)}h
+                      {coachStats.p90_response_hours != null && ` • p90 ${Math.round(coachStats.p90_response_hours)}h`}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -280,13 +379,16 @@ function ClientsDashboard() {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-gray-600">Pending Check-ins</p>
                   <div className="flex items-center gap-2">
-                    <p className="text-2xl font-bold text-gray-900">{pendingCheckinsCount}</p>
-                    {pendingCheckinsCount > 0 && (
+                    <p className="text-2xl font-bold text-gray-900">{coachStats?.pending_checkins ?? 0}</p>
+                    {(coachStats?.pending_checkins ?? 0) > 0 && (
                       <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full">
                         Needs Response
                       </span>
                     )}
                   </div>
+                  {coachStats?.oldest_pending_at && (
+                    <p className="text-xs text-gray-500">Oldest waiting {formatPendingAge(coachStats.oldest_pending_at)}</p>
+                  )}
                 </div>
               </div>
             </Link>
@@ -299,10 +401,7 @@ function ClientsDashboard() {
             {/* View Mode Toggle */}
             <div className="flex bg-gray-100 rounded-lg p-1">
               <button
-                onClick={() => {
-                  setViewMode('recent');
-                  setCurrentPage(1);
-                }}
+                onClick={() => updateParams({ view: null })}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
                   viewMode === 'recent'
                     ? 'bg-white text-gray-900 shadow-sm'
@@ -312,10 +411,7 @@ function ClientsDashboard() {
                 Recent Activity
               </button>
               <button
-                onClick={() => {
-                  setViewMode('all');
-                  setCurrentPage(1);
-                }}
+                onClick={() => updateParams({ view: 'all' })}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
                   viewMode === 'all'
                     ? 'bg-white text-gray-900 shadow-sm'
@@ -326,6 +422,32 @@ function ClientsDashboard() {
               </button>
             </div>
 
+            {/* Assignment Toggle (only meaningful with more than one coach) */}
+            {assignableCoaches.length > 1 && (
+              <div className="flex bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => updateParams({ assigned: 'me' })}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    onlyMine
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  My Clients
+                </button>
+                <button
+                  onClick={() => updateParams({ assigned: null })}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    !onlyMine
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  Whole Team
+                </button>
+              </div>
+            )}
+
             {/* Search */}
             <div className="flex-1 min-w-64">
               <div className="relative">
@@ -333,8 +455,8 @@ function ClientsDashboard() {
                 <input
                   type="text"
                   placeholder="Search clients..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                 />
               </div>
@@ -345,7 +467,7 @@ function ClientsDashboard() {
               <Filter className="w-4 h-4 text-gray-400" />
               <select
                 value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as any)}
+                onChange={(e) => updateParams({ status: e.target.value === 'all' ? null : e.target.value })}
                 className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               >
                 <option value="all">All Status</option>
@@ -359,7 +481,7 @@ function ClientsDashboard() {
             <div>
               <select
                 value={engagementFilter}
-                onChange={(e) => setEngagementFilter(e.target.value as any)}
+                onChange={(e) => updateParams({ engagement: e.target.value === 'all' ? null : e.target.value })}
                 className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               >
                 <option value="all">All Engagement</option>
@@ -368,34 +490,108 @@ function ClientsDashboard() {
                 <option value="low">Low Engagement</option>
               </select>
             </div>
+
+            {/* Sort: the first key orders the list, later ones break ties */}
+            {sortKeys.map((sortKey, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={sortKey.field}
+                  onChange={(e) => changeSortField(index, e.target.value as ClientSort)}
+                  className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  {SORT_OPTIONS
+                    .filter(option => option.value === sortKey.field || !sortKeys.some(key => key.field === option.value))
+                    .map(option => (
+                      <option key={option.value} value={option.value}>{index === 0 ? 'Sort' : 'Then'}: {option.label}</option>
+                    ))}
+                </select>
+                <button
+                  onClick={() => toggleSortDirection(index)}
+                  className="p-3 border border-gray-300 rounded-lg bg-white text-gray-600 hover:bg-gray-50 transition-colors"
+                  title={sortKey.direction === 'desc' ? 'Descending' : 'Ascending'}
+                >
+                  {sortKey.direction === 'desc' ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+                </button>
+                {index > 0 && (
+                  <button
+                    onClick={() => removeSortKey(index)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Remove sort"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {sortKeys.length < SORT_OPTIONS.length && (
+              <button
+                onClick={addSortKey}
+                className="flex items-center gap-1 px-3 py-3 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Then by
+              </button>
+            )}
+
+            {/* Tag Filter */}
+            {availableTags.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Tag className="w-4 h-4 text-gray-400" />
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && toggleTagFilter(e.target.value)}
+                  className="px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                >
+                  <option value="">Filter by tag</option>
+                  {availableTags.filter(tag => !tagFilter.includes(tag)).map(tag => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
+
+          {tagFilter.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {tagFilter.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTagFilter(tag)}
+                  className="inline-flex items-center gap-1 px-3 py-1 text-sm bg-blue-50 text-blue-700 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors"
+                >
+                  {tag}
+                  <X className="w-3 h-3" />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Results Summary */}
-        {viewMode === 'recent' && filteredClients.length > 0 && (
+        {viewMode === 'recent' && totalCount > 0 && (
           <div className="mb-4">
             <p className="text-sm text-gray-600">
-              Showing {filteredClients.length} clients with recent activity (last 30 days)
+              Showing {totalCount} clients with recent activity (last 30 days)
             </p>
           </div>
         )}
 
         {/* Clients Grid */}
-        {filteredClients.length === 0 ? (
+        {clients.length === 0 ? (
           <div className="text-center py-16">
             <div className="p-4 bg-gray-50 rounded-full w-20 h-20 mx-auto mb-6 flex items-center justify-center">
               <Users className="w-10 h-10 text-gray-400" />
             </div>
             <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              {clients.length === 0 ? 'No clients yet' : 'No clients match your filters'}
+              {!hasClients ? 'No clients yet' : 'No clients match your filters'}
             </h3>
             <p className="text-gray-600 mb-8 max-w-md mx-auto">
-              {clients.length === 0 
+              {!hasClients
                 ? 'Get started by adding your first client and begin tracking their progress' 
                 : 'Try adjusting your search or filter criteria to find the clients you\'re looking for'
               }
             </p>
-            {clients.length === 0 && (
+            {!hasClients && (
               <Link
                 to="/clients/new"
                 className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
@@ -407,8 +603,8 @@ function ClientsDashboard() {
           </div>
         ) : (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {displayedClients.map((client) => (
+            <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${isFetching ? 'opacity-60' : ''}`}>
+              {clients.map((client) => (
               <Link
                 key={client.id}
                 to={`/client/${client.id}`}
@@ -440,6 +636,30 @@ function ClientsDashboard() {
                     <span className="text-gray-600">Last Check-in:</span>
                     <span className="font-semibold text-gray-900">{formatLastCheckin(client.last_checkin_at)}</span>
                   </div>
+                  {client.risk_level && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Churn Risk:</span>
+                      <span className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${RISK_STYLES[client.risk_level]}`}>
+                        {client.risk_level} ({client.risk_score})
+                      </span>
+                    </div>
+                  )}
+                  {assignableCoaches.length > 1 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Coach:</span>
+                      <span className="font-semibold text-gray-900">
+                        {assignableCoaches.find(coach => coach.id === client.assigned_coach_id)?.name || 'Unassigned'}
+                      </span>
+                    </div>
+                  )}
+                  {client.pending_checkins > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Pending:</span>
+                      <span className="text-xs bg-orange-100 text-orange-700 px-2 py-1 rounded-full font-medium">
+                        {client.pending_checkins} awaiting response
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 {client.goals && (
@@ -454,39 +674,25 @@ function ClientsDashboard() {
             </div>
 
             {/* Pagination */}
-            {totalPages > 1 && (
+            {(nextCursor || previousCursor) && (
               <div className="flex items-center justify-between mt-8">
                 <div className="text-sm text-gray-700">
-                  Showing {((currentPage - 1) * clientsPerPage) + 1} to {Math.min(currentPage * clientsPerPage, filteredClients.length)} of {filteredClients.length} clients
+                  Showing {pageOffset + 1} to {pageOffset + clients.length} of {totalCount} clients
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
-                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                    disabled={currentPage === 1}
+                    onClick={goToPreviousPage}
+                    disabled={!previousCursor}
                     className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Previous
                   </button>
-                  
-                  <div className="flex items-center space-x-1">
-                    {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                      <button
-                        key={page}
-                        onClick={() => setCurrentPage(page)}
-                        className={`px-3 py-2 text-sm font-medium rounded-md ${
-                          currentPage === page
-                            ? 'bg-blue-600 text-white'
-                            : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
-                        }`}
-                      >
-                        {page}
-                      </button>
-                    ))}
-                  </div>
-
+                  <span className="px-3 py-2 text-sm font-medium rounded-md bg-blue-600 text-white">
+                    {pageNumber}
+                  </span>
                   <button
-                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                    disabled={currentPage === totalPages}
+                    onClick={goToNextPage}
+                    disabled={!nextCursor}
                     className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Next
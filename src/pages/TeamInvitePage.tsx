@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Users, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { teamService, type TeamInvitation } from '../lib/supabase';
+
+const ROLE_LABELS: Record<string, string> = {
+  assistant_coach: 'an Assistant Coach',
+  admin: 'an Admin',
+};
+
+const TeamInvitePage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user } = useAuth();
+
+  const [invitation, setInvitation] = useState<TeamInvitation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvitation();
+  }, [token]);
+
+  const loadInvitation = async () => {
+    setIsLoading(true);
+    const invite = token ? await teamService.getInvitation(token) : null;
+    setInvitation(invite);
+    if (!invite) {
+      setError('This invitation link is invalid or has already been used.');
+    } else if (invite.expired) {
+      setError('This invitation has expired. Ask your coach to send a new one.');
+    }
+    setIsLoading(false);
+  };
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    setError(null);
+
+    const result = await teamService.acceptInvitation(token);
+    if (result.success) {
+      // Full reload so every page picks up the head coach's caseload
+      window.location.href = '/';
+      return;
+    }
+
+    setError(result.error || 'Failed to accept invitation');
+    setIsAccepting(false);
+  };
+
+  const emailMismatch = !!invitation && !!user?.email &&
+    invitation.member_email.toLowerCase() !== user.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 max-w-md w-full text-center">
+        <div className="p-4 bg-blue-50 rounded-full w-16 h-16 mx-auto mb-6 flex items-center justify-center">
+          <Users className="w-8 h-8 text-blue-600" />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center text-gray-600">
+            <Loader className="w-5 h-5 animate-spin mr-2" />
+            Loading invitation...
+          </div>
+        ) : invitation && !invitation.expired ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Join {invitation.coach_name || 'your coach'}'s team</h1>
+            <p className="text-gray-600 mb-6">
+              You've been invited as {ROLE_LABELS[invitation.role] || 'a team member'}. You'll see their clients and
+              check-ins instead of your own while you're on the team.
+            </p>
+
+            {emailMismatch && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 text-left">
+                This invitation was sent to <strong>{invitation.member_email}</strong>, but you're signed in as{' '}
+                <strong>{user?.email}</strong>. Sign in with the invited address to accept it.
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700 text-left">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              onClick={handleAccept}
+              disabled={isAccepting || emailMismatch}
+              className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAccepting ? <Loader className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              <span>{isAccepting ? 'Joining...' : 'Accept invitation'}</span>
+            </button>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Invitation unavailable</h1>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <Link to="/" className="text-blue-600 hover:text-blue-700 font-medium">
+              Go to dashboard
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamInvitePage;
@@ -0,0 +1,32 @@
+// Fire-and-forget calls from one edge function to another, authenticated with the service role.
+// The caller can respond immediately; EdgeRuntime.waitUntil keeps the request alive on Supabase.
+
+// Provided by the Supabase edge runtime; missing when the function runs under plain Deno
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export const invokeInBackground = (
+  supabaseUrl: string,
+  serviceKey: string,
+  functionName: string,
+  body: Record<string, unknown> = {},
+): Promise<void> => {
+  const request = fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+    .then(async response => {
+      if (!response.ok) {
+        console.error(`❌ [Background] ${functionName} returned ${response.status}:`, await response.text());
+      }
+    })
+    .catch(error => console.error(`❌ [Background] Failed to call ${functionName}:`, error));
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(request);
+  }
+  return request;
+};
@@ -0,0 +1,215 @@
+// Schema, validation and markdown rendering for the structured check-in analysis.
+// The frontend types live in src/lib/supabase.ts (CheckinAnalysis); keep the two in sync.
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type Priority = 'low' | 'medium' | 'high';
+
+export interface RiskFlag {
+  flag: string;
+  severity: RiskLevel;
+  evidence: string;
+}
+
+export interface RecommendedAction {
+  action: string;
+  priority: Priority;
+}
+
+export interface PlanChange {
+  area: string;
+  change: string;
+  rationale: string;
+}
+
+export interface CheckinAnalysis {
+  summary: string;
+  key_insights: string[];
+  risk_level: RiskLevel;
+  risk_flags: RiskFlag[];
+  sentiment_score: number;
+  sentiment_label: string;
+  recommended_actions: RecommendedAction[];
+  plan_changes: PlanChange[];
+  similar_cases_notes: string | null;
+}
+
+const LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+// JSON schema sent to OpenAI structured outputs (strict mode: every property required, no extras)
+export const CHECKIN_ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'summary',
+    'key_insights',
+    'risk_level',
+    'risk_flags',
+    'sentiment_score',
+    'sentiment_label',
+    'recommended_actions',
+    'plan_changes',
+    'similar_cases_notes',
+  ],
+  properties: {
+    summary: { type: 'string', description: 'Two or three sentence overview of the check-in' },
+    key_insights: { type: 'array', items: { type: 'string' } },
+    risk_level: { type: 'string', enum: LEVELS, description: 'Overall risk that the client disengages, gets hurt or stalls' },
+    risk_flags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['flag', 'severity', 'evidence'],
+        properties: {
+          flag: { type: 'string' },
+          severity: { type: 'string', enum: LEVELS },
+          evidence: { type: 'string', description: 'What in the check-in supports this flag' },
+        },
+      },
+    },
+    sentiment_score: { type: 'number', description: 'From -1 (very negative) to 1 (very positive)' },
+    sentiment_label: { type: 'string', description: 'One or two words, e.g. "frustrated" or "upbeat"' },
+    recommended_actions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['action', 'priority'],
+        properties: {
+          action: { type: 'string' },
+          priority: { type: 'string', enum: LEVELS },
+        },
+      },
+    },
+    plan_changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['area', 'change', 'rationale'],
+        properties: {
+          area: { type: 'string', description: 'e.g. training, nutrition, sleep, recovery' },
+          change: { type: 'string' },
+          rationale: { type: 'string' },
+        },
+      },
+    },
+    similar_cases_notes: {
+      type: ['string', 'null'],
+      description: 'What the similar cases suggest, or null when none were provided or none apply',
+    },
+  },
+};
+
+const isLevel = (value: unknown): value is RiskLevel => LEVELS.includes(value as RiskLevel);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+// Checks a parsed model response against the schema. Returns the cleaned analysis, or the
+// list of problems so the caller can reject it instead of storing a half-valid record.
+export const validateCheckinAnalysis = (
+  value: unknown
+): { analysis: CheckinAnalysis | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { analysis: null, errors: ['Analysis must be a JSON object'] };
+  }
+
+  const input = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(input.summary)) errors.push('summary must be a non-empty string');
+  if (!isLevel(input.risk_level)) errors.push('risk_level must be low, medium or high');
+  if (!isNonEmptyString(input.sentiment_label)) errors.push('sentiment_label must be a non-empty string');
+
+  if (typeof input.sentiment_score !== 'number' || !Number.isFinite(input.sentiment_score) ||
+      input.sentiment_score < -1 || input.sentiment_score > 1) {
+    errors.push('sentiment_score must be a number between -1 and 1');
+  }
+
+  if (!Array.isArray(input.key_insights) || !input.key_insights.every(isNonEmptyString)) {
+    errors.push('key_insights must be an array of strings');
+  }
+
+  const checkArray = (field: string, isValidItem: (item: Record<string, unknown>) => boolean) => {
+    const items = input[field];
+    if (!Array.isArray(items)) {
+      errors.push(`${field} must be an array`);
+      return;
+    }
+    items.forEach((item, index) => {
+      if (!item || typeof item !== 'object' || !isValidItem(item as Record<string, unknown>)) {
+        errors.push(`${field}[${index}] is invalid`);
+      }
+    });
+  };
+
+  checkArray('risk_flags', item =>
+    isNonEmptyString(item.flag) && isLevel(item.severity) && typeof item.evidence === 'string');
+  checkArray('recommended_actions', item =>
+    isNonEmptyString(item.action) && isLevel(item.priority));
+  checkArray('plan_changes', item =>
+    isNonEmptyString(item.area) && isNonEmptyString(item.change) && typeof item.rationale === 'string');
+
+  if (input.similar_cases_notes !== null && input.similar_cases_notes !== undefined &&
+      typeof input.similar_cases_notes !== 'string') {
+    errors.push('similar_cases_notes must be a string or null');
+  }
+
+  if (errors.length > 0) {
+    return { analysis: null, errors };
+  }
+
+  return {
+    analysis: {
+      summary: (input.summary as string).trim(),
+      key_insights: (input.key_insights as string[]).map(insight => insight.trim()),
+      risk_level: input.risk_level as RiskLevel,
+      risk_flags: input.risk_flags as RiskFlag[],
+      // Stored as NUMERIC(3, 2)
+      sentiment_score: Math.round((input.sentiment_score as number) * 100) / 100,
+      sentiment_label: (input.sentiment_label as string).trim(),
+      recommended_actions: input.recommended_actions as RecommendedAction[],
+      plan_changes: input.plan_changes as PlanChange[],
+      similar_cases_notes: isNonEmptyString(input.similar_cases_notes) ? input.similar_cases_notes.trim() : null,
+    },
+    errors: [],
+  };
+};
+
+// Markdown version stored in checkins.ai_analysis for consumers that read plain text
+export const analysisToMarkdown = (analysis: CheckinAnalysis): string => {
+  const sections: string[] = [
+    `**Summary:** ${analysis.summary}`,
+    `**Sentiment:** ${analysis.sentiment_label} (${analysis.sentiment_score}) · **Risk:** ${analysis.risk_level}`,
+  ];
+
+  if (analysis.key_insights.length > 0) {
+    sections.push(`**Key Insights:**\n${analysis.key_insights.map(insight => `- ${insight}`).join('\n')}`);
+  }
+
+  if (analysis.risk_flags.length > 0) {
+    sections.push(`**Risk Flags:**\n${analysis.risk_flags
+      .map(flag => `- [${flag.severity}] ${flag.flag}${flag.evidence ? ` — ${flag.evidence}` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (analysis.recommended_actions.length > 0) {
+    sections.push(`**Recommended Actions:**\n${analysis.recommended_actions
+      .map(action => `- [${action.priority}] ${action.action}`)
+      .join('\n')}`);
+  }
+
+  if (analysis.plan_changes.length > 0) {
+    sections.push(`**Plan Changes:**\n${analysis.plan_changes
+      .map(change => `- **${change.area}:** ${change.change}${change.rationale ? ` (${change.rationale})` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (analysis.similar_cases_notes) {
+    sections.push(`**Similar Cases:** ${analysis.similar_cases_notes}`);
+  }
+
+  return sections.join('\n\n');
+};
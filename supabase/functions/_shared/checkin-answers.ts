@@ -0,0 +1,116 @@
+// Parses check-in payloads into typed answers using a coach's check-in form schema.
+
+import { selectValues } from './field-mappings.ts';
+
+export type CheckinQuestionType = 'number' | 'scale' | 'boolean' | 'choice' | 'text';
+
+export interface CheckinQuestion {
+  id: string;
+  label: string;
+  type: CheckinQuestionType;
+  unit?: string;
+  scale_min?: number;
+  scale_max?: number;
+  options?: string[];
+  // Where to find the answer in the payload; defaults to answers.<id> then <id>
+  selectors?: string[];
+}
+
+export interface CheckinForm {
+  id: string;
+  questions: CheckinQuestion[];
+}
+
+export interface ParsedAnswer {
+  question_id: string;
+  question_label: string;
+  question_type: CheckinQuestionType;
+  unit: string | null;
+  value_number: number | null;
+  value_text: string | null;
+  value_boolean: boolean | null;
+}
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'on']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', 'off']);
+
+const defaultSelectors = (questionId: string) => [`$.answers['${questionId}']`, `$['${questionId}']`];
+
+// Pull the leading number out of answers like "182.5 lbs" or "7/10"
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  // Drop thousands separators ("1,200") but treat a lone comma as a decimal point ("7,5")
+  const normalized = value.replace(/(\d),(\d{3})\b/g, '$1$2').replace(',', '.');
+  const match = normalized.match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const normalized = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return null;
+};
+
+// Returns null when the raw value can't be coerced into the question's type
+export const parseAnswer = (question: CheckinQuestion, raw: unknown): ParsedAnswer | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  const answer: ParsedAnswer = {
+    question_id: question.id,
+    question_label: question.label,
+    question_type: question.type,
+    unit: question.unit || null,
+    value_number: null,
+    value_text: null,
+    value_boolean: null
+  };
+
+  switch (question.type) {
+    case 'number': {
+      answer.value_number = parseNumber(raw);
+      return answer.value_number === null ? null : answer;
+    }
+    case 'scale': {
+      const value = parseNumber(raw);
+      if (value === null) return null;
+      if (question.scale_min !== undefined && value < question.scale_min) return null;
+      if (question.scale_max !== undefined && value > question.scale_max) return null;
+      answer.value_number = value;
+      return answer;
+    }
+    case 'boolean': {
+      answer.value_boolean = parseBoolean(raw);
+      return answer.value_boolean === null ? null : answer;
+    }
+    case 'choice': {
+      const text = String(raw).trim();
+      const option = (question.options || []).find(option => option.toLowerCase() === text.toLowerCase());
+      if (question.options?.length && !option) return null;
+      answer.value_text = option || text;
+      return answer;
+    }
+    default: {
+      answer.value_text = typeof raw === 'string' ? raw.trim() : JSON.stringify(raw);
+      return answer.value_text ? answer : null;
+    }
+  }
+};
+
+// Evaluate every question in the form, skipping unanswered or unparseable ones
+export const extractCheckinAnswers = (payload: unknown, form: CheckinForm): ParsedAnswer[] => {
+  const answers: ParsedAnswer[] = [];
+
+  for (const question of form.questions || []) {
+    if (!question?.id || !question.type) continue;
+
+    const selectors = question.selectors?.length ? question.selectors : defaultSelectors(question.id);
+    const raw = selectors.flatMap(selector => selectValues(payload, selector))[0];
+    const parsed = parseAnswer(question, raw);
+    if (parsed) answers.push(parsed);
+  }
+
+  return answers;
+};
@@ -0,0 +1,104 @@
+// Finds voice notes and videos attached to a check-in payload. Form providers send
+// uploads either as bare URLs (JotForm, Google Forms) or as file objects with a URL
+// and content type (Typeform, GoHighLevel), sometimes nested in arrays.
+
+export interface MediaAttachment {
+  url: string;
+  mimeType: string | null;
+  fileName: string | null;
+  // Dotted path to the payload field, so the transcript can say where it came from
+  field: string;
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+const URL_KEYS = ['url', 'file_url', 'fileUrl', 'download_url', 'downloadUrl', 'href', 'link'];
+const TYPE_KEYS = ['mime_type', 'mimeType', 'mimetype', 'content_type', 'contentType', 'type'];
+const NAME_KEYS = ['file_name', 'fileName', 'filename', 'name'];
+
+// Walks at most this deep so a pathological payload can't keep us busy
+const MAX_DEPTH = 6;
+export const MAX_MEDIA_ATTACHMENTS = 5;
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\//i.test(value.trim());
+
+const isMediaType = (value: unknown): value is string =>
+  typeof value === 'string' && /^(audio|video)\//i.test(value);
+
+export const guessMimeType = (url: string): string | null => {
+  try {
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase();
+    return extension ? MEDIA_EXTENSIONS[extension] ?? null : null;
+  } catch {
+    return null;
+  }
+};
+
+const fileNameFromUrl = (url: string): string | null => {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || null;
+  } catch {
+    return null;
+  }
+};
+
+export const findMediaAttachments = (payload: unknown): MediaAttachment[] => {
+  const found = new Map<string, MediaAttachment>();
+
+  const visit = (value: unknown, path: string[], depth: number) => {
+    if (found.size >= MAX_MEDIA_ATTACHMENTS || depth > MAX_DEPTH || value === null || value === undefined) return;
+
+    if (isHttpUrl(value)) {
+      const url = value.trim();
+      const mimeType = guessMimeType(url);
+      if (mimeType && !found.has(url)) {
+        found.set(url, { url, mimeType, fileName: fileNameFromUrl(url), field: path.join('.') });
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, String(index)], depth + 1));
+      return;
+    }
+
+    if (typeof value !== 'object') return;
+
+    const record = value as Record<string, unknown>;
+    const urlKey = URL_KEYS.find(key => isHttpUrl(record[key]));
+    const typeKey = TYPE_KEYS.find(key => isMediaType(record[key]));
+
+    // A file object that declares an audio/video type, even when the URL has no extension
+    if (urlKey && typeKey) {
+      const url = (record[urlKey] as string).trim();
+      if (!found.has(url)) {
+        const nameKey = NAME_KEYS.find(key => typeof record[key] === 'string' && record[key]);
+        found.set(url, {
+          url,
+          mimeType: (record[typeKey] as string).toLowerCase(),
+          fileName: nameKey ? (record[nameKey] as string) : fileNameFromUrl(url),
+          field: path.join('.'),
+        });
+      }
+      return;
+    }
+
+    Object.entries(record).forEach(([key, child]) => visit(child, [...path, key], depth + 1));
+  };
+
+  visit(payload, [], 0);
+  return Array.from(found.values());
+};
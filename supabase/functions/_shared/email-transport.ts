@@ -0,0 +1,110 @@
+// Pluggable outbound email. EMAIL_TRANSPORT picks the implementation:
+//   smtp - SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD, SMTP_SECURE
+//   mock - logs messages and keeps them in memory instead of sending (local testing)
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  fromName?: string | null;
+  replyTo?: string | null;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  messageId: string | null;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+}
+
+// Quote display names so commas and other specials don't break the header
+const formatAddress = (email: string, name?: string | null) =>
+  name ? `"${name.replace(/["\\]/g, '')}" <${email}>` : email;
+
+export const createSmtpTransport = (config: SmtpConfig): EmailTransport => ({
+  name: 'smtp',
+  async send(message) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.secure,
+        auth: config.username ? { username: config.username, password: config.password ?? '' } : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: formatAddress(message.from, message.fromName),
+        to: message.to,
+        replyTo: message.replyTo || undefined,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+
+    // denomailer doesn't expose the server's message id
+    return { messageId: null };
+  },
+});
+
+export interface MockTransport extends EmailTransport {
+  outbox: EmailMessage[];
+}
+
+export const createMockTransport = (): MockTransport => {
+  const outbox: EmailMessage[] = [];
+  return {
+    name: 'mock',
+    outbox,
+    async send(message) {
+      outbox.push(message);
+      console.log('📧 [MockTransport] Would send', JSON.stringify({ to: message.to, subject: message.subject }));
+      return { messageId: `mock-${crypto.randomUUID()}` };
+    },
+  };
+};
+
+export const createEmailTransport = (): EmailTransport => {
+  const transport = (Deno.env.get('EMAIL_TRANSPORT') || 'smtp').toLowerCase();
+
+  if (transport === 'mock') {
+    return createMockTransport();
+  }
+
+  if (transport !== 'smtp') {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+  }
+
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  const secure = (Deno.env.get('SMTP_SECURE') || 'true').toLowerCase() !== 'false';
+  return createSmtpTransport({
+    hostname,
+    port: Number(Deno.env.get('SMTP_PORT')) || (secure ? 465 : 587),
+    username: Deno.env.get('SMTP_USERNAME') || undefined,
+    password: Deno.env.get('SMTP_PASSWORD') || undefined,
+    secure,
+  });
+};
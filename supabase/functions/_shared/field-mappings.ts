@@ -0,0 +1,117 @@
+// Declarative rules for pulling check-in fields out of arbitrary webhook payloads.
+// The app re-exports this module (src/lib/fieldMappings.ts) so the preview in
+// CheckinWebhookSettingsModal matches what webhook-checkin stores - keep it free of imports.
+
+export type MappedField = 'client_name' | 'email' | 'phone' | 'transcript';
+
+export interface FieldMappingRule {
+  // JSONPath-style selectors, e.g. "$.contact.name", "$.answers[*].text", "$['Your name']"
+  selectors: string[];
+  // Join every non-empty match instead of taking the first one
+  concat?: boolean;
+  separator?: string;
+  // Constant used when no selector matches
+  default?: string;
+}
+
+export type FieldMappings = Partial<Record<MappedField, FieldMappingRule>>;
+
+export const MAPPED_FIELDS: Array<{ field: MappedField; label: string }> = [
+  { field: 'client_name', label: 'Client name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'transcript', label: 'Transcript' }
+];
+
+type PathSegment = string | number | '*';
+
+// Parse "$.a.b[0]['c d'][*]" into path segments. Returns null for malformed selectors.
+export const parseSelector = (selector: string): PathSegment[] | null => {
+  let rest = selector.trim();
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = '.' + rest;
+  }
+
+  const segments: PathSegment[] = [];
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.\*/))) {
+      segments.push('*');
+    } else if ((match = rest.match(/^\.([^.[\]]+)/))) {
+      segments.push(match[1]);
+    } else if ((match = rest.match(/^\[\*\]/))) {
+      segments.push('*');
+    } else if ((match = rest.match(/^\[(\d+)\]/))) {
+      segments.push(Number(match[1]));
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      segments.push(match[2]);
+    } else {
+      return null;
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+};
+
+// Evaluate a selector against a payload, returning every matched value
+export const selectValues = (payload: unknown, selector: string): unknown[] => {
+  const segments = parseSelector(selector);
+  if (!segments) return [];
+
+  let current: unknown[] = [payload];
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      if (segment === '*') {
+        next.push(...Object.values(value as Record<string, unknown>));
+      } else {
+        const child = (value as Record<string | number, unknown>)[segment];
+        if (child !== undefined) next.push(child);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+};
+
+const valueToString = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+// Apply one rule: first non-empty match, all matches joined (concat), or the default
+export const applyFieldMappingRule = (payload: unknown, rule: FieldMappingRule | undefined): string | null => {
+  if (!rule) return null;
+
+  const values = (rule.selectors || [])
+    .filter(selector => selector.trim())
+    .flatMap(selector => selectValues(payload, selector))
+    .map(valueToString)
+    .filter((value): value is string => !!value);
+
+  if (values.length > 0) {
+    return rule.concat ? values.join(rule.separator ?? ' ') : values[0];
+  }
+
+  return rule.default?.trim() || null;
+};
+
+export const applyFieldMappings = (payload: unknown, mappings: FieldMappings | null | undefined): Partial<Record<MappedField, string | null>> => {
+  const result: Partial<Record<MappedField, string | null>> = {};
+  if (!mappings) return result;
+
+  for (const { field } of MAPPED_FIELDS) {
+    if (mappings[field]) {
+      result[field] = applyFieldMappingRule(payload, mappings[field]);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,394 @@
+// Pluggable LLM provider for chat, structured output and embeddings. LLM_PROVIDER picks the
+// deployment default; a coach's `coach_ai_settings` row can override the provider and models:
+//   openai    - OpenAI API (openai_api_key)
+//   azure     - Azure OpenAI (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, optional AZURE_OPENAI_API_VERSION);
+//               model names are deployment names
+//   anthropic - Anthropic Messages API (ANTHROPIC_API_KEY). Has no embeddings, so they come from
+//               EMBEDDING_PROVIDER (default openai)
+//   local     - any OpenAI-compatible server such as Ollama or vLLM (LOCAL_LLM_BASE_URL, optional LOCAL_LLM_API_KEY)
+//   fake      - deterministic output without network calls, for tests and local development
+// LLM_CHAT_MODEL, EMBEDDING_PROVIDER and EMBEDDING_MODEL override the defaults below.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { readServerSentEvents } from './sse.ts';
+
+// The vector(1536) columns depend on this dimension; every embedding model must produce it
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type LlmProviderName = 'openai' | 'azure' | 'anthropic' | 'local' | 'fake';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface StructuredOptions extends ChatOptions {
+  schemaName: string;
+  // JSON schema in OpenAI strict-mode form: every property required, no extra properties
+  schema: Record<string, unknown>;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string>;
+  // Resolves with the parsed JSON; callers still validate it against their own types
+  structured(messages: ChatMessage[], options: StructuredOptions): Promise<unknown>;
+}
+
+export interface EmbeddingProvider {
+  name: LlmProviderName;
+  model: string;
+  embed(input: string): Promise<number[]>;
+}
+
+// Per-coach overrides; NULL columns fall back to the deployment configuration
+export interface CoachAiSettings {
+  provider: LlmProviderName | null;
+  chat_model: string | null;
+  embedding_provider: LlmProviderName | null;
+  embedding_model: string | null;
+}
+
+const DEFAULT_CHAT_MODELS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o',
+  azure: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  fake: 'fake-chat',
+};
+
+// Local servers have no default: few local models produce EMBEDDING_DIMENSIONS, so it must be chosen
+const DEFAULT_EMBEDDING_MODELS: Partial<Record<LlmProviderName, string>> = {
+  openai: 'text-embedding-ada-002',
+  azure: 'text-embedding-ada-002',
+  fake: 'fake-embedding',
+};
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'azure', 'anthropic', 'local', 'fake'];
+
+const requireEnv = (name: string, description: string): string => {
+  const value = Deno.env.get(name)?.trim();
+  if (!value) {
+    throw new Error(`${description} not configured`);
+  }
+  return value;
+};
+
+const parseProviderName = (value: string | null | undefined, source: string): LlmProviderName | null => {
+  if (!value) return null;
+  const name = value.trim().toLowerCase();
+  if (!PROVIDERS.includes(name as LlmProviderName)) {
+    throw new Error(`Unknown ${source} "${value}"`);
+  }
+  return name as LlmProviderName;
+};
+
+const readError = async (response: Response, what: string) =>
+  new Error(`${what} request failed (${response.status}): ${await response.text()}`);
+
+// OpenAI, Azure OpenAI and local servers share the chat completions and embeddings wire format
+interface OpenAiCompatibleConfig {
+  name: LlmProviderName;
+  model: string;
+  headers: Record<string, string>;
+  url(path: 'chat/completions' | 'embeddings', model: string): string;
+}
+
+const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => {
+  const complete = (messages: ChatMessage[], options: ChatOptions, extra: Record<string, unknown> = {}) =>
+    fetch(config.url('chat/completions', config.model), {
+      method: 'POST',
+      headers: { ...config.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        ...extra,
+      }),
+      signal: options.signal,
+    });
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    async chat(messages, options = {}) {
+      const response = await complete(messages, options);
+      if (!response.ok) throw await readError(response, 'Chat');
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *streamChat(messages, options = {}) {
+      const response = await complete(messages, options, { stream: true });
+      if (!response.ok || !response.body) throw await readError(response, 'Chat');
+
+      for await (const { data } of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+
+    async structured(messages, options) {
+      const response = await complete(messages, options, {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: options.schemaName, strict: true, schema: options.schema },
+        },
+      });
+      if (!response.ok) throw await readError(response, 'Structured output');
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      try {
+        return content ? JSON.parse(content) : null;
+      } catch {
+        // Not every local model honours the schema; let the caller's validation report it
+        return null;
+      }
+    },
+  };
+};
+
+const createOpenAiCompatibleEmbeddings = (config: OpenAiCompatibleConfig): EmbeddingProvider => ({
+  name: config.name,
+  model: config.model,
+  async embed(input) {
+    const response = await fetch(config.url('embeddings', config.model), {
+      method: 'POST',
+      headers: { ...config.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, input }),
+    });
+    if (!response.ok) throw await readError(response, 'Embedding');
+
+    const data = await response.json();
+    const embedding: number[] = data.data[0].embedding;
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      throw new Error(`Embedding model ${config.model} returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+    }
+    return embedding;
+  },
+});
+
+const openAiCompatibleConfig = (name: Exclude<LlmProviderName, 'anthropic' | 'fake'>, model: string): OpenAiCompatibleConfig => {
+  if (name === 'openai') {
+    const apiKey = requireEnv('openai_api_key', 'OpenAI API key');
+    return {
+      name,
+      model,
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      url: (path) => `https://api.openai.com/v1/${path}`,
+    };
+  }
+
+  if (name === 'azure') {
+    const endpoint = requireEnv('AZURE_OPENAI_ENDPOINT', 'Azure OpenAI endpoint').replace(/\/+$/, '');
+    const apiKey = requireEnv('AZURE_OPENAI_API_KEY', 'Azure OpenAI API key');
+    const apiVersion = Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-08-01-preview';
+    return {
+      name,
+      model,
+      headers: { 'api-key': apiKey },
+      url: (path, deployment) => `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/${path}?api-version=${apiVersion}`,
+    };
+  }
+
+  const baseUrl = requireEnv('LOCAL_LLM_BASE_URL', 'Local LLM base URL').replace(/\/+$/, '');
+  const apiKey = Deno.env.get('LOCAL_LLM_API_KEY')?.trim();
+  return {
+    name,
+    model,
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    url: (path) => `${baseUrl}/${path}`,
+  };
+};
+
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1500;
+
+const createAnthropicProvider = (model: string): LlmProvider => {
+  const apiKey = requireEnv('ANTHROPIC_API_KEY', 'Anthropic API key');
+
+  // Anthropic takes the system prompt separately from the conversation
+  const send = (messages: ChatMessage[], options: ChatOptions, extra: Record<string, unknown> = {}) => {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role, content: message.content })),
+        max_tokens: options.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        temperature: options.temperature,
+        ...extra,
+      }),
+      signal: options.signal,
+    });
+  };
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async chat(messages, options = {}) {
+      const response = await send(messages, options);
+      if (!response.ok) throw await readError(response, 'Chat');
+      const data = await response.json();
+      return (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+    },
+
+    async *streamChat(messages, options = {}) {
+      const response = await send(messages, options, { stream: true });
+      if (!response.ok || !response.body) throw await readError(response, 'Chat');
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'content_block_delta') {
+          const { delta } = JSON.parse(data);
+          if (delta?.type === 'text_delta' && delta.text) yield delta.text;
+        } else if (event === 'error') {
+          throw new Error(`Chat stream failed: ${data}`);
+        } else if (event === 'message_stop') {
+          break;
+        }
+      }
+    },
+
+    // Forcing a single tool call is how Anthropic returns schema-shaped JSON
+    async structured(messages, options) {
+      const response = await send(messages, options, {
+        tools: [{ name: options.schemaName, description: 'Record the result', input_schema: options.schema }],
+        tool_choice: { type: 'tool', name: options.schemaName },
+      });
+      if (!response.ok) throw await readError(response, 'Structured output');
+      const data = await response.json();
+      const toolUse = (data.content || []).find((block: { type: string }) => block.type === 'tool_use');
+      return toolUse?.input ?? null;
+    },
+  };
+};
+
+// Builds the simplest value that satisfies a strict-mode schema, so fake analyses pass validation
+const fakeValueForSchema = (schema: Record<string, unknown>, key: string): unknown => {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes('null')) return null;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (types.includes('object')) {
+    const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>;
+    return Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, fakeValueForSchema(property, name)]));
+  }
+  if (types.includes('array')) return [];
+  if (types.includes('number') || types.includes('integer')) return 0;
+  if (types.includes('boolean')) return false;
+  return `Fake ${key}`;
+};
+
+const lastUserMessage = (messages: ChatMessage[]) =>
+  [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+
+export const createFakeProvider = (): LlmProvider => ({
+  name: 'fake',
+  model: DEFAULT_CHAT_MODELS.fake,
+
+  async chat(messages) {
+    return `Fake response to: ${lastUserMessage(messages).slice(0, 200)}`;
+  },
+
+  async *streamChat(messages) {
+    const reply = `Fake response to: ${lastUserMessage(messages).slice(0, 200)}`;
+    for (const word of reply.split(/(?<= )/)) {
+      yield word;
+    }
+  },
+
+  async structured(_messages, options) {
+    return fakeValueForSchema(options.schema, options.schemaName);
+  },
+});
+
+// Same input, same unit vector: similarity search works, just without meaning
+export const createFakeEmbeddings = (): EmbeddingProvider => ({
+  name: 'fake',
+  model: 'fake-embedding',
+  async embed(input) {
+    let seed = 2166136261;
+    for (let i = 0; i < input.length; i++) {
+      seed = Math.imul(seed ^ input.charCodeAt(i), 16777619) >>> 0;
+    }
+
+    const vector = Array.from({ length: EMBEDDING_DIMENSIONS }, () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      return seed / 0xffffffff - 0.5;
+    });
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return vector.map(value => value / norm);
+  },
+});
+
+export const createLlmProvider = (settings?: CoachAiSettings | null): LlmProvider => {
+  const name = settings?.provider
+    ?? parseProviderName(Deno.env.get('LLM_PROVIDER'), 'LLM_PROVIDER')
+    ?? 'openai';
+  const model = settings?.chat_model || Deno.env.get('LLM_CHAT_MODEL') || DEFAULT_CHAT_MODELS[name];
+
+  if (name === 'fake') return createFakeProvider();
+  if (name === 'anthropic') return createAnthropicProvider(model);
+  return createOpenAiCompatibleProvider(openAiCompatibleConfig(name, model));
+};
+
+export const createEmbeddingProvider = (settings?: CoachAiSettings | null): EmbeddingProvider => {
+  // Embeddings follow the chat provider when it has them, so a coach who picks one provider for
+  // data residency doesn't send transcripts anywhere else
+  const withEmbeddings = (provider: LlmProviderName | null | undefined) => provider && provider !== 'anthropic' ? provider : null;
+  const name = settings?.embedding_provider
+    ?? withEmbeddings(settings?.provider)
+    ?? parseProviderName(Deno.env.get('EMBEDDING_PROVIDER'), 'EMBEDDING_PROVIDER')
+    ?? withEmbeddings(parseProviderName(Deno.env.get('LLM_PROVIDER'), 'LLM_PROVIDER'))
+    ?? 'openai';
+
+  if (name === 'anthropic') {
+    throw new Error('Anthropic does not provide embeddings; choose another embedding provider');
+  }
+
+  if (name === 'fake') return createFakeEmbeddings();
+
+  const model = settings?.embedding_model || Deno.env.get('EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODELS[name];
+  if (!model) {
+    throw new Error(`Embedding model for the ${name} provider not configured`);
+  }
+
+  return createOpenAiCompatibleEmbeddings(openAiCompatibleConfig(name, model));
+};
+
+// Load a coach's overrides. Missing rows (and lookup errors) mean the deployment defaults apply
+export const loadCoachAiSettings = async (supabase: SupabaseClient, coachId: string): Promise<CoachAiSettings | null> => {
+  const { data, error } = await supabase
+    .from('coach_ai_settings')
+    .select('provider, chat_model, embedding_provider, embedding_model')
+    .eq('coach_id', coachId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ [LLM] Could not load AI settings for coach', coachId, error);
+    return null;
+  }
+
+  return data;
+};
@@ -0,0 +1,105 @@
+// Fetches a URL that came from an untrusted payload (e.g. a file link in a webhook) without
+// letting it reach the edge runtime's own network: loopback, private, link-local (cloud
+// metadata) and other non-public addresses are refused, for the first request and every
+// redirect. Hosts are resolved before connecting; if DNS can't be checked the fetch fails.
+
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_HOST_SUFFIXES = ['localhost', '.local', '.internal', '.localdomain'];
+
+const parseIpv4 = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+};
+
+const isPublicIpv4 = ([a, b, c]: number[]): boolean => {
+  if (a === 0 || a === 10 || a === 127) return false;
+  if (a === 100 && b >= 64 && b <= 127) return false; // carrier-grade NAT
+  if (a === 169 && b === 254) return false; // link-local, cloud metadata
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 0 && c === 0) return false;
+  if (a === 192 && b === 168) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false; // benchmarking
+  if (a >= 224) return false; // multicast and reserved
+  return true;
+};
+
+const isPublicIpv6 = (address: string): boolean => {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (normalized === '::' || normalized === '::1') return false;
+
+  // IPv4-mapped and NAT64 addresses carry an IPv4 address in their last 32 bits
+  const embeddedIpv4 = normalized.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embeddedIpv4) {
+    const octets = parseIpv4(embeddedIpv4[1]);
+    return !!octets && isPublicIpv4(octets);
+  }
+  if (normalized.startsWith('::ffff:') || normalized.startsWith('64:ff9b:')) return false;
+
+  const firstHextet = parseInt(normalized.split(':')[0] || '0', 16);
+  if ((firstHextet & 0xfe00) === 0xfc00) return false; // unique local fc00::/7
+  if ((firstHextet & 0xffc0) === 0xfe80) return false; // link-local fe80::/10
+  if ((firstHextet & 0xff00) === 0xff00) return false; // multicast
+  return true;
+};
+
+const isPublicAddress = (address: string): boolean => {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPublicIpv4(ipv4);
+  return address.includes(':') && isPublicIpv6(address);
+};
+
+const resolveHost = async (hostname: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap(lookup => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+const assertPublicUrl = async (url: URL): Promise<void> => {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Unsupported URL scheme ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (BLOCKED_HOST_SUFFIXES.some(suffix => hostname === suffix.replace(/^\./, '') || hostname.endsWith(suffix))) {
+    throw new Error(`Refusing to fetch from ${hostname}`);
+  }
+
+  if (parseIpv4(hostname) || hostname.includes(':')) {
+    if (!isPublicAddress(hostname)) {
+      throw new Error(`Refusing to fetch from non-public address ${hostname}`);
+    }
+    return;
+  }
+
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error(`Refusing to fetch from ${hostname}: it resolves to a non-public address`);
+  }
+};
+
+export const fetchPublicUrl = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  let current = new URL(url);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicUrl(current);
+
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+
+  throw new Error(`Too many redirects fetching ${url}`);
+};
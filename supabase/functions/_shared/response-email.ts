@@ -0,0 +1,163 @@
+// Coach-branded emails to clients: check-in responses, missed check-in reminders and portal sign-in links.
+// The app re-exports renderTemplate (src/lib/responseEmail.ts) to preview templates in Account
+// Settings - keep this module free of imports.
+
+export interface EmailBranding {
+  from_name: string | null;
+  reply_to_email: string | null;
+  brand_color: string;
+  logo_url: string | null;
+  subject_template: string;
+  intro_template: string;
+  signature: string | null;
+}
+
+// Matches the column defaults in coach_email_settings
+export const DEFAULT_EMAIL_BRANDING: EmailBranding = {
+  from_name: null,
+  reply_to_email: null,
+  brand_color: '#0d9488',
+  logo_url: null,
+  subject_template: 'Your check-in response from {{coach_name}}',
+  intro_template: "Hi {{client_name}}, here's my response to your check-in from {{checkin_date}}.",
+  signature: null,
+};
+
+export interface ResponseEmailVariables {
+  client_name: string;
+  coach_name: string;
+  checkin_date: string;
+}
+
+export const TEMPLATE_VARIABLES: (keyof ResponseEmailVariables)[] = ['client_name', 'coach_name', 'checkin_date'];
+
+// A recorded response is linked rather than attached; mail providers cap attachment sizes
+export interface ResponseEmailMedia {
+  url: string;
+  kind: 'video' | 'audio';
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Unknown placeholders render as empty strings rather than leaking "{{...}}" to clients
+export const renderTemplate = (template: string, variables: ResponseEmailVariables): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) =>
+    (variables as unknown as Record<string, string>)[key] ?? '');
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Blank lines become paragraphs, single newlines become <br>
+const toHtmlParagraphs = (text: string): string =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p style="margin:0 0 16px;line-height:1.6;">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// Logo (or the coach's name) on a brand-coloured bar above the body
+const renderLayout = (branding: EmailBranding, coachName: string, body: string): string => {
+  const header = branding.logo_url
+    ? `<img src="${escapeHtml(branding.logo_url)}" alt="${escapeHtml(coachName)}" style="max-height:48px;">`
+    : `<span style="font-size:20px;font-weight:bold;color:#ffffff;">${escapeHtml(coachName)}</span>`;
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <tr><td style="background:${branding.brand_color};padding:20px 24px;">${header}</td></tr>
+      <tr><td style="padding:24px;">${body}
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+};
+
+export const renderResponseEmail = (
+  branding: EmailBranding,
+  variables: ResponseEmailVariables,
+  response: string,
+  media: ResponseEmailMedia | null = null,
+): RenderedEmail => {
+  const subject = renderTemplate(branding.subject_template, variables).replace(/[\r\n]+/g, ' ').trim();
+  const intro = renderTemplate(branding.intro_template, variables);
+  const signature = branding.signature ? renderTemplate(branding.signature, variables) : variables.coach_name;
+
+  const mediaLabel = media?.kind === 'audio' ? 'Listen to my response' : 'Watch my response';
+  const mediaButton = media
+    ? `<p style="margin:0 0 16px;"><a href="${escapeHtml(media.url)}" style="display:inline-block;padding:12px 20px;background:${branding.brand_color};color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold;">${mediaLabel}</a></p>`
+    : '';
+  const responseBlock = response.trim()
+    ? `<div style="border-left:4px solid ${branding.brand_color};padding-left:16px;margin:0 0 16px;">${toHtmlParagraphs(response)}</div>`
+    : '';
+
+  const html = renderLayout(branding, variables.coach_name, `
+        ${toHtmlParagraphs(intro)}
+        ${mediaButton}
+        ${responseBlock}
+        ${toHtmlParagraphs(signature)}`);
+
+  const mediaLine = media ? `${mediaLabel}: ${media.url}` : '';
+  const text = [intro, mediaLine, response, signature].map(part => part.trim()).filter(Boolean).join('\n\n');
+
+  return { subject, html, text };
+};
+
+export interface CheckinReminderVariables {
+  client_name: string;
+  coach_name: string;
+  due_date: string;
+}
+
+// Sent once per missed check-in; the coach's signature is reused but not their response templates
+export const renderCheckinReminderEmail = (
+  branding: EmailBranding,
+  variables: CheckinReminderVariables,
+): RenderedEmail => {
+  const subject = `Checking in: your check-in was due ${variables.due_date}`;
+  const message = `Hi ${variables.client_name}, your check-in was due ${variables.due_date} and I haven't seen it yet.\n\nWhenever you have a moment, send it over so I can keep your plan on track. Just reply to this email if anything is getting in the way.`;
+  const signature = branding.signature
+    ? renderTemplate(branding.signature, { client_name: variables.client_name, coach_name: variables.coach_name, checkin_date: variables.due_date })
+    : variables.coach_name;
+
+  const html = renderLayout(branding, variables.coach_name, `
+        ${toHtmlParagraphs(message)}
+        ${toHtmlParagraphs(signature)}`);
+  const text = [message, signature].map(part => part.trim()).filter(Boolean).join('\n\n');
+
+  return { subject, html, text };
+};
+
+export interface PortalLinkVariables {
+  client_name: string;
+  coach_name: string;
+  link_url: string;
+  expires_in: string;
+}
+
+export const renderPortalLinkEmail = (
+  branding: EmailBranding,
+  variables: PortalLinkVariables,
+): RenderedEmail => {
+  const subject = `Your check-in portal link from ${variables.coach_name}`;
+  const message = `Hi ${variables.client_name}, use the button below to open your check-in portal. You can send check-ins, read my responses and follow your progress there.`;
+  const note = `The link works once and expires in ${variables.expires_in}. If you didn't ask for it, you can ignore this email.`;
+
+  const html = renderLayout(branding, variables.coach_name, `
+        ${toHtmlParagraphs(message)}
+        <p style="margin:0 0 16px;"><a href="${escapeHtml(variables.link_url)}" style="display:inline-block;padding:12px 20px;background:${branding.brand_color};color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold;">Open my portal</a></p>
+        ${toHtmlParagraphs(note)}`);
+  const text = [message, `Open my portal: ${variables.link_url}`, note].join('\n\n');
+
+  return { subject, html, text };
+};
@@ -0,0 +1,85 @@
+// Pluggable speech-to-text for check-in voice notes and videos. STT_PROVIDER picks the implementation:
+//   openai - Whisper via the OpenAI API (openai_api_key, optional STT_MODEL, default whisper-1)
+//   stub   - returns a fixed transcript without calling anything (local testing)
+
+export interface TranscriptionInput {
+  data: Blob;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language: string | null;
+  durationSeconds: number | null;
+}
+
+export interface SpeechToTextProvider {
+  name: string;
+  // Largest file the provider accepts; larger attachments fail before they are downloaded in full
+  maxFileBytes?: number;
+  transcribe(input: TranscriptionInput): Promise<TranscriptionResult>;
+}
+
+// Whisper rejects uploads over 25 MB
+const OPENAI_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+export const createOpenAiSpeechToText = (apiKey: string, model = 'whisper-1'): SpeechToTextProvider => ({
+  name: 'openai',
+  maxFileBytes: OPENAI_MAX_FILE_BYTES,
+  async transcribe(input) {
+    const form = new FormData();
+    form.append('file', new File([input.data], input.fileName, { type: input.mimeType }));
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+
+    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Transcription request failed (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    return {
+      text: (data.text || '').trim(),
+      language: data.language ?? null,
+      durationSeconds: typeof data.duration === 'number' ? data.duration : null,
+    };
+  },
+});
+
+export const createStubSpeechToText = (text?: string): SpeechToTextProvider => ({
+  name: 'stub',
+  async transcribe(input) {
+    console.log('🎙️ [StubSpeechToText] Would transcribe', JSON.stringify({ fileName: input.fileName, size: input.data.size }));
+    return {
+      text: text ?? `Stub transcript for ${input.fileName}.`,
+      language: 'en',
+      durationSeconds: null,
+    };
+  },
+});
+
+export const createSpeechToText = (): SpeechToTextProvider => {
+  const provider = (Deno.env.get('STT_PROVIDER') || 'openai').toLowerCase();
+
+  if (provider === 'stub') {
+    return createStubSpeechToText(Deno.env.get('STT_STUB_TEXT') || undefined);
+  }
+
+  if (provider !== 'openai') {
+    throw new Error(`Unknown STT_PROVIDER "${provider}"`);
+  }
+
+  const apiKey = Deno.env.get('openai_api_key')?.trim();
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+
+  return createOpenAiSpeechToText(apiKey, Deno.env.get('STT_MODEL') || undefined);
+};
@@ -0,0 +1,262 @@
+// Coach writing-style profiles: measure past responses, have the LLM describe the voice, and
+// format the result for draft and chat prompts. Used by build-style-profile,
+// draft-checkin-response and openai-checkin-chat.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { LlmProvider } from './llm.ts';
+
+export interface StyleSample {
+  response: string;
+  clientName: string;
+}
+
+export interface StyleStats {
+  sampleCount: number;
+  avgWordCount: number;
+  greetings: string[];
+  signOffs: string[];
+  commonPhrases: string[];
+  usesEmoji: boolean;
+}
+
+export interface StyleProfile {
+  user_id: string;
+  sample_count: number;
+  avg_word_count: number;
+  greetings: string[];
+  sign_offs: string[];
+  common_phrases: string[];
+  uses_emoji: boolean;
+  tone: string | null;
+  style_guide: string;
+  generated_at: string;
+}
+
+// Fewer responses than this say more about the check-ins than about the coach
+export const MIN_STYLE_SAMPLES = 5;
+export const MAX_STYLE_SAMPLES = 40;
+// Profiles older than this are rebuilt the next time a draft is requested
+export const STYLE_PROFILE_MAX_AGE_DAYS = 14;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'if', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'we', 'with', 'you', 'your',
+]);
+
+const MAX_OPENER_WORDS = 6;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// "Hey Sarah!" and "Hey Tom!" are the same greeting
+const anonymise = (line: string, clientName: string) => {
+  const firstName = clientName.split(' ')[0];
+  return firstName.length > 1
+    ? line.replace(new RegExp(`\\b${firstName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi'), '[name]')
+    : line;
+};
+
+const mostCommon = (values: string[], limit: number, minCount = 1) => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+};
+
+export const computeStyleStats = (samples: StyleSample[]): StyleStats => {
+  const greetings: string[] = [];
+  const signOffs: string[] = [];
+  const phrases: string[] = [];
+  let totalWords = 0;
+  let emojiResponses = 0;
+
+  for (const { response, clientName } of samples) {
+    const lines = response.split('\n').map(line => line.trim()).filter(Boolean);
+    totalWords += countWords(response);
+
+    if (/\p{Extended_Pictographic}/u.test(response)) emojiResponses++;
+
+    if (lines.length > 1 && countWords(lines[0]) <= MAX_OPENER_WORDS) {
+      greetings.push(anonymise(lines[0], clientName));
+    }
+    if (lines.length > 1 && countWords(lines[lines.length - 1]) <= MAX_OPENER_WORDS) {
+      signOffs.push(anonymise(lines[lines.length - 1], clientName));
+    }
+
+    // Three-word phrases, counted once per response so one long reply can't dominate
+    const words = response.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').split(/\s+/).filter(Boolean);
+    const seen = new Set<string>();
+    for (let i = 0; i + 3 <= words.length; i++) {
+      const trigram = words.slice(i, i + 3);
+      if (trigram.every(word => STOPWORDS.has(word))) continue;
+      seen.add(trigram.join(' '));
+    }
+    phrases.push(...seen);
+  }
+
+  const minPhraseCount = Math.max(3, Math.ceil(samples.length * 0.2));
+
+  return {
+    sampleCount: samples.length,
+    avgWordCount: samples.length ? Math.round(totalWords / samples.length) : 0,
+    greetings: mostCommon(greetings, 3, 2),
+    signOffs: mostCommon(signOffs, 3, 2),
+    commonPhrases: mostCommon(phrases, 10, minPhraseCount),
+    usesEmoji: samples.length > 0 && emojiResponses / samples.length >= 0.2,
+  };
+};
+
+const STYLE_SUMMARY_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['tone', 'style_guide'],
+  properties: {
+    tone: { type: 'string', description: 'Two to five words, e.g. "warm, direct and upbeat"' },
+    style_guide: {
+      type: 'string',
+      description: 'Four to eight short bullet points, written to someone imitating this coach',
+    },
+  },
+};
+
+// Responses sent to the LLM; the measured stats already cover the rest
+const LLM_SAMPLE_LIMIT = 15;
+const LLM_SAMPLE_CHARS = 800;
+
+export const summariseStyle = async (
+  llm: LlmProvider,
+  samples: StyleSample[],
+  stats: StyleStats,
+): Promise<{ tone: string | null; style_guide: string }> => {
+  const examples = samples
+    .slice(0, LLM_SAMPLE_LIMIT)
+    .map((sample, index) => `--- Response ${index + 1} ---\n${anonymise(sample.response, sample.clientName).slice(0, LLM_SAMPLE_CHARS)}`)
+    .join('\n\n');
+
+  const result = await llm.structured(
+    [
+      {
+        role: 'system',
+        content: 'You analyse how a fitness and wellness coach writes to their clients, so an assistant can draft replies that sound like them. Describe voice, structure and habits, not the advice itself.',
+      },
+      {
+        role: 'user',
+        content: `These are ${samples.length} of the coach's recent replies to client check-ins (client names replaced with [name]). On average they are ${stats.avgWordCount} words long.
+
+${examples}
+
+Describe the coach's tone and write a style guide covering greeting and sign-off habits, length and structure, formality, how they give feedback, and any phrases or punctuation they favour.`,
+      },
+    ],
+    { schemaName: 'style_summary', schema: STYLE_SUMMARY_SCHEMA, maxTokens: 600, temperature: 0.3 },
+  ) as { tone?: unknown; style_guide?: unknown } | null;
+
+  const styleGuide = typeof result?.style_guide === 'string' ? result.style_guide.trim() : '';
+  if (!styleGuide) {
+    throw new Error('The model did not return a style guide');
+  }
+
+  return {
+    tone: typeof result?.tone === 'string' && result.tone.trim() ? result.tone.trim() : null,
+    style_guide: styleGuide,
+  };
+};
+
+// Responses written by this coach on `coachId`'s team. Before `responded_by` existed, the
+// check-in's assigned coach (or the head coach, for unassigned check-ins) is the best guess at
+// who replied. Samples are sent to the team's LLM provider, so other teams' clients stay out
+export const loadStyleSamples = async (
+  supabase: SupabaseClient,
+  userId: string,
+  coachId: string,
+  limit = MAX_STYLE_SAMPLES,
+): Promise<StyleSample[]> => {
+  const { data, error } = await supabase
+    .from('checkins')
+    .select('client_name, coach_response')
+    .eq('coach_id', coachId)
+    .not('coach_response', 'is', null)
+    .neq('coach_response', '')
+    .or(`responded_by.eq.${userId},and(responded_by.is.null,assigned_coach_id.eq.${userId}),and(responded_by.is.null,assigned_coach_id.is.null,coach_id.eq.${userId})`)
+    .order('response_submitted_at', { ascending: false, nullsFirst: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load past responses: ${error.message}`);
+  }
+
+  return (data || [])
+    .filter(row => row.coach_response.trim().length > 0)
+    .map(row => ({ response: row.coach_response.trim(), clientName: row.client_name || '' }));
+};
+
+// Callers check for MIN_STYLE_SAMPLES first; `supabase` must be able to write the profile row
+export const buildStyleProfile = async (
+  supabase: SupabaseClient,
+  llm: LlmProvider,
+  userId: string,
+  samples: StyleSample[],
+): Promise<StyleProfile> => {
+  const stats = computeStyleStats(samples);
+  const summary = await summariseStyle(llm, samples, stats);
+
+  const { data, error } = await supabase
+    .from('coach_style_profiles')
+    .upsert({
+      user_id: userId,
+      sample_count: stats.sampleCount,
+      avg_word_count: stats.avgWordCount,
+      greetings: stats.greetings,
+      sign_offs: stats.signOffs,
+      common_phrases: stats.commonPhrases,
+      uses_emoji: stats.usesEmoji,
+      tone: summary.tone,
+      style_guide: summary.style_guide,
+      generated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to store style profile: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const loadStyleProfile = async (supabase: SupabaseClient, userId: string): Promise<StyleProfile | null> => {
+  const { data, error } = await supabase
+    .from('coach_style_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ [StyleProfile] Could not load style profile for', userId, error);
+    return null;
+  }
+
+  return data;
+};
+
+export const isStyleProfileStale = (profile: StyleProfile) =>
+  Date.now() - new Date(profile.generated_at).getTime() > STYLE_PROFILE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+export const formatStyleProfile = (profile: StyleProfile): string => {
+  const lines = [
+    profile.tone ? `Tone: ${profile.tone}` : null,
+    `Typical length: about ${profile.avg_word_count} words`,
+    profile.greetings.length ? `Usual greetings: ${profile.greetings.map(greeting => `"${greeting}"`).join(', ')}` : null,
+    profile.sign_offs.length ? `Usual sign-offs: ${profile.sign_offs.map(signOff => `"${signOff}"`).join(', ')}` : null,
+    profile.common_phrases.length ? `Phrases they often use: ${profile.common_phrases.map(phrase => `"${phrase}"`).join(', ')}` : null,
+    profile.uses_emoji ? 'Uses emoji occasionally' : 'Does not use emoji',
+    '',
+    profile.style_guide,
+  ];
+
+  return lines.filter(line => line !== null).join('\n');
+};
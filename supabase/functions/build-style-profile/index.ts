@@ -0,0 +1,107 @@
+/*
+  # Build Coach Style Profile Function
+
+  This edge function distills the calling coach's past check-in responses into a writing-style profile:
+  1. Loads up to 40 of their most recent written responses on the head coach's team
+  2. Measures length, greetings, sign-offs, recurring phrases and emoji use
+  3. Asks the team's LLM provider to summarise tone and write a style guide
+  4. Stores the result in `coach_style_profiles`, which draft-checkin-response and
+     openai-checkin-chat use to write in the coach's voice
+
+  Each coach gets their own profile, built only from the responses they wrote.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - LLM provider credentials (see _shared/llm.ts; openai_api_key by default)
+
+  ## API Usage
+  - POST /build-style-profile with { coachId?: string }
+    - `coachId` is the team's head coach, whose AI settings pick the provider and whose check-ins
+      the responses are taken from; defaults to the caller
+  - Returns { profile: StyleProfile | null, sampleCount: number }
+    - `profile` is null when the coach has fewer than 5 written responses
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createLlmProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+import { buildStyleProfile, loadStyleSamples, MIN_STYLE_SAMPLES } from '../_shared/style-profile.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication failed' }, 401)
+    }
+
+    const { coachId }: { coachId?: string } = await req.json().catch(() => ({}))
+
+    // Profiles are written with the service role; coaches can only read their own
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    const headCoachId = coachId || user.id
+    const samples = await loadStyleSamples(supabase, user.id, headCoachId)
+    if (samples.length < MIN_STYLE_SAMPLES) {
+      console.log('ℹ️ [StyleProfile] Not enough responses to build a profile for', user.id, '-', samples.length)
+      return jsonResponse({ profile: null, sampleCount: samples.length })
+    }
+
+    let llm
+    try {
+      // Read with the caller's token so only their own team's settings can be picked
+      llm = createLlmProvider(await loadCoachAiSettings(userClient, headCoachId))
+    } catch (configError) {
+      return jsonResponse({ error: configError.message }, 500)
+    }
+
+    console.log('🧠 [StyleProfile] Building profile for', user.id, 'from', samples.length, 'responses with', llm.name)
+    const profile = await buildStyleProfile(supabase, llm, user.id, samples)
+
+    console.log('✅ [StyleProfile] Stored profile for', user.id)
+    return jsonResponse({ profile, sampleCount: samples.length })
+  } catch (error) {
+    console.error('❌ [StyleProfile] Unexpected error:', error)
+    return jsonResponse({ error: 'Failed to build style profile', details: error.message }, 500)
+  }
+})
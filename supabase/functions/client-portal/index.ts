@@ -0,0 +1,545 @@
+/*
+  # Client Portal Function
+
+  Backend for the client self-service portal (/portal). Clients are not Supabase Auth users:
+  each credential is a random token scoped to one `clients` row, stored hashed in
+  `client_portal_tokens`. Every read and write is done with the service role and filtered to
+  the token's client, so a client can only ever see their own check-ins.
+
+  1. `request_link` - A client enters their email; every active client record with that email
+     is sent a single-use magic link (valid 30 minutes). Always answers the same way, so the
+     form can't be used to find out who is a client
+  2. `invite` - A coach (with their JWT) emails a client a magic link valid for 7 days
+  3. `exchange` - Trades a magic link for a 30-day session token
+  4. `overview` - The client's check-ins with coach responses, goals, check-in form and metrics
+  5. `submit_checkin` - Stores a check-in from the coach's default check-in form, like
+     webhook-checkin does, and queues it for analysis
+  6. `sign_out` - Revokes the session
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - APP_URL: Public URL of the web app; sign-in links always point here, never at the caller's Origin
+  - EMAIL_FROM / EMAIL_TRANSPORT / SMTP_*: Email settings for links (see deliver-checkin-response)
+  - Embedding provider credentials (see _shared/llm.ts; openai_api_key by default)
+
+  ## API Usage
+  - POST /client-portal with { action: 'request_link', email: string } - Returns { sent: true }
+  - POST /client-portal with { action: 'invite', clientId: string } and the coach's JWT
+    - Returns { portalUrl: string, emailSent: boolean }
+  - POST /client-portal with { action: 'exchange', token: string } - Returns { sessionToken, expiresAt }
+  - POST /client-portal with { action: 'overview', sessionToken: string } - Returns PortalOverview
+  - POST /client-portal with { action: 'submit_checkin', sessionToken: string, submissionId: string,
+    answers: Record<string, unknown>, notes?: string } - Returns { checkinId: string, duplicate?: boolean }
+  - POST /client-portal with { action: 'sign_out', sessionToken: string } - Returns { signedOut: true }
+  - Expired or revoked sessions get a 401 with { error, sessionExpired: true }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { parseAnswer, type CheckinQuestion, type ParsedAnswer } from '../_shared/checkin-answers.ts'
+import { createEmailTransport } from '../_shared/email-transport.ts'
+import { createEmbeddingProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+import { DEFAULT_EMAIL_BRANDING, renderPortalLinkEmail, type EmailBranding } from '../_shared/response-email.ts'
+import { invokeInBackground } from '../_shared/background.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface PortalRequest {
+  action: 'request_link' | 'invite' | 'exchange' | 'overview' | 'submit_checkin' | 'sign_out';
+  email?: string;
+  clientId?: string;
+  token?: string;
+  sessionToken?: string;
+  submissionId?: string;
+  answers?: Record<string, unknown>;
+  notes?: string;
+}
+
+interface PortalSession {
+  id: string;
+  client_id: string;
+  coach_id: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const REQUESTED_LINK_TTL_MS = 30 * MINUTE_MS
+const INVITE_LINK_TTL_MS = 7 * DAY_MS
+const SESSION_TTL_MS = 30 * DAY_MS
+// One emailed link per client per minute, however often the form is submitted
+const LINK_REQUEST_COOLDOWN_MS = MINUTE_MS
+const MAX_CLIENTS_PER_EMAIL = 5
+const HISTORY_LIMIT = 50
+const PROGRESS_WEEKS = 26
+const MAX_NOTES_CHARS = 10000
+const MEDIA_LINK_EXPIRY_SECONDS = 60 * 60
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const newToken = () => crypto.randomUUID().replaceAll('-', '') + crypto.randomUUID().replaceAll('-', '')
+
+const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Questions go to the browser without the webhook selectors
+const toPortalQuestion = ({ id, label, type, unit, scale_min, scale_max, options }: CheckinQuestion) =>
+  ({ id, label, type, unit, scale_min, scale_max, options })
+
+const formatAnswer = (answer: ParsedAnswer) => {
+  if (answer.value_boolean !== null) return answer.value_boolean ? 'Yes' : 'No'
+  if (answer.value_number !== null) return `${answer.value_number}${answer.unit ? ` ${answer.unit}` : ''}`
+  return answer.value_text || ''
+}
+
+const loadSession = async (supabase: SupabaseClient, sessionToken?: string): Promise<PortalSession | null> => {
+  if (!sessionToken) return null
+
+  const { data: session } = await supabase
+    .from('client_portal_tokens')
+    .select('id, client_id, coach_id, expires_at, revoked_at')
+    .eq('token_hash', await hashToken(sessionToken))
+    .eq('kind', 'session')
+    .maybeSingle()
+
+  if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    return null
+  }
+
+  // The client may have been moved to another coach, paused or archived since signing in
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('id', session.client_id)
+    .eq('coach_id', session.coach_id)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (!client) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  await Promise.all([
+    supabase.from('client_portal_tokens').update({ last_used_at: now }).eq('id', session.id),
+    supabase.from('clients').update({ portal_last_seen_at: now }).eq('id', session.client_id),
+  ])
+
+  return session
+}
+
+const sendPortalLink = async (
+  supabase: SupabaseClient,
+  appUrl: string,
+  client: { id: string; coach_id: string; full_name: string; email: string },
+  ttlMs: number,
+  createdBy: string | null,
+) => {
+  const token = newToken()
+  const { error: tokenError } = await supabase.from('client_portal_tokens').insert({
+    client_id: client.id,
+    coach_id: client.coach_id,
+    kind: 'magic_link',
+    token_hash: await hashToken(token),
+    expires_at: new Date(Date.now() + ttlMs).toISOString(),
+    created_by: createdBy,
+  })
+
+  if (tokenError) {
+    throw new Error(`Failed to create portal link: ${tokenError.message}`)
+  }
+
+  const portalUrl = `${appUrl}/portal/auth?token=${token}`
+  const emailFrom = Deno.env.get('EMAIL_FROM')
+  if (!emailFrom) {
+    console.warn('⚠️ [ClientPortal] EMAIL_FROM is not configured; portal link not emailed')
+    return { portalUrl, emailSent: false }
+  }
+
+  const [{ data: settings }, { data: coachProfile }] = await Promise.all([
+    supabase.from('coach_email_settings').select('*').eq('coach_id', client.coach_id).maybeSingle(),
+    supabase.from('user_profiles').select('full_name, email').eq('id', client.coach_id).maybeSingle(),
+  ])
+
+  const branding: EmailBranding = { ...DEFAULT_EMAIL_BRANDING, ...(settings || {}) }
+  const coachName = branding.from_name || coachProfile?.full_name || 'Your coach'
+  const email = renderPortalLinkEmail(branding, {
+    client_name: client.full_name,
+    coach_name: coachName,
+    link_url: portalUrl,
+    expires_in: ttlMs >= DAY_MS ? `${Math.round(ttlMs / DAY_MS)} days` : `${Math.round(ttlMs / MINUTE_MS)} minutes`,
+  })
+
+  try {
+    const transport = createEmailTransport()
+    await transport.send({
+      to: client.email,
+      from: emailFrom,
+      fromName: coachName,
+      replyTo: branding.reply_to_email || coachProfile?.email || null,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    })
+    return { portalUrl, emailSent: true }
+  } catch (sendError) {
+    console.error('❌ [ClientPortal] Failed to email portal link to client', client.id, sendError)
+    return { portalUrl, emailSent: false }
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: PortalRequest = await req.json()
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    // Links carry a sign-in token, so a caller-supplied Origin could send them to another host
+    const appUrl = (Deno.env.get('APP_URL') || '').replace(/\/$/, '')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    switch (body.action) {
+      case 'request_link': {
+        const email = body.email?.trim().toLowerCase()
+        if (!email || !EMAIL_PATTERN.test(email)) {
+          return jsonResponse({ error: 'A valid email address is required' }, 400)
+        }
+
+        if (!appUrl) {
+          return jsonResponse({ error: 'APP_URL is not configured' }, 500)
+        }
+
+        // The same person can be a client of several coaches; each record gets its own link.
+        // Emails are stored as typed, so match case-insensitively (with LIKE wildcards escaped).
+        const { data: clients } = await supabase
+          .from('clients')
+          .select('id, coach_id, full_name, email')
+          .ilike('email', email.replace(/[\\%_]/g, match => `\\${match}`))
+          .eq('status', 'active')
+          .limit(MAX_CLIENTS_PER_EMAIL)
+
+        for (const client of clients || []) {
+          const { count } = await supabase
+            .from('client_portal_tokens')
+            .select('id', { count: 'exact', head: true })
+            .eq('client_id', client.id)
+            .eq('kind', 'magic_link')
+            .gt('created_at', new Date(Date.now() - LINK_REQUEST_COOLDOWN_MS).toISOString())
+
+          if ((count ?? 0) > 0) continue
+
+          const { emailSent } = await sendPortalLink(supabase, appUrl, client, REQUESTED_LINK_TTL_MS, null)
+          console.log('🔗 [ClientPortal] Sign-in link for client', client.id, emailSent ? 'emailed' : 'not emailed')
+        }
+
+        return jsonResponse({ sent: true })
+      }
+
+      case 'invite': {
+        const authHeader = req.headers.get('Authorization')
+        if (!authHeader) {
+          return jsonResponse({ error: 'No authorization header' }, 401)
+        }
+
+        if (!body.clientId) {
+          return jsonResponse({ error: 'clientId is required' }, 400)
+        }
+
+        if (!appUrl) {
+          return jsonResponse({ error: 'APP_URL is not configured' }, 500)
+        }
+
+        // Read the client with the coach's token so RLS decides who can invite
+        const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        })
+
+        const { data: { user }, error: userError } = await userClient.auth.getUser()
+        if (userError || !user) {
+          return jsonResponse({ error: 'Authentication failed' }, 401)
+        }
+
+        const { data: client } = await userClient
+          .from('clients')
+          .select('id, coach_id, full_name, email')
+          .eq('id', body.clientId)
+          .maybeSingle()
+
+        if (!client) {
+          return jsonResponse({ error: 'Client not found' }, 404)
+        }
+
+        if (!client.email?.trim()) {
+          return jsonResponse({ error: 'Add an email address for this client first' }, 400)
+        }
+
+        const result = await sendPortalLink(supabase, appUrl, { ...client, email: client.email.trim() }, INVITE_LINK_TTL_MS, user.id)
+        console.log('✅ [ClientPortal] Portal invite for client', client.id, 'by', user.id, result.emailSent ? '(emailed)' : '(not emailed)')
+        return jsonResponse(result)
+      }
+
+      case 'exchange': {
+        if (!body.token) {
+          return jsonResponse({ error: 'token is required' }, 400)
+        }
+
+        // Marking the link used in the same statement means a link can only be exchanged once
+        const { data: link } = await supabase
+          .from('client_portal_tokens')
+          .update({ used_at: new Date().toISOString() })
+          .eq('token_hash', await hashToken(body.token))
+          .eq('kind', 'magic_link')
+          .is('used_at', null)
+          .is('revoked_at', null)
+          .gt('expires_at', new Date().toISOString())
+          .select('client_id, coach_id')
+          .maybeSingle()
+
+        if (!link) {
+          return jsonResponse({ error: 'This link has expired or was already used. Request a new one.' }, 401)
+        }
+
+        const sessionToken = newToken()
+        const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString()
+        const { error: sessionError } = await supabase.from('client_portal_tokens').insert({
+          client_id: link.client_id,
+          coach_id: link.coach_id,
+          kind: 'session',
+          token_hash: await hashToken(sessionToken),
+          expires_at: expiresAt,
+        })
+
+        if (sessionError) {
+          console.error('❌ [ClientPortal] Failed to create session:', sessionError)
+          return jsonResponse({ error: 'Failed to sign in' }, 500)
+        }
+
+        console.log('✅ [ClientPortal] Client', link.client_id, 'signed in')
+        return jsonResponse({ sessionToken, expiresAt })
+      }
+
+      case 'overview': {
+        const session = await loadSession(supabase, body.sessionToken)
+        if (!session) {
+          return jsonResponse({ error: 'Your session has expired. Sign in again.', sessionExpired: true }, 401)
+        }
+
+        const since = new Date(Date.now() - PROGRESS_WEEKS * 7 * DAY_MS).toISOString()
+        const [{ data: client }, { data: checkins }, { data: form }, { data: answers }, { data: settings }, { data: coachProfile }] = await Promise.all([
+          supabase
+            .from('clients')
+            .select('id, full_name, goals, status, checkin_cadence_days, checkin_cadence_weekday, next_checkin_due_at')
+            .eq('id', session.client_id)
+            .eq('coach_id', session.coach_id)
+            .single(),
+          supabase
+            .from('checkins')
+            .select('id, date, status, transcript, coach_response, response_type, response_submitted_at, response_media_path')
+            .eq('client_id', session.client_id)
+            .eq('coach_id', session.coach_id)
+            .order('date', { ascending: false })
+            .limit(HISTORY_LIMIT),
+          supabase
+            .from('checkin_forms')
+            .select('id, name, description, questions')
+            .eq('coach_id', session.coach_id)
+            .eq('is_default', true)
+            .maybeSingle(),
+          supabase
+            .from('checkin_answers')
+            .select('checkin_id, question_id, question_label, question_type, unit, value_number, value_text, value_boolean, answered_at')
+            .eq('client_id', session.client_id)
+            .eq('coach_id', session.coach_id)
+            .gte('answered_at', since)
+            .order('answered_at', { ascending: true }),
+          supabase.from('coach_email_settings').select('from_name, brand_color, logo_url').eq('coach_id', session.coach_id).maybeSingle(),
+          supabase.from('user_profiles').select('full_name').eq('id', session.coach_id).maybeSingle(),
+        ])
+
+        // Recorded responses are played from short-lived signed links
+        const history = await Promise.all((checkins || []).map(async ({ response_media_path, ...checkin }) => {
+          const responded = checkin.status === 'responded'
+          let responseMediaUrl: string | null = null
+          if (responded && response_media_path) {
+            const { data: signed } = await supabase.storage
+              .from('response-media')
+              .createSignedUrl(response_media_path, MEDIA_LINK_EXPIRY_SECONDS)
+            responseMediaUrl = signed?.signedUrl ?? null
+          }
+          return {
+            ...checkin,
+            // Drafts stay private until the coach submits the response
+            coach_response: responded ? checkin.coach_response : null,
+            response_media_url: responseMediaUrl,
+          }
+        }))
+
+        return jsonResponse({
+          client,
+          coach: {
+            name: settings?.from_name || coachProfile?.full_name || 'Your coach',
+            brand_color: settings?.brand_color || DEFAULT_EMAIL_BRANDING.brand_color,
+            logo_url: settings?.logo_url || null,
+          },
+          form: form ? { ...form, questions: (form.questions || []).map(toPortalQuestion) } : null,
+          checkins: history,
+          answers: answers || [],
+        })
+      }
+
+      case 'submit_checkin': {
+        const session = await loadSession(supabase, body.sessionToken)
+        if (!session) {
+          return jsonResponse({ error: 'Your session has expired. Sign in again.', sessionExpired: true }, 401)
+        }
+
+        if (!body.submissionId) {
+          return jsonResponse({ error: 'submissionId is required' }, 400)
+        }
+
+        const notes = (body.notes || '').trim().slice(0, MAX_NOTES_CHARS)
+        // Scoped to the client so one client's submission ids can never match another's
+        const idempotencyKey = `portal:${session.client_id}:${body.submissionId}`
+
+        const findExistingCheckin = async () => {
+          const { data } = await supabase
+            .from('checkins')
+            .select('id')
+            .eq('coach_id', session.coach_id)
+            .eq('idempotency_key', idempotencyKey)
+            .maybeSingle()
+          return data
+        }
+
+        // A double-clicked submit or a retried request returns the first check-in
+        const existing = await findExistingCheckin()
+        if (existing) {
+          return jsonResponse({ checkinId: existing.id, duplicate: true })
+        }
+
+        const [{ data: client }, { data: form }] = await Promise.all([
+          supabase.from('clients').select('id, full_name, assigned_coach_id').eq('id', session.client_id).eq('coach_id', session.coach_id).single(),
+          supabase.from('checkin_forms').select('id, questions').eq('coach_id', session.coach_id).eq('is_default', true).maybeSingle(),
+        ])
+
+        const parsedAnswers = (form?.questions || [])
+          .map((question: CheckinQuestion) => parseAnswer(question, body.answers?.[question.id]))
+          .filter((answer: ParsedAnswer | null): answer is ParsedAnswer => answer !== null)
+
+        if (parsedAnswers.length === 0 && !notes) {
+          return jsonResponse({ error: 'Answer at least one question or add a note' }, 400)
+        }
+
+        const transcript = [
+          parsedAnswers.map((answer: ParsedAnswer) => `${answer.question_label}: ${formatAnswer(answer)}`).join('\n'),
+          notes,
+        ].filter(Boolean).join('\n\n')
+
+        let embedding = null
+        try {
+          // A missing or misconfigured provider only costs the embedding, never the check-in
+          const embeddings = createEmbeddingProvider(await loadCoachAiSettings(supabase, session.coach_id))
+          embedding = await embeddings.embed(transcript)
+        } catch (embeddingError) {
+          console.error('❌ [ClientPortal] Error generating embedding:', embeddingError)
+        }
+
+        const { data: checkin, error: insertError } = await supabase
+          .from('checkins')
+          .insert({
+            coach_id: session.coach_id,
+            client_id: client.id,
+            assigned_coach_id: client.assigned_coach_id || null,
+            client_name: client.full_name,
+            transcript,
+            embedding,
+            raw_data: { source: 'client_portal', form_id: form?.id ?? null, answers: body.answers || {}, notes },
+            date: new Date().toISOString(),
+            idempotency_key: idempotencyKey,
+          })
+          .select('id, date')
+          .single()
+
+        if (insertError) {
+          if (insertError.code === '23505') {
+            const raced = await findExistingCheckin()
+            if (raced) {
+              return jsonResponse({ checkinId: raced.id, duplicate: true })
+            }
+          }
+          console.error('❌ [ClientPortal] Error inserting check-in:', insertError)
+          return jsonResponse({ error: 'Failed to save your check-in' }, 500)
+        }
+
+        if (form && parsedAnswers.length > 0) {
+          const { error: answersError } = await supabase
+            .from('checkin_answers')
+            .insert(parsedAnswers.map((answer: ParsedAnswer) => ({
+              ...answer,
+              checkin_id: checkin.id,
+              coach_id: session.coach_id,
+              client_id: client.id,
+              form_id: form.id,
+              answered_at: checkin.date,
+            })))
+
+          if (answersError) {
+            // Answers are supplementary - the check-in itself is already stored
+            console.error('❌ [ClientPortal] Error storing check-in answers:', answersError)
+          }
+        }
+
+        // The insert trigger queued the analysis; run the worker now instead of waiting for the schedule
+        invokeInBackground(supabaseUrl, supabaseServiceKey, 'process-jobs')
+
+        console.log('✅ [ClientPortal] Check-in', checkin.id, 'submitted by client', client.id)
+        return jsonResponse({ checkinId: checkin.id })
+      }
+
+      case 'sign_out': {
+        if (body.sessionToken) {
+          await supabase
+            .from('client_portal_tokens')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('token_hash', await hashToken(body.sessionToken))
+            .eq('kind', 'session')
+        }
+        return jsonResponse({ signedOut: true })
+      }
+
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+  } catch (error) {
+    console.error('❌ [ClientPortal] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,232 @@
+/*
+  # Deliver Check-in Response Function
+
+  This edge function emails a coach's response to the client who sent the check-in:
+  1. Loads the check-in and client with the caller's JWT, so RLS decides who can send
+  2. Renders the coach-branded email from `coach_email_settings`
+  3. Sends it through the configured transport (SMTP, or a mock transport for testing)
+  4. Records the attempt in `response_deliveries` and the outcome on the check-in
+
+  A response that was already delivered is only sent again when `resend` is true.
+  Video and audio responses are linked with a signed URL that expires after 30 days.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - EMAIL_FROM: Sender address (the coach's name is used as the display name)
+  - EMAIL_TRANSPORT: 'smtp' (default) or 'mock'
+  - SMTP_HOST / SMTP_PORT / SMTP_USERNAME / SMTP_PASSWORD / SMTP_SECURE: SMTP settings
+
+  ## API Usage
+  - POST /deliver-checkin-response with { checkinId: string, resend?: boolean }
+  - Returns { delivery: ResponseDelivery, alreadySent?: boolean }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createEmailTransport } from '../_shared/email-transport.ts'
+import { DEFAULT_EMAIL_BRANDING, renderResponseEmail, type EmailBranding, type ResponseEmailMedia } from '../_shared/response-email.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface DeliverRequest {
+  checkinId: string;
+  resend?: boolean;
+}
+
+// A delivery stuck in 'sending' longer than this is assumed to have crashed
+const SENDING_LOCK_MS = 2 * 60 * 1000
+const MEDIA_LINK_EXPIRY_SECONDS = 30 * 24 * 60 * 60
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const { checkinId, resend = false }: DeliverRequest = await req.json()
+    if (!checkinId) {
+      return jsonResponse({ error: 'checkinId is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const emailFrom = Deno.env.get('EMAIL_FROM')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    if (!emailFrom) {
+      return jsonResponse({ error: 'EMAIL_FROM is not configured' }, 500)
+    }
+
+    // Create client with the caller's token so RLS decides which check-ins they can send
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication failed' }, 401)
+    }
+
+    const { data: checkin, error: checkinError } = await supabase
+      .from('checkins')
+      .select('id, coach_id, client_id, client_name, date, status, coach_response, response_type, response_media_path, response_delivery_status')
+      .eq('id', checkinId)
+      .maybeSingle()
+
+    if (checkinError || !checkin) {
+      return jsonResponse({ error: 'Check-in not found' }, 404)
+    }
+
+    if (!checkin.coach_response?.trim() && !checkin.response_media_path) {
+      return jsonResponse({ error: 'This check-in has no response to send' }, 400)
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const { data: lastDelivery } = await adminClient
+      .from('response_deliveries')
+      .select('*')
+      .eq('checkin_id', checkin.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lastDelivery?.status === 'sending' && Date.now() - new Date(lastDelivery.created_at).getTime() < SENDING_LOCK_MS) {
+      return jsonResponse({ error: 'This response is already being sent' }, 409)
+    }
+
+    if (lastDelivery?.status === 'sent' && !resend) {
+      return jsonResponse({ delivery: lastDelivery, alreadySent: true })
+    }
+
+    const [{ data: client }, { data: settings }, { data: coachProfile }] = await Promise.all([
+      checkin.client_id
+        ? supabase.from('clients').select('email, full_name').eq('id', checkin.client_id).maybeSingle()
+        : Promise.resolve({ data: null }),
+      supabase.from('coach_email_settings').select('*').eq('coach_id', checkin.coach_id).maybeSingle(),
+      adminClient.from('user_profiles').select('full_name, email').eq('id', checkin.coach_id).maybeSingle(),
+    ])
+
+    const branding: EmailBranding = { ...DEFAULT_EMAIL_BRANDING, ...(settings || {}) }
+    const coachName = branding.from_name || coachProfile?.full_name || 'Your coach'
+    const clientName = client?.full_name || checkin.client_name
+    const recipient = client?.email?.trim() || null
+
+    let media: ResponseEmailMedia | null = null
+    if (checkin.response_media_path) {
+      const { data: signed, error: signError } = await adminClient.storage
+        .from('response-media')
+        .createSignedUrl(checkin.response_media_path, MEDIA_LINK_EXPIRY_SECONDS)
+
+      if (signError || !signed) {
+        console.error('❌ [DeliverResponse] Failed to sign media link:', signError)
+        return jsonResponse({ error: 'Failed to create a link to the recording' }, 500)
+      }
+      media = { url: signed.signedUrl, kind: checkin.response_type === 'audio' ? 'audio' : 'video' }
+    }
+
+    const email = renderResponseEmail(branding, {
+      client_name: clientName,
+      coach_name: coachName,
+      checkin_date: new Date(checkin.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    }, checkin.coach_response || '', media)
+
+    const recordOutcome = async (deliveryId: string, status: string, fields: Record<string, unknown>) => {
+      const { data: delivery } = await adminClient
+        .from('response_deliveries')
+        .update({ status, ...fields })
+        .eq('id', deliveryId)
+        .select()
+        .single()
+
+      await adminClient
+        .from('checkins')
+        .update({
+          response_delivery_status: status,
+          ...(status === 'sent' ? { response_delivered_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', checkin.id)
+
+      return delivery
+    }
+
+    const { data: pending, error: insertError } = await adminClient
+      .from('response_deliveries')
+      .insert({
+        checkin_id: checkin.id,
+        coach_id: checkin.coach_id,
+        recipient,
+        subject: email.subject,
+        status: 'sending',
+        sent_by: user.id,
+      })
+      .select()
+      .single()
+
+    if (insertError || !pending) {
+      console.error('❌ [DeliverResponse] Failed to record delivery:', insertError)
+      return jsonResponse({ error: 'Failed to record delivery' }, 500)
+    }
+
+    if (!recipient) {
+      const delivery = await recordOutcome(pending.id, 'skipped', { error: 'Client has no email address' })
+      return jsonResponse({ delivery })
+    }
+
+    try {
+      const transport = createEmailTransport()
+      const { messageId } = await transport.send({
+        to: recipient,
+        from: emailFrom,
+        fromName: coachName,
+        replyTo: branding.reply_to_email || coachProfile?.email || null,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      })
+
+      const delivery = await recordOutcome(pending.id, 'sent', {
+        transport: transport.name,
+        provider_message_id: messageId,
+        sent_at: new Date().toISOString(),
+      })
+
+      console.log('✅ [DeliverResponse] Sent response for check-in', checkin.id, 'via', transport.name)
+      return jsonResponse({ delivery })
+    } catch (sendError) {
+      console.error('❌ [DeliverResponse] Failed to send email:', sendError)
+      const delivery = await recordOutcome(pending.id, 'failed', { error: sendError.message })
+      return jsonResponse({ delivery, error: 'Failed to send email' }, 502)
+    }
+  } catch (error) {
+    console.error('❌ [DeliverResponse] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,175 @@
+/*
+  # Draft Check-in Response Function
+
+  This edge function writes a complete first-draft reply to a client check-in in the calling coach's voice:
+  1. Loads the check-in (with the caller's token, so RLS applies) and its AI analysis
+  2. Loads the coach's writing-style profile, rebuilding it first when it is missing or more
+     than 14 days old and there are enough past responses on the check-in's team
+  3. Prompts the team's LLM provider with the style guide, a few of the coach's recent replies
+     as examples, the transcript and the analysis summary
+
+  The draft is only returned; the coach edits and sends it from CoachResponseModal.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - LLM provider credentials (see _shared/llm.ts; openai_api_key by default)
+
+  ## API Usage
+  - POST /draft-checkin-response with { checkinId: string }
+  - Returns { draft: string, styleProfileUsed: boolean, sampleCount: number }
+    - `styleProfileUsed` is false until the coach has at least 5 written responses
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createLlmProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+import {
+  buildStyleProfile,
+  formatStyleProfile,
+  isStyleProfileStale,
+  loadStyleProfile,
+  loadStyleSamples,
+  MIN_STYLE_SAMPLES,
+} from '../_shared/style-profile.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Recent replies shown to the model as examples of the coach's voice
+const EXAMPLE_COUNT = 3
+const MAX_TRANSCRIPT_CHARS = 8000
+const MAX_ANALYSIS_CHARS = 2000
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const { checkinId }: { checkinId?: string } = await req.json()
+    if (!checkinId) {
+      return jsonResponse({ error: 'checkinId is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication failed' }, 401)
+    }
+
+    const { data: checkin, error: checkinError } = await userClient
+      .from('checkins')
+      .select('id, coach_id, client_name, date, transcript, tags, ai_analysis, ai_analysis_structured')
+      .eq('id', checkinId)
+      .maybeSingle()
+
+    if (checkinError || !checkin) {
+      return jsonResponse({ error: 'Check-in not found' }, 404)
+    }
+
+    if (!checkin.transcript?.trim()) {
+      return jsonResponse({ error: 'This check-in has no transcript to respond to yet' }, 400)
+    }
+
+    let llm
+    try {
+      // Team members draft under the head coach's AI settings, like the chat assistant
+      llm = createLlmProvider(await loadCoachAiSettings(userClient, checkin.coach_id))
+    } catch (configError) {
+      return jsonResponse({ error: configError.message }, 500)
+    }
+
+    // Profiles are written with the service role; coaches can only read their own
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    const samples = await loadStyleSamples(supabase, user.id, checkin.coach_id)
+    let profile = await loadStyleProfile(supabase, user.id)
+
+    if ((!profile || isStyleProfileStale(profile)) && samples.length >= MIN_STYLE_SAMPLES) {
+      try {
+        console.log('🧠 [DraftResponse] Rebuilding style profile for', user.id)
+        profile = await buildStyleProfile(supabase, llm, user.id, samples)
+      } catch (profileError) {
+        // A stale profile still beats none; drafting goes ahead either way
+        console.warn('⚠️ [DraftResponse] Could not rebuild style profile:', profileError)
+      }
+    }
+
+    const examples = samples
+      .slice(0, EXAMPLE_COUNT)
+      .map((sample, index) => `--- Example ${index + 1} (to ${sample.clientName || 'a client'}) ---\n${sample.response}`)
+      .join('\n\n')
+
+    const analysisSummary = checkin.ai_analysis_structured?.summary || checkin.ai_analysis || ''
+
+    const styleSection = profile
+      ? `Write in the coach's own voice. Their style profile:\n${formatStyleProfile(profile)}`
+      : 'Write in a warm, supportive and concise coaching voice.'
+
+    const prompt = `Draft the coach's reply to this client check-in.
+
+Client: ${checkin.client_name}
+Date: ${new Date(checkin.date).toLocaleDateString()}
+Tags: ${(checkin.tags || []).join(', ') || 'none'}
+
+TRANSCRIPT:
+${checkin.transcript.slice(0, MAX_TRANSCRIPT_CHARS)}
+${analysisSummary ? `\nANALYSIS SUMMARY:\n${analysisSummary.slice(0, MAX_ANALYSIS_CHARS)}\n` : ''}${examples ? `\nRECENT REPLIES BY THIS COACH:\n${examples}\n` : ''}
+Respond to what the client actually said, acknowledge wins, address any concerns and give clear next steps.`
+
+    console.log('✍️ [DraftResponse] Drafting reply for check-in', checkinId, 'with', llm.name, profile ? '(style profile)' : '(no style profile)')
+    const draft = await llm.chat(
+      [
+        {
+          role: 'system',
+          content: `You draft replies from a fitness and wellness coach to their client's check-in. ${styleSection}\n\nOutput only the message the coach would send, with no preamble, notes or placeholders.`,
+        },
+        { role: 'user', content: prompt },
+      ],
+      { maxTokens: 800, temperature: 0.7 },
+    )
+
+    if (!draft.trim()) {
+      return jsonResponse({ error: 'The model returned an empty draft' }, 502)
+    }
+
+    console.log('✅ [DraftResponse] Draft ready for check-in', checkinId)
+    return jsonResponse({ draft: draft.trim(), styleProfileUsed: Boolean(profile), sampleCount: profile?.sample_count ?? samples.length })
+  } catch (error) {
+    console.error('❌ [DraftResponse] Unexpected error:', error)
+    return jsonResponse({ error: 'Failed to draft response', details: error.message }, 500)
+  }
+})
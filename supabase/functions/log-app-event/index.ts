@@ -0,0 +1,152 @@
+/*
+  # Log App Event Function
+
+  This edge function records events reported by the web app (errors, feature usage,
+  sign-ins) in the `app_logs` table:
+  1. Resolves the signed-in user from the Authorization header (anonymous events are allowed)
+  2. Validates the event and caps the size of its details
+  3. Stores it with the caller's IP address and user agent
+
+  Rows are written with the service role because `app_logs` has no insert policies.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+
+  ## API Usage
+  - POST /log-app-event with { event_type: string, event_details?: object, context?: string }
+  - Returns { success: true } with status 201
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface LogEventRequest {
+  event_type: string;
+  event_details?: Record<string, unknown>;
+  context?: string;
+}
+
+const MAX_LABEL_LENGTH = 100
+const MAX_DETAILS_BYTES = 16 * 1024
+const MAX_USER_AGENT_LENGTH = 512
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// First hop in x-forwarded-for is the original client; the rest are proxies
+const getClientIp = (req: Request): string | null => {
+  const forwarded = req.headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null
+  }
+  return req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip')
+}
+
+// Oversized payloads (huge stacks, serialized state) are kept as a truncated string
+const limitDetails = (details: Record<string, unknown>): Record<string, unknown> => {
+  const serialized = JSON.stringify(details)
+  if (serialized.length <= MAX_DETAILS_BYTES) {
+    return details
+  }
+  return {
+    truncated: true,
+    original_size: serialized.length,
+    preview: serialized.slice(0, MAX_DETAILS_BYTES),
+  }
+}
+
+// Prefer the time the client saw the event, unless it's missing or nonsense
+const getEventTimestamp = (details: Record<string, unknown>): string => {
+  const reported = typeof details.timestamp === 'string' ? Date.parse(details.timestamp) : NaN
+  if (Number.isNaN(reported) || reported > Date.now() + 5 * 60 * 1000) {
+    return new Date().toISOString()
+  }
+  return new Date(reported).toISOString()
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    let body: LogEventRequest
+    try {
+      body = await req.json()
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400)
+    }
+
+    const eventType = typeof body?.event_type === 'string' ? body.event_type.trim() : ''
+    if (!eventType || eventType.length > MAX_LABEL_LENGTH) {
+      return jsonResponse({ error: `event_type is required and must be at most ${MAX_LABEL_LENGTH} characters` }, 400)
+    }
+
+    const context = typeof body.context === 'string' && body.context.trim()
+      ? body.context.trim().slice(0, MAX_LABEL_LENGTH)
+      : 'frontend'
+
+    const rawDetails = body.event_details
+    const eventDetails = rawDetails && typeof rawDetails === 'object' && !Array.isArray(rawDetails)
+      ? rawDetails
+      : {}
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    // Signed-out visitors send the anon key, which doesn't resolve to a user
+    let userId: string | null = null
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+    if (token) {
+      const { data: { user } } = await supabase.auth.getUser(token)
+      userId = user?.id ?? null
+    }
+
+    const { error: insertError } = await supabase
+      .from('app_logs')
+      .insert({
+        user_id: userId,
+        event_type: eventType,
+        event_details: limitDetails(eventDetails),
+        context,
+        timestamp: getEventTimestamp(eventDetails),
+        ip_address: getClientIp(req),
+        user_agent: req.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      })
+
+    if (insertError) {
+      console.error('❌ [LogAppEvent] Failed to store event:', insertError)
+      return jsonResponse({ error: 'Failed to store event' }, 500)
+    }
+
+    return jsonResponse({ success: true }, 201)
+  } catch (error) {
+    console.error('❌ [LogAppEvent] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
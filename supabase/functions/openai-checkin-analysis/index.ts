@@ -4,20 +4,32 @@
   This edge function generates AI analysis and recommendations for client check-ins:
   1. Analyzes the check-in transcript and context
   2. Looks for patterns based on client history
-  3. Provides coaching recommendations
-  4. Suggests plan modifications
+  3. Retrieves similar responded cases from other clients by embedding similarity
+  4. Provides coaching recommendations
+  5. Suggests plan modifications
+
+  The model comes from the coach's LLM provider (see _shared/llm.ts), so despite the name this
+  also runs on Azure OpenAI, Anthropic or a local server.
 
   ## Environment Variables Required
-  - OPENAI_API_KEY: Your OpenAI API key
-  - OPENAI_CHECKIN_ASSISTANT_ID: The ID of your configured OpenAI CheckinAI Assistant
+  - LLM provider credentials (see _shared/llm.ts; openai_api_key by default)
 
   ## API Usage
   - POST /openai-checkin-analysis with { checkinId: string, clientName: string, transcript: string, tags: string[] }
-  - Returns { analysis: string }
+  - Returns { analysis: string, structured: CheckinAnalysis }
+    - `structured` is validated against CHECKIN_ANALYSIS_JSON_SCHEMA (see _shared/checkin-analysis.ts)
+    - `analysis` is the same content rendered as markdown
 */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createEmbeddingProvider, createLlmProvider, loadCoachAiSettings, type LlmProvider } from '../_shared/llm.ts'
+import {
+  CHECKIN_ANALYSIS_JSON_SCHEMA,
+  analysisToMarkdown,
+  validateCheckinAnalysis,
+  type CheckinAnalysis,
+} from '../_shared/checkin-analysis.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -34,8 +46,33 @@ interface AnalysisRequest {
   previousAnalysis?: string;
 }
 
+interface SimilarCase {
+  id: string;
+  client_name: string;
+  date: string;
+  tags: string[] | null;
+  transcript: string | null;
+  coach_response: string | null;
+  similarity: number;
+}
+
+// Cases below this cosine similarity are more noise than signal for the prompt
+const SIMILAR_CASE_MIN_SIMILARITY = 0.8
+const SIMILAR_CASE_LIMIT = 3
+
+// Explain to the model why a past case was picked, so it can weigh or discard it
+const describeMatch = (similarCase: SimilarCase, currentTags: string[]) => {
+  const reasons = [`${Math.round(similarCase.similarity * 100)}% transcript similarity`]
+  const sharedTags = (similarCase.tags || []).filter(tag => currentTags.includes(tag) && tag !== 'general')
+  if (sharedTags.length > 0) {
+    reasons.push(`shared tags: ${sharedTags.join(', ')}`)
+  }
+  return reasons.join('; ')
+}
+
 interface AnalysisResponse {
   analysis: string;
+  structured: CheckinAnalysis;
   error?: string;
 }
 
@@ -80,22 +117,6 @@ serve(async (req) => {
       }
     })
 
-    const openaiApiKeyRaw = Deno.env.get('openai_api_key')
-    const openaiApiKey = typeof openaiApiKeyRaw === 'string' ? openaiApiKeyRaw.trim() : null
-
-    console.log('OpenAI API Key status:', openaiApiKey ? 'Present' : 'Missing')
-    console.log('OpenAI API Key length:', openaiApiKey?.length || 0)
-
-    if (!openaiApiKey || openaiApiKey === '') {
-      return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
     // Get the current checkin details
     const { data: currentCheckin, error: checkinError } = await supabase
       .from('checkins')
@@ -113,6 +134,20 @@ serve(async (req) => {
       )
     }
 
+    const aiSettings = await loadCoachAiSettings(supabase, currentCheckin.coach_id)
+    let llm: LlmProvider
+    try {
+      llm = createLlmProvider(aiSettings)
+    } catch (configError) {
+      return new Response(
+        JSON.stringify({ error: configError.message }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // Get client's previous check-ins for context (last 5)
     const { data: previousCheckins, error: historyError } = await supabase
       .from('checkins')
@@ -127,21 +162,43 @@ serve(async (req) => {
       console.warn('Failed to fetch client history:', historyError);
     }
 
-    // Get similar check-ins from other clients (based on tags) for pattern recognition
-    const { data: similarCheckins, error: similarError } = await supabase
-      .from('checkins')
-      .select('client_name, transcript, tags, coach_response, response_type')
-      .eq('coach_id', currentCheckin.coach_id)
-      .neq('client_name', clientName)
-      .overlaps('tags', tags)
-      .not('coach_response', 'is', null)
-      .order('created_at', { ascending: false })
-      .limit(3);
-
-    if (similarError) {
-      console.warn('Failed to fetch similar check-ins:', similarError);
+    // Get similar responded check-ins from other clients (by embedding) for pattern recognition
+    let similarCheckins: SimilarCase[] = [];
+    try {
+      let queryEmbedding = currentCheckin.embedding;
+
+      // Check-ins stored before embeddings were generated get one now, and keep it for next time
+      if (!queryEmbedding) {
+        queryEmbedding = await createEmbeddingProvider(aiSettings).embed(transcript);
+        const { error: embeddingUpdateError } = await supabase
+          .from('checkins')
+          .update({ embedding: queryEmbedding })
+          .eq('id', checkinId);
+
+        if (embeddingUpdateError) {
+          console.warn('Failed to store backfilled embedding:', embeddingUpdateError);
+        }
+      }
+
+      const { data: matches, error: similarError } = await supabase.rpc('match_similar_cases', {
+        p_coach_id: currentCheckin.coach_id,
+        p_query_embedding: typeof queryEmbedding === 'string' ? queryEmbedding : JSON.stringify(queryEmbedding),
+        p_exclude_client_id: currentCheckin.client_id,
+        p_match_count: SIMILAR_CASE_LIMIT,
+        p_min_similarity: SIMILAR_CASE_MIN_SIMILARITY
+      });
+
+      if (similarError) {
+        console.warn('Failed to fetch similar check-ins:', similarError);
+      } else {
+        similarCheckins = matches || [];
+      }
+    } catch (similarError) {
+      console.warn('Failed to find similar check-ins:', similarError);
     }
 
+    console.log('Similar cases above threshold:', similarCheckins.length);
+
     // Prepare context for AI analysis
     let contextualPrompt = `**CURRENT CHECK-IN ANALYSIS REQUEST**
 
@@ -168,15 +225,17 @@ ${index + 1}. **${new Date(checkin.date).toLocaleDateString()}** (Tags: ${checki
     }
 
     // Add similar cases context
-    if (similarCheckins && similarCheckins.length > 0) {
+    if (similarCheckins.length > 0) {
       contextualPrompt += `
 **SIMILAR CASES FROM OTHER CLIENTS:**
+(Selected because their check-in transcripts are semantically close to this one and the coach has already responded. Ignore any case that turns out not to be relevant.)
 `;
       similarCheckins.forEach((checkin, index) => {
         contextualPrompt += `
-${index + 1}. **Client:** ${checkin.client_name} (Tags: ${checkin.tags.join(', ')})
-   Issue: ${checkin.transcript?.substring(0, 150)}...
-   Coach Solution: ${checkin.coach_response?.substring(0, 200)}...
+${index + 1}. **Client:** ${checkin.client_name} (${new Date(checkin.date).toLocaleDateString()})
+   Why chosen: ${describeMatch(checkin, tags)}
+   Issue: ${checkin.transcript?.substring(0, 300)}...
+   Coach Solution: ${checkin.coach_response?.substring(0, 300)}...
 `;
       });
     }
@@ -184,47 +243,46 @@ ${index + 1}. **Client:** ${checkin.client_name} (Tags: ${checkin.tags.join(', '
     contextualPrompt += `
 
 **ANALYSIS REQUEST:**
-Please provide a comprehensive analysis of this check-in including:
+Analyze this check-in and respond with JSON matching the provided schema:
+
+- **summary:** What are the main points from this check-in?
+- **key_insights:** Specific observations, including how this compares to their previous check-ins
+- **risk_level / risk_flags:** Signs of disengagement, injury, illness, burnout or stalled progress, each with the evidence from the transcript. Use "low" with no flags when nothing is concerning
+- **sentiment_score / sentiment_label:** The client's overall mood, from -1 (very negative) to 1 (very positive)
+- **recommended_actions:** What specific actions should the coach take, most important first?
+- **plan_changes:** What changes might be needed to their current plan?
+- **similar_cases_notes:** ${similarCheckins.length > 0
+  ? 'How have the similar cases above been handled, and what applies here?'
+  : 'No sufficiently similar past cases were found; return null rather than guessing.'}
 
-1. **Key Insights:** What are the main points from this check-in?
-2. **Patterns:** How does this compare to their previous check-ins?
-3. **Recommendations:** What specific actions should the coach consider?
-4. **Plan Modifications:** What changes might be needed to their current plan?
-5. **Similar Cases:** How have similar issues been handled successfully?
+Please be specific and actionable. Focus on practical coaching strategies that have proven effective.`;
 
-Please be specific and actionable in your recommendations. Focus on practical coaching strategies that have proven effective.`;
+    console.log(`Requesting analysis from ${llm.name} (${llm.model})...`)
 
-    // Call OpenAI API for analysis
-    console.log('Attempting to call OpenAI API...')
-    
-    let openaiResponse;
+    let parsed: unknown = null;
     try {
-      openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert fitness and wellness coach with years of experience analyzing client check-ins and providing actionable coaching recommendations. You excel at identifying patterns, suggesting plan modifications, and drawing insights from similar cases to help coaches provide the best possible guidance to their clients.'
-            },
-            {
-              role: 'user',
-              content: contextualPrompt
-            }
-          ],
-          max_tokens: 1000,
+      parsed = await llm.structured(
+        [
+          {
+            role: 'system',
+            content: 'You are an expert fitness and wellness coach with years of experience analyzing client check-ins and providing actionable coaching recommendations. You excel at identifying patterns, suggesting plan modifications, and drawing insights from similar cases to help coaches provide the best possible guidance to their clients.'
+          },
+          {
+            role: 'user',
+            content: contextualPrompt
+          }
+        ],
+        {
+          schemaName: 'checkin_analysis',
+          schema: CHECKIN_ANALYSIS_JSON_SCHEMA,
+          maxTokens: 1500,
           temperature: 0.7
-        })
-      });
-    } catch (fetchError) {
-      console.error('Fetch error when calling OpenAI API:', fetchError)
+        }
+      );
+    } catch (llmError) {
+      console.error(`${llm.name} analysis request failed:`, llmError)
       return new Response(
-        JSON.stringify({ error: 'Network error when calling OpenAI API', details: fetchError.message }),
+        JSON.stringify({ error: 'Failed to generate AI analysis', details: llmError.message }),
         { 
           status: 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -232,25 +290,21 @@ Please be specific and actionable in your recommendations. Focus on practical co
       )
     }
 
-    console.log('OpenAI API response status:', openaiResponse.status)
-
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      console.error('OpenAI API error response:', errorText);
+    const { analysis: structured, errors: validationErrors } = validateCheckinAnalysis(parsed);
+    if (!structured) {
+      console.error('AI analysis failed schema validation:', validationErrors);
       return new Response(
-        JSON.stringify({ error: 'Failed to generate AI analysis', details: errorText }),
+        JSON.stringify({ error: 'AI analysis did not match the expected format', details: validationErrors }),
         { 
-          status: 500, 
+          status: 502, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    const openaiData = await openaiResponse.json();
-    const analysis = openaiData.choices[0]?.message?.content || 'Unable to generate analysis at this time.';
-
     const response: AnalysisResponse = {
-      analysis: analysis
+      analysis: analysisToMarkdown(structured),
+      structured
     };
 
     return new Response(
@@ -1,24 +1,39 @@
 /*
   # OpenAI CheckinAI Assistant Chat Function
 
-  This edge function handles communication with OpenAI's CheckinAI Assistant API, which supports:
+  This edge function answers a coach's questions about their check-ins:
   1. Client check-in transcript analysis
   2. Smart recall from similar past sessions
   3. Thread-based conversation management
-  4. File upload processing for transcript analysis
-  5. Pattern recognition across coaching sessions
+  4. Pattern recognition across coaching sessions
+  5. Drafts in the asking coach's voice, using their `coach_style_profiles` row when one exists
+
+  On the OpenAI provider with OPENAI_CHECKIN_ASSISTANT_ID set, replies come from the CheckinAI
+  Assistant and the conversation lives in an OpenAI thread. Any other provider (see _shared/llm.ts)
+  uses plain chat completions with the session's history from the `messages` table.
 
   ## Environment Variables Required
-  - OPENAI_API_KEY: Your OpenAI API key
-  - OPENAI_CHECKIN_ASSISTANT_ID: The ID of your configured OpenAI CheckinAI Assistant
+  - LLM provider credentials (see _shared/llm.ts; openai_api_key by default)
+  - OPENAI_CHECKIN_ASSISTANT_ID: The ID of your configured OpenAI CheckinAI Assistant (optional)
 
   ## API Usage
-  - POST /openai-checkin-chat with { message: string, threadId?: string, fileContent?: string, fileName?: string }
-  - Returns { message: string, threadId: string }
+  - POST /openai-checkin-chat with { message: string, threadId?: string, checkinId?: string, sessionId?: string, stream?: boolean }
+    - `sessionId` supplies the history when no assistant thread is used
+  - Returns { message: string, threadId: string | null }
+  - With `stream: true` the reply is sent as server-sent events instead:
+    - `thread` { threadId } - first event on the Assistants path, so the caller can keep the
+      thread even if it stops early
+    - `delta` { text } - the next piece of the reply
+    - `done` { threadId } - the reply is complete
+    - `error` { error } - the reply failed; no further events follow
+    Closing the connection cancels the generation.
 */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { formatServerSentEvent, readServerSentEvents } from '../_shared/sse.ts'
+import { createLlmProvider, loadCoachAiSettings, type ChatMessage, type LlmProvider } from '../_shared/llm.ts'
+import { formatStyleProfile, loadStyleProfile } from '../_shared/style-profile.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,14 +45,151 @@ interface ChatRequest {
   message: string;
   threadId?: string;
   checkinId?: string;
+  sessionId?: string;
+  stream?: boolean;
 }
 
 interface ChatResponse {
   message: string;
-  threadId: string;
+  threadId: string | null;
   error?: string;
 }
 
+const SYSTEM_PROMPT = 'You are CheckinAI, an assistant for fitness and wellness coaches. You help them understand client check-ins, spot patterns and concerns, and draft supportive, actionable responses. Answer short questions conversationally and concisely; use structured answers only when asked for an analysis.'
+
+// Earlier turns sent along on the chat completions path
+const HISTORY_LIMIT = 20
+
+const eventStreamHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+}
+
+// Runs the assistant with OpenAI's streaming API and relays the text as our own event stream
+const streamRun = async (threadId: string, assistantId: string, headers: Record<string, string>): Promise<Response> => {
+  const upstreamAbort = new AbortController()
+  const runResponse = await fetch(`https://api.openai.com/v1/threads/${threadId}/runs`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      assistant_id: assistantId,
+      stream: true
+    }),
+    signal: upstreamAbort.signal
+  })
+
+  if (!runResponse.ok || !runResponse.body) {
+    const error = await runResponse.text()
+    console.error('Failed to create streaming run:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to process message with assistant' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const upstream = runResponse.body
+  let runId: string | null = null
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+      send('thread', { threadId })
+
+      try {
+        for await (const { event, data } of readServerSentEvents(upstream)) {
+          if (event === 'thread.run.created') {
+            runId = JSON.parse(data).id
+          } else if (event === 'thread.message.delta') {
+            const { delta } = JSON.parse(data)
+            for (const part of delta?.content || []) {
+              if (part.type === 'text' && part.text?.value) {
+                send('delta', { text: part.text.value })
+              }
+            }
+          } else if (event === 'thread.run.failed' || event === 'thread.run.expired') {
+            const run = JSON.parse(data)
+            send('error', { error: run.last_error?.message || 'Assistant response failed' })
+            return
+          } else if (event === 'error') {
+            console.error('OpenAI stream error:', data)
+            send('error', { error: 'Assistant response failed' })
+            return
+          } else if (event === 'done') {
+            break
+          }
+        }
+        send('done', { threadId })
+      } catch (error) {
+        if (!cancelled) {
+          console.error('Error relaying assistant stream:', error)
+          send('error', { error: 'Assistant response was interrupted' })
+        }
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    async cancel() {
+      // The coach stopped the reply or left the page: stop generating instead of finishing unseen
+      cancelled = true
+      upstreamAbort.abort()
+      if (runId) {
+        const cancelResponse = await fetch(`https://api.openai.com/v1/threads/${threadId}/runs/${runId}/cancel`, {
+          method: 'POST',
+          headers
+        }).catch(error => {
+          console.error('Failed to cancel run:', error)
+          return null
+        })
+        if (cancelResponse && !cancelResponse.ok) {
+          console.warn('⚠️ [Checkin AI] Run cancel returned', cancelResponse.status)
+        }
+      }
+    }
+  })
+
+  return new Response(body, { headers: eventStreamHeaders })
+}
+
+// Streams a chat completion from the configured provider as the same events as streamRun
+const streamCompletion = (llm: LlmProvider, messages: ChatMessage[]): Response => {
+  const encoder = new TextEncoder()
+  const upstreamAbort = new AbortController()
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+
+      try {
+        for await (const text of llm.streamChat(messages, { signal: upstreamAbort.signal })) {
+          send('delta', { text })
+        }
+        send('done', { threadId: null })
+      } catch (error) {
+        if (!cancelled) {
+          console.error(`Error streaming ${llm.name} reply:`, error)
+          send('error', { error: 'Assistant response was interrupted' })
+        }
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+      upstreamAbort.abort()
+    }
+  })
+
+  return new Response(body, { headers: eventStreamHeaders })
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -45,7 +197,7 @@ serve(async (req) => {
   }
 
   try {
-    const { message, threadId, checkinId }: ChatRequest = await req.json()
+    const { message, threadId, checkinId, sessionId, stream }: ChatRequest = await req.json()
 
     if (!message?.trim()) {
       return new Response(
@@ -79,60 +231,10 @@ serve(async (req) => {
       }
     })
 
-    const openaiApiKey = Deno.env.get('openai_api_key')
-    const assistantId = Deno.env.get('OPENAI_CHECKIN_ASSISTANT_ID')
-
-    if (!openaiApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
-    if (!assistantId) {
-      return new Response(
-        JSON.stringify({ error: 'OpenAI CheckinAI Assistant ID not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
-    const headers = {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-      'OpenAI-Beta': 'assistants=v2'
-    }
-
-    let currentThreadId = threadId
-
-    // Create a new thread if one doesn't exist
-    if (!currentThreadId) {
-      const threadResponse = await fetch('https://api.openai.com/v1/threads', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({})
-      })
-
-      if (!threadResponse.ok) {
-        const error = await threadResponse.text()
-        console.error('Failed to create thread:', error)
-        return new Response(
-          JSON.stringify({ error: 'Failed to create conversation thread' }),
-          { 
-            status: 500, 
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-          }
-        )
-      }
-
-      const thread = await threadResponse.json()
-      currentThreadId = thread.id
-    }
+    // Identify the caller; their team's AI settings pick the provider
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } }
+    let coachId = user?.id ?? null
 
     // Prepare the message content with context
     let contextualMessage = message?.trim() || ''
@@ -147,6 +249,9 @@ serve(async (req) => {
           .single();
 
         if (!checkinError && checkin) {
+          // Team members chat about the head coach's check-ins, under the head coach's settings
+          coachId = checkin.coach_id
+
           // Add the checkin context to the message
           contextualMessage = `**CURRENT CHECK-IN CONTEXT:**
 Client: ${checkin.client_name}
@@ -171,8 +276,7 @@ Please analyze this check-in and provide coaching insights, suggestions for resp
     // Get user's niche analysis for context
     let nicheContext = ''
     try {
-      const { data: { user }, error: userError } = await supabase.auth.getUser()
-      if (!userError && user) {
+      if (user) {
         const { data: userProfile, error: profileError } = await supabase
           .from('user_profiles')
           .select('niche_analysis')
@@ -193,12 +297,126 @@ Please analyze this check-in and provide coaching insights, suggestions for resp
       contextualMessage = nicheContext + contextualMessage
     }
 
+    // Drafted replies should sound like the coach asking, not like a generic assistant
+    if (user) {
+      const styleProfile = await loadStyleProfile(supabase, user.id)
+      if (styleProfile) {
+        contextualMessage = `**COACH'S WRITING STYLE:**\n${formatStyleProfile(styleProfile)}\n\n**When drafting a reply to the client, write it in this style.**\n\n${contextualMessage}`
+        console.log(`✅ [Checkin AI] Added style profile for user ${user.id}`)
+      }
+    }
+
     // TODO: Implement smart recall functionality for similar check-ins
     // This would involve:
     // 1. Generate embedding for the current message/checkin
     // 2. Search for similar check-ins using vector similarity
     // 3. Add relevant past sessions to the context
 
+    let llm: LlmProvider
+    try {
+      llm = createLlmProvider(coachId ? await loadCoachAiSettings(supabase, coachId) : null)
+    } catch (configError) {
+      return new Response(
+        JSON.stringify({ error: configError.message }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const assistantId = Deno.env.get('OPENAI_CHECKIN_ASSISTANT_ID')
+
+    if (llm.name !== 'openai' || !assistantId) {
+      // No assistant thread: replay the session's recent messages instead
+      const history: ChatMessage[] = []
+      if (sessionId && user) {
+        const { data: rows } = await supabase
+          .from('messages')
+          .select('content, sender')
+          .eq('session_id', sessionId)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT)
+
+        const turns = (rows || []).reverse()
+        // The app saves the question before asking; it is sent below with its context instead
+        const last = turns[turns.length - 1]
+        if (last?.sender === 'user' && last.content.trim() === message.trim()) {
+          turns.pop()
+        }
+        for (const row of turns) {
+          history.push({ role: row.sender === 'user' ? 'user' : 'assistant', content: row.content })
+        }
+      }
+
+      const messages: ChatMessage[] = [
+        { role: 'system', content: SYSTEM_PROMPT },
+        ...history,
+        { role: 'user', content: contextualMessage }
+      ]
+
+      if (stream) {
+        return streamCompletion(llm, messages)
+      }
+
+      const response: ChatResponse = {
+        message: await llm.chat(messages),
+        threadId: null
+      }
+
+      return new Response(
+        JSON.stringify(response),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const openaiApiKey = Deno.env.get('openai_api_key')
+
+    if (!openaiApiKey) {
+      return new Response(
+        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const headers = {
+      'Authorization': `Bearer ${openaiApiKey}`,
+      'Content-Type': 'application/json',
+      'OpenAI-Beta': 'assistants=v2'
+    }
+
+    let currentThreadId = threadId
+
+    // Create a new thread if one doesn't exist
+    if (!currentThreadId) {
+      const threadResponse = await fetch('https://api.openai.com/v1/threads', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({})
+      })
+
+      if (!threadResponse.ok) {
+        const error = await threadResponse.text()
+        console.error('Failed to create thread:', error)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create conversation thread' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const thread = await threadResponse.json()
+      currentThreadId = thread.id
+    }
+
     // Add the user's message to the thread
     const messageResponse = await fetch(`https://api.openai.com/v1/threads/${currentThreadId}/messages`, {
       method: 'POST',
@@ -221,6 +439,10 @@ Please analyze this check-in and provide coaching insights, suggestions for resp
       )
     }
 
+    if (stream) {
+      return await streamRun(currentThreadId!, assistantId, headers)
+    }
+
     // Create a run to process the thread with the assistant
     const runResponse = await fetch(`https://api.openai.com/v1/threads/${currentThreadId}/runs`, {
       method: 'POST',
@@ -0,0 +1,357 @@
+/*
+  # Process Jobs Function
+
+  Background worker for the `jobs` queue. pg_cron calls it every minute, and ingestion calls it
+  right after queuing work so new check-ins are analysed within seconds:
+  1. Claims due jobs with `claim_jobs` (SKIP LOCKED, so overlapping runs never share a job),
+     taking one batch of each job type in turn so no type starves the others
+  2. Runs each job:
+     - `checkin_analysis` calls `openai-checkin-analysis` and stores the result
+     - `checkin_reminder` emails a client whose check-in was flagged as missed
+  3. Records every attempt in `job_attempts`
+  4. Failed attempts are retried with exponential backoff until `max_attempts`
+  5. Looks after media transcription, which runs outside the queue: check-ins whose
+     `transcribe-checkin-media` call never arrived are sent again, and runs that died mid-way
+     are marked failed so the coach can retry them
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - EMAIL_FROM / EMAIL_TRANSPORT / SMTP_*: Email settings for reminders (see deliver-checkin-response)
+
+  ## API Usage
+  - POST /process-jobs with the service role key as the bearer token (body is ignored)
+  - Returns { processed: number, succeeded: number, retried: number, failed: number }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { createEmailTransport } from '../_shared/email-transport.ts'
+import { DEFAULT_EMAIL_BRANDING, renderCheckinReminderEmail, type EmailBranding } from '../_shared/response-email.ts'
+import { invokeInBackground } from '../_shared/background.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface Job {
+  id: string;
+  job_type: string;
+  coach_id: string;
+  checkin_id: string | null;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+  locked_at: string;
+  created_at: string;
+}
+
+// Retrying won't help (e.g. the check-in has nothing to analyse), so the job fails right away
+class PermanentJobError extends Error {}
+
+const JOB_TYPES = ['checkin_analysis', 'checkin_reminder']
+const JOB_BATCH_SIZE = 5
+// Stop claiming new batches well before the edge function's wall-clock limit
+const RUN_BUDGET_MS = 40 * 1000
+const BASE_BACKOFF_SECONDS = 30
+// webhook-checkin starts transcription right away, so a check-in still pending after this never got the call
+const TRANSCRIPTION_START_GRACE_MS = 5 * 60 * 1000
+// Matches the stale-claim window in transcribe-checkin-media
+const STALLED_TRANSCRIPTION_MS = 15 * 60 * 1000
+const MAX_TRANSCRIPTION_RESENDS = 10
+const MAX_BACKOFF_SECONDS = 60 * 60
+
+// 30s, 1m, 2m, 4m... capped at an hour, with jitter so failed batches don't retry in lockstep
+const backoffSeconds = (attempt: number) =>
+  Math.min(MAX_BACKOFF_SECONDS, BASE_BACKOFF_SECONDS * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4)
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const runCheckinAnalysis = async (job: Job, supabase: SupabaseClient, supabaseUrl: string, serviceKey: string) => {
+  const { data: checkin } = await supabase
+    .from('checkins')
+    .select('id, client_id, client_name, transcript, tags, ai_analysis, ai_analysis_generated_at')
+    .eq('id', job.checkin_id)
+    .maybeSingle()
+
+  if (!checkin) {
+    throw new PermanentJobError('Check-in no longer exists')
+  }
+
+  if (!checkin.transcript?.trim()) {
+    throw new PermanentJobError('Check-in has no transcript to analyse')
+  }
+
+  // Someone generated it from the check-in page in the meantime
+  if (checkin.ai_analysis && new Date(checkin.ai_analysis_generated_at) > new Date(job.created_at)) {
+    return
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/openai-checkin-analysis`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      checkinId: checkin.id,
+      clientId: checkin.client_id,
+      clientName: checkin.client_name,
+      transcript: checkin.transcript,
+      tags: checkin.tags || [],
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    const message = `Analysis request failed (${response.status}): ${errorText.substring(0, 500)}`
+    // A 400 means the request itself is wrong; anything else (rate limits, model errors) may pass next time
+    throw response.status === 400 ? new PermanentJobError(message) : new Error(message)
+  }
+
+  const { analysis, structured } = await response.json()
+  const { error: updateError } = await supabase
+    .from('checkins')
+    .update({
+      ai_analysis: analysis,
+      ai_analysis_generated_at: new Date().toISOString(),
+      ai_analysis_version: 'v2',
+      ai_analysis_structured: structured,
+      ai_risk_level: structured?.risk_level ?? null,
+      ai_sentiment_score: structured?.sentiment_score ?? null,
+    })
+    .eq('id', checkin.id)
+
+  if (updateError) {
+    throw new Error(`Failed to store analysis: ${updateError.message}`)
+  }
+}
+
+const runCheckinReminder = async (job: Job, supabase: SupabaseClient) => {
+  const emailFrom = Deno.env.get('EMAIL_FROM')
+  if (!emailFrom) {
+    throw new PermanentJobError('EMAIL_FROM is not configured')
+  }
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id, coach_id, full_name, email, status, next_checkin_due_at, checkin_missed_at, checkin_reminder_sent_at, checkin_reminders_enabled')
+    .eq('id', job.payload.client_id)
+    .maybeSingle()
+
+  if (!client) {
+    throw new PermanentJobError('Client no longer exists')
+  }
+
+  // They checked in, were paused or opted out since the job was queued
+  if (!client.checkin_missed_at || client.checkin_reminder_sent_at || client.status !== 'active' || !client.checkin_reminders_enabled) {
+    return
+  }
+
+  if (!client.email) {
+    throw new PermanentJobError('Client has no email address')
+  }
+
+  const [{ data: settings }, { data: coachProfile }] = await Promise.all([
+    supabase.from('coach_email_settings').select('*').eq('coach_id', client.coach_id).maybeSingle(),
+    supabase.from('user_profiles').select('full_name, email').eq('id', client.coach_id).maybeSingle(),
+  ])
+
+  const branding: EmailBranding = { ...DEFAULT_EMAIL_BRANDING, ...(settings || {}) }
+  const coachName = branding.from_name || coachProfile?.full_name || 'Your coach'
+  const email = renderCheckinReminderEmail(branding, {
+    client_name: client.full_name,
+    coach_name: coachName,
+    due_date: new Date(client.next_checkin_due_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' }),
+  })
+
+  const transport = createEmailTransport()
+  await transport.send({
+    to: client.email,
+    from: emailFrom,
+    fromName: coachName,
+    replyTo: branding.reply_to_email || coachProfile?.email || null,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  })
+
+  const { error: updateError } = await supabase
+    .from('clients')
+    .update({ checkin_reminder_sent_at: new Date().toISOString() })
+    .eq('id', client.id)
+
+  if (updateError) {
+    // Failing here would send the reminder again on retry
+    console.error('❌ [ProcessJobs] Reminder sent but not recorded for client', client.id, updateError)
+  }
+}
+
+// A run that died (wall-clock limit, out of memory on a large file) would likely die again, so
+// those are failed for a coach to retry rather than restarted automatically
+const sweepTranscriptions = async (supabase: SupabaseClient, supabaseUrl: string, serviceKey: string) => {
+  const stalledBefore = new Date(Date.now() - STALLED_TRANSCRIPTION_MS).toISOString()
+  const { data: stalled, error: stalledError } = await supabase
+    .from('checkins')
+    .update({
+      transcription_status: 'failed',
+      transcription_error: 'Transcription stopped before it finished. Retry it from the check-in.',
+    })
+    .eq('transcription_status', 'transcribing')
+    .or(`transcription_started_at.is.null,transcription_started_at.lt.${stalledBefore}`)
+    .select('id')
+
+  if (stalledError) {
+    console.error('❌ [ProcessJobs] Failed to fail stalled transcriptions:', stalledError)
+  }
+
+  const { data: unstarted, error: unstartedError } = await supabase
+    .from('checkins')
+    .select('id')
+    .eq('transcription_status', 'pending')
+    .lt('created_at', new Date(Date.now() - TRANSCRIPTION_START_GRACE_MS).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(MAX_TRANSCRIPTION_RESENDS)
+
+  if (unstartedError) {
+    console.error('❌ [ProcessJobs] Failed to look up unstarted transcriptions:', unstartedError)
+  }
+
+  for (const checkin of unstarted || []) {
+    invokeInBackground(supabaseUrl, serviceKey, 'transcribe-checkin-media', { checkinId: checkin.id })
+  }
+
+  if (stalled?.length || unstarted?.length) {
+    console.log(`🎙️ [ProcessJobs] Transcriptions: ${stalled?.length || 0} stalled marked failed, ${unstarted?.length || 0} resent`)
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const summary = { processed: 0, succeeded: 0, retried: 0, failed: 0 }
+    const startedAt = Date.now()
+
+    await sweepTranscriptions(supabase, supabaseUrl, supabaseServiceKey)
+
+    const processJob = async (job: Job) => {
+      const attemptStartedAt = new Date().toISOString()
+      try {
+        if (job.job_type === 'checkin_analysis') {
+          await runCheckinAnalysis(job, supabase, supabaseUrl, supabaseServiceKey)
+        } else if (job.job_type === 'checkin_reminder') {
+          await runCheckinReminder(job, supabase)
+        } else {
+          throw new PermanentJobError(`Unknown job type "${job.job_type}"`)
+        }
+
+        await supabase.from('job_attempts').insert({
+          job_id: job.id,
+          attempt: job.attempts,
+          started_at: attemptStartedAt,
+          succeeded: true,
+        })
+        await supabase
+          .from('jobs')
+          .update({ status: 'succeeded', last_error: null, locked_at: null, completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+          .eq('id', job.id)
+
+        summary.succeeded++
+      } catch (jobError) {
+        const message = jobError instanceof Error ? jobError.message : String(jobError)
+        const giveUp = jobError instanceof PermanentJobError || job.attempts >= job.max_attempts
+        console.error(`❌ [ProcessJobs] Job ${job.id} attempt ${job.attempts} failed${giveUp ? ' permanently' : ''}:`, message)
+
+        await supabase.from('job_attempts').insert({
+          job_id: job.id,
+          attempt: job.attempts,
+          started_at: attemptStartedAt,
+          succeeded: false,
+          error: message,
+        })
+        await supabase
+          .from('jobs')
+          .update({
+            status: giveUp ? 'failed' : 'queued',
+            last_error: message,
+            locked_at: null,
+            ...(giveUp
+              ? { completed_at: new Date().toISOString() }
+              : { run_after: new Date(Date.now() + backoffSeconds(job.attempts) * 1000).toISOString() }),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', job.id)
+
+        if (giveUp) {
+          summary.failed++
+        } else {
+          summary.retried++
+        }
+      }
+      summary.processed++
+    }
+
+    // Round-robin: one batch per job type per pass, so an analysis backlog can't use up
+    // the whole run budget while reminders wait
+    let pendingTypes = [...JOB_TYPES]
+    while (pendingTypes.length > 0 && Date.now() - startedAt < RUN_BUDGET_MS) {
+      const stillPending: string[] = []
+
+      for (const jobType of pendingTypes) {
+        if (Date.now() - startedAt >= RUN_BUDGET_MS) break
+
+        const { data: jobs, error: claimError } = await supabase.rpc('claim_jobs', {
+          p_job_type: jobType,
+          p_limit: JOB_BATCH_SIZE,
+        })
+
+        if (claimError) {
+          console.error('❌ [ProcessJobs] Failed to claim jobs:', claimError)
+          return jsonResponse({ error: 'Failed to claim jobs', ...summary }, 500)
+        }
+
+        if (!jobs || jobs.length === 0) continue
+
+        await Promise.all((jobs as Job[]).map(processJob))
+        stillPending.push(jobType)
+      }
+
+      pendingTypes = stillPending
+    }
+
+    if (summary.processed > 0) {
+      console.log('✅ [ProcessJobs] Run complete:', JSON.stringify(summary))
+    }
+    return jsonResponse(summary)
+  } catch (error) {
+    console.error('❌ [ProcessJobs] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,117 @@
+/*
+  # Semantic Check-in Search Function
+
+  This edge function finds check-ins whose meaning matches a free-text query:
+  1. Embeds the query with the coach's embedding provider, the same one webhook-checkin uses for transcripts
+  2. Ranks the coach's check-ins by cosine similarity via the `match_checkins` RPC
+  3. Returns snippets so results can be shown without loading full transcripts
+
+  Queries run with the caller's JWT, so RLS on `checkins` limits results to data they can see.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY: Supabase configuration
+  - Embedding provider credentials (see _shared/llm.ts; openai_api_key by default)
+
+  ## API Usage
+  - POST /semantic-search with { query: string, coachId?: string, limit?: number, minSimilarity?: number }
+  - Returns { results: [{ id, client_id, client_name, date, status, tags, snippet, similarity }] }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createEmbeddingProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface SearchRequest {
+  query: string;
+  coachId?: string;
+  limit?: number;
+  minSimilarity?: number;
+}
+
+const DEFAULT_LIMIT = 20
+const DEFAULT_MIN_SIMILARITY = 0.75
+const MAX_QUERY_LENGTH = 500
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const { query, coachId, limit, minSimilarity }: SearchRequest = await req.json()
+    const trimmedQuery = query?.trim()
+
+    if (!trimmedQuery) {
+      return jsonResponse({ error: 'Query is required' }, 400)
+    }
+
+    if (trimmedQuery.length > MAX_QUERY_LENGTH) {
+      return jsonResponse({ error: `Query must be ${MAX_QUERY_LENGTH} characters or fewer` }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    // Create client with the caller's token so RLS applies to the search
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication failed' }, 401)
+    }
+
+    let embeddings
+    try {
+      embeddings = createEmbeddingProvider(await loadCoachAiSettings(supabase, coachId || user.id))
+    } catch (configError) {
+      return jsonResponse({ error: configError.message }, 500)
+    }
+
+    console.log('🧠 [SemanticSearch] Embedding query for coach:', coachId || user.id, 'with', embeddings.name)
+    const queryEmbedding = await embeddings.embed(trimmedQuery)
+
+    const { data, error } = await supabase.rpc('match_checkins', {
+      p_coach_id: coachId || user.id,
+      p_query_embedding: JSON.stringify(queryEmbedding),
+      p_match_count: limit ?? DEFAULT_LIMIT,
+      p_min_similarity: minSimilarity ?? DEFAULT_MIN_SIMILARITY,
+    })
+
+    if (error) {
+      console.error('❌ [SemanticSearch] match_checkins failed:', error)
+      return jsonResponse({ error: 'Search failed', details: error.message }, 500)
+    }
+
+    console.log('✅ [SemanticSearch] Found', data?.length || 0, 'matches')
+    return jsonResponse({ results: data || [] })
+  } catch (error) {
+    console.error('❌ [SemanticSearch] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,170 @@
+/*
+  # Team Invitation Function
+
+  This edge function invites someone to a head coach's team:
+  1. Creates (or refreshes) the pending `team_members` row with a new invite token
+  2. Emails an accept link through Supabase Auth's invite flow
+  3. Returns the accept link so it can be shared manually when no email was sent
+     (Supabase only sends invite emails to addresses without an account)
+
+  The row is written with the caller's JWT, so RLS decides whether they may manage the team.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - APP_URL: Public URL of the web app; accept links always point here, never at the caller's Origin
+
+  ## API Usage
+  - POST /team-invite with { email: string, role: 'assistant_coach' | 'admin', coachId?: string }
+  - Returns { member: TeamMember, acceptUrl: string, emailSent: boolean }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface InviteRequest {
+  email: string;
+  role: 'assistant_coach' | 'admin';
+  coachId?: string;
+}
+
+const ROLES = ['assistant_coach', 'admin']
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const newInviteToken = () => crypto.randomUUID().replaceAll('-', '') + crypto.randomUUID().replaceAll('-', '')
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const { email, role, coachId }: InviteRequest = await req.json()
+    const memberEmail = email?.trim().toLowerCase()
+
+    if (!memberEmail || !EMAIL_PATTERN.test(memberEmail)) {
+      return jsonResponse({ error: 'A valid email address is required' }, 400)
+    }
+
+    if (!ROLES.includes(role)) {
+      return jsonResponse({ error: 'Role must be assistant_coach or admin' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    // Accept links carry the invite token, so they are never built from the caller's Origin header
+    const appUrl = (Deno.env.get('APP_URL') || '').replace(/\/$/, '')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    if (!appUrl) {
+      return jsonResponse({ error: 'APP_URL is not configured' }, 500)
+    }
+
+    // Create client with the caller's token so RLS decides who can invite
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    })
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication failed' }, 401)
+    }
+
+    const teamCoachId = coachId || user.id
+
+    if (memberEmail === user.email?.toLowerCase()) {
+      return jsonResponse({ error: 'You cannot invite yourself' }, 400)
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('team_members')
+      .select('*')
+      .eq('coach_id', teamCoachId)
+      .eq('member_email', memberEmail)
+      .maybeSingle()
+
+    if (existingError) {
+      console.error('❌ [TeamInvite] Failed to look up existing invitation:', existingError)
+      return jsonResponse({ error: 'Failed to create invitation' }, 500)
+    }
+
+    if (existing?.status === 'active') {
+      return jsonResponse({ error: 'This person is already on your team' }, 409)
+    }
+
+    const invitation = {
+      coach_id: teamCoachId,
+      member_email: memberEmail,
+      member_id: null,
+      role,
+      status: 'pending_invitation',
+      invite_token: newInviteToken(),
+      invite_expires_at: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+      invited_by: user.id,
+      accepted_at: null,
+      updated_at: new Date().toISOString(),
+    }
+
+    // Re-inviting someone (expired, removed or never accepted) reuses their row with a fresh token
+    const { data: member, error: saveError } = existing
+      ? await supabase.from('team_members').update(invitation).eq('id', existing.id).select().single()
+      : await supabase.from('team_members').insert(invitation).select().single()
+
+    if (saveError || !member) {
+      console.error('❌ [TeamInvite] Failed to save invitation:', saveError)
+      const status = saveError?.code === '42501' ? 403 : 500
+      return jsonResponse({ error: status === 403 ? 'Only the head coach or an admin can invite team members' : 'Failed to create invitation' }, status)
+    }
+
+    const acceptUrl = `${appUrl}/team/accept?token=${member.invite_token}`
+
+    // Supabase Auth emails new users a sign-up link that lands on the accept page
+    let emailSent = false
+    const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const { error: emailError } = await adminClient.auth.admin.inviteUserByEmail(memberEmail, {
+      redirectTo: acceptUrl,
+    })
+
+    if (emailError) {
+      console.warn('⚠️ [TeamInvite] Invite email not sent (existing account?):', emailError.message)
+    } else {
+      emailSent = true
+    }
+
+    console.log('✅ [TeamInvite] Invited', memberEmail, 'as', role, 'to team', teamCoachId)
+    return jsonResponse({ member, acceptUrl, emailSent })
+  } catch (error) {
+    console.error('❌ [TeamInvite] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,289 @@
+/*
+  # Transcribe Check-in Media Function
+
+  This edge function turns voice notes and videos attached to a check-in into text:
+  1. Downloads each pending `checkin_media` attachment from the form provider
+  2. Keeps a copy in the private `checkin-media` bucket
+  3. Transcribes it with the configured speech-to-text provider
+  4. Appends the transcripts to `checkins.transcript` and refreshes the embedding; marking the
+     transcription complete queues the AI analysis job, which `process-jobs` picks up
+
+  `webhook-checkin` calls it with the service role right after storing a check-in. Coaches can
+  call it with their own JWT to retry a check-in whose transcription failed or stalled, and
+  `process-jobs` re-sends check-ins whose first call never arrived. Attachment URLs come from
+  the webhook payload, so only public addresses are downloaded.
+
+  ## Environment Variables Required
+  - SUPABASE_URL / SUPABASE_ANON_KEY / SUPABASE_SERVICE_ROLE_KEY: Supabase configuration
+  - STT_PROVIDER: 'openai' (default) or 'stub'
+  - openai_api_key: Used for Whisper transcription (see _shared/speech-to-text.ts)
+  - Embedding provider credentials (see _shared/llm.ts; openai_api_key by default)
+
+  ## API Usage
+  - POST /transcribe-checkin-media with { checkinId: string }
+  - Returns { status: 'completed' | 'failed', media: CheckinMedia[] }
+*/
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { createEmbeddingProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+import { guessMimeType } from '../_shared/checkin-media.ts'
+import { createSpeechToText } from '../_shared/speech-to-text.ts'
+import { invokeInBackground } from '../_shared/background.ts'
+import { fetchPublicUrl } from '../_shared/public-fetch.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface TranscribeRequest {
+  checkinId: string;
+}
+
+// The checkin-media bucket limit; the speech-to-text provider may accept less (Whisper takes 25 MB)
+const MAX_MEDIA_BYTES = 100 * 1024 * 1024
+const DOWNLOAD_TIMEOUT_MS = 60 * 1000
+// A claim older than this belongs to a run that was killed (wall-clock limit, out of memory)
+const STALE_CLAIM_MS = 15 * 60 * 1000
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// URLs come from unauthenticated webhook payloads, so they must not reach internal addresses
+const downloadMedia = async (url: string, maxBytes: number): Promise<{ data: Blob; contentType: string | null }> => {
+  const tooLarge = () => new Error(`File is larger than ${Math.floor(maxBytes / (1024 * 1024))} MB`)
+
+  const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) })
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw new Error(`Download failed (${response.status})`)
+  }
+
+  const declaredSize = Number(response.headers.get('content-length'))
+  if (declaredSize > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  // Stop reading as soon as the limit is passed instead of buffering the whole file first
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body!.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim() || null
+  return { data: new Blob(chunks, contentType ? { type: contentType } : undefined), contentType }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401)
+    }
+
+    const { checkinId }: TranscribeRequest = await req.json()
+    if (!checkinId) {
+      return jsonResponse({ error: 'checkinId is required' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase configuration missing' }, 500)
+    }
+
+    // Coaches retrying from the app must be able to see the check-in; the webhook uses the service role
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      })
+
+      const { data: visibleCheckin } = await userClient
+        .from('checkins')
+        .select('id')
+        .eq('id', checkinId)
+        .maybeSingle()
+
+      if (!visibleCheckin) {
+        return jsonResponse({ error: 'Check-in not found' }, 404)
+      }
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    // Claim the check-in so a retry can't run alongside the first attempt. A claim that has
+    // been held too long is from a run that died, so it can be taken over.
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString()
+    const { data: checkin, error: claimError } = await supabase
+      .from('checkins')
+      .update({
+        transcription_status: 'transcribing',
+        transcription_error: null,
+        transcription_started_at: new Date().toISOString(),
+      })
+      .eq('id', checkinId)
+      .or(`transcription_status.in.(pending,failed),and(transcription_status.eq.transcribing,or(transcription_started_at.is.null,transcription_started_at.lt.${staleBefore}))`)
+      .select('id, coach_id, transcript')
+      .maybeSingle()
+
+    if (claimError) {
+      console.error('❌ [Transcribe] Failed to claim check-in:', claimError)
+      return jsonResponse({ error: 'Failed to start transcription' }, 500)
+    }
+
+    if (!checkin) {
+      return jsonResponse({ error: 'This check-in has nothing waiting to be transcribed' }, 409)
+    }
+
+    const { data: mediaRows } = await supabase
+      .from('checkin_media')
+      .select('*')
+      .eq('checkin_id', checkin.id)
+      .order('created_at', { ascending: true })
+
+    const failures: string[] = []
+
+    try {
+      const stt = createSpeechToText()
+      const maxBytes = Math.min(MAX_MEDIA_BYTES, stt.maxFileBytes ?? MAX_MEDIA_BYTES)
+
+      for (const media of mediaRows || []) {
+        if (media.status === 'completed') continue
+
+        await supabase
+          .from('checkin_media')
+          .update({ status: 'transcribing', error: null, updated_at: new Date().toISOString() })
+          .eq('id', media.id)
+
+        try {
+          const { data, contentType } = await downloadMedia(media.source_url, maxBytes)
+          const mimeType = media.mime_type || contentType || guessMimeType(media.source_url) || 'application/octet-stream'
+          const extension = mimeType.split('/')[1]?.replace(/^x-/, '').replace('quicktime', 'mov').replace('mpeg', 'mp3') || 'bin'
+          const storagePath = `${checkin.coach_id}/${checkin.id}/${media.id}.${extension}`
+
+          // The provider's URL may expire, so keep our own copy; transcription doesn't depend on it
+          const { error: storageError } = await supabase.storage
+            .from('checkin-media')
+            .upload(storagePath, data, { contentType: mimeType, upsert: true })
+
+          if (storageError) {
+            console.warn('⚠️ [Transcribe] Could not store media copy:', storageError)
+          }
+
+          const result = await stt.transcribe({
+            data,
+            mimeType,
+            fileName: media.file_name || `${media.id}.${extension}`,
+          })
+
+          const { data: updated } = await supabase
+            .from('checkin_media')
+            .update({
+              status: 'completed',
+              storage_path: storageError ? null : storagePath,
+              mime_type: mimeType,
+              size_bytes: data.size,
+              transcript: result.text,
+              provider: stt.name,
+              language: result.language,
+              duration_seconds: result.durationSeconds,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', media.id)
+            .select()
+            .single()
+
+          Object.assign(media, updated)
+          console.log('✅ [Transcribe] Transcribed', media.id, 'with', stt.name)
+        } catch (mediaError) {
+          console.error('❌ [Transcribe] Failed to transcribe', media.id, mediaError)
+          failures.push(`${media.file_name || media.source_field || 'attachment'}: ${mediaError.message}`)
+          await supabase
+            .from('checkin_media')
+            .update({ status: 'failed', error: mediaError.message, updated_at: new Date().toISOString() })
+            .eq('id', media.id)
+        }
+      }
+    } catch (providerError) {
+      // Misconfigured provider - nothing was attempted
+      failures.push(providerError.message)
+    }
+
+    if (failures.length > 0) {
+      await supabase
+        .from('checkins')
+        .update({ transcription_status: 'failed', transcription_error: failures.join('; ') })
+        .eq('id', checkin.id)
+
+      return jsonResponse({ status: 'failed', error: failures.join('; '), media: mediaRows || [] }, 502)
+    }
+
+    // Every attachment is transcribed: only now does the check-in transcript change, so retries never duplicate it
+    const sections = (mediaRows || [])
+      .filter(media => media.transcript?.trim())
+      .map(media => {
+        const kind = media.mime_type?.startsWith('video/') ? 'Video' : 'Voice note'
+        const label = media.file_name || media.source_field
+        return `[${kind} transcript${label ? ` - ${label}` : ''}]\n${media.transcript.trim()}`
+      })
+
+    const transcript = [checkin.transcript?.trim(), ...sections].filter(Boolean).join('\n\n')
+
+    let embedding = null
+    if (transcript) {
+      try {
+        const embeddings = createEmbeddingProvider(await loadCoachAiSettings(supabase, checkin.coach_id))
+        embedding = await embeddings.embed(transcript)
+      } catch (embeddingError) {
+        console.error('❌ [Transcribe] Error generating embedding:', embeddingError)
+      }
+    }
+
+    await supabase
+      .from('checkins')
+      .update({
+        transcript,
+        ...(embedding ? { embedding } : {}),
+        transcription_status: 'completed',
+        transcribed_at: new Date().toISOString(),
+      })
+      .eq('id', checkin.id)
+
+    // Completing the transcription queued the analysis job; run the worker now rather than on the next tick
+    invokeInBackground(supabaseUrl, supabaseServiceKey, 'process-jobs')
+
+    return jsonResponse({ status: 'completed', media: mediaRows || [] })
+  } catch (error) {
+    console.error('❌ [Transcribe] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -8,27 +8,147 @@
   - Flexible data acceptance: Accepts any JSON payload structure
   - Contact data extraction: Intelligently extracts contact info from common GHL structures
   - Transcript derivation: Creates AI-ready transcript from various field combinations
+  - Field mappings (optional): Per-coach JSONPath-style rules override the built-in extraction
   - Raw data storage: Preserves complete original payload for future processing
   - Embedding generation: Creates vector embeddings for AI analysis
+  - Signed payloads (optional): HMAC-SHA256 verification with replay protection
+  - Idempotent ingestion: Retried deliveries return the original check-in instead of inserting again
+  - Typed answers: Parses answers into `checkin_answers` using the coach's check-in form schema
+  - Voice notes and videos: Media URLs in the payload are queued in `checkin_media` and handed
+    to `transcribe-checkin-media`, which appends their transcripts to the check-in
+  - Background analysis: New check-ins are queued in `jobs` and analysed by `process-jobs`
 
   ## Environment Variables Required
-  - OPENAI_API_KEY: OpenAI API key for generating embeddings
+  - Embedding provider credentials (see _shared/llm.ts; openai_api_key by default)
   - SUPABASE_SERVICE_ROLE_KEY: Service role key for admin operations
 
   ## API Usage
   - POST /webhook-checkin/{user_id}/{webhook_token} with flexible JSON payload
   - Validates webhook token and processes check-in data
+  - When the coach has `auth_mode = 'signature'`, requests must also include:
+    - x-webhook-timestamp: unix timestamp (seconds) of when the request was signed
+    - x-webhook-signature: sha256=<hex HMAC_SHA256(signing_secret, "{timestamp}.{raw_body}")>
+  - Optional `Idempotency-Key` header; when absent a key is derived from provider submission ids
+    (Typeform `response_id`, JotForm `submission_id`, ...). Repeats return { duplicate: true, checkin_id }
 */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import { applyFieldMappings } from '../_shared/field-mappings.ts'
+import { extractCheckinAnswers, type CheckinForm } from '../_shared/checkin-answers.ts'
+import { createEmbeddingProvider, loadCoachAiSettings } from '../_shared/llm.ts'
+import { findMediaAttachments } from '../_shared/checkin-media.ts'
+import { invokeInBackground } from '../_shared/background.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-signature',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-signature, x-webhook-timestamp, idempotency-key, x-idempotency-key, x-proxy-idempotency-key',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255
+
+// Payload fields that uniquely identify a submission at the source provider, in priority order
+const PROVIDER_SUBMISSION_ID_PATHS: string[][] = [
+  ['response_id'],              // Typeform (Pipedream templates)
+  ['form_response', 'token'],   // Typeform (raw webhook)
+  ['submission_id'],            // JotForm (Pipedream template)
+  ['submissionID'],             // JotForm (raw webhook)
+  ['responseId'],               // Google Forms
+  ['event_id'],                 // Generic event-based senders
+]
+
+// Use the caller's Idempotency-Key header, or derive one from a provider submission id. The
+// Netlify webhook proxy adds X-Proxy-Idempotency-Key (one per incoming event) as a last resort,
+// so its own retries are deduped without hiding a provider id that catches provider re-sends.
+const deriveIdempotencyKey = (req: Request, payload: any): string | null => {
+  const headerKey = req.headers.get('idempotency-key') || req.headers.get('x-idempotency-key')
+  if (headerKey?.trim()) {
+    return headerKey.trim().substring(0, MAX_IDEMPOTENCY_KEY_LENGTH)
+  }
+
+  if (!payload || typeof payload !== 'object') return null
+
+  for (const path of PROVIDER_SUBMISSION_ID_PATHS) {
+    const value = path.reduce((current: any, key) => current?.[key], payload)
+    if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+      const source = typeof payload.source === 'string' && payload.source ? payload.source : 'payload'
+      return `${source}:${path.join('.')}:${value}`.substring(0, MAX_IDEMPOTENCY_KEY_LENGTH)
+    }
+  }
+
+  const proxyKey = req.headers.get('x-proxy-idempotency-key')
+  if (proxyKey?.trim()) {
+    return `proxy:${proxyKey.trim()}`.substring(0, MAX_IDEMPOTENCY_KEY_LENGTH)
+  }
+
+  return null
+}
+
+// Compute the hex HMAC-SHA256 of "{timestamp}.{rawBody}" with the given secret
+const computeSignature = async (secret: string, timestamp: string, rawBody: string): Promise<string> => {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${rawBody}`))
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Constant-time string comparison so signature checks don't leak timing information
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false
+  let mismatch = 0
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
+// Verify the signature headers of a request against the active (and, during rotation, previous) secret
+const verifySignature = async (
+  req: Request,
+  rawBody: string,
+  secrets: string[],
+  toleranceSeconds: number
+): Promise<{ valid: boolean; reason?: string }> => {
+  const signatureHeader = req.headers.get('x-webhook-signature')
+  const timestampHeader = req.headers.get('x-webhook-timestamp')
+
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: 'Missing x-webhook-signature or x-webhook-timestamp header' }
+  }
+
+  const timestamp = Number(timestampHeader)
+  if (!Number.isFinite(timestamp)) {
+    return { valid: false, reason: 'Invalid x-webhook-timestamp header' }
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestamp)
+  if (ageSeconds > toleranceSeconds) {
+    return { valid: false, reason: 'Request timestamp is outside the allowed tolerance window' }
+  }
+
+  // Accept both "sha256=<hex>" and a bare hex digest
+  const providedSignature = signatureHeader.replace(/^sha256=/, '').trim().toLowerCase()
+
+  for (const secret of secrets) {
+    const expectedSignature = await computeSignature(secret, timestampHeader, rawBody)
+    if (timingSafeEqual(expectedSignature, providedSignature)) {
+      return { valid: true }
+    }
+  }
+
+  return { valid: false, reason: 'Signature mismatch' }
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -38,7 +158,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const openaiApiKey = Deno.env.get('openai_api_key')
 
     if (!supabaseUrl || !supabaseServiceKey) {
       return new Response(
@@ -50,16 +169,6 @@ serve(async (req) => {
       )
     }
 
-    if (!openaiApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
     // Extract user_id and webhook_token from URL path
     const url = new URL(req.url)
     const pathParts = url.pathname.split('/').filter(part => part.length > 0)
@@ -96,14 +205,17 @@ serve(async (req) => {
       }
     })
 
+    // Read the raw body first - signatures are computed over the exact bytes sent
+    const rawBody = await req.text()
+
     // Parse webhook payload - accept any JSON structure
-    const payload = await req.json()
+    const payload = JSON.parse(rawBody)
     console.log('📥 [Webhook] Received payload for user:', userId, 'Keys:', Object.keys(payload))
 
     // Verify webhook token against user's stored token
     const { data: webhookSettings, error: settingsError } = await supabase
       .from('user_checkin_webhook_settings')
-      .select('webhook_secret')
+      .select('webhook_secret, auth_mode, signing_secret, previous_signing_secret, previous_signing_secret_expires_at, signature_tolerance_seconds, field_mappings')
       .eq('user_id', userId)
       .eq('is_active', true)
       .single()
@@ -133,11 +245,98 @@ serve(async (req) => {
 
     console.log('✅ [Webhook] Token verified for user:', userId)
 
+    // Verify HMAC signature when the coach has enabled signed-payload mode
+    if (webhookSettings.auth_mode === 'signature') {
+      if (!webhookSettings.signing_secret) {
+        console.error('❌ [Webhook] Signature mode enabled but no signing secret configured')
+        return new Response(
+          JSON.stringify({ error: 'Webhook signing secret not configured' }),
+          { 
+            status: 401, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const secrets = [webhookSettings.signing_secret]
+      if (
+        webhookSettings.previous_signing_secret &&
+        webhookSettings.previous_signing_secret_expires_at &&
+        new Date(webhookSettings.previous_signing_secret_expires_at) > new Date()
+      ) {
+        secrets.push(webhookSettings.previous_signing_secret)
+      }
+
+      const { valid, reason } = await verifySignature(
+        req,
+        rawBody,
+        secrets,
+        webhookSettings.signature_tolerance_seconds || DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+      )
+
+      if (!valid) {
+        console.error('❌ [Webhook] Signature verification failed:', reason)
+        return new Response(
+          JSON.stringify({ error: 'Invalid webhook signature', details: reason }),
+          { 
+            status: 401, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      console.log('✅ [Webhook] Signature verified for user:', userId)
+    }
+
+    // Short-circuit retried deliveries before any side effects (client creation, embeddings)
+    const idempotencyKey = deriveIdempotencyKey(req, payload)
+
+    const findExistingCheckin = async () => {
+      if (!idempotencyKey) return null
+      const { data: existingCheckin } = await supabase
+        .from('checkins')
+        .select('id, client_name')
+        .eq('coach_id', userId)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle()
+      return existingCheckin
+    }
+
+    const duplicateResponse = (existingCheckin: { id: string; client_name: string }) => {
+      console.log('♻️ [Webhook] Duplicate delivery, returning existing check-in:', existingCheckin.id)
+      return new Response(
+        JSON.stringify({
+          success: true,
+          duplicate: true,
+          message: 'Check-in already processed',
+          checkin_id: existingCheckin.id,
+          client_name: existingCheckin.client_name,
+          idempotency_key: idempotencyKey
+        }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const existingCheckin = await findExistingCheckin()
+    if (existingCheckin) {
+      return duplicateResponse(existingCheckin)
+    }
+
+    // Coach-defined field mappings take precedence over the built-in extraction below
+    const mappedFields = applyFieldMappings(payload, webhookSettings.field_mappings)
+    if (Object.keys(mappedFields).length > 0) {
+      console.log('🧭 [Webhook] Applied field mappings:', Object.keys(mappedFields))
+    }
+
     // Extract contact information with intelligent fallbacks
     const extractContactInfo = (payload: any) => {
       // Try to extract client_name
       let clientName = ''
-      if (payload.contact?.name) {
+      if (mappedFields.client_name) {
+        clientName = mappedFields.client_name
+      } else if (payload.contact?.name) {
         clientName = payload.contact.name
       } else if (payload.contact?.firstName || payload.contact?.lastName) {
         clientName = `${payload.contact.firstName || ''} ${payload.contact.lastName || ''}`.trim()
@@ -160,10 +359,10 @@ serve(async (req) => {
       }
 
       // Try to extract email
-      const email = payload.contact?.email || payload.email || null
+      const email = mappedFields.email || payload.contact?.email || payload.email || null
 
       // Try to extract phone
-      const phone = payload.contact?.phone || payload.phone || null
+      const phone = mappedFields.phone || payload.contact?.phone || payload.phone || null
 
       return { clientName, clientId, email, phone }
     }
@@ -174,7 +373,7 @@ serve(async (req) => {
     if (!clientName) {
       return new Response(
         JSON.stringify({ 
-          error: 'Client name is required. Please ensure your form includes name, firstName/lastName, or contact.name fields.' 
+          error: 'Client name is required. Please ensure your form includes name, firstName/lastName, or contact.name fields, or configure a client name field mapping.' 
         }),
         { 
           status: 400, 
@@ -185,8 +384,19 @@ serve(async (req) => {
 
     console.log('👤 [Webhook] Extracted contact info:', { clientName, clientId, email, phone })
 
+    // Voice notes and videos are transcribed after the check-in is stored
+    const mediaAttachments = findMediaAttachments(payload)
+    if (mediaAttachments.length > 0) {
+      console.log('🎙️ [Webhook] Found media attachments:', mediaAttachments.map(media => media.field))
+    }
+
     // Derive transcript from payload
     const deriveTranscript = (payload: any) => {
+      if (mappedFields.transcript) {
+        console.log('📝 [Webhook] Using mapped transcript')
+        return mappedFields.transcript
+      }
+
       // First, try to find content in expected transcript fields
       const transcriptFields = ['transcript', 'message', 'notes', 'checkin_notes']
       
@@ -203,7 +413,9 @@ serve(async (req) => {
       // Fields to exclude from transcript derivation (already mapped or internal)
       const excludeFields = new Set([
         'contact', 'name', 'firstName', 'lastName', 'client_name', 'client_id', 'contact_id',
-        'email', 'phone', 'id', 'timestamp', 'created_at', 'updated_at'
+        'email', 'phone', 'id', 'timestamp', 'created_at', 'updated_at',
+        // Media fields would only contribute URLs; their transcripts are appended later
+        ...mediaAttachments.map(media => media.field.split('.')[0])
       ])
 
       // Create transcript from remaining fields
@@ -220,6 +432,11 @@ serve(async (req) => {
       })
 
       if (transcriptParts.length === 0) {
+        // A voice-note-only check-in gets its whole transcript from transcription
+        if (mediaAttachments.length > 0) {
+          return ''
+        }
+
         // Fallback: stringify the entire payload if no meaningful fields found
         return JSON.stringify(payload, null, 2)
       }
@@ -232,30 +449,16 @@ serve(async (req) => {
 
     // Generate embedding for the transcript
     let embedding = null
-    try {
-      console.log('🧠 [Webhook] Generating embedding...')
-      const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-ada-002',
-          input: derivedTranscript,
-        }),
-      })
-
-      if (embeddingResponse.ok) {
-        const embeddingData = await embeddingResponse.json()
-        embedding = embeddingData.data[0].embedding
+    if (derivedTranscript) {
+      try {
+        // A missing or misconfigured provider only costs the embedding, never the check-in
+        const embeddings = createEmbeddingProvider(await loadCoachAiSettings(supabase, userId))
+        console.log('🧠 [Webhook] Generating embedding with', embeddings.name)
+        embedding = await embeddings.embed(derivedTranscript)
         console.log('✅ [Webhook] Embedding generated successfully')
-      } else {
-        const errorText = await embeddingResponse.text()
-        console.error('❌ [Webhook] Failed to generate embedding:', errorText)
+      } catch (error) {
+        console.error('❌ [Webhook] Error generating embedding:', error)
       }
-    } catch (error) {
-      console.error('❌ [Webhook] Error generating embedding:', error)
     }
 
     // Generate suggested tags from transcript (basic implementation)
@@ -325,7 +528,7 @@ serve(async (req) => {
       const findByPhone = async (phoneNumber: string) => {
         const { data: client } = await supabase
           .from('clients')
-          .select('id, full_name, phone')
+          .select('id, full_name, phone, assigned_coach_id')
           .eq('coach_id', userId)
           .eq('phone', phoneNumber)
           .single()
@@ -336,7 +539,7 @@ serve(async (req) => {
       const findByEmail = async (emailAddress: string) => {
         const { data: client } = await supabase
           .from('clients')
-          .select('id, full_name, email')
+          .select('id, full_name, email, assigned_coach_id')
           .eq('coach_id', userId)
           .eq('email', emailAddress)
           .single()
@@ -349,13 +552,13 @@ serve(async (req) => {
         matchedClient = await findByPhone(normalizedPhone)
         if (matchedClient) {
           console.log('✅ [Webhook] Found client by phone (primary):', matchedClient.full_name)
-          return matchedClient.id
+          return matchedClient
         }
       } else if (primary_identifier === 'email' && normalizedEmail) {
         matchedClient = await findByEmail(normalizedEmail)
         if (matchedClient) {
           console.log('✅ [Webhook] Found client by email (primary):', matchedClient.full_name)
-          return matchedClient.id
+          return matchedClient
         }
       }
 
@@ -365,13 +568,13 @@ serve(async (req) => {
           matchedClient = await findByPhone(normalizedPhone)
           if (matchedClient) {
             console.log('✅ [Webhook] Found client by phone (fallback):', matchedClient.full_name)
-            return matchedClient.id
+            return matchedClient
           }
         } else if (fallback_identifier === 'email' && normalizedEmail) {
           matchedClient = await findByEmail(normalizedEmail)
           if (matchedClient) {
             console.log('✅ [Webhook] Found client by email (fallback):', matchedClient.full_name)
-            return matchedClient.id
+            return matchedClient
           }
         }
       }
@@ -386,8 +589,14 @@ serve(async (req) => {
         throw new Error('Cannot create client without phone number or email address')
       }
 
+      // Spread new clients across the team: whoever has the fewest active clients gets this one
+      const { data: assigneeId, error: assigneeError } = await supabase.rpc('pick_client_assignee', { p_coach_id: userId })
+      if (assigneeError) {
+        console.warn('⚠️ [Webhook] Could not pick an assignee, leaving client unassigned:', assigneeError)
+      }
+
       // Create new client
-      console.log('🆕 [Webhook] Creating new client:', clientName)
+      console.log('🆕 [Webhook] Creating new client:', clientName, 'assigned to:', assigneeId || 'nobody')
       const { data: newClient, error: clientError } = await supabase
         .from('clients')
         .insert({
@@ -399,9 +608,10 @@ serve(async (req) => {
           engagement_level: new_client_engagement,
           custom_fields: clientId ? { external_id: clientId } : {},
           tags: ['webhook-created'],
-          onboarded_at: new Date().toISOString()
+          onboarded_at: new Date().toISOString(),
+          assigned_coach_id: assigneeId || null
         })
-        .select('id')
+        .select('id, assigned_coach_id')
         .single()
 
       if (clientError) {
@@ -410,13 +620,16 @@ serve(async (req) => {
       }
 
       console.log('✅ [Webhook] Created new client with ID:', newClient.id)
-      return newClient.id
+      return newClient
     }
 
-    // Get the definitive client ID using smart matching
+    // Get the definitive client using smart matching
     let definitiveClientId: string
+    let assignedCoachId: string | null
     try {
-      definitiveClientId = await findOrCreateClient()
+      const client = await findOrCreateClient()
+      definitiveClientId = client.id
+      assignedCoachId = client.assigned_coach_id || null
     } catch (error) {
       console.error('❌ [Webhook] Failed to find/create client:', error)
       return new Response(
@@ -434,17 +647,28 @@ serve(async (req) => {
       .insert({
         coach_id: userId,
         client_id: definitiveClientId, // Now guaranteed to be a valid client ID
+        assigned_coach_id: assignedCoachId, // Routes the check-in to the client's coach's queue
         client_name: clientName,
         transcript: derivedTranscript,
         embedding: embedding,
         tags: suggestedTags,
         raw_data: payload, // Store complete original payload
         date: new Date().toISOString(),
+        idempotency_key: idempotencyKey,
+        transcription_status: mediaAttachments.length > 0 ? 'pending' : null,
       })
       .select()
       .single()
 
     if (insertError) {
+      // A concurrent delivery with the same key won the race - return its check-in
+      if (insertError.code === '23505' && idempotencyKey) {
+        const racedCheckin = await findExistingCheckin()
+        if (racedCheckin) {
+          return duplicateResponse(racedCheckin)
+        }
+      }
+
       console.error('❌ [Webhook] Error inserting check-in:', insertError)
       return new Response(
         JSON.stringify({ error: 'Failed to store check-in', details: insertError.message }),
@@ -455,6 +679,93 @@ serve(async (req) => {
       )
     }
 
+    // Parse typed answers using the form named in the payload, or the coach's default form.
+    // Typeform and JotForm put their own form id in `form_id`, so only one of this coach's
+    // form ids selects a form; anything else falls back to the default.
+    let answersStored = 0
+    try {
+      const formUuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+      const requestedFormId = typeof payload.form_id === 'string' && formUuidRegex.test(payload.form_id)
+        ? payload.form_id
+        : null
+
+      let form: CheckinForm | null = null
+      if (requestedFormId) {
+        const { data } = await supabase
+          .from('checkin_forms')
+          .select('id, questions')
+          .eq('coach_id', userId)
+          .eq('id', requestedFormId)
+          .maybeSingle()
+        form = data
+      }
+
+      if (!form) {
+        const { data } = await supabase
+          .from('checkin_forms')
+          .select('id, questions')
+          .eq('coach_id', userId)
+          .eq('is_default', true)
+          .maybeSingle()
+        form = data
+      }
+
+      if (form) {
+        const answers = extractCheckinAnswers(payload, form)
+        if (answers.length > 0) {
+          const { error: answersError } = await supabase
+            .from('checkin_answers')
+            .insert(answers.map(answer => ({
+              ...answer,
+              checkin_id: checkin.id,
+              coach_id: userId,
+              client_id: definitiveClientId,
+              form_id: form.id,
+              answered_at: checkin.date,
+            })))
+
+          if (answersError) {
+            console.error('❌ [Webhook] Error storing check-in answers:', answersError)
+          } else {
+            answersStored = answers.length
+            console.log(`🧾 [Webhook] Stored ${answersStored} typed answers from form ${form.id}`)
+          }
+        }
+      }
+    } catch (answersError) {
+      // Answers are supplementary - the check-in itself is already stored
+      console.error('❌ [Webhook] Failed to parse check-in answers:', answersError)
+    }
+
+    // Queue media for transcription without holding up the sender
+    let transcriptionQueued = false
+    if (mediaAttachments.length > 0) {
+      const { error: mediaError } = await supabase
+        .from('checkin_media')
+        .insert(mediaAttachments.map(media => ({
+          checkin_id: checkin.id,
+          coach_id: userId,
+          source_url: media.url,
+          source_field: media.field,
+          file_name: media.fileName,
+          mime_type: media.mimeType,
+        })))
+
+      if (mediaError) {
+        console.error('❌ [Webhook] Error queuing media for transcription:', mediaError)
+        await supabase
+          .from('checkins')
+          .update({ transcription_status: 'failed', transcription_error: 'Could not queue attachments for transcription' })
+          .eq('id', checkin.id)
+      } else {
+        invokeInBackground(supabaseUrl, supabaseServiceKey, 'transcribe-checkin-media', { checkinId: checkin.id })
+        transcriptionQueued = true
+      }
+    } else {
+      // The insert trigger queued the analysis; run the worker now instead of waiting for the schedule
+      invokeInBackground(supabaseUrl, supabaseServiceKey, 'process-jobs')
+    }
+
     console.log(`✅ [Webhook] Successfully processed check-in for coach: ${userId}, client: ${clientName}`)
 
     return new Response(
@@ -466,7 +777,11 @@ serve(async (req) => {
         transcript_length: derivedTranscript.length,
         embedding_generated: !!embedding,
         suggested_tags: suggestedTags,
-        raw_data_stored: true
+        raw_data_stored: true,
+        answers_stored: answersStored,
+        media_attachments: mediaAttachments.length,
+        transcription_queued: transcriptionQueued,
+        idempotency_key: idempotencyKey
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -0,0 +1,24 @@
+/*
+  # Add signed-payload authentication to checkin webhooks
+
+  1. Changes
+    - `auth_mode` - 'token' (URL token only) or 'signature' (URL token + HMAC signature)
+    - `signing_secret` - Shared secret used to compute the HMAC-SHA256 signature
+    - `previous_signing_secret` - Secret that was active before the last rotation
+    - `previous_signing_secret_expires_at` - End of the grace period for the previous secret
+    - `signing_secret_rotated_at` - When the signing secret was last rotated
+    - `signature_tolerance_seconds` - Maximum allowed clock skew for `x-webhook-timestamp`
+
+  2. Notes
+    - Existing webhooks keep working: `auth_mode` defaults to 'token'
+    - Signed requests must send `x-webhook-timestamp` (unix seconds) and
+      `x-webhook-signature` = `sha256=` + hex(HMAC_SHA256(secret, "{timestamp}.{raw_body}"))
+*/
+
+ALTER TABLE public.user_checkin_webhook_settings
+    ADD COLUMN IF NOT EXISTS auth_mode TEXT DEFAULT 'token' CHECK (auth_mode IN ('token', 'signature')),
+    ADD COLUMN IF NOT EXISTS signing_secret TEXT,
+    ADD COLUMN IF NOT EXISTS previous_signing_secret TEXT,
+    ADD COLUMN IF NOT EXISTS previous_signing_secret_expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS signing_secret_rotated_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS signature_tolerance_seconds INTEGER DEFAULT 300 CHECK (signature_tolerance_seconds BETWEEN 30 AND 3600);
@@ -0,0 +1,18 @@
+/*
+  # Add idempotency keys to checkins
+
+  1. Changes
+    - `idempotency_key` - Caller-supplied (Idempotency-Key header) or provider-derived
+      (e.g. Typeform `response_id`) identifier for a submission
+    - Unique index per coach so retried webhook deliveries cannot create duplicate check-ins
+
+  2. Notes
+    - Existing check-ins keep a NULL key and are not affected by the unique index
+*/
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_checkins_coach_idempotency_key
+    ON public.checkins(coach_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
@@ -0,0 +1,15 @@
+/*
+  # Add per-coach payload field mappings to checkin webhooks
+
+  1. Changes
+    - `field_mappings` - JSON rules describing where to find client_name, email, phone
+      and transcript in an incoming payload
+
+  2. Notes
+    - Shape: { "<field>": { "selectors": ["$.path", ...], "concat": bool, "separator": text, "default": text } }
+    - NULL (the default) keeps the built-in extraction used by webhook-checkin
+    - Fields without a rule, or whose rule matches nothing, also fall back to the built-in extraction
+*/
+
+ALTER TABLE public.user_checkin_webhook_settings
+    ADD COLUMN IF NOT EXISTS field_mappings JSONB;
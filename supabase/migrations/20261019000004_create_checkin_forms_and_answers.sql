@@ -0,0 +1,85 @@
+/*
+  # Structured check-in questionnaires
+
+  1. New Tables
+    - `checkin_forms` - Coach-defined check-in form schemas
+      - `questions` - JSON array of { id, label, type, unit, scale_min, scale_max, options, selectors }
+      - `is_default` - Form used for incoming check-ins that don't name a `form_id`
+    - `checkin_answers` - Typed answers parsed from each check-in at ingestion
+      - One row per (checkin, question); the value lands in `value_number`, `value_text` or `value_boolean`
+        depending on the question type
+      - `answered_at` mirrors the check-in date so metrics can be charted without a join
+
+  2. Security
+    - RLS on both tables, scoped to `coach_id = auth.uid()`
+    - webhook-checkin writes answers with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.checkin_forms (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    questions JSONB NOT NULL DEFAULT '[]',
+    is_default BOOLEAN DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_forms_coach_id ON public.checkin_forms(coach_id);
+
+-- At most one default form per coach
+CREATE UNIQUE INDEX IF NOT EXISTS idx_checkin_forms_coach_default
+    ON public.checkin_forms(coach_id)
+    WHERE is_default;
+
+ALTER TABLE public.checkin_forms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can view own checkin forms" ON public.checkin_forms
+    FOR SELECT USING (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can insert own checkin forms" ON public.checkin_forms
+    FOR INSERT WITH CHECK (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can update own checkin forms" ON public.checkin_forms
+    FOR UPDATE USING (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can delete own checkin forms" ON public.checkin_forms
+    FOR DELETE USING (auth.uid() = coach_id);
+
+CREATE TABLE IF NOT EXISTS public.checkin_answers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    checkin_id UUID NOT NULL REFERENCES public.checkins(id) ON DELETE CASCADE,
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+    form_id UUID REFERENCES public.checkin_forms(id) ON DELETE SET NULL,
+    question_id TEXT NOT NULL,
+    question_label TEXT,
+    question_type TEXT NOT NULL CHECK (question_type IN ('number', 'scale', 'boolean', 'choice', 'text')),
+    unit TEXT,
+    value_number NUMERIC,
+    value_text TEXT,
+    value_boolean BOOLEAN,
+    answered_at TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(checkin_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_answers_checkin_id ON public.checkin_answers(checkin_id);
+CREATE INDEX IF NOT EXISTS idx_checkin_answers_client_question
+    ON public.checkin_answers(client_id, question_id, answered_at DESC);
+
+ALTER TABLE public.checkin_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can view own checkin answers" ON public.checkin_answers
+    FOR SELECT USING (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can insert own checkin answers" ON public.checkin_answers
+    FOR INSERT WITH CHECK (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can update own checkin answers" ON public.checkin_answers
+    FOR UPDATE USING (auth.uid() = coach_id);
+
+CREATE POLICY "Coaches can delete own checkin answers" ON public.checkin_answers
+    FOR DELETE USING (auth.uid() = coach_id);
@@ -0,0 +1,118 @@
+/*
+  # Server-side check-in analytics
+
+  1. New Views
+    - `client_checkin_stats` - One row per client with check-in counts, response-time
+      average/percentiles (hours), oldest pending check-in and a 30-day engagement trend
+
+  2. New Functions
+    - `get_coach_analytics(p_coach_id)` - Coach-wide totals, pending age and response-time
+      percentiles, plus how many clients are trending up or down
+
+  3. Security
+    - The view uses `security_invoker` and the function is SECURITY INVOKER, so the existing
+      RLS policies on `clients` and `checkins` still decide which rows are aggregated
+
+  4. Notes
+    - Response time is measured from `checkins.created_at` to `response_submitted_at`
+    - Engagement trend compares check-ins in the last 30 days with the 30 days before,
+      matching the rules previously computed in the browser
+*/
+
+CREATE INDEX IF NOT EXISTS idx_checkins_client_date ON public.checkins(client_id, date DESC);
+
+CREATE OR REPLACE VIEW public.client_checkin_stats
+WITH (security_invoker = true) AS
+SELECT
+    stats.*,
+    CASE
+        WHEN stats.checkins_last_30_days > stats.checkins_prev_30_days THEN 'improving'
+        WHEN stats.checkins_last_30_days = stats.checkins_prev_30_days THEN 'stable'
+        WHEN stats.checkins_prev_30_days > 0 THEN 'declining'
+        ELSE 'unknown'
+    END AS engagement_trend
+FROM (
+    SELECT
+        c.id AS client_id,
+        c.coach_id,
+        COUNT(ch.id) AS total_checkins,
+        COUNT(ch.id) FILTER (WHERE ch.status = 'pending_response') AS pending_checkins,
+        COUNT(ch.id) FILTER (WHERE ch.status = 'responded') AS responded_checkins,
+        AVG(EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+            FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS avg_response_hours,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+            FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS p50_response_hours,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+            FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS p90_response_hours,
+        MIN(ch.created_at) FILTER (WHERE ch.status = 'pending_response') AS oldest_pending_at,
+        MAX(ch.date) AS last_checkin_date,
+        COUNT(ch.id) FILTER (WHERE ch.date >= NOW() - INTERVAL '30 days') AS checkins_last_30_days,
+        COUNT(ch.id) FILTER (WHERE ch.date >= NOW() - INTERVAL '60 days' AND ch.date < NOW() - INTERVAL '30 days') AS checkins_prev_30_days
+    FROM public.clients c
+    LEFT JOIN public.checkins ch ON ch.client_id = c.id AND ch.coach_id = c.coach_id
+    GROUP BY c.id, c.coach_id
+) stats;
+
+GRANT SELECT ON public.client_checkin_stats TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_coach_analytics(p_coach_id UUID)
+RETURNS TABLE (
+    total_clients BIGINT,
+    active_clients BIGINT,
+    total_checkins BIGINT,
+    pending_checkins BIGINT,
+    oldest_pending_at TIMESTAMPTZ,
+    avg_response_hours DOUBLE PRECISION,
+    p50_response_hours DOUBLE PRECISION,
+    p90_response_hours DOUBLE PRECISION,
+    improving_clients BIGINT,
+    declining_clients BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH client_totals AS (
+        SELECT
+            COUNT(*) AS total_clients,
+            COUNT(*) FILTER (WHERE c.status = 'active') AS active_clients
+        FROM clients c
+        WHERE c.coach_id = p_coach_id
+    ),
+    checkin_totals AS (
+        SELECT
+            COUNT(*) AS total_checkins,
+            COUNT(*) FILTER (WHERE ch.status = 'pending_response') AS pending_checkins,
+            MIN(ch.created_at) FILTER (WHERE ch.status = 'pending_response') AS oldest_pending_at,
+            AVG(EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+                FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS avg_response_hours,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+                FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS p50_response_hours,
+            percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (ch.response_submitted_at - ch.created_at)) / 3600)
+                FILTER (WHERE ch.status = 'responded' AND ch.response_submitted_at IS NOT NULL) AS p90_response_hours
+        FROM checkins ch
+        WHERE ch.coach_id = p_coach_id
+    ),
+    trend_totals AS (
+        SELECT
+            COUNT(*) FILTER (WHERE s.engagement_trend = 'improving') AS improving_clients,
+            COUNT(*) FILTER (WHERE s.engagement_trend = 'declining') AS declining_clients
+        FROM client_checkin_stats s
+        WHERE s.coach_id = p_coach_id
+    )
+    SELECT
+        client_totals.total_clients,
+        client_totals.active_clients,
+        checkin_totals.total_checkins,
+        checkin_totals.pending_checkins,
+        checkin_totals.oldest_pending_at,
+        checkin_totals.avg_response_hours::DOUBLE PRECISION,
+        checkin_totals.p50_response_hours,
+        checkin_totals.p90_response_hours,
+        trend_totals.improving_clients,
+        trend_totals.declining_clients
+    FROM client_totals, checkin_totals, trend_totals;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_coach_analytics(UUID) TO authenticated;
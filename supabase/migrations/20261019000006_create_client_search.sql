@@ -0,0 +1,104 @@
+/*
+  # Server-side client listing with search, filters and cursor paging
+
+  1. Changes
+    - `clients.search_vector` - Generated tsvector over full_name, email (weight A), goals (B) and notes (C)
+    - GIN index on `search_vector` and a GIN index on `tags` for tag filters
+
+  2. New Functions
+    - `search_clients_page(...)` - Returns one page of a coach's clients
+      - Full-text search (websearch syntax) with a substring fallback on name/email for partial words
+      - Filters: status, engagement level, tags (client must have every tag), active since
+      - Sorts: 'last_checkin', 'name' or 'pending', ascending or descending
+      - Keyset paging: pass the `sort_key`/`id` of the last row as `p_cursor_key`/`p_cursor_id`
+      - Every row carries `total_count` (matches before paging) and its `pending_checkins`
+
+  3. Security
+    - SECURITY INVOKER, so RLS on `clients` and `checkins` still applies
+*/
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(full_name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(email, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(goals, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(notes, '')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_clients_search_vector ON public.clients USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_clients_tags ON public.clients USING GIN (tags);
+
+CREATE OR REPLACE FUNCTION public.search_clients_page(
+    p_coach_id UUID,
+    p_query TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_engagement TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_active_since TIMESTAMPTZ DEFAULT NULL,
+    p_sort TEXT DEFAULT 'last_checkin',
+    p_direction TEXT DEFAULT 'desc',
+    p_cursor_key TEXT DEFAULT NULL,
+    p_cursor_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+    client JSONB,
+    pending_checkins BIGINT,
+    sort_key TEXT,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_direction TEXT := CASE WHEN lower(p_direction) = 'asc' THEN 'ASC' ELSE 'DESC' END;
+    v_comparator TEXT := CASE WHEN lower(p_direction) = 'asc' THEN '>' ELSE '<' END;
+    v_sort_expression TEXT;
+BEGIN
+    -- Every sort is expressed as text that orders the same way as the underlying value,
+    -- so a single (sort_key, id) keyset works for all of them
+    v_sort_expression := CASE p_sort
+        WHEN 'name' THEN 'lower(c.full_name)'
+        WHEN 'pending' THEN 'lpad(coalesce(p.pending_checkins, 0)::TEXT, 10, ''0'')'
+        ELSE 'to_char(coalesce(c.last_checkin_at, ''epoch''::TIMESTAMPTZ) AT TIME ZONE ''UTC'', ''YYYY-MM-DD"T"HH24:MI:SS.US'')'
+    END;
+
+    RETURN QUERY EXECUTE format($query$
+        WITH pending AS (
+            SELECT ch.client_id, COUNT(*) AS pending_checkins
+            FROM checkins ch
+            WHERE ch.coach_id = $1 AND ch.status = 'pending_response'
+            GROUP BY ch.client_id
+        ),
+        filtered AS (
+            SELECT
+                to_jsonb(c) - 'search_vector' AS client,
+                coalesce(p.pending_checkins, 0) AS pending_checkins,
+                %1$s AS sort_key,
+                c.id
+            FROM clients c
+            LEFT JOIN pending p ON p.client_id = c.id
+            WHERE c.coach_id = $1
+              AND ($2::TEXT IS NULL OR $2 = '' OR
+                   c.search_vector @@ websearch_to_tsquery('english', $2) OR
+                   c.search_vector @@ websearch_to_tsquery('simple', $2) OR
+                   c.full_name ILIKE '%%' || $2 || '%%' OR
+                   c.email ILIKE '%%' || $2 || '%%')
+              AND ($3::TEXT IS NULL OR c.status = $3)
+              AND ($4::TEXT IS NULL OR c.engagement_level = $4)
+              AND ($5::TEXT[] IS NULL OR cardinality($5) = 0 OR c.tags @> $5)
+              AND ($6::TIMESTAMPTZ IS NULL OR c.last_checkin_at >= $6)
+        )
+        SELECT f.client, f.pending_checkins, f.sort_key, (SELECT COUNT(*) FROM filtered) AS total_count
+        FROM filtered f
+        WHERE $7::TEXT IS NULL OR (f.sort_key, f.id) %2$s ($7, $8)
+        ORDER BY f.sort_key %3$s, f.id %3$s
+        LIMIT $9
+    $query$, v_sort_expression, v_comparator, v_direction)
+    USING p_coach_id, p_query, p_status, p_engagement, p_tags, p_active_since, p_cursor_key, p_cursor_id, LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_clients_page(UUID, TEXT, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TEXT, TEXT, TEXT, UUID, INTEGER) TO authenticated;
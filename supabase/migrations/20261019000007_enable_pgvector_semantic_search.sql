@@ -0,0 +1,78 @@
+/*
+  # Semantic search over check-in embeddings
+
+  1. Changes
+    - Enable the `vector` extension
+    - Convert `checkins.embedding` and `chat_sessions.embedding` from FLOAT[] to vector(1536)
+      (the dimension of text-embedding-ada-002, which webhook-checkin uses)
+    - HNSW cosine index on `checkins.embedding`
+
+  2. New Functions
+    - `match_checkins(p_coach_id, p_query_embedding, p_match_count, p_min_similarity)`
+      - Returns the coach's check-ins ranked by cosine similarity with a transcript snippet
+
+  3. Security
+    - SECURITY INVOKER, so RLS on `checkins` still limits results to the caller's own check-ins
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Embeddings with an unexpected dimension can't be converted; drop them so they get regenerated
+UPDATE public.checkins
+    SET embedding = NULL
+    WHERE embedding IS NOT NULL AND array_length(embedding, 1) <> 1536;
+
+UPDATE public.chat_sessions
+    SET embedding = NULL
+    WHERE embedding IS NOT NULL AND array_length(embedding, 1) <> 1536;
+
+ALTER TABLE public.checkins
+    ALTER COLUMN embedding TYPE extensions.vector(1536)
+    USING embedding::extensions.vector(1536);
+
+ALTER TABLE public.chat_sessions
+    ALTER COLUMN embedding TYPE extensions.vector(1536)
+    USING embedding::extensions.vector(1536);
+
+CREATE INDEX IF NOT EXISTS idx_checkins_embedding
+    ON public.checkins USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE OR REPLACE FUNCTION public.match_checkins(
+    p_coach_id UUID,
+    p_query_embedding extensions.vector(1536),
+    p_match_count INTEGER DEFAULT 20,
+    p_min_similarity DOUBLE PRECISION DEFAULT 0.75
+)
+RETURNS TABLE (
+    id UUID,
+    client_id UUID,
+    client_name TEXT,
+    date TIMESTAMPTZ,
+    status TEXT,
+    tags TEXT[],
+    snippet TEXT,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+    SELECT
+        ch.id,
+        ch.client_id,
+        ch.client_name,
+        ch.date,
+        ch.status,
+        ch.tags,
+        left(regexp_replace(coalesce(ch.transcript, ''), '\s+', ' ', 'g'), 280) AS snippet,
+        1 - (ch.embedding <=> p_query_embedding) AS similarity
+    FROM checkins ch
+    WHERE ch.coach_id = p_coach_id
+      AND ch.embedding IS NOT NULL
+      AND 1 - (ch.embedding <=> p_query_embedding) >= p_min_similarity
+    ORDER BY ch.embedding <=> p_query_embedding
+    LIMIT LEAST(GREATEST(p_match_count, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_checkins(UUID, extensions.vector, INTEGER, DOUBLE PRECISION) TO authenticated, service_role;
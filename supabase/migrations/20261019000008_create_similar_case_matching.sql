@@ -0,0 +1,64 @@
+/*
+  # Similar-case retrieval for check-in analysis
+
+  1. New Functions
+    - `match_similar_cases(p_coach_id, p_query_embedding, p_exclude_client_id, p_match_count, p_min_similarity)`
+      - Returns the coach's responded check-ins from other clients ranked by cosine similarity
+      - Only check-ins with a recorded coach response are considered, since the response is
+        what makes a past case useful as a reference
+
+  2. Security
+    - SECURITY INVOKER; used by openai-checkin-analysis with the service role
+
+  3. Notes
+    - Replaces the tag-overlap lookup, which matched almost everything because most
+      check-ins are tagged `general` or `motivation`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_checkins_coach_status ON public.checkins(coach_id, status);
+
+CREATE OR REPLACE FUNCTION public.match_similar_cases(
+    p_coach_id UUID,
+    p_query_embedding extensions.vector(1536),
+    p_exclude_client_id UUID DEFAULT NULL,
+    p_match_count INTEGER DEFAULT 3,
+    p_min_similarity DOUBLE PRECISION DEFAULT 0.8
+)
+RETURNS TABLE (
+    id UUID,
+    client_id UUID,
+    client_name TEXT,
+    date TIMESTAMPTZ,
+    tags TEXT[],
+    transcript TEXT,
+    coach_response TEXT,
+    response_type TEXT,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+    SELECT
+        ch.id,
+        ch.client_id,
+        ch.client_name,
+        ch.date,
+        ch.tags,
+        ch.transcript,
+        ch.coach_response,
+        ch.response_type,
+        1 - (ch.embedding <=> p_query_embedding) AS similarity
+    FROM checkins ch
+    WHERE ch.coach_id = p_coach_id
+      AND ch.status = 'responded'
+      AND ch.coach_response IS NOT NULL
+      AND ch.embedding IS NOT NULL
+      AND (p_exclude_client_id IS NULL OR ch.client_id IS DISTINCT FROM p_exclude_client_id)
+      AND 1 - (ch.embedding <=> p_query_embedding) >= p_min_similarity
+    ORDER BY ch.embedding <=> p_query_embedding
+    LIMIT LEAST(GREATEST(p_match_count, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_similar_cases(UUID, extensions.vector, UUID, INTEGER, DOUBLE PRECISION) TO authenticated, service_role;
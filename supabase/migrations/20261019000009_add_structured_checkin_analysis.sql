@@ -0,0 +1,34 @@
+/*
+  # Structured AI analysis for check-ins
+
+  1. Changes to `checkins`
+    - `ai_analysis_structured` (JSONB) - Validated analysis: summary, key insights, risk flags,
+      sentiment, recommended actions and suggested plan changes
+    - `ai_risk_level` (TEXT) - 'low', 'medium' or 'high', copied out of the structured analysis
+    - `ai_risk_rank` (SMALLINT) - Generated from `ai_risk_level` so check-ins sort by severity
+    - `ai_sentiment_score` (NUMERIC) - -1 (very negative) to 1 (very positive)
+    - Indexes for filtering and sorting a coach's check-ins by risk and sentiment
+
+  2. Notes
+    - `ai_analysis` keeps a markdown rendering of the structured analysis, so the chat
+      assistant and response templates that read it keep working
+    - Analyses generated before this change have no structured data; they are shown as markdown
+*/
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS ai_analysis_structured JSONB,
+    ADD COLUMN IF NOT EXISTS ai_risk_level TEXT CHECK (ai_risk_level IN ('low', 'medium', 'high')),
+    ADD COLUMN IF NOT EXISTS ai_sentiment_score NUMERIC(3, 2) CHECK (ai_sentiment_score BETWEEN -1 AND 1);
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS ai_risk_rank SMALLINT GENERATED ALWAYS AS (
+        CASE ai_risk_level
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            WHEN 'low' THEN 1
+            ELSE 0
+        END
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_checkins_coach_risk ON public.checkins(coach_id, ai_risk_rank DESC, date DESC);
+CREATE INDEX IF NOT EXISTS idx_checkins_coach_sentiment ON public.checkins(coach_id, ai_sentiment_score);
@@ -0,0 +1,352 @@
+/*
+  # Multi-seat teams
+
+  1. New Tables
+    - `team_members` - People who work on a head coach's caseload
+      - `coach_id` - The head coach who owns the clients and check-ins
+      - `member_id` - The member's user, set once the invitation is accepted
+      - `member_email` - Where the invitation was sent; must match the accepting account
+      - `role` - 'assistant_coach' (view and respond) or 'admin' (also manages team and settings)
+      - `status` - 'pending_invitation', 'active' or 'inactive'
+      - `invite_token` / `invite_expires_at` - Single-use token for the accept link
+
+  2. New Functions
+    - `team_role(p_coach_id)` - 'owner', 'admin', 'assistant_coach' or NULL for the current user
+    - `has_team_access(p_coach_id)` / `can_manage_team(p_coach_id)` - Used by RLS policies
+    - `shares_team_with(p_user_id)` - Whether the current user and p_user_id are on the same team
+    - `get_team_invitation(p_token)` - Who sent an invitation, shown before accepting it
+    - `accept_team_invitation(p_token)` - Joins the team for the signed-in user
+    - `team_has_checkin_webhook(p_coach_id)` - Whether the head coach has a check-in webhook
+
+  3. Security
+    - Owners and admins manage `team_members`; members can see their team and leave it
+    - Active members can view the head coach's clients, check-ins, forms and answers
+      and can update clients and check-ins (responding)
+    - Only owners and admins can read the webhook settings (they hold the secrets);
+      assistants use `team_has_checkin_webhook` to see whether a webhook is set up
+    - Managers can only insert pending invitations without an account attached, and a trigger
+      limits updates to role, status and invitation fields; `coach_id`, `member_email` and
+      `member_id` can't be changed by managers
+    - Only owners and admins can create or delete clients and check-ins or change settings
+
+  4. Notes
+    - Role helpers are SECURITY DEFINER so policies on `team_members` don't recurse
+    - A user can be an active member of one team at a time
+*/
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    member_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    member_email TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'assistant_coach' CHECK (role IN ('assistant_coach', 'admin')),
+    status TEXT NOT NULL DEFAULT 'pending_invitation' CHECK (status IN ('pending_invitation', 'active', 'inactive')),
+    invite_token TEXT UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+    invite_expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '14 days',
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (member_id IS NULL OR member_id <> coach_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_coach_email
+    ON public.team_members(coach_id, lower(member_email));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_one_active_team
+    ON public.team_members(member_id)
+    WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_team_members_coach ON public.team_members(coach_id);
+
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+-- Role helpers (SECURITY DEFINER: they read team_members without going through its RLS)
+CREATE OR REPLACE FUNCTION public.team_role(p_coach_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN auth.uid() IS NULL THEN NULL
+        WHEN auth.uid() = p_coach_id THEN 'owner'
+        ELSE (
+            SELECT tm.role
+            FROM team_members tm
+            WHERE tm.coach_id = p_coach_id
+              AND tm.member_id = auth.uid()
+              AND tm.status = 'active'
+        )
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_team_access(p_coach_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.team_role(p_coach_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_team(p_coach_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT coalesce(public.team_role(p_coach_id) IN ('owner', 'admin'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_team_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH my_teams AS (
+        SELECT auth.uid() AS coach_id
+        UNION
+        SELECT tm.coach_id FROM team_members tm
+        WHERE tm.member_id = auth.uid() AND tm.status = 'active'
+    )
+    SELECT EXISTS (
+        SELECT 1 FROM my_teams t
+        WHERE t.coach_id = p_user_id
+           OR EXISTS (
+               SELECT 1 FROM team_members tm
+               WHERE tm.coach_id = t.coach_id
+                 AND tm.member_id = p_user_id
+                 AND tm.status = 'active'
+           )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.team_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_team_access(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_manage_team(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.shares_team_with(UUID) TO authenticated;
+
+-- team_members policies
+CREATE POLICY "Team can view team members" ON public.team_members
+    FOR SELECT USING (public.has_team_access(coach_id) OR member_id = auth.uid());
+
+-- New rows are always pending invitations; only accept_team_invitation attaches an account
+CREATE POLICY "Managers can invite team members" ON public.team_members
+    FOR INSERT WITH CHECK (
+        public.can_manage_team(coach_id)
+        AND member_id IS NULL
+        AND status = 'pending_invitation'
+    );
+
+CREATE POLICY "Managers can update team members" ON public.team_members
+    FOR UPDATE USING (public.can_manage_team(coach_id))
+    WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Managers can remove team members" ON public.team_members
+    FOR DELETE USING (public.can_manage_team(coach_id));
+
+CREATE POLICY "Members can leave their team" ON public.team_members
+    FOR DELETE USING (member_id = auth.uid());
+
+-- Managers change a member's role and status; who the row belongs to is fixed.
+-- Re-inviting may detach the old account (member_id -> NULL); only accept_team_invitation
+-- (SECURITY DEFINER, so it doesn't run as "authenticated") attaches one.
+CREATE OR REPLACE FUNCTION public.guard_team_member_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.coach_id IS DISTINCT FROM OLD.coach_id THEN
+        RAISE EXCEPTION 'A team member cannot be moved to another team'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF lower(NEW.member_email) IS DISTINCT FROM lower(OLD.member_email) THEN
+        RAISE EXCEPTION 'A team member''s email cannot be changed; invite the new address instead'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.member_id IS NOT NULL AND NEW.member_id IS DISTINCT FROM OLD.member_id THEN
+        RAISE EXCEPTION 'Team members join by accepting their invitation'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.status = 'active' AND OLD.status <> 'active' AND NEW.member_id IS NULL THEN
+        RAISE EXCEPTION 'Team members join by accepting their invitation'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_team_member_update ON public.team_members;
+CREATE TRIGGER guard_team_member_update
+    BEFORE UPDATE ON public.team_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_team_member_update();
+
+-- Shared caseload: clients (replaces the policies from the early clients migration, if present)
+DROP POLICY IF EXISTS "Team members can view coach's clients" ON public.clients;
+DROP POLICY IF EXISTS "Team members can update coach's clients" ON public.clients;
+
+CREATE POLICY "Team members can view coach's clients" ON public.clients
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team members can update coach's clients" ON public.clients
+    FOR UPDATE USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert coach's clients" ON public.clients
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can delete coach's clients" ON public.clients
+    FOR DELETE USING (public.can_manage_team(coach_id));
+
+-- Shared caseload: check-ins
+CREATE POLICY "Team members can view coach's checkins" ON public.checkins
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team members can update coach's checkins" ON public.checkins
+    FOR UPDATE USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert coach's checkins" ON public.checkins
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can delete coach's checkins" ON public.checkins
+    FOR DELETE USING (public.can_manage_team(coach_id));
+
+-- Check-in forms and answers
+CREATE POLICY "Team members can view coach's checkin forms" ON public.checkin_forms
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert coach's checkin forms" ON public.checkin_forms
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can update coach's checkin forms" ON public.checkin_forms
+    FOR UPDATE USING (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can delete coach's checkin forms" ON public.checkin_forms
+    FOR DELETE USING (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team members can view coach's checkin answers" ON public.checkin_answers
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+-- Webhook settings belong to the head coach; only admins may see the secrets or change them
+CREATE POLICY "Team managers can view coach's webhook settings" ON public.user_checkin_webhook_settings
+    FOR SELECT USING (public.can_manage_team(user_id));
+
+CREATE POLICY "Team managers can insert coach's webhook settings" ON public.user_checkin_webhook_settings
+    FOR INSERT WITH CHECK (public.can_manage_team(user_id));
+
+CREATE POLICY "Team managers can update coach's webhook settings" ON public.user_checkin_webhook_settings
+    FOR UPDATE USING (public.can_manage_team(user_id));
+
+-- Assistants only need to know whether the head coach's webhook is set up
+CREATE OR REPLACE FUNCTION public.team_has_checkin_webhook(p_coach_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.has_team_access(p_coach_id) AND EXISTS (
+        SELECT 1 FROM user_checkin_webhook_settings
+        WHERE user_id = p_coach_id AND webhook_secret IS NOT NULL
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.team_has_checkin_webhook(UUID) TO authenticated;
+
+-- Teammates can see each other's names
+CREATE POLICY "Team members can view teammates' profiles" ON public.user_profiles
+    FOR SELECT USING (public.shares_team_with(id));
+
+-- Invitation preview for the accept page
+CREATE OR REPLACE FUNCTION public.get_team_invitation(p_token TEXT)
+RETURNS TABLE (
+    coach_name TEXT,
+    member_email TEXT,
+    role TEXT,
+    expired BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        coalesce(up.full_name, up.email) AS coach_name,
+        tm.member_email,
+        tm.role,
+        tm.invite_expires_at < NOW() AS expired
+    FROM team_members tm
+    LEFT JOIN user_profiles up ON up.id = tm.coach_id
+    WHERE tm.invite_token = p_token
+      AND tm.status = 'pending_invitation';
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_team_invitation(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invite team_members%ROWTYPE;
+    v_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to accept an invitation';
+    END IF;
+
+    SELECT * INTO v_invite
+    FROM team_members
+    WHERE invite_token = p_token AND status = 'pending_invitation'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found or already used';
+    END IF;
+
+    IF v_invite.invite_expires_at < NOW() THEN
+        RAISE EXCEPTION 'This invitation has expired; ask your coach to send a new one';
+    END IF;
+
+    IF v_invite.coach_id = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot join your own team';
+    END IF;
+
+    SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+    IF lower(v_email) <> lower(v_invite.member_email) THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM team_members WHERE member_id = auth.uid() AND status = 'active') THEN
+        RAISE EXCEPTION 'You already belong to a team; leave it before joining another';
+    END IF;
+
+    UPDATE team_members
+    SET member_id = auth.uid(),
+        status = 'active',
+        invite_token = NULL,
+        accepted_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_invite.id;
+
+    RETURN v_invite.coach_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_invitation(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_team_invitation(TEXT) TO authenticated;
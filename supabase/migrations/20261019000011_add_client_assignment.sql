@@ -0,0 +1,209 @@
+/*
+  # Per-client coach assignment
+
+  1. Changes
+    - `clients.assigned_coach_id` - Team member (or the head coach) responsible for the client
+    - `checkins.assigned_coach_id` - Copied from the client when the check-in arrives, so each
+      coach has their own queue of pending check-ins
+
+  2. New Functions
+    - `pick_client_assignee(p_coach_id)` - Load-balanced choice for a new client: the team
+      member with the fewest active clients, then the fewest pending check-ins
+    - `assign_client(p_client_id, p_assignee_id)` - Reassigns a client and moves its pending
+      check-ins to the new coach's queue; NULL leaves the client unassigned
+    - `search_clients_page` gains `p_assigned_coach_id` for the "My clients" view
+
+  3. Triggers
+    - When a member leaves or is removed from a team, their clients and pending check-ins
+      become unassigned so nothing is stuck in an inaccessible queue
+
+  4. Security
+    - Both functions are SECURITY INVOKER, so RLS on `clients` and `checkins` still applies
+    - `assign_client` only accepts assignees who are the head coach or an active team member
+*/
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS assigned_coach_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS assigned_coach_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_assigned_coach ON public.clients(coach_id, assigned_coach_id);
+CREATE INDEX IF NOT EXISTS idx_checkins_assigned_coach ON public.checkins(coach_id, assigned_coach_id, status);
+
+CREATE OR REPLACE FUNCTION public.pick_client_assignee(p_coach_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH team AS (
+        SELECT p_coach_id AS member_id
+        UNION
+        SELECT tm.member_id
+        FROM team_members tm
+        WHERE tm.coach_id = p_coach_id
+          AND tm.status = 'active'
+          AND tm.member_id IS NOT NULL
+    )
+    SELECT t.member_id
+    FROM team t
+    ORDER BY
+        (SELECT COUNT(*) FROM clients c
+         WHERE c.coach_id = p_coach_id AND c.assigned_coach_id = t.member_id AND c.status = 'active'),
+        (SELECT COUNT(*) FROM checkins ch
+         WHERE ch.coach_id = p_coach_id AND ch.assigned_coach_id = t.member_id AND ch.status = 'pending_response'),
+        t.member_id = p_coach_id DESC,
+        t.member_id
+    LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_client(p_client_id UUID, p_assignee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_coach_id UUID;
+BEGIN
+    SELECT coach_id INTO v_coach_id FROM clients WHERE id = p_client_id;
+
+    IF v_coach_id IS NULL THEN
+        RAISE EXCEPTION 'Client not found';
+    END IF;
+
+    IF p_assignee_id IS NOT NULL
+       AND p_assignee_id <> v_coach_id
+       AND NOT EXISTS (
+           SELECT 1 FROM team_members tm
+           WHERE tm.coach_id = v_coach_id
+             AND tm.member_id = p_assignee_id
+             AND tm.status = 'active'
+       ) THEN
+        RAISE EXCEPTION 'Assignee is not on this team';
+    END IF;
+
+    UPDATE clients
+    SET assigned_coach_id = p_assignee_id
+    WHERE id = p_client_id;
+
+    UPDATE checkins
+    SET assigned_coach_id = p_assignee_id
+    WHERE client_id = p_client_id
+      AND status = 'pending_response';
+
+    RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pick_client_assignee(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.assign_client(UUID, UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.unassign_departed_team_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.member_id IS NOT NULL AND OLD.status = 'active'
+       AND (TG_OP = 'DELETE' OR NEW.status <> 'active') THEN
+        UPDATE clients
+        SET assigned_coach_id = NULL
+        WHERE coach_id = OLD.coach_id AND assigned_coach_id = OLD.member_id;
+
+        UPDATE checkins
+        SET assigned_coach_id = NULL
+        WHERE coach_id = OLD.coach_id AND assigned_coach_id = OLD.member_id AND status = 'pending_response';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_unassign_departed_team_member ON public.team_members;
+CREATE TRIGGER trg_unassign_departed_team_member
+    AFTER UPDATE OR DELETE ON public.team_members
+    FOR EACH ROW EXECUTE FUNCTION public.unassign_departed_team_member();
+
+-- Adds the "My clients" filter; the old signature is dropped so callers don't hit an ambiguous overload
+DROP FUNCTION IF EXISTS public.search_clients_page(UUID, TEXT, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TEXT, TEXT, TEXT, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_clients_page(
+    p_coach_id UUID,
+    p_query TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_engagement TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_active_since TIMESTAMPTZ DEFAULT NULL,
+    p_sort TEXT DEFAULT 'last_checkin',
+    p_direction TEXT DEFAULT 'desc',
+    p_cursor_key TEXT DEFAULT NULL,
+    p_cursor_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_assigned_coach_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    client JSONB,
+    pending_checkins BIGINT,
+    sort_key TEXT,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_direction TEXT := CASE WHEN lower(p_direction) = 'asc' THEN 'ASC' ELSE 'DESC' END;
+    v_comparator TEXT := CASE WHEN lower(p_direction) = 'asc' THEN '>' ELSE '<' END;
+    v_sort_expression TEXT;
+BEGIN
+    -- Every sort is expressed as text that orders the same way as the underlying value,
+    -- so a single (sort_key, id) keyset works for all of them
+    v_sort_expression := CASE p_sort
+        WHEN 'name' THEN 'lower(c.full_name)'
+        WHEN 'pending' THEN 'lpad(coalesce(p.pending_checkins, 0)::TEXT, 10, ''0'')'
+        ELSE 'to_char(coalesce(c.last_checkin_at, ''epoch''::TIMESTAMPTZ) AT TIME ZONE ''UTC'', ''YYYY-MM-DD"T"HH24:MI:SS.US'')'
+    END;
+
+    RETURN QUERY EXECUTE format($query$
+        WITH pending AS (
+            SELECT ch.client_id, COUNT(*) AS pending_checkins
+            FROM checkins ch
+            WHERE ch.coach_id = $1 AND ch.status = 'pending_response'
+            GROUP BY ch.client_id
+        ),
+        filtered AS (
+            SELECT
+                to_jsonb(c) - 'search_vector' AS client,
+                coalesce(p.pending_checkins, 0) AS pending_checkins,
+                %1$s AS sort_key,
+                c.id
+            FROM clients c
+            LEFT JOIN pending p ON p.client_id = c.id
+            WHERE c.coach_id = $1
+              AND ($2::TEXT IS NULL OR $2 = '' OR
+                   c.search_vector @@ websearch_to_tsquery('english', $2) OR
+                   c.search_vector @@ websearch_to_tsquery('simple', $2) OR
+                   c.full_name ILIKE '%%' || $2 || '%%' OR
+                   c.email ILIKE '%%' || $2 || '%%')
+              AND ($3::TEXT IS NULL OR c.status = $3)
+              AND ($4::TEXT IS NULL OR c.engagement_level = $4)
+              AND ($5::TEXT[] IS NULL OR cardinality($5) = 0 OR c.tags @> $5)
+              AND ($6::TIMESTAMPTZ IS NULL OR c.last_checkin_at >= $6)
+              AND ($10::UUID IS NULL OR c.assigned_coach_id = $10)
+        )
+        SELECT f.client, f.pending_checkins, f.sort_key, (SELECT COUNT(*) FROM filtered) AS total_count
+        FROM filtered f
+        WHERE $7::TEXT IS NULL OR (f.sort_key, f.id) %2$s ($7, $8)
+        ORDER BY f.sort_key %3$s, f.id %3$s
+        LIMIT $9
+    $query$, v_sort_expression, v_comparator, v_direction)
+    USING p_coach_id, p_query, p_status, p_engagement, p_tags, p_active_since, p_cursor_key, p_cursor_id, LEAST(GREATEST(p_limit, 1), 100), p_assigned_coach_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_clients_page(UUID, TEXT, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TEXT, TEXT, TEXT, UUID, INTEGER, UUID) TO authenticated;
@@ -0,0 +1,97 @@
+/*
+  # Application event log
+
+  1. New Tables
+    - `app_logs` - Events reported by the web app through the `log-app-event` function
+      - `user_id` - Signed-in user who triggered the event (NULL for anonymous events)
+      - `event_type` - e.g. 'error', 'feature_usage', 'login'
+      - `event_details` - Free-form JSON payload (stack traces, feature names, ...)
+      - `context` - Where the event came from, e.g. 'frontend'
+      - `timestamp` - When the event happened on the client, falling back to insert time
+      - `ip_address` / `user_agent` - Taken from the request headers by the edge function
+
+  2. New Functions
+    - `is_app_admin()` - Whether the current user's `app_role` is 'admin' or 'super_admin'
+    - `guard_user_profile_app_role()` - Trigger that stops users from granting themselves a role
+
+  3. Security
+    - Only app admins can read logs; they can also read every user profile so the
+      viewer can show who triggered an event
+    - There are no insert policies: rows are written by the edge function with the service role
+    - Signed-in users can no longer change their own `app_role` (the "Users can update own
+      profile" policy covers the whole row) or create their profile with an admin role;
+      roles are granted with the service role or from the SQL editor
+*/
+
+CREATE TABLE IF NOT EXISTS public.app_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    event_type TEXT NOT NULL,
+    event_details JSONB NOT NULL DEFAULT '{}'::JSONB,
+    context TEXT NOT NULL DEFAULT 'frontend',
+    timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_logs_timestamp ON public.app_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_app_logs_event_type ON public.app_logs(event_type, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_app_logs_user ON public.app_logs(user_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_app_logs_context ON public.app_logs(context, timestamp DESC);
+
+ALTER TABLE public.app_logs ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so the user_profiles policy below can call it without recursing
+CREATE OR REPLACE FUNCTION public.is_app_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE id = auth.uid()
+          AND app_role IN ('admin', 'super_admin')
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_app_admin() TO authenticated;
+
+-- is_app_admin() trusts app_role, so users must not be able to set it on their own profile
+CREATE OR REPLACE FUNCTION public.guard_user_profile_app_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND NEW.app_role IN ('admin', 'super_admin') THEN
+        RAISE EXCEPTION 'app_role cannot be set by the user'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.app_role IS DISTINCT FROM OLD.app_role THEN
+        RAISE EXCEPTION 'app_role cannot be changed by the user'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_user_profile_app_role ON public.user_profiles;
+CREATE TRIGGER guard_user_profile_app_role
+    BEFORE INSERT OR UPDATE ON public.user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_user_profile_app_role();
+
+CREATE POLICY "App admins can view logs" ON public.app_logs
+    FOR SELECT USING (public.is_app_admin());
+
+CREATE POLICY "App admins can view all profiles" ON public.user_profiles
+    FOR SELECT USING (public.is_app_admin());
@@ -0,0 +1,199 @@
+/*
+  # Check-in response SLA and overdue escalation
+
+  1. New Tables
+    - `coach_sla_settings` - One row per head coach (defaults apply when missing)
+      - `response_sla_hours` - How long a check-in may stay pending before it is overdue
+      - `escalation_action` - 'none', 'notify' (tell the assigned coach) or 'reassign'
+        (move it to another coach on the team and tell them)
+      - `escalation_target_id` - Preferred coach for reassignment; NULL picks the team member
+        with the fewest pending check-ins
+    - `notifications` - In-app notifications, currently written by the escalation job
+
+  2. Changes
+    - `checkins.escalated_at` - When the check-in was escalated; each check-in escalates once
+    - `checkins.sla_tracked` - Whether the SLA applies to the check-in. Check-ins that exist
+      when this migration runs get false, so the first job run doesn't send a notification for
+      every old check-in; every later check-in gets true
+
+  3. New Functions
+    - `escalate_overdue_checkins()` - Escalates every overdue check-in; scheduled every 15
+      minutes with pg_cron
+
+  4. Security
+    - The team can view SLA settings; only the head coach and team admins can change them
+    - Users can only read and update their own notifications
+    - The escalation job is SECURITY DEFINER and not callable by clients
+
+  5. Notes
+    - Check-in age is measured from `checkins.created_at`, like the response-time analytics
+    - Reassignment falls back to notifying when there is nobody else on the team
+*/
+
+CREATE TABLE IF NOT EXISTS public.coach_sla_settings (
+    coach_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    response_sla_hours INTEGER NOT NULL DEFAULT 24 CHECK (response_sla_hours BETWEEN 1 AND 336),
+    escalation_action TEXT NOT NULL DEFAULT 'notify' CHECK (escalation_action IN ('none', 'notify', 'reassign')),
+    escalation_target_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_sla_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view SLA settings" ON public.coach_sla_settings
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert SLA settings" ON public.coach_sla_settings
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can update SLA settings" ON public.coach_sla_settings
+    FOR UPDATE USING (public.can_manage_team(coach_id));
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+-- The SLA applies to check-ins that arrive from now on: existing rows take the false default,
+-- then the default flips for new rows
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS sla_tracked BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.checkins
+    ALTER COLUMN sla_tracked SET DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_checkins_pending_created
+    ON public.checkins(created_at)
+    WHERE status = 'pending_response';
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    link TEXT,
+    checkin_id UUID REFERENCES public.checkins(id) ON DELETE CASCADE,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications" ON public.notifications
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.escalate_overdue_checkins()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_checkin RECORD;
+    v_new_assignee UUID;
+    v_recipient UUID;
+    v_escalated INTEGER := 0;
+BEGIN
+    FOR v_checkin IN
+        SELECT
+            ch.id,
+            ch.coach_id,
+            ch.assigned_coach_id,
+            ch.client_name,
+            coalesce(s.response_sla_hours, 24) AS sla_hours,
+            coalesce(s.escalation_action, 'notify') AS escalation_action,
+            s.escalation_target_id
+        FROM checkins ch
+        LEFT JOIN coach_sla_settings s ON s.coach_id = ch.coach_id
+        WHERE ch.status = 'pending_response'
+          AND ch.sla_tracked
+          AND ch.escalated_at IS NULL
+          AND coalesce(s.escalation_action, 'notify') <> 'none'
+          AND ch.created_at < NOW() - make_interval(hours => coalesce(s.response_sla_hours, 24))
+        FOR UPDATE OF ch SKIP LOCKED
+    LOOP
+        v_new_assignee := NULL;
+
+        IF v_checkin.escalation_action = 'reassign' THEN
+            -- The preferred target, if they're still on the team and not already assigned
+            SELECT t.member_id INTO v_new_assignee
+            FROM (
+                SELECT v_checkin.coach_id AS member_id
+                UNION
+                SELECT tm.member_id FROM team_members tm
+                WHERE tm.coach_id = v_checkin.coach_id AND tm.status = 'active' AND tm.member_id IS NOT NULL
+            ) t
+            WHERE t.member_id = v_checkin.escalation_target_id
+              AND t.member_id IS DISTINCT FROM v_checkin.assigned_coach_id;
+
+            -- Otherwise whoever else on the team has the shortest pending queue
+            IF v_new_assignee IS NULL THEN
+                SELECT t.member_id INTO v_new_assignee
+                FROM (
+                    SELECT v_checkin.coach_id AS member_id
+                    UNION
+                    SELECT tm.member_id FROM team_members tm
+                    WHERE tm.coach_id = v_checkin.coach_id AND tm.status = 'active' AND tm.member_id IS NOT NULL
+                ) t
+                WHERE t.member_id IS DISTINCT FROM v_checkin.assigned_coach_id
+                ORDER BY
+                    (SELECT COUNT(*) FROM checkins p
+                     WHERE p.coach_id = v_checkin.coach_id AND p.assigned_coach_id = t.member_id AND p.status = 'pending_response'),
+                    t.member_id = v_checkin.coach_id DESC,
+                    t.member_id
+                LIMIT 1;
+            END IF;
+        END IF;
+
+        IF v_new_assignee IS NOT NULL THEN
+            UPDATE checkins
+            SET assigned_coach_id = v_new_assignee,
+                escalated_at = NOW()
+            WHERE id = v_checkin.id;
+
+            v_recipient := v_new_assignee;
+        ELSE
+            UPDATE checkins
+            SET escalated_at = NOW()
+            WHERE id = v_checkin.id;
+
+            v_recipient := coalesce(v_checkin.assigned_coach_id, v_checkin.coach_id);
+        END IF;
+
+        INSERT INTO notifications (user_id, type, title, body, link, checkin_id)
+        SELECT
+            v_recipient,
+            CASE WHEN v_new_assignee IS NOT NULL THEN 'checkin_reassigned' ELSE 'checkin_overdue' END,
+            CASE WHEN v_new_assignee IS NOT NULL THEN 'Overdue check-in reassigned to you' ELSE 'Check-in response overdue' END,
+            format('%s''s check-in has been waiting more than %s hours.', v_checkin.client_name, v_checkin.sla_hours),
+            '/checkin/' || v_checkin.id,
+            v_checkin.id
+        WHERE EXISTS (SELECT 1 FROM user_profiles WHERE id = v_recipient);
+
+        v_escalated := v_escalated + 1;
+    END LOOP;
+
+    RETURN v_escalated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_checkins() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_overdue_checkins() TO service_role;
+
+-- Run the escalation every 15 minutes (re-running this migration updates the existing job)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'escalate-overdue-checkins',
+    '*/15 * * * *',
+    $$SELECT public.escalate_overdue_checkins()$$
+);
@@ -0,0 +1,75 @@
+/*
+  # Email delivery of coach responses
+
+  1. New Tables
+    - `coach_email_settings` - One row per head coach (defaults apply when missing)
+      - `from_name` / `reply_to_email` - Sender name and the address client replies go to
+      - `brand_color` / `logo_url` - Shown in the email header
+      - `subject_template` / `intro_template` / `signature` - Support {{client_name}},
+        {{coach_name}} and {{checkin_date}} placeholders
+      - `auto_send` - Whether the response modal emails the client by default
+    - `response_deliveries` - One row per delivery attempt
+      - `status` - 'sending', 'sent', 'failed' or 'skipped' (e.g. the client has no email)
+      - `transport` - Which transport sent it ('smtp' or 'mock')
+
+  2. Changes
+    - `checkins.response_delivery_status` / `response_delivered_at` - Latest delivery outcome
+
+  3. Security
+    - The team can view email settings and delivery history; only the head coach and team
+      admins can change the settings
+    - Deliveries are written by the `deliver-checkin-response` function with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS public.coach_email_settings (
+    coach_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    from_name TEXT,
+    reply_to_email TEXT,
+    brand_color TEXT NOT NULL DEFAULT '#0d9488' CHECK (brand_color ~ '^#[0-9a-fA-F]{6}$'),
+    logo_url TEXT,
+    subject_template TEXT NOT NULL DEFAULT 'Your check-in response from {{coach_name}}',
+    intro_template TEXT NOT NULL DEFAULT 'Hi {{client_name}}, here''s my response to your check-in from {{checkin_date}}.',
+    signature TEXT,
+    auto_send BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_email_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view email settings" ON public.coach_email_settings
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert email settings" ON public.coach_email_settings
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can update email settings" ON public.coach_email_settings
+    FOR UPDATE USING (public.can_manage_team(coach_id));
+
+CREATE TABLE IF NOT EXISTS public.response_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    checkin_id UUID NOT NULL REFERENCES public.checkins(id) ON DELETE CASCADE,
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL DEFAULT 'email',
+    recipient TEXT,
+    subject TEXT,
+    transport TEXT,
+    status TEXT NOT NULL CHECK (status IN ('sending', 'sent', 'failed', 'skipped')),
+    provider_message_id TEXT,
+    error TEXT,
+    sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_deliveries_checkin ON public.response_deliveries(checkin_id, created_at DESC);
+
+ALTER TABLE public.response_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view response deliveries" ON public.response_deliveries
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS response_delivery_status TEXT
+        CHECK (response_delivery_status IN ('sending', 'sent', 'failed', 'skipped')),
+    ADD COLUMN IF NOT EXISTS response_delivered_at TIMESTAMPTZ;
@@ -0,0 +1,73 @@
+/*
+  # Video and audio coach responses
+
+  1. Storage
+    - Private `response-media` bucket, 200 MB per file, video and audio types only
+    - Objects live under `<coach_id>/<checkin_id>/...` so access follows the team
+
+  2. Changes
+    - `checkins.response_type` also accepts 'audio'
+    - `checkins.response_media_path` - Object path in `response-media`
+    - `checkins.response_media_type` - MIME type of the recording
+    - `checkins.response_media_duration_seconds` / `response_media_size_bytes`
+
+  3. Security
+    - Team members can upload and view recordings in their head coach's folder
+    - Team members can delete their own uploads; the head coach and team admins can delete any
+    - Clients only ever get time-limited signed URLs
+
+  4. Notes
+    - Duration is checked in the browser before upload; the bucket enforces size and type
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'response-media',
+    'response-media',
+    false,
+    209715200,
+    ARRAY['video/mp4', 'video/webm', 'video/quicktime', 'audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/webm', 'audio/ogg', 'audio/wav']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Team members can view response media" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'response-media'
+        AND public.has_team_access(((storage.foldername(name))[1])::UUID)
+    );
+
+CREATE POLICY "Team members can upload response media" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'response-media'
+        AND public.has_team_access(((storage.foldername(name))[1])::UUID)
+    );
+
+-- Resumable uploads update the object row as chunks arrive
+CREATE POLICY "Team members can update own response media" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'response-media'
+        AND owner = auth.uid()
+        AND public.has_team_access(((storage.foldername(name))[1])::UUID)
+    );
+
+CREATE POLICY "Team members can delete response media" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'response-media'
+        AND (
+            (owner = auth.uid() AND public.has_team_access(((storage.foldername(name))[1])::UUID))
+            OR public.can_manage_team(((storage.foldername(name))[1])::UUID)
+        )
+    );
+
+ALTER TABLE public.checkins DROP CONSTRAINT IF EXISTS checkins_response_type_check;
+ALTER TABLE public.checkins
+    ADD CONSTRAINT checkins_response_type_check CHECK (response_type IN ('written', 'video', 'audio'));
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS response_media_path TEXT,
+    ADD COLUMN IF NOT EXISTS response_media_type TEXT,
+    ADD COLUMN IF NOT EXISTS response_media_duration_seconds NUMERIC(8,2),
+    ADD COLUMN IF NOT EXISTS response_media_size_bytes BIGINT;
@@ -0,0 +1,70 @@
+/*
+  # Transcription of voice notes and videos in check-ins
+
+  1. Storage
+    - Private `checkin-media` bucket holding copies of media clients attached to check-ins
+    - Objects live under `<coach_id>/<checkin_id>/...`
+
+  2. New Tables
+    - `checkin_media` - One row per attachment found in a check-in payload
+      - `source_url` - Where the form provider hosted the file
+      - `storage_path` - Copy in `checkin-media`, once downloaded
+      - `status` - 'pending', 'transcribing', 'completed' or 'failed'
+      - `transcript` / `provider` / `language` / `duration_seconds` - Speech-to-text output
+
+  3. Changes
+    - `checkins.transcription_status` - Same states as above, NULL when there is no media
+    - `checkins.transcription_error` / `transcribed_at`
+    - `checkins.transcription_started_at` - When the current transcription run claimed the
+      check-in; a claim older than 15 minutes is from a run that died and can be retried
+
+  4. Security
+    - The team can view media rows and stored files; rows and files are written by the
+      `webhook-checkin` and `transcribe-checkin-media` functions with the service role
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('checkin-media', 'checkin-media', false, 104857600)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit;
+
+CREATE POLICY "Team members can view check-in media" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'checkin-media'
+        AND public.has_team_access(((storage.foldername(name))[1])::UUID)
+    );
+
+CREATE TABLE IF NOT EXISTS public.checkin_media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    checkin_id UUID NOT NULL REFERENCES public.checkins(id) ON DELETE CASCADE,
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    source_url TEXT NOT NULL,
+    source_field TEXT,
+    file_name TEXT,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    storage_path TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'transcribing', 'completed', 'failed')),
+    transcript TEXT,
+    provider TEXT,
+    language TEXT,
+    duration_seconds NUMERIC(8,2),
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_media_checkin_id ON public.checkin_media(checkin_id);
+
+ALTER TABLE public.checkin_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view check-in media rows" ON public.checkin_media
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS transcription_status TEXT
+        CHECK (transcription_status IN ('pending', 'transcribing', 'completed', 'failed')),
+    ADD COLUMN IF NOT EXISTS transcription_error TEXT,
+    ADD COLUMN IF NOT EXISTS transcribed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS transcription_started_at TIMESTAMPTZ;
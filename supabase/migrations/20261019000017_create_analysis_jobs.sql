@@ -0,0 +1,254 @@
+/*
+  # Background job queue for check-in analysis
+
+  1. New Tables
+    - `jobs` - Durable work queue processed by the `process-jobs` edge function
+      - `job_type` - Currently only 'checkin_analysis'
+      - `status` - 'queued', 'running', 'succeeded' or 'failed' (gave up after `max_attempts`)
+      - `attempts` / `max_attempts` - Retries back off exponentially via `run_after`
+      - `locked_at` - When a worker claimed the job; stale claims are picked up again
+      - `last_error` - Error from the most recent failed attempt
+    - `job_attempts` - One row per attempt, with its duration and error
+
+  2. New Functions
+    - `enqueue_checkin_analysis(checkin_id)` - Queues analysis unless a job is already waiting
+    - `enqueue_missing_analysis()` - Queues every unanalysed check-in of the caller's team
+    - `count_failed_analysis_jobs()` - Check-ins whose analysis gave up and is still missing
+    - `claim_jobs(job_type, limit)` - Worker-only; locks due jobs with SKIP LOCKED
+
+  3. Triggers
+    - New check-ins with a transcript are queued on insert
+    - Check-ins with voice notes are queued when transcription completes
+
+  4. Security
+    - The team can view jobs and attempts for its check-ins
+    - Only the worker (service role) updates jobs; coaches queue work through the functions above
+
+  5. Notes
+    - pg_cron calls the worker every minute through pg_net. The project URL and service role key
+      are read from Vault secrets named `project_url` and `service_role_key`
+*/
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_type TEXT NOT NULL CHECK (job_type IN ('checkin_analysis')),
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    checkin_id UUID REFERENCES public.checkins(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one waiting job per check-in and type; finished jobs are kept as history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_checkin
+    ON public.jobs(checkin_id, job_type)
+    WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON public.jobs(job_type, run_after) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_checkin_id ON public.jobs(checkin_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.job_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    started_at TIMESTAMPTZ NOT NULL,
+    finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    succeeded BOOLEAN NOT NULL,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_attempts_job_id ON public.job_attempts(job_id, attempt);
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view jobs" ON public.jobs
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team members can view job attempts" ON public.job_attempts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.jobs
+            WHERE jobs.id = job_attempts.job_id
+              AND public.has_team_access(jobs.coach_id)
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.enqueue_checkin_analysis(p_checkin_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_coach_id UUID;
+    v_job_id UUID;
+BEGIN
+    SELECT coach_id INTO v_coach_id FROM checkins WHERE id = p_checkin_id;
+
+    -- The service role (triggers, functions) has no auth.uid(); app users must be on the team
+    IF v_coach_id IS NULL OR (auth.uid() IS NOT NULL AND NOT public.has_team_access(v_coach_id)) THEN
+        RAISE EXCEPTION 'Check-in not found';
+    END IF;
+
+    INSERT INTO jobs (job_type, coach_id, checkin_id)
+    VALUES ('checkin_analysis', v_coach_id, p_checkin_id)
+    ON CONFLICT (checkin_id, job_type) WHERE status IN ('queued', 'running') DO NOTHING
+    RETURNING id INTO v_job_id;
+
+    IF v_job_id IS NULL THEN
+        SELECT id INTO v_job_id
+        FROM jobs
+        WHERE checkin_id = p_checkin_id
+          AND job_type = 'checkin_analysis'
+          AND status IN ('queued', 'running');
+    END IF;
+
+    RETURN v_job_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_missing_analysis()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO jobs (job_type, coach_id, checkin_id)
+    SELECT 'checkin_analysis', c.coach_id, c.id
+    FROM checkins c
+    WHERE public.has_team_access(c.coach_id)
+      AND c.ai_analysis IS NULL
+      AND c.transcript IS NOT NULL
+      AND c.transcript <> ''
+      AND COALESCE(c.transcription_status, 'completed') = 'completed'
+    ON CONFLICT (checkin_id, job_type) WHERE status IN ('queued', 'running') DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Check-ins whose analysis gave up and hasn't been re-queued or generated since
+CREATE OR REPLACE FUNCTION public.count_failed_analysis_jobs()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COUNT(DISTINCT j.checkin_id)::INTEGER
+    FROM jobs j
+    JOIN checkins c ON c.id = j.checkin_id
+    WHERE j.job_type = 'checkin_analysis'
+      AND j.status = 'failed'
+      AND c.ai_analysis IS NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM jobs newer
+          WHERE newer.checkin_id = j.checkin_id
+            AND newer.job_type = j.job_type
+            AND newer.created_at > j.created_at
+      );
+$$;
+
+-- Claim due jobs for one worker run. Jobs left 'running' by a crashed worker are retried
+CREATE OR REPLACE FUNCTION public.claim_jobs(p_job_type TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE jobs
+    SET status = 'running',
+        attempts = jobs.attempts + 1,
+        locked_at = NOW(),
+        updated_at = NOW()
+    WHERE jobs.id IN (
+        SELECT j.id
+        FROM jobs j
+        WHERE j.job_type = p_job_type
+          AND (
+              (j.status = 'queued' AND j.run_after <= NOW())
+              OR (j.status = 'running' AND j.locked_at < NOW() - INTERVAL '10 minutes')
+          )
+        ORDER BY j.run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING jobs.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_jobs(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(TEXT, INTEGER) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_checkin_analysis(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.enqueue_missing_analysis() FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION public.queue_checkin_analysis()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.transcript IS NULL OR NEW.transcript = '' OR NEW.ai_analysis IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Voice-note check-ins wait for their transcript before being analysed
+    IF COALESCE(NEW.transcription_status, 'completed') <> 'completed' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.transcription_status IS NOT DISTINCT FROM NEW.transcription_status THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO jobs (job_type, coach_id, checkin_id)
+    VALUES ('checkin_analysis', NEW.coach_id, NEW.id)
+    ON CONFLICT (checkin_id, job_type) WHERE status IN ('queued', 'running') DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_checkin_analysis_on_insert ON public.checkins;
+CREATE TRIGGER queue_checkin_analysis_on_insert
+    AFTER INSERT ON public.checkins
+    FOR EACH ROW EXECUTE FUNCTION public.queue_checkin_analysis();
+
+DROP TRIGGER IF EXISTS queue_checkin_analysis_on_transcribed ON public.checkins;
+CREATE TRIGGER queue_checkin_analysis_on_transcribed
+    AFTER UPDATE OF transcription_status ON public.checkins
+    FOR EACH ROW EXECUTE FUNCTION public.queue_checkin_analysis();
+
+-- Run the worker every minute (re-running this migration updates the existing job)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'process-jobs',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-jobs',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    )
+    $$
+);
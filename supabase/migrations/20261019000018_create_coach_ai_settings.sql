@@ -0,0 +1,40 @@
+/*
+  # Per-coach AI provider settings
+
+  1. New Tables
+    - `coach_ai_settings` - One row per head coach (deployment defaults apply when missing)
+      - `provider` - 'openai', 'azure', 'anthropic' or 'local'; NULL uses LLM_PROVIDER
+      - `chat_model` - Model (or Azure deployment) for chat and analysis; NULL uses the provider default
+      - `embedding_provider` / `embedding_model` - Same for transcript embeddings. Anthropic has
+        no embeddings, so it is not allowed here
+
+  2. Security
+    - The team can view the settings; only the head coach and team admins can change them
+
+  3. Notes
+    - API keys and endpoints stay in edge function secrets; coaches only choose among the
+      providers the deployment has configured
+    - Embeddings from different models can't be compared. Changing the embedding provider or
+      model only affects check-ins received afterwards
+*/
+
+CREATE TABLE IF NOT EXISTS public.coach_ai_settings (
+    coach_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT CHECK (provider IN ('openai', 'azure', 'anthropic', 'local')),
+    chat_model TEXT,
+    embedding_provider TEXT CHECK (embedding_provider IN ('openai', 'azure', 'local')),
+    embedding_model TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_ai_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view AI settings" ON public.coach_ai_settings
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team managers can insert AI settings" ON public.coach_ai_settings
+    FOR INSERT WITH CHECK (public.can_manage_team(coach_id));
+
+CREATE POLICY "Team managers can update AI settings" ON public.coach_ai_settings
+    FOR UPDATE USING (public.can_manage_team(coach_id));
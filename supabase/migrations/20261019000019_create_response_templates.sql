@@ -0,0 +1,113 @@
+/*
+  # Coach response template library
+
+  1. New Tables
+    - `response_templates` - Reusable check-in responses
+      - `coach_id` - The team (head coach) the template belongs to
+      - `created_by` - The coach who wrote it
+      - `category` - 'encouragement', 'guidance', 'adjustment', 'question' or 'other'
+      - `content` - May contain variables such as `{{client.first_name}}`, filled in when used
+      - `is_shared` - Shared templates are visible to the whole team; others only to their author
+      - `usage_count` / `last_used_at` - Updated each time a coach uses the template
+
+  2. New Functions
+    - `record_template_use(template_id)` - Counts a use of any template the caller can see
+
+  3. Security
+    - Coaches see their own templates and the ones shared with their team
+    - Authors can edit and delete their templates; the head coach and team admins can manage
+      every shared template
+    - `coach_id` and `created_by` can't be changed once a template exists
+*/
+
+CREATE TABLE IF NOT EXISTS public.response_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+    content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 5000),
+    category TEXT NOT NULL DEFAULT 'other'
+        CHECK (category IN ('encouragement', 'guidance', 'adjustment', 'question', 'other')),
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_templates_coach_id ON public.response_templates(coach_id, usage_count DESC);
+
+ALTER TABLE public.response_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can view their own and shared templates" ON public.response_templates
+    FOR SELECT USING (
+        public.has_team_access(coach_id)
+        AND (created_by = auth.uid() OR is_shared)
+    );
+
+CREATE POLICY "Coaches can create templates for their team" ON public.response_templates
+    FOR INSERT WITH CHECK (
+        public.has_team_access(coach_id)
+        AND created_by = auth.uid()
+    );
+
+CREATE POLICY "Authors and team managers can update templates" ON public.response_templates
+    FOR UPDATE USING (
+        created_by = auth.uid()
+        OR (is_shared AND public.can_manage_team(coach_id))
+    )
+    WITH CHECK (
+        public.has_team_access(coach_id)
+        AND (created_by = auth.uid() OR public.can_manage_team(coach_id))
+    );
+
+-- A template stays with the team and author it was created for
+CREATE OR REPLACE FUNCTION public.guard_response_template_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.coach_id IS DISTINCT FROM OLD.coach_id OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+        RAISE EXCEPTION 'A template cannot be moved to another team or author'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_response_template_update ON public.response_templates;
+CREATE TRIGGER guard_response_template_update
+    BEFORE UPDATE ON public.response_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_response_template_update();
+
+CREATE POLICY "Authors and team managers can delete templates" ON public.response_templates
+    FOR DELETE USING (
+        created_by = auth.uid()
+        OR (is_shared AND public.can_manage_team(coach_id))
+    );
+
+-- Teammates can use shared templates without being allowed to edit them
+CREATE OR REPLACE FUNCTION public.record_template_use(p_template_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE response_templates
+    SET usage_count = usage_count + 1,
+        last_used_at = NOW()
+    WHERE id = p_template_id
+      AND public.has_team_access(coach_id)
+      AND (created_by = auth.uid() OR is_shared);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_template_use(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,44 @@
+/*
+  # Coach writing-style profiles
+
+  1. Changes
+    - `checkins.responded_by` - The coach who wrote the response, so each coach's style is
+      learned from their own replies. Older responses fall back to the check-in's assigned
+      coach (or the head coach when unassigned)
+
+  2. New Tables
+    - `coach_style_profiles` - One row per coach, distilled from their past responses by the
+      `build-style-profile` edge function
+      - `sample_count` - How many responses the profile was built from
+      - `avg_word_count`, `greetings`, `sign_offs`, `common_phrases`, `uses_emoji` - Measured
+        directly from the responses
+      - `tone` / `style_guide` - Summarised by the LLM from the same responses
+
+  3. Security
+    - Coaches can only read their own profile; profiles are written by the edge functions with
+      the service role
+*/
+
+ALTER TABLE public.checkins
+    ADD COLUMN IF NOT EXISTS responded_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_checkins_responded_by ON public.checkins(responded_by, response_submitted_at DESC)
+    WHERE coach_response IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.coach_style_profiles (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    sample_count INTEGER NOT NULL,
+    avg_word_count INTEGER NOT NULL,
+    greetings TEXT[] NOT NULL DEFAULT '{}',
+    sign_offs TEXT[] NOT NULL DEFAULT '{}',
+    common_phrases TEXT[] NOT NULL DEFAULT '{}',
+    uses_emoji BOOLEAN NOT NULL DEFAULT false,
+    tone TEXT,
+    style_guide TEXT NOT NULL,
+    generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.coach_style_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can view their own style profile" ON public.coach_style_profiles
+    FOR SELECT USING (user_id = auth.uid());
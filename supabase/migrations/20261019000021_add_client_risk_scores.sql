@@ -0,0 +1,395 @@
+/*
+  # Client churn risk scores
+
+  1. Changes
+    - `clients.risk_score` - 0 (settled) to 100 (likely to leave); NULL for paused and inactive clients
+    - `clients.risk_level` - 'low' (under 30), 'medium' (30-59) or 'high' (60+)
+    - `clients.risk_factors` - The breakdown behind the score, one entry per factor:
+      `{ key, label, points, max_points, detail }`
+      - `missed_checkins` (up to 35) - Expected check-ins missed since the last one, based on the
+        client's usual interval (median gap of their last 12 check-ins, 7 days until there are 3)
+      - `checkin_gaps` (up to 20) - The last three gaps are longer than the client's earlier ones
+      - `sentiment` (up to 30) - Analysed sentiment of the last three check-ins fell compared with
+        the five before, or is clearly negative
+      - `unanswered` (up to 20) - Check-ins still waiting for a coach response, and how long
+    - `clients.risk_computed_at`
+
+  2. New Functions
+    - `refresh_client_risk(client_id)` - Recomputes one client's score
+    - `client_expected_checkin_interval(client_id, gap_count, median_gap)` - How many days apart
+      the client's check-ins are expected to be, used by the missed check-ins factor
+    - `refresh_all_client_risk_scores()` - Recomputes every active client; runs daily with
+      pg_cron so scores rise while a client stays silent
+
+  3. Triggers
+    - Scores are recomputed whenever a check-in is added, removed, answered, re-dated or analysed,
+      and when a client's status changes
+
+  4. Changes to `search_clients_page`
+    - New sort 'risk' orders clients by risk score
+
+  5. Security
+    - The refresh functions are SECURITY DEFINER and only callable by the service role
+*/
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS risk_score INTEGER CHECK (risk_score BETWEEN 0 AND 100),
+    ADD COLUMN IF NOT EXISTS risk_level TEXT CHECK (risk_level IN ('low', 'medium', 'high')),
+    ADD COLUMN IF NOT EXISTS risk_factors JSONB,
+    ADD COLUMN IF NOT EXISTS risk_computed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_clients_risk_score ON public.clients(coach_id, risk_score DESC);
+
+-- The interval the missed check-ins factor measures against, and how to describe it
+-- ('usually' for one inferred from history)
+CREATE OR REPLACE FUNCTION public.client_expected_checkin_interval(
+    p_client_id UUID,
+    p_gap_count INTEGER,
+    p_median_gap NUMERIC,
+    OUT days NUMERIC,
+    OUT label TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+    days := CASE
+        WHEN p_gap_count >= 2 THEN GREATEST(1, LEAST(p_median_gap, 60))
+        ELSE 7
+    END;
+    label := 'usually';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_client_risk(p_client_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_client RECORD;
+    v_last_checkin TIMESTAMPTZ;
+    v_gap_count INTEGER;
+    v_median_gap NUMERIC;
+    v_expected_days NUMERIC;
+    v_expected_label TEXT;
+    v_baseline_gap NUMERIC;
+    v_recent_gap NUMERIC;
+    v_days_since NUMERIC;
+    v_missed INTEGER;
+    v_recent_sentiment NUMERIC;
+    v_previous_sentiment NUMERIC;
+    v_pending INTEGER;
+    v_oldest_pending_days NUMERIC;
+    v_missed_points INTEGER := 0;
+    v_gap_points INTEGER := 0;
+    v_sentiment_points INTEGER := 0;
+    v_pending_points INTEGER := 0;
+    v_missed_detail TEXT;
+    v_gap_detail TEXT;
+    v_sentiment_detail TEXT;
+    v_pending_detail TEXT;
+    v_score INTEGER;
+BEGIN
+    SELECT id, status, created_at, onboarded_at INTO v_client
+    FROM clients
+    WHERE id = p_client_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Paused and inactive clients have already stepped away; there is nothing to predict
+    IF v_client.status <> 'active' THEN
+        UPDATE clients
+        SET risk_score = NULL,
+            risk_level = NULL,
+            risk_factors = NULL,
+            risk_computed_at = NOW()
+        WHERE id = p_client_id;
+        RETURN;
+    END IF;
+
+    SELECT MAX(date) INTO v_last_checkin
+    FROM checkins
+    WHERE client_id = p_client_id;
+
+    -- Gaps in days between consecutive check-ins, newest first; same-day duplicates are ignored
+    WITH recent AS (
+        SELECT date
+        FROM checkins
+        WHERE client_id = p_client_id
+        ORDER BY date DESC
+        LIMIT 12
+    ),
+    gaps AS (
+        SELECT date, EXTRACT(EPOCH FROM (date - LEAD(date) OVER (ORDER BY date DESC))) / 86400 AS gap_days
+        FROM recent
+    ),
+    numbered AS (
+        SELECT gap_days, ROW_NUMBER() OVER (ORDER BY date DESC) AS position
+        FROM gaps
+        WHERE gap_days >= 0.5
+    )
+    SELECT
+        COUNT(*),
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY gap_days),
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY gap_days) FILTER (WHERE position > 3),
+        AVG(gap_days) FILTER (WHERE position <= 3)
+    INTO v_gap_count, v_median_gap, v_baseline_gap, v_recent_gap
+    FROM numbered;
+
+    SELECT i.days, i.label INTO v_expected_days, v_expected_label
+    FROM client_expected_checkin_interval(p_client_id, v_gap_count, v_median_gap) i;
+
+    -- Missed check-ins: half an interval of grace, then one per expected interval
+    v_days_since := EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_checkin, v_client.onboarded_at, v_client.created_at))) / 86400;
+    v_missed := GREATEST(FLOOR(v_days_since / v_expected_days - 0.5), 0)::INTEGER;
+    v_missed_points := LEAST(v_missed * 12, 35);
+    v_missed_detail := CASE
+        WHEN v_last_checkin IS NULL AND v_missed > 0 THEN
+            format('No check-ins in the %s days since joining', ROUND(v_days_since))
+        WHEN v_last_checkin IS NULL THEN
+            'No check-ins yet'
+        WHEN v_missed > 0 THEN
+            format('No check-in for %s days; %s every %s days (%s missed)', ROUND(v_days_since), v_expected_label, ROUND(v_expected_days), v_missed)
+        ELSE
+            format('Last check-in %s days ago; %s every %s days', ROUND(v_days_since), v_expected_label, ROUND(v_expected_days))
+    END;
+
+    -- Lengthening gaps: the last three compared with the ones before
+    IF v_baseline_gap IS NULL OR v_recent_gap IS NULL OR v_baseline_gap <= 0 THEN
+        v_gap_detail := 'Not enough check-ins to compare yet';
+    ELSIF v_recent_gap > v_baseline_gap * 1.25 THEN
+        v_gap_points := LEAST(ROUND((v_recent_gap / v_baseline_gap - 1) * 20), 20)::INTEGER;
+        v_gap_detail := format('Recent check-ins are %s days apart, up from %s', ROUND(v_recent_gap), ROUND(v_baseline_gap));
+    ELSE
+        v_gap_detail := format('Check-ins are %s days apart, in line with before', ROUND(v_recent_gap));
+    END IF;
+
+    -- Sentiment: the last three analysed check-ins against the five before
+    WITH scored AS (
+        SELECT ai_sentiment_score AS score, ROW_NUMBER() OVER (ORDER BY date DESC) AS position
+        FROM checkins
+        WHERE client_id = p_client_id
+          AND ai_sentiment_score IS NOT NULL
+        ORDER BY date DESC
+        LIMIT 8
+    )
+    SELECT
+        AVG(score) FILTER (WHERE position <= 3),
+        AVG(score) FILTER (WHERE position > 3)
+    INTO v_recent_sentiment, v_previous_sentiment
+    FROM scored;
+
+    IF v_recent_sentiment IS NULL THEN
+        v_sentiment_detail := 'No analysed check-ins yet';
+    ELSE
+        IF v_previous_sentiment IS NOT NULL AND v_previous_sentiment - v_recent_sentiment > 0.1 THEN
+            v_sentiment_points := LEAST(ROUND((v_previous_sentiment - v_recent_sentiment) * 40), 25)::INTEGER;
+        END IF;
+        IF v_recent_sentiment < -0.3 THEN
+            v_sentiment_points := LEAST(v_sentiment_points + 10, 30);
+        END IF;
+
+        v_sentiment_detail := CASE
+            WHEN v_previous_sentiment IS NOT NULL AND v_previous_sentiment - v_recent_sentiment > 0.1 THEN
+                format('Sentiment fell from %s to %s over the last three check-ins', ROUND(v_previous_sentiment, 2), ROUND(v_recent_sentiment, 2))
+            WHEN v_recent_sentiment < -0.3 THEN
+                format('Recent sentiment is negative (%s)', ROUND(v_recent_sentiment, 2))
+            ELSE
+                format('Recent sentiment is steady (%s)', ROUND(v_recent_sentiment, 2))
+        END;
+    END IF;
+
+    -- Unanswered check-ins: clients who hear nothing back drift away
+    SELECT COUNT(*), EXTRACT(EPOCH FROM (NOW() - MIN(created_at))) / 86400
+    INTO v_pending, v_oldest_pending_days
+    FROM checkins
+    WHERE client_id = p_client_id
+      AND status = 'pending_response';
+
+    IF v_pending > 0 THEN
+        v_pending_points := LEAST(v_pending * 5 + FLOOR(v_oldest_pending_days)::INTEGER * 2, 20);
+        v_pending_detail := format('%s check-in%s awaiting a response, oldest %s days', v_pending, CASE WHEN v_pending = 1 THEN '' ELSE 's' END, FLOOR(v_oldest_pending_days));
+    ELSE
+        v_pending_detail := 'Every check-in has been answered';
+    END IF;
+
+    v_score := LEAST(v_missed_points + v_gap_points + v_sentiment_points + v_pending_points, 100);
+
+    UPDATE clients
+    SET risk_score = v_score,
+        risk_level = CASE WHEN v_score >= 60 THEN 'high' WHEN v_score >= 30 THEN 'medium' ELSE 'low' END,
+        risk_factors = jsonb_build_array(
+            jsonb_build_object('key', 'missed_checkins', 'label', 'Missed check-ins', 'points', v_missed_points, 'max_points', 35, 'detail', v_missed_detail),
+            jsonb_build_object('key', 'checkin_gaps', 'label', 'Check-in gaps', 'points', v_gap_points, 'max_points', 20, 'detail', v_gap_detail),
+            jsonb_build_object('key', 'sentiment', 'label', 'Sentiment', 'points', v_sentiment_points, 'max_points', 30, 'detail', v_sentiment_detail),
+            jsonb_build_object('key', 'unanswered', 'label', 'Unanswered check-ins', 'points', v_pending_points, 'max_points', 20, 'detail', v_pending_detail)
+        ),
+        risk_computed_at = NOW()
+    WHERE id = p_client_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_all_client_risk_scores()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_client_id UUID;
+    v_refreshed INTEGER := 0;
+BEGIN
+    FOR v_client_id IN SELECT id FROM clients WHERE status = 'active' LOOP
+        PERFORM refresh_client_risk(v_client_id);
+        v_refreshed := v_refreshed + 1;
+    END LOOP;
+
+    RETURN v_refreshed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_client_risk(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_all_client_risk_scores() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_client_risk(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_all_client_risk_scores() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.refresh_client_risk_on_checkin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP <> 'DELETE' AND NEW.client_id IS NOT NULL THEN
+        PERFORM refresh_client_risk(NEW.client_id);
+    END IF;
+
+    -- A check-in moved to another client, or deleted, changes the old client's score too
+    IF TG_OP = 'DELETE' AND OLD.client_id IS NOT NULL THEN
+        PERFORM refresh_client_risk(OLD.client_id);
+    ELSIF TG_OP = 'UPDATE' AND OLD.client_id IS NOT NULL AND OLD.client_id IS DISTINCT FROM NEW.client_id THEN
+        PERFORM refresh_client_risk(OLD.client_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_client_risk_on_checkin_change ON public.checkins;
+CREATE TRIGGER refresh_client_risk_on_checkin_change
+    AFTER INSERT OR DELETE OR UPDATE OF status, date, ai_sentiment_score, client_id ON public.checkins
+    FOR EACH ROW EXECUTE FUNCTION public.refresh_client_risk_on_checkin_change();
+
+CREATE OR REPLACE FUNCTION public.refresh_client_risk_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM refresh_client_risk(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_client_risk_on_status_change ON public.clients;
+CREATE TRIGGER refresh_client_risk_on_status_change
+    AFTER UPDATE OF status ON public.clients
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.refresh_client_risk_on_status_change();
+
+-- Adds the 'risk' sort; same signature, so existing callers are unaffected
+CREATE OR REPLACE FUNCTION public.search_clients_page(
+    p_coach_id UUID,
+    p_query TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_engagement TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_active_since TIMESTAMPTZ DEFAULT NULL,
+    p_sort TEXT DEFAULT 'last_checkin',
+    p_direction TEXT DEFAULT 'desc',
+    p_cursor_key TEXT DEFAULT NULL,
+    p_cursor_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_assigned_coach_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    client JSONB,
+    pending_checkins BIGINT,
+    sort_key TEXT,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_direction TEXT := CASE WHEN lower(p_direction) = 'asc' THEN 'ASC' ELSE 'DESC' END;
+    v_comparator TEXT := CASE WHEN lower(p_direction) = 'asc' THEN '>' ELSE '<' END;
+    v_sort_expression TEXT;
+BEGIN
+    -- Every sort is expressed as text that orders the same way as the underlying value,
+    -- so a single (sort_key, id) keyset works for all of them
+    v_sort_expression := CASE p_sort
+        WHEN 'name' THEN 'lower(c.full_name)'
+        WHEN 'pending' THEN 'lpad(coalesce(p.pending_checkins, 0)::TEXT, 10, ''0'')'
+        -- Unscored (paused and inactive) clients sort below every scored one
+        WHEN 'risk' THEN 'lpad(coalesce(c.risk_score + 1, 0)::TEXT, 3, ''0'')'
+        ELSE 'to_char(coalesce(c.last_checkin_at, ''epoch''::TIMESTAMPTZ) AT TIME ZONE ''UTC'', ''YYYY-MM-DD"T"HH24:MI:SS.US'')'
+    END;
+
+    RETURN QUERY EXECUTE format($query$
+        WITH pending AS (
+            SELECT ch.client_id, COUNT(*) AS pending_checkins
+            FROM checkins ch
+            WHERE ch.coach_id = $1 AND ch.status = 'pending_response'
+            GROUP BY ch.client_id
+        ),
+        filtered AS (
+            SELECT
+                to_jsonb(c) - 'search_vector' AS client,
+                coalesce(p.pending_checkins, 0) AS pending_checkins,
+                %1$s AS sort_key,
+                c.id
+            FROM clients c
+            LEFT JOIN pending p ON p.client_id = c.id
+            WHERE c.coach_id = $1
+              AND ($2::TEXT IS NULL OR $2 = '' OR
+                   c.search_vector @@ websearch_to_tsquery('english', $2) OR
+                   c.search_vector @@ websearch_to_tsquery('simple', $2) OR
+                   c.full_name ILIKE '%%' || $2 || '%%' OR
+                   c.email ILIKE '%%' || $2 || '%%')
+              AND ($3::TEXT IS NULL OR c.status = $3)
+              AND ($4::TEXT IS NULL OR c.engagement_level = $4)
+              AND ($5::TEXT[] IS NULL OR cardinality($5) = 0 OR c.tags @> $5)
+              AND ($6::TIMESTAMPTZ IS NULL OR c.last_checkin_at >= $6)
+              AND ($10::UUID IS NULL OR c.assigned_coach_id = $10)
+        )
+        SELECT f.client, f.pending_checkins, f.sort_key, (SELECT COUNT(*) FROM filtered) AS total_count
+        FROM filtered f
+        WHERE $7::TEXT IS NULL OR (f.sort_key, f.id) %2$s ($7, $8)
+        ORDER BY f.sort_key %3$s, f.id %3$s
+        LIMIT $9
+    $query$, v_sort_expression, v_comparator, v_direction)
+    USING p_coach_id, p_query, p_status, p_engagement, p_tags, p_active_since, p_cursor_key, p_cursor_id, LEAST(GREATEST(p_limit, 1), 100), p_assigned_coach_id;
+END;
+$$;
+
+-- Score every existing client now rather than waiting for the first daily run
+SELECT public.refresh_all_client_risk_scores();
+
+-- Recompute daily at 05:00 UTC (re-running this migration updates the existing job)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'refresh-client-risk-scores',
+    '0 5 * * *',
+    $$SELECT public.refresh_all_client_risk_scores()$$
+);
@@ -0,0 +1,214 @@
+/*
+  # Expected check-in cadence and missed check-in detection
+
+  1. Changes
+    - `clients.checkin_cadence_days` - How often the client is expected to check in; NULL means
+      no schedule
+    - `clients.checkin_cadence_weekday` - 0 (Sunday) to 6; pins weekly and fortnightly schedules
+      to a day of the week ("weekly on Sunday"). Only allowed when the cadence is whole weeks
+    - `clients.checkin_reminders_enabled` - Email the client when a check-in is missed
+    - `clients.next_checkin_due_at` - Kept up to date by a trigger from the cadence and
+      `last_checkin_at`. Weekday schedules are due by the end of that day (UTC)
+    - `clients.checkin_missed_at` - When the current due date was flagged as missed; cleared by
+      the next check-in
+    - `clients.checkin_reminder_sent_at` - When the reminder for the current missed check-in went out
+    - `jobs.job_type` also allows 'checkin_reminder'
+
+  2. New Functions
+    - `client_next_checkin_due(from, days, weekday)` - Next due date after a check-in. With a
+      weekday, the first matching day at least half an interval later, so an early check-in
+      still counts for the coming due date
+    - `flag_missed_checkins()` - Flags clients whose check-in is more than 12 hours past due,
+      notifies their coach and queues a reminder email when enabled; runs hourly with pg_cron
+
+  3. Changes to `client_expected_checkin_interval`
+    - The missed check-ins factor uses the client's schedule when one is set, instead of the
+      interval inferred from their history; risk is also recomputed when the schedule changes
+
+  4. Security
+    - `flag_missed_checkins()` is SECURITY DEFINER and only callable by the service role
+    - Reminders are sent by the `process-jobs` worker
+*/
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS checkin_cadence_days INTEGER CHECK (checkin_cadence_days BETWEEN 1 AND 90),
+    ADD COLUMN IF NOT EXISTS checkin_cadence_weekday SMALLINT CHECK (checkin_cadence_weekday BETWEEN 0 AND 6),
+    ADD COLUMN IF NOT EXISTS checkin_reminders_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS next_checkin_due_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS checkin_missed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS checkin_reminder_sent_at TIMESTAMPTZ;
+
+ALTER TABLE public.clients
+    DROP CONSTRAINT IF EXISTS clients_checkin_cadence_weekday_whole_weeks;
+ALTER TABLE public.clients
+    ADD CONSTRAINT clients_checkin_cadence_weekday_whole_weeks
+    CHECK (checkin_cadence_weekday IS NULL OR checkin_cadence_days % 7 = 0);
+
+CREATE INDEX IF NOT EXISTS idx_clients_next_checkin_due
+    ON public.clients(next_checkin_due_at)
+    WHERE status = 'active' AND checkin_missed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_checkin_missed
+    ON public.clients(coach_id, next_checkin_due_at)
+    WHERE checkin_missed_at IS NOT NULL;
+
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_job_type_check;
+ALTER TABLE public.jobs
+    ADD CONSTRAINT jobs_job_type_check CHECK (job_type IN ('checkin_analysis', 'checkin_reminder'));
+
+CREATE OR REPLACE FUNCTION public.client_next_checkin_due(p_from TIMESTAMPTZ, p_days INTEGER, p_weekday SMALLINT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_earliest DATE;
+BEGIN
+    IF p_from IS NULL OR p_days IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF p_weekday IS NULL THEN
+        RETURN p_from + make_interval(days => p_days);
+    END IF;
+
+    v_earliest := (p_from AT TIME ZONE 'UTC')::DATE + CEIL(p_days / 2.0)::INTEGER;
+    RETURN ((v_earliest + ((p_weekday - EXTRACT(DOW FROM v_earliest)::INTEGER + 7) % 7) + 1)::TIMESTAMP) AT TIME ZONE 'UTC';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_client_checkin_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.last_checkin_at IS NOT DISTINCT FROM OLD.last_checkin_at
+       AND NEW.checkin_cadence_days IS NOT DISTINCT FROM OLD.checkin_cadence_days
+       AND NEW.checkin_cadence_weekday IS NOT DISTINCT FROM OLD.checkin_cadence_weekday
+       AND NEW.onboarded_at IS NOT DISTINCT FROM OLD.onboarded_at THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.next_checkin_due_at := public.client_next_checkin_due(
+        COALESCE(NEW.last_checkin_at, NEW.onboarded_at, NEW.created_at),
+        NEW.checkin_cadence_days,
+        NEW.checkin_cadence_weekday
+    );
+
+    -- A new check-in starts a fresh period; so does a schedule change that is no longer overdue
+    IF TG_OP = 'INSERT'
+       OR NEW.last_checkin_at IS DISTINCT FROM OLD.last_checkin_at
+       OR NEW.next_checkin_due_at IS NULL
+       OR NEW.next_checkin_due_at > NOW() THEN
+        NEW.checkin_missed_at := NULL;
+        NEW.checkin_reminder_sent_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_client_checkin_due ON public.clients;
+CREATE TRIGGER set_client_checkin_due
+    BEFORE INSERT OR UPDATE ON public.clients
+    FOR EACH ROW EXECUTE FUNCTION public.set_client_checkin_due();
+
+CREATE OR REPLACE FUNCTION public.flag_missed_checkins()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_client RECORD;
+    v_recipient UUID;
+    v_flagged INTEGER := 0;
+BEGIN
+    FOR v_client IN
+        SELECT id, coach_id, assigned_coach_id, full_name, email, next_checkin_due_at, checkin_reminders_enabled
+        FROM clients
+        WHERE status = 'active'
+          AND checkin_missed_at IS NULL
+          AND next_checkin_due_at < NOW() - INTERVAL '12 hours'
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE clients
+        SET checkin_missed_at = NOW()
+        WHERE id = v_client.id;
+
+        v_recipient := coalesce(v_client.assigned_coach_id, v_client.coach_id);
+
+        INSERT INTO notifications (user_id, type, title, body, link)
+        SELECT
+            v_recipient,
+            'checkin_missed',
+            'Missed check-in',
+            format('%s''s check-in was due %s and hasn''t arrived.', v_client.full_name, to_char(v_client.next_checkin_due_at AT TIME ZONE 'UTC', 'Mon DD')),
+            '/client/' || v_client.id
+        WHERE EXISTS (SELECT 1 FROM user_profiles WHERE id = v_recipient);
+
+        IF v_client.checkin_reminders_enabled AND COALESCE(v_client.email, '') <> '' THEN
+            INSERT INTO jobs (job_type, coach_id, payload)
+            VALUES ('checkin_reminder', v_client.coach_id, jsonb_build_object('client_id', v_client.id));
+        END IF;
+
+        v_flagged := v_flagged + 1;
+    END LOOP;
+
+    RETURN v_flagged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.flag_missed_checkins() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.flag_missed_checkins() TO service_role;
+
+-- The missed check-ins factor measures against the schedule when one is set, instead of the
+-- interval inferred from history
+CREATE OR REPLACE FUNCTION public.client_expected_checkin_interval(
+    p_client_id UUID,
+    p_gap_count INTEGER,
+    p_median_gap NUMERIC,
+    OUT days NUMERIC,
+    OUT label TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+    SELECT checkin_cadence_days INTO days
+    FROM clients
+    WHERE id = p_client_id;
+
+    IF days IS NOT NULL THEN
+        label := 'expected';
+        RETURN;
+    END IF;
+
+    days := CASE
+        WHEN p_gap_count >= 2 THEN GREATEST(1, LEAST(p_median_gap, 60))
+        ELSE 7
+    END;
+    label := 'usually';
+END;
+$$;
+
+-- Recompute risk when the schedule changes as well as the status
+DROP TRIGGER IF EXISTS refresh_client_risk_on_status_change ON public.clients;
+CREATE TRIGGER refresh_client_risk_on_status_change
+    AFTER UPDATE OF status, checkin_cadence_days ON public.clients
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.checkin_cadence_days IS DISTINCT FROM NEW.checkin_cadence_days)
+    EXECUTE FUNCTION public.refresh_client_risk_on_status_change();
+
+-- Check hourly (re-running this migration updates the existing job)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'flag-missed-checkins',
+    '15 * * * *',
+    $$SELECT public.flag_missed_checkins()$$
+);
@@ -0,0 +1,78 @@
+/*
+  # Client self-service portal
+
+  1. New Tables
+    - `client_portal_tokens` - Portal credentials, each scoped to one client record
+      - `kind` - 'magic_link' (single use, emailed to the client) or 'session' (issued when a
+        magic link is opened, kept by the client's browser)
+      - `token_hash` - SHA-256 of the token; the token itself is never stored
+      - `used_at` - When a magic link was exchanged for a session
+      - `revoked_at` - Set when the client signs out or the coach revokes portal access
+      - `created_by` - Coach who sent the link; NULL when the client requested it
+
+  2. Changes
+    - `clients.portal_last_seen_at` - Last time the client used the portal
+
+  3. Security
+    - Clients are not Supabase Auth users; the `client-portal` function checks tokens and reads
+      and writes with the service role, only ever for the token's client
+    - The team can see and revoke portal access for their clients; a trigger stops them from
+      changing anything else on a token (un-revoking, extending it or moving it to another client)
+    - Sessions stop working once their client is no longer an active client of the same coach
+*/
+
+CREATE TABLE IF NOT EXISTS public.client_portal_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+    coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('magic_link', 'session')),
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_portal_tokens_client
+    ON public.client_portal_tokens(client_id, kind, created_at DESC);
+
+ALTER TABLE public.client_portal_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view client portal access" ON public.client_portal_tokens
+    FOR SELECT USING (public.has_team_access(coach_id));
+
+CREATE POLICY "Team members can revoke client portal access" ON public.client_portal_tokens
+    FOR UPDATE USING (public.has_team_access(coach_id))
+    WITH CHECK (public.has_team_access(coach_id));
+
+-- Coaches can only revoke; every other change is made by the client-portal function
+CREATE OR REPLACE FUNCTION public.guard_client_portal_token_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user NOT IN ('authenticated', 'anon') THEN
+        RETURN NEW;
+    END IF;
+
+    IF OLD.revoked_at IS NOT NULL OR NEW.revoked_at IS NULL
+       OR (to_jsonb(NEW) - 'revoked_at') IS DISTINCT FROM (to_jsonb(OLD) - 'revoked_at') THEN
+        RAISE EXCEPTION 'Portal access can only be revoked'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_client_portal_token_update ON public.client_portal_tokens;
+CREATE TRIGGER guard_client_portal_token_update
+    BEFORE UPDATE ON public.client_portal_tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_client_portal_token_update();
+
+ALTER TABLE public.clients
+    ADD COLUMN IF NOT EXISTS portal_last_seen_at TIMESTAMPTZ;
@@ -0,0 +1,148 @@
+/*
+  # Multi-column sorting and page positions for the client list
+
+  1. Changes to `search_clients_page`
+    - `p_sort` / `p_directions` - Ordered lists of sorts ('last_checkin', 'name', 'pending',
+      'risk') and their directions; later sorts break ties in earlier ones, then `id`
+    - `p_cursor_keys` - The `sort_keys` of the row to page from, one per sort, plus `p_cursor_id`
+    - `p_backward` - Return the page before the cursor row instead of the one after it
+      (rows still come back in display order)
+    - Every row now carries `sort_keys` (one per sort) and `position`, its 1-based place in
+      the full result, so the app can show page numbers for any cursor
+
+  2. Notes
+    - The keyset compares sort keys one at a time, so each sort can have its own direction
+    - Unknown sorts raise an error; repeating a sort has no effect
+    - The single-sort signature is dropped so callers don't hit an ambiguous overload
+*/
+
+DROP FUNCTION IF EXISTS public.search_clients_page(UUID, TEXT, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TEXT, TEXT, TEXT, UUID, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION public.search_clients_page(
+    p_coach_id UUID,
+    p_query TEXT DEFAULT NULL,
+    p_status TEXT DEFAULT NULL,
+    p_engagement TEXT DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_active_since TIMESTAMPTZ DEFAULT NULL,
+    p_sort TEXT[] DEFAULT ARRAY['last_checkin'],
+    p_directions TEXT[] DEFAULT ARRAY['desc'],
+    p_cursor_keys TEXT[] DEFAULT NULL,
+    p_cursor_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_assigned_coach_id UUID DEFAULT NULL,
+    p_backward BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    client JSONB,
+    pending_checkins BIGINT,
+    sort_keys TEXT[],
+    position BIGINT,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_sorts TEXT[] := '{}';
+    v_expressions TEXT[] := '{}';
+    v_order_by TEXT[] := '{}';
+    v_reverse_order_by TEXT[] := '{}';
+    v_after TEXT[] := '{}';
+    v_before TEXT[] := '{}';
+    v_ties TEXT := '';
+    v_position INTEGER;
+    v_ascending BOOLEAN;
+BEGIN
+    IF coalesce(array_length(p_sort, 1), 0) = 0 THEN
+        p_sort := ARRAY['last_checkin'];
+        p_directions := ARRAY['desc'];
+    END IF;
+
+    FOR i IN 1..array_length(p_sort, 1) LOOP
+        CONTINUE WHEN p_sort[i] = ANY(v_sorts);
+
+        v_sorts := v_sorts || p_sort[i];
+        v_position := array_length(v_sorts, 1);
+        v_ascending := lower(coalesce(p_directions[i], 'desc')) = 'asc';
+
+        -- Every sort is expressed as text that orders the same way as the underlying value,
+        -- so the keyset can compare them all the same way
+        v_expressions := v_expressions || CASE p_sort[i]
+            WHEN 'last_checkin' THEN 'to_char(coalesce(c.last_checkin_at, ''epoch''::TIMESTAMPTZ) AT TIME ZONE ''UTC'', ''YYYY-MM-DD"T"HH24:MI:SS.US'')'
+            WHEN 'name' THEN 'lower(c.full_name)'
+            WHEN 'pending' THEN 'lpad(coalesce(p.pending_checkins, 0)::TEXT, 10, ''0'')'
+            -- Unscored (paused and inactive) clients sort below every scored one
+            WHEN 'risk' THEN 'lpad(coalesce(c.risk_score + 1, 0)::TEXT, 3, ''0'')'
+        END;
+
+        IF v_expressions[v_position] IS NULL THEN
+            RAISE EXCEPTION 'Unknown client sort: %', p_sort[i];
+        END IF;
+
+        v_order_by := v_order_by || format('f.sort_keys[%s] %s', v_position, CASE WHEN v_ascending THEN 'ASC' ELSE 'DESC' END);
+        v_reverse_order_by := v_reverse_order_by || format('f.sort_keys[%s] %s', v_position, CASE WHEN v_ascending THEN 'DESC' ELSE 'ASC' END);
+        v_after := v_after || format('(%s f.sort_keys[%s] %s $7[%s])', v_ties, v_position, CASE WHEN v_ascending THEN '>' ELSE '<' END, v_position);
+        v_before := v_before || format('(%s f.sort_keys[%s] %s $7[%s])', v_ties, v_position, CASE WHEN v_ascending THEN '<' ELSE '>' END, v_position);
+        v_ties := v_ties || format('f.sort_keys[%s] = $7[%s] AND ', v_position, v_position);
+    END LOOP;
+
+    -- id breaks the remaining ties, in the direction of the last sort
+    v_order_by := v_order_by || format('f.id %s', CASE WHEN v_ascending THEN 'ASC' ELSE 'DESC' END);
+    v_reverse_order_by := v_reverse_order_by || format('f.id %s', CASE WHEN v_ascending THEN 'DESC' ELSE 'ASC' END);
+    v_after := v_after || format('(%s f.id %s $8)', v_ties, CASE WHEN v_ascending THEN '>' ELSE '<' END);
+    v_before := v_before || format('(%s f.id %s $8)', v_ties, CASE WHEN v_ascending THEN '<' ELSE '>' END);
+
+    RETURN QUERY EXECUTE format($query$
+        WITH pending AS (
+            SELECT ch.client_id, COUNT(*) AS pending_checkins
+            FROM checkins ch
+            WHERE ch.coach_id = $1 AND ch.status = 'pending_response'
+            GROUP BY ch.client_id
+        ),
+        keyed AS (
+            SELECT
+                to_jsonb(c) - 'search_vector' AS client,
+                coalesce(p.pending_checkins, 0) AS pending_checkins,
+                ARRAY[%1$s] AS sort_keys,
+                c.id
+            FROM clients c
+            LEFT JOIN pending p ON p.client_id = c.id
+            WHERE c.coach_id = $1
+              AND ($2::TEXT IS NULL OR $2 = '' OR
+                   c.search_vector @@ websearch_to_tsquery('english', $2) OR
+                   c.search_vector @@ websearch_to_tsquery('simple', $2) OR
+                   c.full_name ILIKE '%%' || $2 || '%%' OR
+                   c.email ILIKE '%%' || $2 || '%%')
+              AND ($3::TEXT IS NULL OR c.status = $3)
+              AND ($4::TEXT IS NULL OR c.engagement_level = $4)
+              AND ($5::TEXT[] IS NULL OR cardinality($5) = 0 OR c.tags @> $5)
+              AND ($6::TIMESTAMPTZ IS NULL OR c.last_checkin_at >= $6)
+              AND ($10::UUID IS NULL OR c.assigned_coach_id = $10)
+        ),
+        filtered AS (
+            SELECT f.*, ROW_NUMBER() OVER (ORDER BY %2$s) AS position
+            FROM keyed f
+        ),
+        page AS (
+            SELECT f.*
+            FROM filtered f
+            WHERE $7::TEXT[] IS NULL OR (%3$s)
+            ORDER BY %4$s
+            LIMIT $9
+        )
+        SELECT f.client, f.pending_checkins, f.sort_keys, f.position, (SELECT COUNT(*) FROM filtered) AS total_count
+        FROM page f
+        ORDER BY f.position
+    $query$,
+        array_to_string(v_expressions, ', '),
+        array_to_string(v_order_by, ', '),
+        array_to_string(CASE WHEN p_backward THEN v_before ELSE v_after END, ' OR '),
+        array_to_string(CASE WHEN p_backward THEN v_reverse_order_by ELSE v_order_by END, ', '))
+    USING p_coach_id, p_query, p_status, p_engagement, p_tags, p_active_since, p_cursor_keys, p_cursor_id, LEAST(GREATEST(p_limit, 1), 100), p_assigned_coach_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_clients_page(UUID, TEXT, TEXT, TEXT, TEXT[], TIMESTAMPTZ, TEXT[], TEXT[], TEXT[], UUID, INTEGER, UUID, BOOLEAN) TO authenticated;